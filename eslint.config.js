@@ -28,8 +28,8 @@ export default defineConfig([
         {
           patterns: [
             {
-              group: ['**/worker/**', '**/geometry/**'],
-              message: 'app/ must not import worker/ or geometry/.',
+              group: ['**/worker/**'],
+              message: 'app/ must not import worker/.',
             },
           ],
         },
@@ -73,6 +73,10 @@ export default defineConfig([
               group: ['three/*', 'replicad/*'],
               message: 'geometry/ must remain pure math.',
             },
+            {
+              group: ['**/app/**', '**/worker/**', '**/viewer/**'],
+              message: 'geometry/ is shared by app/ and worker/ and must not import either.',
+            },
           ],
         },
       ],
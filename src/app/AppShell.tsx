@@ -12,6 +12,7 @@ import { ViewToolbar } from './components/ViewToolbar'
 import { ViewerHost } from './components/ViewerHost'
 import { ViewportOverlay } from './components/ViewportOverlay'
 import { BoxPanel } from './panels/BoxPanel'
+import { ExportPanel } from './panels/ExportPanel'
 import { PartsListPanel } from './panels/PartsListPanel'
 import { SpaghettiPanel } from './panels/SpaghettiPanel'
 import { useAppStore } from './store/useAppStore'
@@ -284,6 +285,7 @@ const anchorTopLeftPos = useCallback((): FloatingPosition => {
           <Toolbar />
           <PartsListPanel />
           {inputMode === 'legacy' ? <BoxPanel /> : null}
+          <ExportPanel />
         </div>
       </aside>
       <section ref={viewportRef} className="ViewportArea">
@@ -0,0 +1,79 @@
+import { createAutosaveController, listRestorableSnapshots } from './spaghetti/project/autosave'
+import { createIndexedDbAutosaveStorage } from './spaghetti/project/autosaveIndexedDb'
+import { parseSpaghettiProject } from './spaghetti/project/projectFile'
+import { useSpaghettiStore } from './spaghetti/store/useSpaghettiStore'
+import { useAppStore } from './store/useAppStore'
+import { useAutosaveStore } from './store/autosaveStore'
+import { useUiPrefsStore } from './store/uiPrefsStore'
+
+let wired = false
+
+const createSessionId = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? `session-${crypto.randomUUID()}`
+    : `session-${String(Date.now())}-${Math.random().toString(36).slice(2, 10)}`
+
+const describeError = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error)
+
+export const bootstrapAutosave = (): void => {
+  if (wired) {
+    return
+  }
+  wired = true
+
+  const autosave = useAutosaveStore.getState()
+  const storage = createIndexedDbAutosaveStorage()
+  if (storage === null) {
+    autosave.setStatus('unavailable')
+    return
+  }
+
+  const sessionId = createSessionId()
+  const controller = createAutosaveController({
+    storage,
+    sessionId,
+    onSaved: (snapshot) => useAutosaveStore.getState().markSaved(snapshot.savedAt),
+    onError: (error) => useAutosaveStore.getState().markError(describeError(error)),
+  })
+
+  void storage
+    .list()
+    .then((snapshots) => {
+      // Unreadable snapshots (e.g. written by a newer build) are not offered.
+      useAutosaveStore
+        .getState()
+        .offerRestore(
+          listRestorableSnapshots(snapshots, sessionId).filter(
+            (snapshot) => parseSpaghettiProject(snapshot.project).ok,
+          ),
+        )
+    })
+    .catch((error: unknown) => {
+      useAutosaveStore.getState().markError(describeError(error))
+    })
+
+  // Selection, hover and other UI-only fields change often; only project content schedules a save.
+  const scheduleSave = () => {
+    controller.schedule(useAppStore.getState().getSpaghettiProject())
+  }
+  useSpaghettiStore.subscribe((state, previous) => {
+    if (state.graph !== previous.graph || state.edgeWaypoints !== previous.edgeWaypoints) {
+      scheduleSave()
+    }
+  })
+  useUiPrefsStore.subscribe((state, previous) => {
+    if (state.view !== previous.view) {
+      scheduleSave()
+    }
+  })
+
+  window.addEventListener('pagehide', () => {
+    void controller.flush()
+  })
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') {
+      void controller.flush()
+    }
+  })
+}
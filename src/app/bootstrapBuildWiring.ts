@@ -1,5 +1,7 @@
 import { buildDispatcher } from './buildDispatcher'
+import { downloadExportResult } from './exportDownload'
 import { LEGACY_BUILD_STATS_PART_ORDER } from '../shared/buildStatsKeys'
+import { getPartArtifactKey } from '../shared/buildTypes'
 import { selectChangedGeomParamIds, useAppStore } from './store/useAppStore'
 
 let wired = false
@@ -23,6 +25,21 @@ export const bootstrapBuildWiring = (): void => {
   buildDispatcher.setWorkerErrorHandler((error) => {
     useAppStore.getState().setWorkerError(error.message)
   })
+  buildDispatcher.setExportResultHandler(downloadExportResult)
+  buildDispatcher.setExportInputsProvider((quality) => {
+    const state = useAppStore.getState()
+    const payload = state.compileExportPayload(quality)
+    if (payload === null) {
+      return null
+    }
+    return {
+      payload,
+      selectedPartKey: state.selectedPartKey,
+      visiblePartKeys: state.parts
+        .map(getPartArtifactKey)
+        .filter((partKey) => state.partsVisibility[partKey] ?? true),
+    }
+  })
   buildDispatcher.setBuildInstancesProvider(() => {
     const state = useAppStore.getState()
     if (state.inputMode === 'spaghetti') {
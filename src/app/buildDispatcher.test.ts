@@ -1,12 +1,24 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { LEGACY_BUILD_STATS_PART_ORDER } from '../shared/buildStatsKeys'
+import { WORKER_PROTOCOL_VERSION } from './protocol'
 
 type WorkerMessageHandler = (event: MessageEvent<unknown>) => void
 
 class MockWorker {
+  public static instances: MockWorker[] = []
   public readonly postedMessages: unknown[] = []
   private readonly handlers = new Set<WorkerMessageHandler>()
 
+  public constructor() {
+    MockWorker.instances.push(this)
+  }
+
+  public emit(data: unknown): void {
+    for (const handler of this.handlers) {
+      handler({ data } as MessageEvent<unknown>)
+    }
+  }
+
   public addEventListener(type: string, handler: EventListenerOrEventListenerObject): void {
     if (type !== 'message' || typeof handler !== 'function') {
       return
@@ -21,6 +33,10 @@ class MockWorker {
     this.handlers.delete(handler as WorkerMessageHandler)
   }
 
+  public announceReady(protocolVersion = WORKER_PROTOCOL_VERSION): void {
+    this.emit({ type: 'worker/ready', protocolVersion })
+  }
+
   public postMessage(message: unknown): void {
     this.postedMessages.push(message)
   }
@@ -94,3 +110,289 @@ describe('BuildDispatcher build stats seeding', () => {
     dispatcher.dispose()
   })
 })
+
+describe('BuildDispatcher worker pool', () => {
+  const originalWorker = globalThis.Worker
+
+  beforeEach(() => {
+    vi.resetModules()
+    MockWorker.instances = []
+    globalThis.Worker = MockWorker as unknown as typeof Worker
+    vi.stubGlobal('navigator', { hardwareConcurrency: 3 })
+  })
+
+  afterEach(async () => {
+    try {
+      const module = await import('./buildDispatcher')
+      module.buildDispatcher.dispose()
+    } catch {
+      // Ignore cleanup failures from partially initialized modules.
+    }
+    vi.unstubAllGlobals()
+    globalThis.Worker = originalWorker
+  })
+
+  const multiPartPayload = () =>
+    ({
+      width: 1,
+      length: 2,
+      height: 3,
+      sp_featureStackIR: { schemaVersion: 1, parts: { 'cube#1': [], 'cube#2': [] } },
+    }) as unknown as { width: number; length: number; height: number }
+
+  const meshlessPart = (partKeyStr: string) => ({
+    id: 'cube',
+    label: partKeyStr,
+    kind: 'box',
+    params: { length: 1, width: 1, height: 1 },
+    partKeyStr,
+    partKey: { id: 'cube', instance: Number(partKeyStr.slice(-1)) },
+  })
+
+  it('shards parts across workers and merges their results once all shards answer', async () => {
+    const module = await import('./buildDispatcher')
+    const { useBuildStatsStore } = await import('./store/buildStatsStore')
+    module.buildDispatcher.dispose()
+    resetBuildStatsStore(useBuildStatsStore)
+    MockWorker.instances = []
+    const dispatcher = new module.BuildDispatcher()
+    const results: Array<{ seq: number; parts: Array<{ partKeyStr?: string }> }> = []
+    dispatcher.setBuildResultHandler((result) => results.push(result))
+    dispatcher.setBuildStatsPartKeysProvider(() => ['cube#1', 'cube#2', 'assembled'])
+    const [lead, other] = MockWorker.instances
+    expect(MockWorker.instances).toHaveLength(2)
+    lead.announceReady()
+    other.announceReady()
+
+    const seq = dispatcher.requestBuild(multiPartPayload())
+    expect(lead.postedMessages).toEqual([
+      expect.objectContaining({ type: 'build/request', seq, shard: { partKeys: ['cube#1'], lead: true } }),
+    ])
+    expect(other.postedMessages).toEqual([
+      expect.objectContaining({ type: 'build/request', seq, shard: { partKeys: ['cube#2'], lead: false } }),
+    ])
+
+    const progress = (partKey: string, hits: number) => ({
+      type: 'build/progress',
+      seq,
+      phase: 'parts',
+      partKey,
+      state: 'done',
+      cache: { hits, misses: 0, evictions: 0, entries: 2 },
+    })
+    other.emit(progress('cube#2', 1))
+    lead.emit(progress('cube#1', 2))
+    expect(useBuildStatsStore.getState().cacheCounts).toEqual({
+      hits: 3,
+      misses: 0,
+      evictions: 0,
+      entries: 4,
+    })
+
+    other.emit({ type: 'build/result', seq, parts: [meshlessPart('cube#2')] })
+    expect(results).toEqual([])
+    lead.emit({ type: 'build/result', seq, parts: [meshlessPart('cube#1')] })
+    expect(results.map((result) => result.parts.map((part) => part.partKeyStr))).toEqual([
+      ['cube#1', 'cube#2'],
+    ])
+    dispatcher.dispose()
+  })
+
+  it('cancels older work on workers left out of a newer request', async () => {
+    const module = await import('./buildDispatcher')
+    module.buildDispatcher.dispose()
+    MockWorker.instances = []
+    const dispatcher = new module.BuildDispatcher()
+    const [lead, other] = MockWorker.instances
+    lead.announceReady()
+    other.announceReady()
+
+    dispatcher.requestBuild(multiPartPayload())
+    const seq = dispatcher.requestBuild({ width: 1, length: 2, height: 3 })
+
+    expect(lead.postedMessages.at(-1)).toEqual(expect.objectContaining({ type: 'build/request', seq }))
+    expect(lead.postedMessages.at(-1)).not.toHaveProperty('shard')
+    expect(other.postedMessages.at(-1)).toEqual({ type: 'build/cancel', seq: seq - 1 })
+    dispatcher.dispose()
+  })
+
+  it('holds requests back until each worker has announced itself', async () => {
+    const module = await import('./buildDispatcher')
+    module.buildDispatcher.dispose()
+    MockWorker.instances = []
+    const dispatcher = new module.BuildDispatcher()
+    const [lead, other] = MockWorker.instances
+
+    const seq = dispatcher.requestBuild({ width: 1, length: 2, height: 3 })
+    expect(lead.postedMessages).toEqual([])
+
+    lead.announceReady()
+    expect(lead.postedMessages).toEqual([
+      expect.objectContaining({ type: 'build/request', seq }),
+    ])
+    expect(other.postedMessages).toEqual([])
+    other.announceReady()
+    expect(other.postedMessages).toEqual([{ type: 'build/cancel', seq: seq - 1 }])
+    dispatcher.dispose()
+  })
+
+  it('fails requests for a worker built against another protocol version', async () => {
+    const module = await import('./buildDispatcher')
+    const { useBuildStatsStore } = await import('./store/buildStatsStore')
+    module.buildDispatcher.dispose()
+    resetBuildStatsStore(useBuildStatsStore)
+    MockWorker.instances = []
+    const dispatcher = new module.BuildDispatcher()
+    const errors: Array<{ seq: number; op: string }> = []
+    dispatcher.setWorkerErrorHandler((error) => errors.push(error))
+    const [lead, other] = MockWorker.instances
+    other.announceReady()
+
+    const seq = dispatcher.requestBuild({ width: 1, length: 2, height: 3 })
+    lead.announceReady(WORKER_PROTOCOL_VERSION + 1)
+
+    expect(lead.postedMessages).toEqual([])
+    expect(errors).toEqual([
+      expect.objectContaining({ type: 'worker/error', seq, op: 'build' }),
+    ])
+    expect(useBuildStatsStore.getState().overallState).toBe('error')
+
+    dispatcher.requestAssemble({ width: 1, length: 2, height: 3 })
+    expect(lead.postedMessages).toEqual([])
+    expect(errors.map((error) => error.op)).toEqual(['build', 'assemble'])
+    dispatcher.dispose()
+  })
+
+  it('ignores worker messages that do not match the protocol', async () => {
+    const module = await import('./buildDispatcher')
+    module.buildDispatcher.dispose()
+    MockWorker.instances = []
+    const dispatcher = new module.BuildDispatcher()
+    const results: unknown[] = []
+    dispatcher.setBuildResultHandler((result) => results.push(result))
+    const [lead, other] = MockWorker.instances
+    lead.announceReady()
+    other.announceReady()
+
+    const seq = dispatcher.requestBuild({ width: 1, length: 2, height: 3 })
+    lead.emit({ type: 'build_result', seq, parts: [] })
+    lead.emit({ type: 'build/result', seq, parts: [{ kind: 'box' }] })
+    expect(results).toEqual([])
+
+    lead.emit({ type: 'build/result', seq, parts: [meshlessPart('cube#1')] })
+    expect(results).toHaveLength(1)
+    dispatcher.dispose()
+  })
+
+  it('sends exports to the lead worker and hands the result to the export handler', async () => {
+    const module = await import('./buildDispatcher')
+    const { useBuildStatsStore } = await import('./store/buildStatsStore')
+    module.buildDispatcher.dispose()
+    resetBuildStatsStore(useBuildStatsStore)
+    MockWorker.instances = []
+    const dispatcher = new module.BuildDispatcher()
+    const qualities: string[] = []
+    const exported: Array<{ filename: string }> = []
+    dispatcher.setExportInputsProvider((quality) => {
+      qualities.push(quality)
+      return {
+        payload: multiPartPayload(),
+        selectedPartKey: null,
+        visiblePartKeys: ['cube#2', 'assembled', 'cube#1'],
+      }
+    })
+    dispatcher.setExportResultHandler((result) => exported.push(result))
+    const [lead, other] = MockWorker.instances
+    lead.announceReady()
+    other.announceReady()
+
+    expect(
+      dispatcher.requestExport({ format: 'stl', target: 'selected', quality: 'export' }),
+    ).toBeNull()
+    expect(lead.postedMessages).toEqual([])
+
+    const seq = dispatcher.requestExport({ format: 'step', target: 'visible', quality: 'export' })
+    expect(qualities).toEqual(['export', 'export'])
+    expect(lead.postedMessages).toEqual([
+      expect.objectContaining({
+        type: 'export/request',
+        seq,
+        request: expect.objectContaining({
+          format: 'step',
+          scope: { kind: 'parts', partKeys: ['cube#1', 'cube#2'] },
+        }),
+      }),
+    ])
+    expect(other.postedMessages).toEqual([])
+    expect(useBuildStatsStore.getState()).toMatchObject({
+      activePhase: 'export',
+      overallState: 'exporting',
+      partOrder: ['cube#1', 'cube#2'],
+    })
+
+    lead.emit({
+      type: 'export/result',
+      seq,
+      payload: {
+        requestId: `export-${seq}`,
+        format: 'step',
+        filename: 'parahook-cube-1+cube-2.step',
+        dataBase64: '',
+      },
+    })
+    expect(exported.map((result) => result.filename)).toEqual(['parahook-cube-1+cube-2.step'])
+    expect(useBuildStatsStore.getState().overallState).toBe('idle')
+    dispatcher.dispose()
+  })
+
+  it('runs exports beside builds without cancelling either', async () => {
+    const module = await import('./buildDispatcher')
+    const { useBuildStatsStore } = await import('./store/buildStatsStore')
+    module.buildDispatcher.dispose()
+    resetBuildStatsStore(useBuildStatsStore)
+    MockWorker.instances = []
+    const dispatcher = new module.BuildDispatcher()
+    const built: number[] = []
+    const exported: string[] = []
+    dispatcher.setBuildResultHandler((result) => built.push(result.seq))
+    dispatcher.setExportResultHandler((result) => exported.push(result.requestId))
+    dispatcher.setExportInputsProvider(() => ({
+      payload: { width: 1, length: 2, height: 3 },
+      selectedPartKey: null,
+      visiblePartKeys: [],
+    }))
+    const [lead, other] = MockWorker.instances
+    lead.announceReady()
+    other.announceReady()
+
+    const buildSeq = dispatcher.requestBuild({ width: 1, length: 2, height: 3 })
+    const exportSeq = dispatcher.requestExport({
+      format: 'stl',
+      target: 'assembled',
+      quality: 'export',
+    })
+    expect(lead.postedMessages.map((message) => (message as { type: string }).type)).toEqual([
+      'build/request',
+      'export/request',
+    ])
+    expect(other.postedMessages).toEqual([{ type: 'build/cancel', seq: buildSeq - 1 }])
+
+    lead.emit({ type: 'build/result', seq: buildSeq, parts: [meshlessPart('cube#1')] })
+    expect(built).toEqual([buildSeq])
+    expect(useBuildStatsStore.getState().overallState).toBe('exporting')
+
+    lead.emit({
+      type: 'export/result',
+      seq: exportSeq,
+      payload: {
+        requestId: `export-${exportSeq}`,
+        format: 'stl',
+        filename: 'parahook-assembled.stl',
+        dataBase64: '',
+      },
+    })
+    expect(exported).toEqual([`export-${exportSeq}`])
+    expect(useBuildStatsStore.getState().overallState).toBe('idle')
+    dispatcher.dispose()
+  })
+})
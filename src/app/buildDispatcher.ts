@@ -1,8 +1,10 @@
+import { normalizeInstances } from '../shared/buildTypes'
 import {
-  isPartArtifact,
-  normalizeInstances,
-} from '../shared/buildTypes'
-import { LEGACY_BUILD_STATS_PART_ORDER } from '../shared/buildStatsKeys'
+  deriveExportBuildStatsKeys,
+  LEGACY_BUILD_STATS_PART_ORDER,
+  orderSpaghettiSourcePartKeys,
+} from '../shared/buildStatsKeys'
+import { SCHEMA_VERSION } from '../shared/constants'
 import type {
   AssembleRequest,
   AssembleResult,
@@ -10,129 +12,141 @@ import type {
   BuildProgress,
   BuildRequest,
   BuildResult,
+  CancelRequest,
+  ExportCancelRequest,
+  ExportRequestMessage,
+  GeometryCacheCounts,
   WorkerError,
+  WorkerInboundMessage,
 } from '../shared/buildTypes'
+import type { ExportFormat, ExportResult, ExportScope, StlEncoding } from '../shared/exportTypes'
+import {
+  mergeShardBuildResults,
+  planBuildShards,
+  resolveBuildPoolSize,
+  sumGeometryCacheCounts,
+} from './buildPool'
+import { parseWorkerOutboundMessage, WORKER_PROTOCOL_VERSION } from './protocol'
+import type { TessellationQuality } from './spaghetti/compiler/runtimeTessellation'
 import { useBuildStatsStore } from './store/buildStatsStore'
 
 type BuildResultHandler = (result: BuildResult) => void
 type AssembleResultHandler = (result: AssembleResult) => void
 type WorkerErrorHandler = (error: WorkerError) => void
+type ExportResultHandler = (result: ExportResult) => void
 type BuildInstances = {
   heelKickInstances?: number[]
   toeHookInstances?: number[]
 }
+// Build spread over several workers, answered once every shard has reported.
+type PendingShardedBuild = {
+  seq: number
+  workerIndices: number[]
+  resultsByWorker: Map<number, BuildResult>
+  cacheCountsByWorker: Map<number, GeometryCacheCounts>
+}
+// Handshake state of one pool worker. Requests wait in `queue` until its `worker/ready` arrives;
+// `protocolError` is set for good once the worker turns out to speak another protocol version.
+type WorkerConnection = {
+  ready: boolean
+  queue: WorkerInboundMessage[]
+  protocolError: string | null
+}
 
-const isRecord = (value: unknown): value is Record<string, unknown> =>
-  typeof value === 'object' && value !== null
+export type ExportTarget = 'selected' | 'visible' | 'assembled'
 
-const isStringArray = (value: unknown): value is string[] =>
-  Array.isArray(value) && value.every((item) => typeof item === 'string')
+export type ExportOptions = {
+  format: ExportFormat
+  target: ExportTarget
+  // Tessellation preset the export payload is compiled with.
+  quality: TessellationQuality
+  stlEncoding?: StlEncoding
+}
+
+// What an export is built from, read when it is requested.
+export type ExportInputs = {
+  payload: BoxParams
+  selectedPartKey: string | null
+  visiblePartKeys: string[]
+}
 
 const SIGNATURE_ENGINE_MODE = 'stub_box'
 const SIGNATURE_CONTROL_MODE = 'profile_editor'
 
-const isBuildResult = (value: unknown): value is BuildResult => {
-  if (!isRecord(value)) {
-    return false
+const requestOp = (message: WorkerInboundMessage): WorkerError['op'] | null => {
+  switch (message.type) {
+    case 'build/request':
+      return 'build'
+    case 'assemble/request':
+      return 'assemble'
+    case 'export/request':
+      return 'export'
+    default:
+      return null
   }
-  if (value.type !== 'build_result' || typeof value.seq !== 'number') {
-    return false
-  }
-  if (!Array.isArray(value.parts)) {
-    return false
-  }
-  if (value.changedParamIds !== undefined && !isStringArray(value.changedParamIds)) {
-    return false
-  }
-  return value.parts.every(isPartArtifact)
 }
 
-const isAssembleResult = (value: unknown): value is AssembleResult => {
-  if (!isRecord(value)) {
-    return false
+// Null when the target names no part, e.g. nothing is selected.
+const resolveExportScope = (target: ExportTarget, inputs: ExportInputs): ExportScope | null => {
+  if (target === 'assembled') {
+    return { kind: 'assembly' }
   }
-  if (
-    value.type !== 'assemble_result' ||
-    typeof value.seq !== 'number' ||
-    typeof value.signature !== 'string'
-  ) {
-    return false
-  }
-  if (!isRecord(value.assembled)) {
-    return false
-  }
-  return (
-    typeof value.assembled.width === 'number' &&
-    typeof value.assembled.length === 'number' &&
-    typeof value.assembled.height === 'number'
-  )
-}
-
-const isWorkerError = (value: unknown): value is WorkerError => {
-  if (!isRecord(value)) {
-    return false
+  if (target === 'selected') {
+    return inputs.selectedPartKey === null || inputs.selectedPartKey === 'assembled'
+      ? null
+      : { kind: 'part', partKey: inputs.selectedPartKey }
   }
-  return (
-    value.type === 'worker_error' &&
-    typeof value.seq === 'number' &&
-    (value.op === 'assemble' || value.op === 'build' || value.op === 'export') &&
-    typeof value.message === 'string'
+  const partKeys = orderSpaghettiSourcePartKeys(
+    inputs.visiblePartKeys.filter((partKey) => partKey !== 'assembled'),
   )
-}
-
-const isBuildProgress = (value: unknown): value is BuildProgress => {
-  if (!isRecord(value)) {
-    return false
-  }
-  if (
-    value.type !== 'build_progress' ||
-    typeof value.seq !== 'number' ||
-    typeof value.partKey !== 'string'
-  ) {
-    return false
-  }
-  const phaseValid = value.phase === 'parts' || value.phase === 'assemble' || value.phase === 'export'
-  const stateValid =
-    value.state === 'queued' ||
-    value.state === 'cache_hit' ||
-    value.state === 'building' ||
-    value.state === 'done' ||
-    value.state === 'error'
-  if (!phaseValid || !stateValid) {
-    return false
-  }
-  if (value.progress01 !== undefined && typeof value.progress01 !== 'number') {
-    return false
-  }
-  if (value.ms !== undefined && typeof value.ms !== 'number') {
-    return false
-  }
-  if (value.message !== undefined && typeof value.message !== 'string') {
-    return false
-  }
-  return true
+  return partKeys.length > 0 ? { kind: 'parts', partKeys } : null
 }
 
 export class BuildDispatcher {
-  private readonly worker: Worker
+  // Worker 0 leads: it runs assembles, unsharded builds and every part outside the feature stack.
+  private readonly workers: Worker[]
+  private readonly messageListeners: Array<(event: MessageEvent<unknown>) => void>
+  private readonly connections: WorkerConnection[]
+  private pendingShardedBuild: PendingShardedBuild | null = null
   private seqCounter = 0
   private latestRequestedSeq = 0
   private latestResolvedSeq = 0
+  // Exports run on their own lane beside builds: their seqs come from the same counter but only
+  // a newer export makes an export stale, and they never cancel or supersede builds.
+  private latestExportSeq = 0
+  private exportPending = false
+  // What builds and assembles are doing; shown again once a concurrent export has finished.
+  private buildLaneState: 'idle' | 'building' | 'assembling' = 'idle'
   private readonly pendingChangedParamIdsBySeq = new Map<number, string[]>()
   private getChangedParamIdsForNextBuild: (() => string[]) | null = null
   private getBuildStatsPartKeysForNextBuild: (() => string[]) | null = null
   private getBuildInstancesForNextBuild: (() => BuildInstances) | null = null
+  private getExportInputs: ((quality: TessellationQuality) => ExportInputs | null) | null = null
   private onBuildResult: BuildResultHandler = () => {}
   private onAssembleResult: AssembleResultHandler = () => {}
   private onWorkerError: WorkerErrorHandler = () => {}
+  private onExportResult: ExportResultHandler = () => {}
   private cachedAssembledSignature: string | null = null
   private hasCachedAssembled = false
 
   public constructor() {
-    this.worker = new Worker(new URL('../worker/worker.ts', import.meta.url), {
-      type: 'module',
+    const poolSize = resolveBuildPoolSize(
+      typeof navigator === 'undefined' ? undefined : navigator.hardwareConcurrency,
+    )
+    this.workers = Array.from(
+      { length: poolSize },
+      () =>
+        new Worker(new URL('../worker/worker.ts', import.meta.url), {
+          type: 'module',
+        }),
+    )
+    this.connections = this.workers.map(() => ({ ready: false, queue: [], protocolError: null }))
+    this.messageListeners = this.workers.map(
+      (_, workerIndex) => (event: MessageEvent<unknown>) => this.handleMessage(workerIndex, event),
+    )
+    this.workers.forEach((worker, workerIndex) => {
+      worker.addEventListener('message', this.messageListeners[workerIndex])
     })
-    this.worker.addEventListener('message', this.handleMessage)
   }
 
   public setBuildResultHandler(handler: BuildResultHandler): void {
@@ -147,6 +161,16 @@ export class BuildDispatcher {
     this.onWorkerError = handler
   }
 
+  public setExportResultHandler(handler: ExportResultHandler): void {
+    this.onExportResult = handler
+  }
+
+  public setExportInputsProvider(
+    provider: (quality: TessellationQuality) => ExportInputs | null,
+  ): void {
+    this.getExportInputs = provider
+  }
+
   public setChangedParamIdsProvider(provider: () => string[]): void {
     this.getChangedParamIdsForNextBuild = provider
   }
@@ -181,10 +205,11 @@ export class BuildDispatcher {
     this.prunePendingChangedParamIds(this.latestRequestedSeq)
 
     useBuildStatsStore.getState().resetStatsForSeq(seq, buildStatsPartKeys)
+    this.buildLaneState = 'building'
     useBuildStatsStore.getState().setOverallState('building')
 
     const message: BuildRequest = {
-      type: 'build',
+      type: 'build/request',
       seq,
       payload: params,
       ...(changedParamIds.length > 0 ? { changedParamIds } : {}),
@@ -195,7 +220,25 @@ export class BuildDispatcher {
             toeHookInstances,
           }),
     }
-    this.worker.postMessage(message)
+    const plan = planBuildShards(params, this.workers.length)
+    this.pendingShardedBuild =
+      plan.length > 1
+        ? {
+            seq,
+            workerIndices: plan.map((planned) => planned.workerIndex),
+            resultsByWorker: new Map(),
+            cacheCountsByWorker: new Map(),
+          }
+        : null
+    this.postToPool(
+      seq,
+      new Map(
+        plan.map(({ workerIndex, shard }) => [
+          workerIndex,
+          shard === undefined ? message : { ...message, shard },
+        ]),
+      ),
+    )
     return seq
   }
 
@@ -203,15 +246,49 @@ export class BuildDispatcher {
     const seq = ++this.seqCounter
     this.latestRequestedSeq = seq
 
-    useBuildStatsStore.getState().resetStatsForSeq(seq, ['assembled'])
+    useBuildStatsStore.getState().resetStatsForSeq(seq, ['assembled'], 'assemble')
+    this.buildLaneState = 'assembling'
     useBuildStatsStore.getState().setOverallState('assembling')
 
     const message: AssembleRequest = {
-      type: 'assemble',
+      type: 'assemble/request',
       seq,
       payload,
     }
-    this.worker.postMessage(message)
+    this.pendingShardedBuild = null
+    this.postToPool(seq, new Map([[0, message]]))
+    return seq
+  }
+
+  // Exports run on the lead worker, which rebuilds the payload before writing the file; builds in
+  // flight keep running. Returns null without contacting a worker when there is nothing to export.
+  public requestExport(options: ExportOptions): number | null {
+    const inputs = this.getExportInputs?.(options.quality) ?? null
+    const scope = inputs === null ? null : resolveExportScope(options.target, inputs)
+    if (inputs === null || scope === null) {
+      return null
+    }
+    const seq = ++this.seqCounter
+    this.latestExportSeq = seq
+    this.exportPending = true
+
+    useBuildStatsStore.getState().resetStatsForSeq(seq, deriveExportBuildStatsKeys(scope), 'export')
+    useBuildStatsStore.getState().setOverallState('exporting')
+
+    const message: ExportRequestMessage = {
+      type: 'export/request',
+      seq,
+      payload: inputs.payload,
+      request: {
+        schemaVersion: SCHEMA_VERSION,
+        requestId: `export-${seq}`,
+        format: options.format,
+        buildRequestId: String(seq),
+        scope,
+        ...(options.stlEncoding !== undefined ? { stlEncoding: options.stlEncoding } : {}),
+      },
+    }
+    this.post(0, message)
     return seq
   }
 
@@ -227,9 +304,9 @@ export class BuildDispatcher {
     }
 
     const seq = this.getCurrentStatsSeq()
-    useBuildStatsStore.getState().resetStatsForSeq(seq, ['assembled'])
+    useBuildStatsStore.getState().resetStatsForSeq(seq, ['assembled'], 'assemble')
     useBuildStatsStore.getState().applyProgress({
-      type: 'build_progress',
+      type: 'build/progress',
       seq,
       phase: 'assemble',
       partKey: 'assembled',
@@ -238,7 +315,7 @@ export class BuildDispatcher {
       ms: 0,
     })
     useBuildStatsStore.getState().applyProgress({
-      type: 'build_progress',
+      type: 'build/progress',
       seq,
       phase: 'assemble',
       partKey: 'assembled',
@@ -246,74 +323,226 @@ export class BuildDispatcher {
       progress01: 1,
       ms: 0,
     })
-    useBuildStatsStore.getState().setOverallState('idle')
+    this.settleOverallState()
     useBuildStatsStore.getState().triggerCacheHitPulse()
   }
 
+  // The worker answers with 'cancelled' progress rows for the parts it did not finish.
+  public cancelActiveBuild(): void {
+    const { overallState } = useBuildStatsStore.getState()
+    if (
+      overallState !== 'building' &&
+      overallState !== 'assembling' &&
+      overallState !== 'exporting'
+    ) {
+      return
+    }
+    if (this.exportPending) {
+      const message: ExportCancelRequest = { type: 'export/cancel', seq: this.latestExportSeq }
+      this.exportPending = false
+      this.post(0, message)
+    }
+    if (this.buildLaneState !== 'idle') {
+      const message: CancelRequest = {
+        type: 'build/cancel',
+        seq: this.latestRequestedSeq,
+      }
+      this.pendingChangedParamIdsBySeq.delete(this.latestRequestedSeq)
+      this.pendingShardedBuild = null
+      this.buildLaneState = 'idle'
+      this.workers.forEach((_, workerIndex) => this.post(workerIndex, message))
+    }
+    useBuildStatsStore.getState().setOverallState('idle')
+  }
+
   public dispose(): void {
-    this.worker.removeEventListener('message', this.handleMessage)
-    this.worker.terminate()
+    this.workers.forEach((worker, workerIndex) => {
+      worker.removeEventListener('message', this.messageListeners[workerIndex])
+      worker.terminate()
+    })
+  }
+
+  // Workers left out of a request are told to drop whatever older request they are still running.
+  private postToPool(
+    seq: number,
+    messagesByWorker: ReadonlyMap<number, BuildRequest | AssembleRequest>,
+  ): void {
+    this.workers.forEach((_, workerIndex) => {
+      const cancel: CancelRequest = { type: 'build/cancel', seq: seq - 1 }
+      this.post(workerIndex, messagesByWorker.get(workerIndex) ?? cancel)
+    })
   }
 
-  private readonly handleMessage = (event: MessageEvent<unknown>): void => {
+  private post(workerIndex: number, message: WorkerInboundMessage): void {
+    const connection = this.connections[workerIndex]
+    if (connection.protocolError !== null) {
+      this.rejectRequest(message, connection.protocolError)
+      return
+    }
+    if (!connection.ready) {
+      connection.queue.push(message)
+      return
+    }
+    this.workers[workerIndex].postMessage(message)
+  }
+
+  private handleWorkerReady(workerIndex: number, protocolVersion: number): void {
+    const connection = this.connections[workerIndex]
+    const queued = connection.queue
+    connection.queue = []
+    if (protocolVersion !== WORKER_PROTOCOL_VERSION) {
+      const protocolError =
+        `Build worker speaks protocol v${protocolVersion}, ` +
+        `expected v${WORKER_PROTOCOL_VERSION}. Reload the page.`
+      connection.protocolError = protocolError
+      queued.forEach((message) => this.rejectRequest(message, protocolError))
+      return
+    }
+    connection.ready = true
+    queued.forEach((message) => this.workers[workerIndex].postMessage(message))
+  }
+
+  // Requests that can never reach a worker fail as if the worker had reported the error.
+  private rejectRequest(message: WorkerInboundMessage, reason: string): void {
+    const op = requestOp(message)
+    if (op === null) {
+      return
+    }
+    this.handleWorkerError({ type: 'worker/error', seq: message.seq, op, message: reason })
+  }
+
+  // Shard progress carries that worker's cache counts; the store gets the total so far.
+  private withPooledCacheCounts(workerIndex: number, message: BuildProgress): BuildProgress {
+    const pending = this.pendingShardedBuild
+    if (message.cache === undefined || pending === null || pending.seq !== message.seq) {
+      return message
+    }
+    pending.cacheCountsByWorker.set(workerIndex, message.cache)
+    return { ...message, cache: sumGeometryCacheCounts(pending.cacheCountsByWorker.values()) }
+  }
+
+  // Null while other shards of the same build are still running.
+  private collectBuildResult(workerIndex: number, result: BuildResult): BuildResult | null {
+    const pending = this.pendingShardedBuild
+    if (pending === null || pending.seq !== result.seq) {
+      return result
+    }
+    pending.resultsByWorker.set(workerIndex, result)
+    if (pending.resultsByWorker.size < pending.workerIndices.length) {
+      return null
+    }
+    this.pendingShardedBuild = null
+    return mergeShardBuildResults(
+      pending.workerIndices.flatMap((index) => pending.resultsByWorker.get(index) ?? []),
+    )
+  }
+
+  private handleMessage(workerIndex: number, event: MessageEvent<unknown>): void {
+    const message = parseWorkerOutboundMessage(event.data)
+    if (message === null) {
+      return
+    }
     this.prunePendingChangedParamIds(this.latestRequestedSeq)
 
-    if (isBuildProgress(event.data)) {
-      if (this.isStale(event.data.seq)) {
+    if (message.type === 'worker/ready') {
+      this.handleWorkerReady(workerIndex, message.protocolVersion)
+      return
+    }
+
+    if (message.type === 'build/progress') {
+      const stale =
+        message.phase === 'export' ? this.isExportStale(message.seq) : this.isStale(message.seq)
+      if (stale) {
         return
       }
-      useBuildStatsStore.getState().applyProgress(event.data)
+      useBuildStatsStore
+        .getState()
+        .applyProgress(this.withPooledCacheCounts(workerIndex, message))
       return
     }
 
-    if (isBuildResult(event.data)) {
-      if (this.isStale(event.data.seq)) {
-        this.pendingChangedParamIdsBySeq.delete(event.data.seq)
+    if (message.type === 'build/result') {
+      if (this.isStale(message.seq)) {
+        this.pendingChangedParamIdsBySeq.delete(message.seq)
         return
       }
 
+      const result = this.collectBuildResult(workerIndex, message)
+      if (result === null) {
+        return
+      }
       const acceptedChangedParamIds = this.normalizeChangedParamIds(
-        event.data.changedParamIds ??
-          this.pendingChangedParamIdsBySeq.get(event.data.seq) ??
+        result.changedParamIds ??
+          this.pendingChangedParamIdsBySeq.get(result.seq) ??
           [],
       )
-      this.pendingChangedParamIdsBySeq.delete(event.data.seq)
-      this.latestResolvedSeq = event.data.seq
+      this.pendingChangedParamIdsBySeq.delete(result.seq)
+      this.latestResolvedSeq = result.seq
       this.onBuildResult({
-        ...event.data,
+        ...result,
         changedParamIds: acceptedChangedParamIds,
       })
-      useBuildStatsStore.getState().setOverallState('idle')
+      this.buildLaneState = 'idle'
+      this.settleOverallState()
       return
     }
 
-    if (isAssembleResult(event.data)) {
-      if (this.isStale(event.data.seq)) {
+    if (message.type === 'assemble/result') {
+      if (this.isStale(message.seq)) {
         return
       }
 
-      this.latestResolvedSeq = event.data.seq
-      this.cachedAssembledSignature = event.data.signature
+      this.latestResolvedSeq = message.seq
+      this.cachedAssembledSignature = message.signature
       this.hasCachedAssembled = true
-      this.onAssembleResult(event.data)
-      useBuildStatsStore.getState().setOverallState('idle')
+      this.onAssembleResult(message)
+      this.buildLaneState = 'idle'
+      this.settleOverallState()
       return
     }
 
-    if (isWorkerError(event.data)) {
-      if (this.isStale(event.data.seq)) {
-        if (event.data.op === 'build') {
-          this.pendingChangedParamIdsBySeq.delete(event.data.seq)
-        }
+    if (message.type === 'export/result') {
+      if (this.isExportStale(message.seq)) {
         return
       }
-      if (event.data.op === 'build') {
-        this.pendingChangedParamIdsBySeq.delete(event.data.seq)
+
+      this.exportPending = false
+      this.onExportResult(message.payload)
+      this.settleOverallState()
+      return
+    }
+
+    if (message.type === 'worker/error') {
+      this.handleWorkerError(message)
+    }
+  }
+
+  private handleWorkerError(error: WorkerError): void {
+    if (error.op === 'export') {
+      if (this.isExportStale(error.seq)) {
+        return
       }
-      this.latestResolvedSeq = event.data.seq
-      this.onWorkerError(event.data)
+      this.exportPending = false
+      this.onWorkerError(error)
       useBuildStatsStore.getState().setOverallState('error')
+      return
+    }
+    if (this.isStale(error.seq)) {
+      if (error.op === 'build') {
+        this.pendingChangedParamIdsBySeq.delete(error.seq)
+      }
+      return
+    }
+    if (error.op === 'build') {
+      this.pendingChangedParamIdsBySeq.delete(error.seq)
     }
+    if (this.pendingShardedBuild?.seq === error.seq) {
+      this.pendingShardedBuild = null
+    }
+    this.latestResolvedSeq = error.seq
+    this.buildLaneState = 'idle'
+    this.onWorkerError(error)
+    useBuildStatsStore.getState().setOverallState('error')
   }
 
   private isStale(seq: number): boolean {
@@ -326,6 +555,16 @@ export class BuildDispatcher {
     return false
   }
 
+  private isExportStale(seq: number): boolean {
+    return seq < this.latestExportSeq
+  }
+
+  private settleOverallState(): void {
+    useBuildStatsStore
+      .getState()
+      .setOverallState(this.exportPending ? 'exporting' : this.buildLaneState)
+  }
+
   private getCurrentStatsSeq(): number {
     if (this.latestRequestedSeq > 0) {
       return this.latestRequestedSeq
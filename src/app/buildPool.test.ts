@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import type { BoxParams, BuildResult, PartArtifact } from '../shared/buildTypes'
+import {
+  MAX_BUILD_WORKERS,
+  mergeShardBuildResults,
+  planBuildShards,
+  resolveBuildPoolSize,
+  sumGeometryCacheCounts,
+} from './buildPool'
+
+const payloadWithParts = (partKeys: string[], assembly: unknown[] = []): BoxParams =>
+  ({
+    width: 1,
+    length: 2,
+    height: 3,
+    sp_featureStackIR: {
+      schemaVersion: 1,
+      parts: Object.fromEntries(partKeys.map((partKey) => [partKey, []])),
+      assembly,
+    },
+  }) as unknown as BoxParams
+
+const boxPart = (partKeyStr: string): PartArtifact =>
+  ({
+    id: partKeyStr,
+    label: partKeyStr,
+    kind: 'box',
+    params: { length: 1, width: 1, height: 1 },
+    partKeyStr,
+  }) as unknown as PartArtifact
+
+describe('resolveBuildPoolSize', () => {
+  it('leaves one core to the UI thread and caps the pool', () => {
+    expect(resolveBuildPoolSize(undefined)).toBe(1)
+    expect(resolveBuildPoolSize(1)).toBe(1)
+    expect(resolveBuildPoolSize(3)).toBe(2)
+    expect(resolveBuildPoolSize(64)).toBe(MAX_BUILD_WORKERS)
+  })
+})
+
+describe('planBuildShards', () => {
+  it('keeps single-part, single-worker and assembly builds on the lead worker', () => {
+    expect(planBuildShards(payloadWithParts(['cube#1', 'cube#2']), 1)).toEqual([{ workerIndex: 0 }])
+    expect(planBuildShards(payloadWithParts(['cube']), 4)).toEqual([{ workerIndex: 0 }])
+    expect(
+      planBuildShards(payloadWithParts(['cube#1', 'cube#2'], [{ featureId: 'boolean-x' }]), 2),
+    ).toEqual([{ workerIndex: 0 }])
+  })
+
+  it('assigns parts to workers by part key and always includes the lead', () => {
+    const plan = planBuildShards(payloadWithParts(['cube#2', 'cube#1', 'cube#3']), 2)
+    expect(plan).toEqual([
+      { workerIndex: 0, shard: { partKeys: ['cube#1', 'cube#3'], lead: true } },
+      { workerIndex: 1, shard: { partKeys: ['cube#2'], lead: false } },
+    ])
+    expect(planBuildShards(payloadWithParts(['cube#1', 'cube#2', 'cube#3']), 2)).toEqual(plan)
+
+    const leadWithoutParts = planBuildShards(payloadWithParts(['cube#1', 'cube#2']), 3)
+    expect(leadWithoutParts).toEqual([
+      { workerIndex: 0, shard: { partKeys: [], lead: true } },
+      { workerIndex: 1, shard: { partKeys: ['cube#1', 'cube#2'], lead: false } },
+    ])
+  })
+})
+
+describe('mergeShardBuildResults', () => {
+  it('orders parts and diagnostics independently of shard arrival order', () => {
+    const lead: BuildResult = {
+      type: 'build/result',
+      seq: 4,
+      parts: [boxPart('heelKick#1'), boxPart('cube#1')],
+      changedParamIds: ['sp_full'],
+    }
+    const other: BuildResult = {
+      type: 'build/result',
+      seq: 4,
+      parts: [boxPart('cube#2'), boxPart('baseplate')],
+      diagnostics: [
+        { partKey: 'cube#2', featureId: 'extrude-1', reason: 'missing_profile', message: 'x' },
+        { partKey: 'baseplate', featureId: 'extrude-1', reason: 'missing_profile', message: 'y' },
+      ],
+    }
+
+    const merged = mergeShardBuildResults([lead, other])
+    expect(merged.parts.map((part) => part.partKeyStr)).toEqual([
+      'baseplate',
+      'cube#1',
+      'cube#2',
+      'heelKick#1',
+    ])
+    expect(merged.diagnostics?.map((diagnostic) => diagnostic.partKey)).toEqual([
+      'baseplate',
+      'cube#2',
+    ])
+    expect(merged.changedParamIds).toEqual(['sp_full'])
+    expect(mergeShardBuildResults([other, lead]).parts).toEqual(merged.parts)
+    expect(mergeShardBuildResults([lead])).toBe(lead)
+  })
+
+  it('sums per-worker cache counts', () => {
+    expect(
+      sumGeometryCacheCounts([
+        { hits: 1, misses: 2, evictions: 0, entries: 3 },
+        { hits: 4, misses: 0, evictions: 1, entries: 5 },
+      ]),
+    ).toEqual({ hits: 5, misses: 2, evictions: 1, entries: 8 })
+  })
+})
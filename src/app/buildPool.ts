@@ -0,0 +1,98 @@
+import {
+  compareRuntimeDiagnostics,
+  compareSpaghettiSourcePartKeys,
+  deriveFeatureStackPartKeysFromProfilePatch,
+  hasFeatureStackAssembly,
+} from '../shared/buildStatsKeys'
+import {
+  getPartArtifactKey,
+  type BoxParams,
+  type BuildResult,
+  type BuildShard,
+  type GeometryCacheCounts,
+} from '../shared/buildTypes'
+
+// Upper bound on build workers; each one keeps its own geometry cache.
+export const MAX_BUILD_WORKERS = 4
+
+export type PlannedBuildShard = {
+  workerIndex: number
+  // Absent when the whole build runs on one worker.
+  shard?: BuildShard
+}
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {}
+
+// One core stays with the UI thread.
+export const resolveBuildPoolSize = (hardwareConcurrency: number | undefined): number =>
+  hardwareConcurrency !== undefined && Number.isFinite(hardwareConcurrency) && hardwareConcurrency > 1
+    ? Math.min(MAX_BUILD_WORKERS, Math.floor(hardwareConcurrency) - 1)
+    : 1
+
+// FNV-1a, so a part lands on the same worker (and its geometry cache) build after build.
+const hashPartKey = (partKey: string): number => {
+  let hash = 0x811c9dc5
+  for (let index = 0; index < partKey.length; index += 1) {
+    hash = Math.imul(hash ^ partKey.charCodeAt(index), 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Worker 0 leads: it always takes part, building everything outside the feature stack. Builds
+// with cross-part assembly booleans stay on the lead worker.
+export const planBuildShards = (payload: BoxParams, poolSize: number): PlannedBuildShard[] => {
+  const profilePatch = asRecord(payload)
+  const partKeys = deriveFeatureStackPartKeysFromProfilePatch(profilePatch)
+  if (poolSize <= 1 || partKeys.length < 2 || hasFeatureStackAssembly(profilePatch)) {
+    return [{ workerIndex: 0 }]
+  }
+  const partKeysByWorker = new Map<number, string[]>([[0, []]])
+  for (const partKey of partKeys) {
+    const workerIndex = hashPartKey(partKey) % poolSize
+    partKeysByWorker.set(workerIndex, [...(partKeysByWorker.get(workerIndex) ?? []), partKey])
+  }
+  if (partKeysByWorker.size === 1) {
+    return [{ workerIndex: 0 }]
+  }
+  return [...partKeysByWorker.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([workerIndex, shardPartKeys]) => ({
+      workerIndex,
+      shard: { partKeys: shardPartKeys, lead: workerIndex === 0 },
+    }))
+}
+
+// Shards own disjoint parts; parts and diagnostics are re-sorted so the merged result does not
+// depend on which worker answered first. A single result already carries diagnostics in
+// `compareRuntimeDiagnostics` order from the worker.
+export const mergeShardBuildResults = (results: readonly BuildResult[]): BuildResult => {
+  if (results.length === 1) {
+    return results[0]
+  }
+  const [first] = results
+  const parts = results
+    .flatMap((result) => result.parts)
+    .sort((a, b) => compareSpaghettiSourcePartKeys(getPartArtifactKey(a), getPartArtifactKey(b)))
+  const diagnostics = results.flatMap((result) => result.diagnostics ?? []).sort(compareRuntimeDiagnostics)
+  return {
+    type: 'build/result',
+    seq: first.seq,
+    parts,
+    ...(first.changedParamIds !== undefined ? { changedParamIds: first.changedParamIds } : {}),
+    ...(diagnostics.length > 0 ? { diagnostics } : {}),
+  }
+}
+
+export const sumGeometryCacheCounts = (
+  counts: Iterable<GeometryCacheCounts>,
+): GeometryCacheCounts => {
+  const total: GeometryCacheCounts = { hits: 0, misses: 0, evictions: 0, entries: 0 }
+  for (const count of counts) {
+    total.hits += count.hits
+    total.misses += count.misses
+    total.evictions += count.evictions
+    total.entries += count.entries
+  }
+  return total
+}
@@ -1,5 +1,7 @@
+import { buildDispatcher } from '../buildDispatcher'
 import { useBuildStatsStore } from '../store/buildStatsStore'
 import { partKeyStrToLabel } from '../parts/partKeyResolver'
+import { useSpaghettiStore } from '../spaghetti/store/useSpaghettiStore'
 
 const stateLabel = (state: string): string => {
   switch (state) {
@@ -12,17 +14,40 @@ const stateLabel = (state: string): string => {
 
 export function BuildStatsDrawer() {
   const activeSeq = useBuildStatsStore((state) => state.activeSeq)
+  const activePhase = useBuildStatsStore((state) => state.activePhase)
   const overallState = useBuildStatsStore((state) => state.overallState)
   const partOrder = useBuildStatsStore((state) => state.partOrder)
   const partStatsByKey = useBuildStatsStore((state) => state.partStatsByKey)
+  const cacheCounts = useBuildStatsStore((state) => state.cacheCounts)
+  const runtimeDiagnostics = useSpaghettiStore((state) => state.runtimeDiagnostics)
 
   return (
     <section className="V15Panel BuildStatsDrawer">
       <div className="BuildStatsHeader">
         <span className="BuildStatsTitle">Build Stats</span>
         <span className="BuildStatsMeta">Seq: {activeSeq ?? '-'}</span>
+        {overallState === 'building' ||
+        overallState === 'assembling' ||
+        overallState === 'exporting' ? (
+          <button
+            type="button"
+            className="BuildStatsCancel"
+            onClick={() => buildDispatcher.cancelActiveBuild()}
+          >
+            Cancel
+          </button>
+        ) : null}
       </div>
       <div className="BuildStatsMeta">State: {overallState}</div>
+      {activePhase !== null ? (
+        <div className="BuildStatsMeta">Phase: {activePhase}</div>
+      ) : null}
+      {cacheCounts !== null ? (
+        <div className="BuildStatsMeta">
+          Geometry cache: {cacheCounts.hits} hit / {cacheCounts.misses} miss /{' '}
+          {cacheCounts.evictions} evicted ({cacheCounts.entries} stored)
+        </div>
+      ) : null}
 
       <div className="BuildStatsRows">
         {partOrder.map((partKey) => {
@@ -38,7 +63,9 @@ export function BuildStatsDrawer() {
                 ? stats.progress01 ?? 0.3
                 : stats.state === 'error'
                   ? 1
-                  : 0
+                  : stats.state === 'cancelled'
+                    ? stats.progress01 ?? 0
+                    : 0
           const width = `${Math.round(progress * 100)}%`
           const indeterminate = stats.state === 'building' && stats.progress01 === null
 
@@ -70,6 +97,26 @@ export function BuildStatsDrawer() {
           )
         })}
       </div>
+
+      {runtimeDiagnostics.length > 0 ? (
+        <div className="BuildStatsDiagnostics">
+          <div className="BuildStatsMeta">Runtime diagnostics: {runtimeDiagnostics.length}</div>
+          {runtimeDiagnostics.map((diagnostic) => (
+            <div
+              className="BuildStatsDiagnostic"
+              key={`${diagnostic.partKey}|${diagnostic.featureId}|${diagnostic.reason}`}
+            >
+              <div className="BuildStatsRowTop">
+                <span className="BuildStatsPartName">{partKeyStrToLabel(diagnostic.partKey)}</span>
+                <span className="BuildStatsDiagnosticFeature">{diagnostic.featureId}</span>
+              </div>
+              <div className="BuildStatsMessage">
+                {diagnostic.reason}: {diagnostic.message}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : null}
     </section>
   )
 }
@@ -13,7 +13,8 @@ export function TitleStatusBar() {
   const overallProgress01 = useBuildStatsStore(selectOverallProgress01)
   const hasDeterminateProgress = useBuildStatsStore(selectHasDeterminateProgress)
 
-  const shouldShowProgress = overallState === 'building' || overallState === 'assembling'
+  const shouldShowProgress =
+    overallState === 'building' || overallState === 'assembling' || overallState === 'exporting'
   const isIndeterminate = shouldShowProgress && !hasDeterminateProgress
   const progressWidth = shouldShowProgress ? `${Math.round(overallProgress01 * 100)}%` : '0%'
 
@@ -0,0 +1,12 @@
+// Saves a blob through a temporary anchor. Some browsers ignore clicks on detached anchors, and
+// revoking the URL in the same task can cancel the download before it starts.
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob)
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = fileName
+  document.body.appendChild(anchor)
+  anchor.click()
+  anchor.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
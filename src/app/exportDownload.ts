@@ -0,0 +1,20 @@
+import { downloadBlob } from './downloadBlob'
+import type { ExportFormat, ExportResult } from '../shared/exportTypes'
+
+// Browser side of exports: the worker returns the file as base64, which is saved as a download
+// under the filename the worker derived from the exported part keys.
+
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  stl: 'model/stl',
+  step: 'model/step',
+}
+
+const decodeBase64 = (dataBase64: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(dataBase64), (char) => char.charCodeAt(0))
+
+export const downloadExportResult = (result: ExportResult): void => {
+  const blob = new Blob([decodeBase64(result.dataBase64)], {
+    type: EXPORT_MIME_TYPES[result.format],
+  })
+  downloadBlob(blob, result.filename)
+}
@@ -0,0 +1,92 @@
+import { useState } from 'react'
+import { buildDispatcher, type ExportOptions, type ExportTarget } from '../buildDispatcher'
+import { useBuildStatsStore } from '../store/buildStatsStore'
+import type { ExportFormat } from '../../shared/exportTypes'
+import type { TessellationQuality } from '../spaghetti/compiler/runtimeTessellation'
+
+const TARGET_LABELS: Record<ExportTarget, string> = {
+  selected: 'Selected part',
+  visible: 'Visible parts',
+  assembled: 'Assembled',
+}
+
+export function ExportPanel() {
+  const overallState = useBuildStatsStore((state) => state.overallState)
+  const [options, setOptions] = useState<ExportOptions>({
+    format: 'stl',
+    target: 'selected',
+    quality: 'export',
+  })
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const busy =
+    overallState === 'building' || overallState === 'assembling' || overallState === 'exporting'
+
+  const setOption = <K extends keyof ExportOptions>(key: K, value: ExportOptions[K]) => {
+    setOptions((current) => ({ ...current, [key]: value }))
+    setNotice(null)
+  }
+
+  const requestExport = () => {
+    const seq = buildDispatcher.requestExport(options)
+    setNotice(seq === null ? `Nothing to export: ${TARGET_LABELS[options.target].toLowerCase()}.` : null)
+  }
+
+  return (
+    <section className="V15Panel">
+      <details className="V15PanelCollapsible">
+        <summary className="V15PanelSummary">
+          <h3 className="V15PanelTitle">Export</h3>
+        </summary>
+        <div className="MiniFieldGrid">
+          <label>
+            Format
+            <select
+              value={options.format}
+              onChange={(event) => setOption('format', event.target.value as ExportFormat)}
+            >
+              <option value="stl">STL</option>
+              <option value="step">STEP</option>
+            </select>
+          </label>
+          <label>
+            Scope
+            <select
+              value={options.target}
+              onChange={(event) => setOption('target', event.target.value as ExportTarget)}
+            >
+              {(Object.keys(TARGET_LABELS) as ExportTarget[]).map((target) => (
+                <option key={target} value={target}>
+                  {TARGET_LABELS[target]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Quality
+            <select
+              value={options.quality}
+              onChange={(event) =>
+                setOption('quality', event.target.value as TessellationQuality)
+              }
+            >
+              <option value="export">Export (fine)</option>
+              <option value="preview">Preview (coarse)</option>
+            </select>
+          </label>
+        </div>
+        <div className="V15Wrap">
+          <button
+            type="button"
+            className="BuildPolicyButton"
+            onClick={requestExport}
+            disabled={busy}
+          >
+            {overallState === 'exporting' ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+        {notice !== null ? <div className="V15Meta">{notice}</div> : null}
+      </details>
+    </section>
+  )
+}
@@ -1,14 +1,31 @@
-import { useEffect, useRef, useState, type CSSProperties, type PointerEvent as ReactPointerEvent } from 'react'
+import {
+  useEffect,
+  useRef,
+  useState,
+  type ChangeEvent,
+  type CSSProperties,
+  type PointerEvent as ReactPointerEvent,
+} from 'react'
 import {
   createValidBaseplateHeelKickGraph,
   createCycleGraph,
   createValidBaseplateGraph,
   createValidBaseplateToeHookGraph,
 } from '../spaghetti/dev/sampleGraph'
+import type { ProjectParseResult } from '../spaghetti/project/projectFile'
+import {
+  downloadProjectFile,
+  forgetProjectFileHandle,
+  hasProjectFilePicker,
+  openProjectFile,
+  readProjectFile,
+  saveProjectFile,
+} from '../spaghetti/project/projectFileIo'
 import { SpaghettiEditor } from '../spaghetti/ui/SpaghettiEditor'
 import { SpaghettiEditorBoundary } from '../spaghetti/ui/SpaghettiEditorBoundary'
 import { useSpaghettiStore } from '../spaghetti/store/useSpaghettiStore'
 import { useAppStore } from '../store/useAppStore'
+import { useAutosaveStore } from '../store/autosaveStore'
 
 const describeDiagnosticContext = (diagnostic: {
   nodeId?: string
@@ -24,6 +41,8 @@ const describeDiagnosticContext = (diagnostic: {
   return refs.length > 0 ? ` (${refs.join(', ')})` : ''
 }
 
+const formatSnapshotTime = (savedAt: number): string => new Date(savedAt).toLocaleString()
+
 const minCanvasHeight = 100
 
 type ResizeState = {
@@ -38,16 +57,33 @@ export function SpaghettiPanel() {
   const buildPolicy = useAppStore((state) => state.buildPolicy)
   const spaghettiLastCompile = useAppStore((state) => state.spaghettiLastCompile)
   const setSpaghettiGraph = useAppStore((state) => state.setSpaghettiGraph)
+  const getSpaghettiProject = useAppStore((state) => state.getSpaghettiProject)
+  const loadSpaghettiProject = useAppStore((state) => state.loadSpaghettiProject)
+  const setUiMessage = useSpaghettiStore((state) => state.setUiMessage)
   const compileSpaghetti = useAppStore((state) => state.compileSpaghetti)
   const requestSpaghettiBuild = useAppStore((state) => state.requestSpaghettiBuild)
   const uiMessage = useSpaghettiStore((state) => state.uiMessage)
+  const graphHistory = useSpaghettiStore((state) => state.graphHistory)
+  const undo = useSpaghettiStore((state) => state.undo)
+  const redo = useSpaghettiStore((state) => state.redo)
   const panelRef = useRef<HTMLElement | null>(null)
   const titleRef = useRef<HTMLButtonElement | null>(null)
   const resizeStateRef = useRef<ResizeState | null>(null)
+  const uploadInputRef = useRef<HTMLInputElement | null>(null)
+  const autosaveStatus = useAutosaveStore((state) => state.status)
+  const autosaveLastSavedAt = useAutosaveStore((state) => state.lastSavedAt)
+  const autosaveError = useAutosaveStore((state) => state.lastError)
+  const restoreCandidates = useAutosaveStore((state) => state.restoreCandidates)
+  const restoreSnapshot = useAutosaveStore((state) => state.restoreSnapshot)
+  const dismissRestore = useAutosaveStore((state) => state.dismissRestore)
+  const [restoreSnapshotId, setRestoreSnapshotId] = useState<string | null>(null)
+  const selectedRestoreId = restoreSnapshotId ?? restoreCandidates[0]?.id ?? null
 
   const errors = spaghettiLastCompile?.diagnostics.errors ?? []
   const warnings = spaghettiLastCompile?.diagnostics.warnings ?? []
   const topoLength = spaghettiLastCompile?.evaluation?.topoOrder.length ?? 0
+  const nextUndo = graphHistory.undoStack[graphHistory.undoStack.length - 1]
+  const nextRedo = graphHistory.redoStack[graphHistory.redoStack.length - 1]
   const canBuild =
     spaghettiLastCompile?.ok === true &&
     spaghettiLastCompile.buildInputs !== undefined
@@ -82,6 +118,70 @@ export function SpaghettiPanel() {
     }
   }, [canvasHeight])
 
+  const applyProjectResult = (result: ProjectParseResult, source: string) => {
+    if (!result.ok) {
+      setUiMessage({ level: 'error', text: `Could not load ${source}: ${result.error}` })
+      return
+    }
+    loadSpaghettiProject(result.project)
+    setUiMessage({
+      level: 'info',
+      text:
+        result.migratedFrom === null
+          ? `Loaded ${source}.`
+          : `Loaded ${source} (upgraded from file version ${String(result.migratedFrom)}).`,
+    })
+  }
+
+  const loadSample = (graph: Parameters<typeof setSpaghettiGraph>[0]) => {
+    forgetProjectFileHandle()
+    setSpaghettiGraph(graph)
+  }
+
+  const handleRestoreSnapshot = () => {
+    if (selectedRestoreId === null) {
+      return
+    }
+    forgetProjectFileHandle()
+    if (restoreSnapshot(selectedRestoreId)) {
+      setUiMessage({ level: 'info', text: 'Restored autosaved session.' })
+    }
+  }
+
+  const handleOpenProject = () => {
+    void openProjectFile()
+      .then((result) => {
+        if (result !== null) {
+          applyProjectResult(result, 'project')
+        }
+      })
+      .catch((error: unknown) => {
+        setUiMessage({ level: 'error', text: `Open failed: ${String(error)}` })
+      })
+  }
+
+  const handleSaveProject = () => {
+    void saveProjectFile(getSpaghettiProject())
+      .then((fileName) => {
+        if (fileName !== null) {
+          setUiMessage({ level: 'info', text: `Saved ${fileName}.` })
+        }
+      })
+      .catch((error: unknown) => {
+        setUiMessage({ level: 'error', text: `Save failed: ${String(error)}` })
+      })
+  }
+
+  const handleUploadProject = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (file === undefined) {
+      return
+    }
+    forgetProjectFileHandle()
+    void readProjectFile(file).then((result) => applyProjectResult(result, file.name))
+  }
+
   const handleResizeStart = (event: ReactPointerEvent<HTMLButtonElement>) => {
     if (event.button !== 0) {
       return
@@ -159,7 +259,7 @@ export function SpaghettiPanel() {
               <summary className="SpaghettiHelpSummary">How To Use Spaghetti Editor</summary>
               <div className="SpaghettiHelpBody">
                 <div className="V15Meta">
-                  1. Load a sample graph or use Add Part Node in the editor header.
+                  1. Load a sample graph, upload a saved project, or use Add Part Node in the editor header.
                 </div>
                 <div className="V15Meta">
                   2. Drag nodes by clicking and dragging the node card.
@@ -179,30 +279,85 @@ export function SpaghettiPanel() {
                 <div className="V15Meta">
                   7. Click Build only after Compile is OK.
                 </div>
+                <div className="V15Meta">
+                  8. Undo with Ctrl+Z and redo with Ctrl+Shift+Z while the canvas has focus.
+                </div>
               </div>
             </details>
 
             <div className="V15Wrap">
-              <button type="button" onClick={() => setSpaghettiGraph(createValidBaseplateGraph())}>
+              <button type="button" onClick={() => loadSample(createValidBaseplateGraph())}>
                 Load Baseplate
               </button>
               <button
                 type="button"
-                onClick={() => setSpaghettiGraph(createValidBaseplateToeHookGraph())}
+                onClick={() => loadSample(createValidBaseplateToeHookGraph())}
               >
                 Load Baseplate - ToeHook
               </button>
               <button
                 type="button"
-                onClick={() => setSpaghettiGraph(createValidBaseplateHeelKickGraph())}
+                onClick={() => loadSample(createValidBaseplateHeelKickGraph())}
               >
                 Load Baseplate - HeelKick
               </button>
-              <button type="button" onClick={() => setSpaghettiGraph(createCycleGraph())}>
+              <button type="button" onClick={() => loadSample(createCycleGraph())}>
                 Load Cycle
               </button>
             </div>
 
+            {restoreCandidates.length > 0 ? (
+              <div className="V15SectionLabel">
+                Restore autosaved session
+                <div className="V15Wrap">
+                  <select
+                    value={selectedRestoreId ?? ''}
+                    onChange={(event) => setRestoreSnapshotId(event.target.value)}
+                  >
+                    {restoreCandidates.map((snapshot, index) => (
+                      <option key={snapshot.id} value={snapshot.id}>
+                        {index === 0 ? 'Last session' : 'Snapshot'} -{' '}
+                        {formatSnapshotTime(snapshot.savedAt)} -{' '}
+                        {snapshot.project.graph.nodes.length} node(s)
+                      </option>
+                    ))}
+                  </select>
+                  <button type="button" onClick={handleRestoreSnapshot}>
+                    Restore
+                  </button>
+                  <button type="button" onClick={dismissRestore}>
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            ) : null}
+
+            <div className="V15Wrap">
+              {hasProjectFilePicker() ? (
+                <>
+                  <button type="button" onClick={handleOpenProject}>
+                    Open Project
+                  </button>
+                  <button type="button" onClick={handleSaveProject}>
+                    Save Project
+                  </button>
+                </>
+              ) : null}
+              <button type="button" onClick={() => downloadProjectFile(getSpaghettiProject())}>
+                Download Project
+              </button>
+              <button type="button" onClick={() => uploadInputRef.current?.click()}>
+                Upload Project
+              </button>
+              <input
+                ref={uploadInputRef}
+                type="file"
+                accept=".json,application/json"
+                hidden
+                onChange={handleUploadProject}
+              />
+            </div>
+
             <div className="V15Wrap">
               <button type="button" onClick={compileSpaghetti}>
                 Compile
@@ -212,6 +367,27 @@ export function SpaghettiPanel() {
               </button>
             </div>
 
+            <div className="V15Wrap">
+              <button
+                type="button"
+                onClick={undo}
+                disabled={nextUndo === undefined}
+                title={nextUndo === undefined ? 'Nothing to undo' : `Undo ${nextUndo.label} (Ctrl+Z)`}
+              >
+                Undo
+              </button>
+              <button
+                type="button"
+                onClick={redo}
+                disabled={nextRedo === undefined}
+                title={
+                  nextRedo === undefined ? 'Nothing to redo' : `Redo ${nextRedo.label} (Ctrl+Shift+Z)`
+                }
+              >
+                Redo
+              </button>
+            </div>
+
             <div className="V15Meta">
               Status:{' '}
               {spaghettiLastCompile === null
@@ -222,6 +398,21 @@ export function SpaghettiPanel() {
             </div>
             <div className="V15Meta">Build policy: {buildPolicy} (manual compile/build in S3)</div>
             <div className="V15Meta">Topo order length: {topoLength}</div>
+            <div className="V15Meta">
+              Autosave:{' '}
+              {autosaveStatus === 'unavailable'
+                ? 'unavailable (no IndexedDB)'
+                : autosaveStatus === 'error'
+                  ? 'failed'
+                  : autosaveLastSavedAt === null
+                    ? 'waiting for changes'
+                    : `saved ${formatSnapshotTime(autosaveLastSavedAt)}`}
+            </div>
+            {autosaveError !== null ? <div className="V15Error">{autosaveError}</div> : null}
+            <div className="V15Meta">
+              History: {graphHistory.undoStack.length} undo, {graphHistory.redoStack.length} redo
+              {nextUndo !== undefined ? ` (last: ${nextUndo.label})` : ''}
+            </div>
             <div className="V15Meta">
               Diagnostics: {errors.length} error(s), {warnings.length} warning(s)
             </div>
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import { SCHEMA_VERSION } from '../shared/constants'
+import { parseWorkerInboundMessage, parseWorkerOutboundMessage } from './protocol'
+
+const meshPart = (indices: number[]) => ({
+  id: 'cube',
+  label: 'Cube',
+  kind: 'mesh',
+  params: { width: 1, length: 1, height: 1 },
+  partKeyStr: 'cube#1',
+  partKey: { id: 'cube', instance: 1 },
+  mesh: {
+    positions: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]),
+    indices: new Uint32Array(indices),
+  },
+})
+
+describe('worker protocol', () => {
+  it('keeps profile patch fields on build request payloads', () => {
+    const message = parseWorkerInboundMessage({
+      type: 'build/request',
+      seq: 3,
+      payload: { width: 1, length: 2, height: 3, sp_featureStackIR: { schemaVersion: 1 } },
+      shard: { partKeys: ['cube#1'], lead: true },
+    })
+
+    expect(message).toEqual({
+      type: 'build/request',
+      seq: 3,
+      payload: { width: 1, length: 2, height: 3, sp_featureStackIR: { schemaVersion: 1 } },
+      shard: { partKeys: ['cube#1'], lead: true },
+    })
+  })
+
+  it('rejects unknown message types and malformed requests', () => {
+    expect(parseWorkerInboundMessage({ type: 'build', seq: 1, payload: {} })).toBeNull()
+    expect(parseWorkerInboundMessage({ type: 'build/cancel', seq: -1 })).toBeNull()
+    expect(
+      parseWorkerInboundMessage({ type: 'assemble/request', seq: 1, payload: { width: 1 } }),
+    ).toBeNull()
+  })
+
+  it('defaults the export schema version', () => {
+    const message = parseWorkerInboundMessage({
+      type: 'export/request',
+      seq: 4,
+      payload: { width: 1, length: 2, height: 3 },
+      request: {
+        requestId: 'export-1',
+        format: 'stl',
+        buildRequestId: '3',
+        scope: { kind: 'parts', partKeys: ['cube#1', 'cube#2'] },
+      },
+    })
+
+    expect(message?.type === 'export/request' && message.request.schemaVersion).toBe(
+      SCHEMA_VERSION,
+    )
+  })
+
+  it('passes mesh buffers through build results untouched', () => {
+    const part = meshPart([0, 1, 2])
+    const message = parseWorkerOutboundMessage({
+      type: 'build/result',
+      seq: 5,
+      parts: [part],
+      diagnostics: [
+        { partKey: 'cube#1', featureId: 'f1', reason: 'missing_profile', message: 'No profile.' },
+      ],
+    })
+
+    expect(message?.type).toBe('build/result')
+    expect(message?.type === 'build/result' && message.parts[0]).toBe(part)
+    expect(
+      parseWorkerOutboundMessage({ type: 'build/result', seq: 5, parts: [meshPart([0, 1, 7])] }),
+    ).toBeNull()
+  })
+
+  it('accepts the ready handshake and cancelled progress rows', () => {
+    expect(parseWorkerOutboundMessage({ type: 'worker/ready', protocolVersion: 2 })).toEqual({
+      type: 'worker/ready',
+      protocolVersion: 2,
+    })
+    expect(
+      parseWorkerOutboundMessage({
+        type: 'build/progress',
+        seq: 6,
+        phase: 'parts',
+        partKey: 'cube#1',
+        state: 'cancelled',
+        cache: { hits: 1, misses: 0, evictions: 0, entries: 1 },
+      }),
+    ).not.toBeNull()
+    expect(
+      parseWorkerOutboundMessage({
+        type: 'build/progress',
+        seq: 6,
+        phase: 'parts',
+        partKey: 'cube#1',
+        state: 'stalled',
+      }),
+    ).toBeNull()
+  })
+})
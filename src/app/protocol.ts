@@ -1,102 +1,194 @@
 import { z } from 'zod'
+import {
+  isPartArtifact,
+  type AssembleRequest,
+  type AssembleResult,
+  type BuildProgress,
+  type BuildRequest,
+  type BuildResult,
+  type CancelRequest,
+  type ExportCancelRequest,
+  type ExportRequestMessage,
+  type ExportResultMessage,
+  type PartArtifact,
+  type WorkerError,
+  type WorkerInboundMessage,
+  type WorkerOutboundMessage,
+  type WorkerReady,
+} from '../shared/buildTypes'
 import { SCHEMA_VERSION } from '../shared/constants'
-import { productSchema } from '../shared/productSchema'
 
-const meshPayloadSchema = z.object({
-  vertices: z.array(z.number()),
-  indices: z.array(z.number()),
-})
+// Bumped whenever a message shape below changes; the worker announces it in `worker/ready` and
+// the app refuses to talk to a worker built against another version.
+export const WORKER_PROTOCOL_VERSION = 3
 
-const partArtifactSchema = z.object({
-  id: z.string().min(1),
-  label: z.string().min(1),
-  order: z.number().int().nonnegative(),
-})
+const seqSchema = z.number().int().nonnegative()
 
-export const buildRequestSchema = z.object({
-  schemaVersion: z.number().int().default(SCHEMA_VERSION),
-  product: productSchema,
-  profile: z.record(z.string(), z.unknown()),
-  jakeMode: z.boolean(),
+// Profile patches ride along with the box dimensions, so unknown keys must survive parsing.
+const buildPayloadSchema = z.looseObject({
+  width: z.number(),
+  length: z.number(),
+  height: z.number(),
 })
 
+const exportScopeSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('part'),
+    partKey: z.string().min(1),
+  }),
+  z.object({
+    kind: z.literal('parts'),
+    partKeys: z.array(z.string().min(1)),
+  }),
+  z.object({
+    kind: z.literal('assembly'),
+  }),
+])
+
+const exportFormatSchema = z.enum(['stl', 'step'])
+
 export const exportRequestSchema = z.object({
   schemaVersion: z.number().int().default(SCHEMA_VERSION),
   requestId: z.string().min(1),
-  format: z.enum(['stl', 'step']),
+  format: exportFormatSchema,
   buildRequestId: z.string().min(1),
+  scope: exportScopeSchema,
+  stlEncoding: z.enum(['binary', 'ascii']).optional(),
 })
 
 const buildRequestMessageSchema = z.object({
   type: z.literal('build/request'),
-  requestId: z.string().min(1),
-  payload: buildRequestSchema,
-})
+  seq: seqSchema,
+  payload: buildPayloadSchema,
+  changedParamIds: z.array(z.string()).optional(),
+  heelKickInstances: z.array(z.number()).optional(),
+  toeHookInstances: z.array(z.number()).optional(),
+  shard: z
+    .object({
+      partKeys: z.array(z.string()),
+      lead: z.boolean(),
+    })
+    .optional(),
+}) satisfies z.ZodType<BuildRequest>
+
+const assembleRequestMessageSchema = z.object({
+  type: z.literal('assemble/request'),
+  seq: seqSchema,
+  payload: buildPayloadSchema,
+}) satisfies z.ZodType<AssembleRequest>
 
 const exportRequestMessageSchema = z.object({
   type: z.literal('export/request'),
-  requestId: z.string().min(1),
-  payload: exportRequestSchema,
+  seq: seqSchema,
+  payload: buildPayloadSchema,
+  request: exportRequestSchema,
+}) satisfies z.ZodType<ExportRequestMessage>
+
+const cancelRequestMessageSchema = z.object({
+  type: z.literal('build/cancel'),
+  seq: seqSchema,
+}) satisfies z.ZodType<CancelRequest>
+
+const exportCancelRequestMessageSchema = z.object({
+  type: z.literal('export/cancel'),
+  seq: seqSchema,
+}) satisfies z.ZodType<ExportCancelRequest>
+
+// Mesh buffers are typed arrays, which zod cannot describe; the shared guard checks them.
+const partArtifactSchema = z.custom<PartArtifact>(isPartArtifact, 'Invalid part artifact.')
+
+const runtimeDiagnosticSchema = z.object({
+  partKey: z.string(),
+  featureId: z.string(),
+  reason: z.string(),
+  message: z.string(),
+})
+
+const geometryCacheCountsSchema = z.object({
+  hits: z.number(),
+  misses: z.number(),
+  evictions: z.number(),
+  entries: z.number(),
 })
 
+const workerReadyMessageSchema = z.object({
+  type: z.literal('worker/ready'),
+  protocolVersion: z.number().int(),
+}) satisfies z.ZodType<WorkerReady>
+
 const buildResultMessageSchema = z.object({
   type: z.literal('build/result'),
-  requestId: z.string().min(1),
-  payload: z.object({
-    requestId: z.string().min(1),
-    product: productSchema,
-    mesh: meshPayloadSchema,
-    parts: z.array(partArtifactSchema),
+  seq: seqSchema,
+  parts: z.array(partArtifactSchema),
+  changedParamIds: z.array(z.string()).optional(),
+  diagnostics: z.array(runtimeDiagnosticSchema).optional(),
+}) satisfies z.ZodType<BuildResult>
+
+const assembleResultMessageSchema = z.object({
+  type: z.literal('assemble/result'),
+  seq: seqSchema,
+  assembled: z.object({
+    width: z.number(),
+    length: z.number(),
+    height: z.number(),
   }),
-})
+  signature: z.string(),
+}) satisfies z.ZodType<AssembleResult>
 
 const exportResultMessageSchema = z.object({
   type: z.literal('export/result'),
-  requestId: z.string().min(1),
+  seq: seqSchema,
   payload: z.object({
     requestId: z.string().min(1),
-    format: z.enum(['stl', 'step']),
+    format: exportFormatSchema,
     filename: z.string().min(1),
     dataBase64: z.string(),
   }),
-})
-
-const buildDroppedMessageSchema = z.object({
-  type: z.literal('build/dropped'),
-  requestId: z.string().min(1),
-})
-
-const workerReadyMessageSchema = z.object({
-  type: z.literal('worker/ready'),
-})
+}) satisfies z.ZodType<ExportResultMessage>
 
 const workerErrorMessageSchema = z.object({
   type: z.literal('worker/error'),
-  requestId: z.string().nullable(),
-  error: z.string().min(1),
-})
+  seq: seqSchema,
+  op: z.enum(['assemble', 'build', 'export']),
+  message: z.string(),
+}) satisfies z.ZodType<WorkerError>
+
+const buildProgressMessageSchema = z.object({
+  type: z.literal('build/progress'),
+  seq: seqSchema,
+  phase: z.enum(['parts', 'assemble', 'export']),
+  partKey: z.string(),
+  state: z.enum(['queued', 'cache_hit', 'building', 'done', 'error', 'cancelled']),
+  progress01: z.number().optional(),
+  ms: z.number().optional(),
+  message: z.string().optional(),
+  cache: geometryCacheCountsSchema.optional(),
+}) satisfies z.ZodType<BuildProgress>
 
 export const workerInboundMessageSchema = z.discriminatedUnion('type', [
   buildRequestMessageSchema,
+  assembleRequestMessageSchema,
   exportRequestMessageSchema,
+  cancelRequestMessageSchema,
+  exportCancelRequestMessageSchema,
 ])
 
 export const workerOutboundMessageSchema = z.discriminatedUnion('type', [
+  workerReadyMessageSchema,
   buildResultMessageSchema,
+  assembleResultMessageSchema,
   exportResultMessageSchema,
-  buildDroppedMessageSchema,
-  workerReadyMessageSchema,
   workerErrorMessageSchema,
+  buildProgressMessageSchema,
 ])
 
-export type BuildRequestMessage = z.infer<typeof buildRequestMessageSchema>
-export type ExportRequestMessage = z.infer<typeof exportRequestMessageSchema>
-export type WorkerInboundMessage = z.infer<typeof workerInboundMessageSchema>
-export type WorkerOutboundMessage = z.infer<typeof workerOutboundMessageSchema>
-
-export const parseWorkerInboundMessage = (message: unknown): WorkerInboundMessage =>
-  workerInboundMessageSchema.parse(message)
+// Both parsers return null for anything that is not a well-formed message of this protocol.
+export const parseWorkerInboundMessage = (message: unknown): WorkerInboundMessage | null => {
+  const parsed = workerInboundMessageSchema.safeParse(message)
+  return parsed.success ? parsed.data : null
+}
 
-export const parseWorkerOutboundMessage = (
-  message: unknown,
-): WorkerOutboundMessage => workerOutboundMessageSchema.parse(message)
+export const parseWorkerOutboundMessage = (message: unknown): WorkerOutboundMessage | null => {
+  const parsed = workerOutboundMessageSchema.safeParse(message)
+  return parsed.success ? parsed.data : null
+}
@@ -7,8 +7,10 @@ import {
   type PointerEvent,
   type ReactNode,
 } from 'react'
-import type { PortSpec, SpaghettiNode } from '../schema/spaghettiTypes'
+import type { PortSpec, SpaghettiNode, Unit } from '../schema/spaghettiTypes'
+import { UNITS } from '../types/units'
 import type { PartRowOrderSection } from '../parts/partRowOrder'
+import type { ExpressionScope } from '../features/expressions'
 import {
   getFieldTree,
   isCompositeFieldNode,
@@ -124,6 +126,7 @@ type NodeViewProps = {
   outputEndpointIndexByRowId?: Record<string, number>
   outputEndpointCount?: number
   featureVirtualInputStateByPortId?: FeatureVirtualInputStateByPortId
+  expressionScope?: ExpressionScope
   inputCompositeState: NodeInputCompositeState
   compositeExpansionRevision: number
   getCompositeExpanded: (
@@ -138,6 +141,8 @@ type NodeViewProps = {
     expanded: boolean,
   ) => void
   primitiveNumberValue?: number
+  unitValue?: Unit
+  runtimeWarnings?: string[]
   selected: boolean
   getInputDropState: (payload: EndpointPayload) => PortDropState
   getOutputDropState: (payload: EndpointPayload) => PortDropState
@@ -154,6 +159,7 @@ type NodeViewProps = {
     direction: 'up' | 'down',
   ) => void
   onPrimitiveNumberValueChange: (nodeId: string, value: number) => void
+  onUnitChange?: (nodeId: string, unit: Unit) => void
   outputRowMinHeight: number
   onOutputRowMinHeightChange: (value: number) => void
   pinDotSize: number
@@ -274,11 +280,14 @@ function NodeViewComponent({
   outputEndpointIndexByRowId,
   outputEndpointCount,
   featureVirtualInputStateByPortId,
+  expressionScope,
   inputCompositeState,
   compositeExpansionRevision,
   getCompositeExpanded,
   setCompositeExpanded,
   primitiveNumberValue,
+  unitValue,
+  runtimeWarnings,
   selected,
   getInputDropState,
   getOutputDropState,
@@ -286,6 +295,7 @@ function NodeViewComponent({
   onDriverNumberChange,
   onMoveSectionRow,
   onPrimitiveNumberValueChange,
+  onUnitChange,
   outputRowMinHeight,
   onOutputRowMinHeightChange,
   pinDotSize,
@@ -1687,6 +1697,7 @@ function NodeViewComponent({
                   featureRowElementByIdRef.current[rowId] = element
                 }}
                 featureVirtualInputStateByPortId={featureVirtualInputStateByPortId}
+                expressionScope={expressionScope}
                 featureInputWiring={{
                   getInputDropState,
                   onRegisterPortElement,
@@ -1854,6 +1865,31 @@ function NodeViewComponent({
         <span className="SpaghettiNodeType">{node.type}</span>
       </header>
 
+      {runtimeWarnings !== undefined ? (
+        <ul className="SpaghettiNodeRuntimeWarnings" role="status">
+          {runtimeWarnings.map((warning) => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      ) : null}
+
+      {unitValue !== undefined && onUnitChange !== undefined && showEditors ? (
+        <label className="SpaghettiNodePresetRow">
+          <span>Unit</span>
+          <select
+            value={unitValue}
+            onChange={(event) => onUnitChange(node.nodeId, event.target.value as Unit)}
+            onPointerDown={(event) => event.stopPropagation()}
+          >
+            {UNITS.map((unit) => (
+              <option key={unit} value={unit}>
+                {unit}
+              </option>
+            ))}
+          </select>
+        </label>
+      ) : null}
+
       {showPresetPicker ? (
         <label className="SpaghettiNodePresetRow">
           <span>Preset</span>
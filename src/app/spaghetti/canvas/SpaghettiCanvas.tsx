@@ -18,6 +18,7 @@ import type {
   PortSpec,
   SpaghettiGraph,
   SpaghettiNode,
+  Unit,
 } from '../schema/spaghettiTypes'
 import { useSpaghettiStore, type ConnectionDragState } from '../store/useSpaghettiStore'
 import { validateGraph } from '../compiler/validateGraph'
@@ -71,6 +72,7 @@ import {
   type ConnectionContractResult,
   validateConnectionContract,
 } from '../contracts/endpoints'
+import { formatUnit } from '../types/units'
 
 type EndpointPayload = {
   nodeId: string
@@ -197,6 +199,13 @@ const isTopDragHandle = (target: EventTarget | null): boolean => {
   )
 }
 
+const isTextEntryTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) {
+    return false
+  }
+  return target.isContentEditable || target.closest('input, textarea, select') !== null
+}
+
 const pathsEqual = (a: string[] | undefined, b: string[] | undefined): boolean => {
   const normalizedA = normalizePath(a)
   const normalizedB = normalizePath(b)
@@ -346,7 +355,9 @@ const toCanvasConnectionReason = (
     case 'EDGE_TO_PATH_NOT_LEAF':
       return 'Connection endpoint must target leaf fields.'
     case 'EDGE_TYPE_MISMATCH':
-      return 'Port kinds or units do not match.'
+      return 'Port kinds do not match.'
+    case 'EDGE_UNIT_MISMATCH':
+      return `Cannot connect ${formatUnit(decision.details.fromUnit)} to ${formatUnit(decision.details.toUnit)}.`
     case 'EDGE_TO_PATH_DUPLICATE':
       return 'Connection already exists.'
     case 'EDGE_TO_MAX_CONNECTIONS': {
@@ -433,6 +444,8 @@ type DevProbeWindow = Window & { [DEV_PROBE_NODE_ID_KEY]?: string }
 
 export function SpaghettiCanvas() {
   const graph = useSpaghettiStore((state) => state.graph)
+  const partKeyByNodeId = useSpaghettiStore((state) => state.partKeyByNodeId)
+  const runtimeDiagnostics = useSpaghettiStore((state) => state.runtimeDiagnostics)
   const selectedNodeId = useSpaghettiStore((state) => state.selectedNodeId)
   const selectedEdgeId = useSpaghettiStore((state) => state.selectedEdgeId)
   const hoveredEdgeId = useSpaghettiStore((state) => state.hoveredEdgeId)
@@ -456,6 +469,8 @@ export function SpaghettiCanvas() {
   const setUiMessage = useSpaghettiStore((state) => state.setUiMessage)
   const clearUiMessage = useSpaghettiStore((state) => state.clearUiMessage)
   const setExtrudeDepth = useSpaghettiStore((state) => state.setExtrudeDepth)
+  const undo = useSpaghettiStore((state) => state.undo)
+  const redo = useSpaghettiStore((state) => state.redo)
 
   const stageRef = useRef<HTMLDivElement | null>(null)
   const viewportRef = useRef<HTMLDivElement | null>(null)
@@ -718,8 +733,10 @@ export function SpaghettiCanvas() {
       selectDiagnosticsVm({
         graph,
         evaluation,
+        runtimeDiagnostics,
+        partKeyByNodeId,
       }),
-    [evaluation, graph],
+    [evaluation, graph, partKeyByNodeId, runtimeDiagnostics],
   )
   const nodePos = graph.ui?.nodes ?? {}
   const nodeRenderDataById = useMemo(() => {
@@ -1883,6 +1900,18 @@ export function SpaghettiCanvas() {
     [applyGraphPatch, setExtrudeDepth],
   )
 
+  const handleUnitChange = useCallback(
+    (nodeId: string, unit: Unit) => {
+      applyGraphPatch((prev) => ({
+        ...prev,
+        nodes: prev.nodes.map((node) =>
+          node.nodeId === nodeId ? { ...node, params: { ...node.params, unit } } : node,
+        ),
+      }))
+    },
+    [applyGraphPatch],
+  )
+
   const handlePrimitiveNumberValueChange = useCallback(
     (nodeId: string, value: number) => {
       applyGraphPatch((prev) => ({
@@ -1928,6 +1957,20 @@ export function SpaghettiCanvas() {
         if ((event.key === 'Delete' || event.key === 'Backspace') && selectedEdgeId !== null) {
           event.preventDefault()
           handleDeleteSelectedEdge()
+          return
+        }
+        // Text fields keep their own undo; everywhere else Ctrl/Cmd+Z walks the graph history.
+        if (
+          (event.ctrlKey || event.metaKey) &&
+          event.key.toLowerCase() === 'z' &&
+          !isTextEntryTarget(event.target)
+        ) {
+          event.preventDefault()
+          if (event.shiftKey) {
+            redo()
+          } else {
+            undo()
+          }
         }
       }}
     >
@@ -2272,7 +2315,10 @@ export function SpaghettiCanvas() {
                 }
                 getCompositeExpanded={getCompositeExpanded}
                 setCompositeExpanded={setCompositeExpanded}
+                expressionScope={nodeVm?.expressionScope}
                 primitiveNumberValue={nodeVm?.primitiveNumberValue ?? 0}
+                unitValue={nodeVm?.unitValue}
+                runtimeWarnings={nodeVm?.runtimeWarnings}
                 selected={selectedNodeId === node.nodeId}
                 getInputDropState={getInputDropState}
                 getOutputDropState={getOutputDropState}
@@ -2288,6 +2334,7 @@ export function SpaghettiCanvas() {
                 onInputPointerEnter={handleInputPointerEnter}
                 onInputPointerLeave={handleInputPointerLeave}
                 onPrimitiveNumberValueChange={handlePrimitiveNumberValueChange}
+                onUnitChange={handleUnitChange}
                 outputRowMinHeight={outputRowMinHeight}
                 onOutputRowMinHeightChange={setOutputRowMinHeight}
                 pinDotSize={pinDotSize}
@@ -135,7 +135,7 @@ describe('feature virtual input resolver consistency', () => {
     expect(validatedValid.ok).toBe(true)
     expect(cheapInvalid.ok).toBe(false)
     expect(validatedInvalid.ok).toBe(false)
-    expect(validatedInvalid.errors.some((error) => error.code === 'EDGE_TYPE_MISMATCH')).toBe(
+    expect(validatedInvalid.errors.some((error) => error.code === 'EDGE_UNIT_MISMATCH')).toBe(
       true,
     )
   })
@@ -189,6 +189,31 @@ export function WireLayer({
         />
       ))}
 
+      {geometries.map((geometry) => {
+        const warning = edgeStatusById[geometry.edge.edgeId]?.warning
+        const midpoint = geometry.polyline[Math.floor(geometry.polyline.length / 2)]
+        if (warning === undefined || midpoint === undefined) {
+          return null
+        }
+        return (
+          <g
+            key={`warning-${geometry.edge.edgeId}`}
+            className="SpaghettiWireWarning"
+            transform={`translate(${midpoint.x} ${midpoint.y})`}
+            onMouseEnter={() => onEdgeHover(geometry.edge.edgeId)}
+            onMouseLeave={() => onEdgeHover(null)}
+            onClick={(event) => {
+              event.stopPropagation()
+              onEdgeSelect(geometry.edge.edgeId)
+            }}
+          >
+            <title>{warning}</title>
+            <circle r={7} />
+            <text y={3.5}>!</text>
+          </g>
+        )
+      })}
+
       {previewPath !== null ? (
         <path
           d={previewPath}
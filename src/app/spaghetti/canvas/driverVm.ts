@@ -1,3 +1,5 @@
+import { buildNodeExpressionScope } from '../features/driverVirtualPorts'
+import { resolveNumberExpression } from '../features/expressions'
 import { readFeatureStack } from '../features/featureSchema'
 import type { ExtrudeFeature, FeatureStack } from '../features/featureTypes'
 import type {
@@ -430,10 +432,14 @@ export const buildNodeDriverVm = (
     if (spec.featureParam.kind !== 'firstExtrudeDepth') {
       continue
     }
-    const depthValue =
-      firstExtrude !== undefined && Number.isFinite(firstExtrude.params.depth.value)
-        ? firstExtrude.params.depth.value
-        : 0
+    const resolvedDepth =
+      firstExtrude === undefined
+        ? Number.NaN
+        : resolveNumberExpression(
+            firstExtrude.params.depth,
+            buildNodeExpressionScope(node, options?.resolvedInputsByPortId, nodeDef),
+          )
+    const depthValue = Number.isFinite(resolvedDepth) ? resolvedDepth : 0
     drivers.push({
       kind: 'featureParam',
       rowId: buildDriverFeatureParamRowId(spec.featureParam.kind),
@@ -115,6 +115,20 @@ const outputPreviewNode = () => ({
   },
 })
 
+const rectangleSegments = (width: number, height: number) => {
+  const corners = [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height },
+  ]
+  return corners.map((a, index) => ({
+    kind: 'line2',
+    a,
+    b: corners[(index + 1) % corners.length],
+  }))
+}
+
 describe('compileSpaghettiGraph determinism', () => {
   it('returns stable output for identical graph input', () => {
     const graph: SpaghettiGraph = {
@@ -266,6 +280,7 @@ describe('compileSpaghettiGraph determinism', () => {
       {
         op: 'sketch',
         featureId: 'cube-sketch-1',
+        plane: 'XY',
         profilesResolved: [
           {
             area: 450,
@@ -277,6 +292,7 @@ describe('compileSpaghettiGraph determinism', () => {
               { x: 0, y: 15 },
               { x: 0, y: 0 },
             ],
+            segments: rectangleSegments(30, 15),
           },
         ],
       },
@@ -353,6 +369,64 @@ describe('compileSpaghettiGraph determinism', () => {
     expect(Object.keys(featureIr?.parts ?? {})).toEqual(['cube#1', 'cube#2'])
   })
 
+  it('hoists booleans with tools from other part nodes into the assembly payload', () => {
+    const withBoolean = (nodeId: string, sourceNodeId: string) => {
+      const node = cubeNode(nodeId)
+      const stack = node.params.featureStack as Array<{ type: string; outputs: { bodyId?: string } }>
+      const bodyId = stack.find((feature) => feature.type === 'extrude')?.outputs.bodyId ?? ''
+      return {
+        ...node,
+        params: {
+          ...node.params,
+          featureStack: [
+            ...stack,
+            {
+              type: 'boolean',
+              featureId: 'boolean-1',
+              inputs: {
+                targetBodyId: bodyId,
+                tools: [
+                  { bodyId, sourceNodeId },
+                  { bodyId, sourceNodeId: 'n-missing' },
+                ],
+              },
+              params: { operation: 'subtract' },
+              outputs: { bodyId: 'body-cut' },
+              uiState: { collapsed: false },
+            },
+          ],
+        },
+      }
+    }
+    const graph: SpaghettiGraph = {
+      schemaVersion: 1,
+      nodes: [withBoolean('n-cube-a', 'n-cube-b'), cubeNode('n-cube-b')],
+      edges: [],
+    }
+
+    const result = compileSpaghettiGraph(graph)
+    const featureIr = result.buildInputs?.resolvedShared?.sp_featureStackIR as
+      | {
+          parts: Record<string, Array<{ op: string }>>
+          assembly?: Array<{ partKey: string; tools: Array<{ partKey: string }> }>
+        }
+      | undefined
+
+    expect(featureIr?.parts['cube#1'].map((operation) => operation.op)).not.toContain('boolean')
+    expect(featureIr?.assembly).toEqual([
+      expect.objectContaining({
+        featureId: 'boolean-1',
+        partKey: 'cube#1',
+        operation: 'subtract',
+        tools: [{ partKey: 'cube#2', bodyId: expect.any(String) }],
+        bodyId: 'body-cut',
+      }),
+    ])
+    expect(result.diagnostics.warnings.map((warning) => warning.code)).toContain(
+      'BOOLEAN_TOOL_PART_MISSING',
+    )
+  })
+
   it('keeps untouched cube dimensions on seeded defaults when only one dimension is wired', () => {
     const graph: SpaghettiGraph = {
       schemaVersion: 1,
@@ -406,6 +480,7 @@ describe('compileSpaghettiGraph determinism', () => {
       {
         op: 'sketch',
         featureId: 'cube-sketch-1',
+        plane: 'XY',
         profilesResolved: [
           {
             area: 240,
@@ -417,6 +492,7 @@ describe('compileSpaghettiGraph determinism', () => {
               { x: 0, y: 12 },
               { x: 0, y: 0 },
             ],
+            segments: rectangleSegments(20, 12),
           },
         ],
       },
@@ -644,6 +720,87 @@ describe('compileSpaghettiGraph determinism', () => {
     expect(extrudeOp?.offsetResolved).toBe(0)
   })
 
+  it('resolves feature formulas against wire-driven part params and their driver offset', () => {
+    const graph: SpaghettiGraph = {
+      schemaVersion: 1,
+      nodes: [
+        {
+          nodeId: 'n-source-mm',
+          type: 'Test/NumberMmSource',
+          params: {
+            value: 80,
+          },
+        },
+        {
+          nodeId: 'n-baseplate',
+          type: 'Part/Baseplate',
+          params: {
+            ...getDefaultNodeParams('Part/Baseplate'),
+            widthMm: 50,
+            driverDrivenByParamId: { widthMm: true },
+            driverOffsetByParamId: { widthMm: 5 },
+            featureStack: [
+              {
+                type: 'extrude',
+                featureId: 'feature-depth-1',
+                inputs: {
+                  profileRef: null,
+                },
+                params: {
+                  depth: {
+                    kind: 'expr',
+                    source: 'widthMm / 5',
+                  },
+                  taper: {
+                    kind: 'lit',
+                    value: 0,
+                  },
+                  offset: {
+                    kind: 'lit',
+                    value: 0,
+                  },
+                },
+                outputs: {
+                  bodyId: 'body-1',
+                },
+                uiState: {
+                  collapsed: false,
+                },
+              },
+            ],
+          },
+        },
+      ],
+      edges: [
+        {
+          edgeId: 'e-width',
+          from: {
+            nodeId: 'n-source-mm',
+            portId: 'value',
+          },
+          to: {
+            nodeId: 'n-baseplate',
+            portId: 'in:drv:widthMm',
+          },
+        },
+      ],
+    }
+
+    const result = compileSpaghettiGraph(graph)
+
+    expect(result.ok).toBe(true)
+    const featureIr = result.buildInputs?.resolvedShared?.sp_featureStackIR as
+      | {
+          parts?: Record<string, Array<{ op: string; featureId: string; depthResolved?: number }>>
+        }
+      | undefined
+    const extrudeOp = (featureIr?.parts?.baseplate ?? []).find(
+      (op) => op.op === 'extrude' && op.featureId === 'feature-depth-1',
+    )
+    // (80mm wired + 5mm offset) / 5, not the stored 50mm.
+    expect(extrudeOp?.depthResolved).toBe(17)
+  })
+
   it('applies extrude taper/offset virtual wire overrides deterministically in compiled Feature Stack IR', () => {
     const graph: SpaghettiGraph = {
       schemaVersion: 1,
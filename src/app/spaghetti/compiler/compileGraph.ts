@@ -1,12 +1,25 @@
 import type { SpaghettiGraph } from '../schema/spaghettiTypes'
-import { compileFeatureStack, type FeatureStackIR } from '../features/compileFeatureStack'
+import {
+  compileFeatureStack,
+  type FeatureStackIR,
+  type IRSweepPath,
+} from '../features/compileFeatureStack'
+import type { BooleanOperation, Segment2, SketchPlane } from '../features/featureTypes'
+import { buildNodeExpressionScope } from '../features/driverVirtualPorts'
 import { getEffectiveFeatureStack } from '../features/featureDependencies'
 import { readFeatureStack } from '../features/featureSchema'
 import { applyFeatureVirtualInputOverrides } from '../features/featureVirtualPorts'
 import { getNodeDef } from '../registry/nodeRegistry'
 import type { SpaghettiDiagnostic } from './validateGraph'
 import { evaluateSpaghettiGraph } from './evaluateGraph'
-import { tessellateProfileLoop } from './runtimeTessellation'
+import {
+  TESSELLATION_PRESETS,
+  tessellatePath,
+  tessellateProfileLoop,
+  tessellateSpline3,
+  type TessellationQuality,
+  type TessellationTolerance,
+} from './runtimeTessellation'
 
 export type CompileSpaghettiGraphResult = {
   ok: boolean
@@ -31,6 +44,7 @@ export type CompileSpaghettiGraphResult = {
 type FeatureStackIRPayload = {
   schemaVersion: 1
   parts: RuntimeFeatureStackParts
+  assembly?: RuntimeAssemblyBoolean[]
 }
 
 type BasePartId = 'baseplate' | 'cube' | 'cubeProof' | 'toeHook' | 'heelKick'
@@ -58,10 +72,13 @@ type RuntimeFeatureOp =
   | {
       op: 'sketch'
       featureId: string
+      plane: SketchPlane
       profilesResolved: Array<{
         profileId: string
         area: number
         vertices: Array<{ x: number; y: number }>
+        segments: Segment2[]
+        holes?: Array<{ vertices: Array<{ x: number; y: number }>; segments: Segment2[] }>
       }>
     }
   | {
@@ -73,6 +90,58 @@ type RuntimeFeatureOp =
       offsetResolved: number
       bodyId?: string
     }
+  | {
+      op: 'revolve'
+      featureId: string
+      profileRef: { sketchFeatureId: string; profileId: string } | null
+      axisResolved: {
+        origin: { x: number; y: number }
+        direction: { x: number; y: number }
+      } | null
+      angleResolved: number
+      bodyId?: string
+    }
+  | {
+      op: 'loft'
+      featureId: string
+      sections: Array<{
+        profileRef: { sketchFeatureId: string; profileId: string } | null
+        offsetResolved: number
+      }>
+      bodyId?: string
+    }
+  | {
+      op: 'sweep'
+      featureId: string
+      profileRef: { sketchFeatureId: string; profileId: string } | null
+      // Path polyline in the (u, v, w) frame of `plane`; wired splines arrive on 'XY'.
+      path: {
+        plane: SketchPlane
+        points: Array<{ x: number; y: number; z: number }>
+        closed: boolean
+      } | null
+      twistResolved: number
+      scaleResolved: number
+      bodyId?: string
+    }
+  | {
+      op: 'boolean'
+      featureId: string
+      operation: BooleanOperation
+      targetBodyId: string | null
+      toolBodyIds: string[]
+      bodyId?: string
+    }
+
+// Booleans with tools from other Part nodes run in the assembled view, after every part stack.
+type RuntimeAssemblyBoolean = {
+  featureId: string
+  partKey: OwnedPartKey
+  operation: BooleanOperation
+  targetBodyId: string
+  tools: Array<{ partKey: OwnedPartKey; bodyId: string }>
+  bodyId?: string
+}
 
 export type FeatureStackIrPartsComputation = {
   parts: FeatureStackIrParts
@@ -93,19 +162,98 @@ const sortDiagnostics = (
   diagnostics: readonly SpaghettiDiagnostic[],
 ): SpaghettiDiagnostic[] => [...diagnostics].sort(compareDiagnostics)
 
-const toRuntimeFeatureStackParts = (parts: FeatureStackIrParts): RuntimeFeatureStackParts => {
+const toRuntimeProfileRef = (
+  profileRef: { sketchFeatureId: string; profileId: string } | null,
+): { sketchFeatureId: string; profileId: string } | null =>
+  profileRef === null
+    ? null
+    : {
+        sketchFeatureId: profileRef.sketchFeatureId,
+        profileId: profileRef.profileId,
+      }
+
+const toRuntimeSweepPath = (
+  path: IRSweepPath | null,
+  tolerance: TessellationTolerance,
+): Extract<RuntimeFeatureOp, { op: 'sweep' }>['path'] => {
+  if (path === null) {
+    return null
+  }
+  if (path.kind === 'spline') {
+    return {
+      plane: 'XY',
+      points: tessellateSpline3(path.points, path.closed, tolerance),
+      closed: path.closed,
+    }
+  }
+  const vertices = tessellatePath([path.segment], tolerance)
+  return {
+    plane: path.plane,
+    points: vertices.map((vertex) => ({ x: vertex.x, y: vertex.y, z: 0 })),
+    closed: false,
+  }
+}
+
+const toRuntimeFeatureStackParts = (
+  parts: FeatureStackIrParts,
+  nodeIdToPartKey: Readonly<Record<string, OwnedPartKey>>,
+  tolerance: TessellationTolerance,
+): Pick<FeatureStackIRPayload, 'parts' | 'assembly'> => {
   const out: RuntimeFeatureStackParts = {}
+  const assembly: RuntimeAssemblyBoolean[] = []
   for (const [partKey, operations] of Object.entries(parts)) {
     const runtimeOps: RuntimeFeatureOp[] = []
     for (const operation of operations) {
+      if (operation.op === 'boolean') {
+        // Unknown source nodes are reported by computeFeatureStackIrParts and dropped here.
+        const tools = operation.tools.flatMap((tool) => {
+          const toolPartKey =
+            tool.sourceNodeId === undefined ? partKey : nodeIdToPartKey[tool.sourceNodeId]
+          return toolPartKey === undefined ? [] : [{ partKey: toolPartKey, bodyId: tool.bodyId }]
+        })
+        if (
+          operation.targetBodyId !== null &&
+          tools.some((tool) => tool.partKey !== partKey)
+        ) {
+          assembly.push({
+            featureId: operation.featureId,
+            partKey,
+            operation: operation.operation,
+            targetBodyId: operation.targetBodyId,
+            tools,
+            bodyId: operation.bodyId,
+          })
+          continue
+        }
+        runtimeOps.push({
+          op: 'boolean',
+          featureId: operation.featureId,
+          operation: operation.operation,
+          targetBodyId: operation.targetBodyId,
+          toolBodyIds: tools.map((tool) => tool.bodyId),
+          bodyId: operation.bodyId,
+        })
+        continue
+      }
       if (operation.op === 'sketch') {
         runtimeOps.push({
           op: 'sketch',
           featureId: operation.featureId,
+          plane: operation.plane,
           profilesResolved: operation.profilesResolved.map((profile) => ({
             profileId: profile.profileId,
             area: profile.area,
-            vertices: tessellateProfileLoop(profile.loop.segments),
+            vertices: tessellateProfileLoop(profile.loop.segments, tolerance),
+            // Exact source curves for B-rep exporters; runtime meshing still uses `vertices`.
+            segments: profile.loop.segments,
+            ...(profile.innerLoops === undefined
+              ? {}
+              : {
+                  holes: profile.innerLoops.map((loop) => ({
+                    vertices: tessellateProfileLoop(loop.segments, tolerance),
+                    segments: loop.segments,
+                  })),
+                }),
           })),
         })
         continue
@@ -113,16 +261,46 @@ const toRuntimeFeatureStackParts = (parts: FeatureStackIrParts): RuntimeFeatureS
       if (operation.op === 'closeProfile') {
         continue
       }
+      if (operation.op === 'loft') {
+        runtimeOps.push({
+          op: 'loft',
+          featureId: operation.featureId,
+          sections: operation.sections.map((section) => ({
+            profileRef: toRuntimeProfileRef(section.profileRef),
+            offsetResolved: section.offsetResolved,
+          })),
+          bodyId: operation.bodyId,
+        })
+        continue
+      }
+      const profileRef = toRuntimeProfileRef(operation.profileRef)
+      if (operation.op === 'sweep') {
+        runtimeOps.push({
+          op: 'sweep',
+          featureId: operation.featureId,
+          profileRef,
+          path: toRuntimeSweepPath(operation.path, tolerance),
+          twistResolved: operation.twistResolved,
+          scaleResolved: operation.scaleResolved,
+          bodyId: operation.bodyId,
+        })
+        continue
+      }
+      if (operation.op === 'revolve') {
+        runtimeOps.push({
+          op: 'revolve',
+          featureId: operation.featureId,
+          profileRef,
+          axisResolved: operation.axisResolved,
+          angleResolved: operation.angleResolved,
+          bodyId: operation.bodyId,
+        })
+        continue
+      }
       runtimeOps.push({
         op: 'extrude',
         featureId: operation.featureId,
-        profileRef:
-          operation.profileRef === null
-            ? null
-            : {
-                sketchFeatureId: operation.profileRef.sketchFeatureId,
-                profileId: operation.profileRef.profileId,
-              },
+        profileRef,
         depthResolved: operation.depthResolved,
         taperResolved: operation.taperResolved,
         offsetResolved: operation.offsetResolved,
@@ -131,7 +309,7 @@ const toRuntimeFeatureStackParts = (parts: FeatureStackIrParts): RuntimeFeatureS
     }
     out[partKey] = runtimeOps
   }
-  return out
+  return assembly.length === 0 ? { parts: out } : { parts: out, assembly }
 }
 
 const buildOwnedPartKey = (
@@ -294,11 +472,12 @@ export const computeFeatureStackIrParts = (
       nodeIdToPartKey[node.nodeId] = partKey
 
       const featureStack = readFeatureStack(node.params.featureStack)
-      const withOverrides = applyFeatureVirtualInputOverrides(
-        featureStack,
-        options?.resolvedInputsByNodeId?.[node.nodeId],
+      const resolvedInputs = options?.resolvedInputsByNodeId?.[node.nodeId]
+      const withOverrides = applyFeatureVirtualInputOverrides(featureStack, resolvedInputs)
+      const compiled = compileFeatureStack(
+        withOverrides,
+        buildNodeExpressionScope(node, resolvedInputs),
       )
-      const compiled = compileFeatureStack(withOverrides)
       parts[partKey] = compiled
       if (getEffectiveFeatureStack(withOverrides).length > 0 && compiled.length > 0) {
         hasNonEmptyFeatureStack = true
@@ -306,6 +485,24 @@ export const computeFeatureStackIrParts = (
     }
   }
 
+  for (const partKey of orderedPartKeys) {
+    for (const operation of parts[partKey] ?? []) {
+      if (operation.op !== 'boolean') {
+        continue
+      }
+      for (const tool of operation.tools) {
+        if (tool.sourceNodeId !== undefined && nodeIdToPartKey[tool.sourceNodeId] === undefined) {
+          warnings.push({
+            level: 'warn',
+            code: 'BOOLEAN_TOOL_PART_MISSING',
+            message: `Boolean "${operation.featureId}" tool "${tool.bodyId}" references missing part node "${tool.sourceNodeId}".`,
+            nodeId: partNodesByPartKey[partKey]?.nodeId,
+          })
+        }
+      }
+    }
+  }
+
   return {
     parts,
     orderedPartKeys,
@@ -316,8 +513,14 @@ export const computeFeatureStackIrParts = (
   }
 }
 
+export type CompileSpaghettiGraphOptions = {
+  // Curve tessellation preset for sketch profiles; exports ask for 'export'.
+  tessellation?: TessellationQuality
+}
+
 export const compileSpaghettiGraph = (
   graph: SpaghettiGraph,
+  options: CompileSpaghettiGraphOptions = {},
 ): CompileSpaghettiGraphResult => {
   const canonicalGraph = canonicalizeLegacyInputPortIds(graph)
   const evaluationResult = evaluateSpaghettiGraph(canonicalGraph)
@@ -375,14 +578,16 @@ export const compileSpaghettiGraph = (
     }
   }
 
-  const featureStackIrParts: FeatureStackIRPayload['parts'] = toRuntimeFeatureStackParts(
+  const runtimeFeatureStack = toRuntimeFeatureStackParts(
     featureStackComputation.parts,
+    featureStackComputation.nodeIdToPartKey,
+    TESSELLATION_PRESETS[options.tessellation ?? 'preview'],
   )
   const hasNonEmptyFeatureStack = featureStackComputation.hasNonEmptyFeatureStack
   const featureStackIR: FeatureStackIRPayload | undefined = hasNonEmptyFeatureStack
     ? {
         schemaVersion: 1,
-        parts: featureStackIrParts,
+        ...runtimeFeatureStack,
       }
     : undefined
 
@@ -1,8 +1,9 @@
-import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
 import { z } from 'zod'
 import type { SpaghettiGraph } from '../schema/spaghettiTypes'
-import { evaluateSpaghettiGraph } from './evaluateGraph'
+import { createEvaluationCache, evaluateSpaghettiGraph } from './evaluateGraph'
 import {
+  getNodeDef,
   registry,
   type NodeDefinition,
 } from '../registry/nodeRegistry'
@@ -863,3 +864,174 @@ describe('evaluateSpaghettiGraph OutputPreview inertness', () => {
     expect(resultWith.outputsByNodeId['n-baseplate']).toEqual(resultWithout.outputsByNodeId['n-baseplate'])
   })
 })
+
+describe('evaluateSpaghettiGraph incremental cache', () => {
+  const createChainGraph = (): SpaghettiGraph => ({
+    schemaVersion: 1,
+    nodes: [
+      { nodeId: 'n-a', type: 'Primitive/Number', params: { value: 1, unit: 'mm' } },
+      { nodeId: 'n-b', type: 'Primitive/Number', params: { value: 5, unit: 'mm' } },
+      { nodeId: 'n-sum', type: 'Math/Add', params: { a: 0, b: 10, unit: 'mm' } },
+      { nodeId: 'n-max', type: 'Math/Max', params: { a: 0, b: 100, unit: 'mm' } },
+      { nodeId: 'n-other', type: 'Math/Add', params: { a: 0, b: 1, unit: 'mm' } },
+    ],
+    edges: [
+      {
+        edgeId: 'e-a-sum',
+        from: { nodeId: 'n-a', portId: 'value' },
+        to: { nodeId: 'n-sum', portId: 'a' },
+      },
+      {
+        edgeId: 'e-sum-max',
+        from: { nodeId: 'n-sum', portId: 'result' },
+        to: { nodeId: 'n-max', portId: 'a' },
+      },
+      {
+        edgeId: 'e-b-other',
+        from: { nodeId: 'n-b', portId: 'value' },
+        to: { nodeId: 'n-other', portId: 'a' },
+      },
+    ],
+  })
+
+  const setParam = (
+    graph: SpaghettiGraph,
+    nodeId: string,
+    params: Record<string, unknown>,
+  ): SpaghettiGraph => ({
+    ...graph,
+    nodes: graph.nodes.map((node) =>
+      node.nodeId === nodeId ? { ...node, params: { ...node.params, ...params } } : node,
+    ),
+  })
+
+  const spyOnComputes = () => {
+    const computedNodeIds: string[] = []
+    const spies = (['Primitive/Number', 'Math/Add', 'Math/Max'] as const).map((type) => {
+      const nodeDef = getNodeDef(type)
+      if (nodeDef === undefined) {
+        throw new Error(`Missing node definition ${type}`)
+      }
+      const compute = nodeDef.compute
+      return vi.spyOn(nodeDef, 'compute').mockImplementation((context) => {
+        computedNodeIds.push(context.nodeId)
+        return compute(context)
+      })
+    })
+    return {
+      takeComputed: () => computedNodeIds.splice(0).sort(),
+      restore: () => spies.forEach((spy) => spy.mockRestore()),
+    }
+  }
+
+  it('matches full evaluation across a sequence of edits', () => {
+    const cache = createEvaluationCache()
+    const base = createChainGraph()
+    const edits: SpaghettiGraph[] = [
+      base,
+      setParam(base, 'n-a', { value: 2 }),
+      setParam(base, 'n-a', { value: 2, unit: 'in' }),
+      setParam(base, 'n-sum', { b: 0 }),
+      setParam(base, 'n-a', { unit: 'deg' }),
+      base,
+      { ...base, edges: base.edges.filter((edge) => edge.edgeId !== 'e-a-sum') },
+      setParam(base, 'n-b', { unit: 'unitless' }),
+      {
+        ...base,
+        nodes: [
+          ...base.nodes,
+          { nodeId: 'n-div', type: 'Math/Divide', params: { a: 1, b: 0, unit: 'mm' } },
+        ],
+      },
+      { ...base, nodes: base.nodes.filter((node) => node.nodeId !== 'n-other') },
+      base,
+    ]
+
+    for (const graph of edits) {
+      const cached = evaluateSpaghettiGraph(graph, cache)
+      expect(cached).toEqual(evaluateSpaghettiGraph(graph, null))
+      expect(evaluateSpaghettiGraph(graph, cache)).toBe(cached)
+    }
+  })
+
+  it('recomputes only the downstream cone of an edited node', () => {
+    const cache = createEvaluationCache()
+    const computes = spyOnComputes()
+    try {
+      const base = createChainGraph()
+      evaluateSpaghettiGraph(base, cache)
+      expect(computes.takeComputed()).toEqual(['n-a', 'n-b', 'n-max', 'n-other', 'n-sum'])
+
+      const edited = setParam(base, 'n-a', { value: 3 })
+      expect(evaluateSpaghettiGraph(edited, cache).outputsByNodeId['n-sum']).toEqual({
+        result: 13,
+      })
+      expect(computes.takeComputed()).toEqual(['n-a', 'n-max', 'n-sum'])
+
+      const moved: SpaghettiGraph = {
+        ...edited,
+        nodes: edited.nodes.map((node) => ({ ...node, ui: { x: 40, y: 80 } })),
+      }
+      evaluateSpaghettiGraph(moved, cache)
+      expect(computes.takeComputed()).toEqual([])
+    } finally {
+      computes.restore()
+    }
+  })
+
+  it('stops propagating when an upstream output is unchanged', () => {
+    const cache = createEvaluationCache()
+    const computes = spyOnComputes()
+    try {
+      const base = setParam(createChainGraph(), 'n-max', { b: 0 })
+      evaluateSpaghettiGraph(base, cache)
+      computes.takeComputed()
+
+      evaluateSpaghettiGraph(setParam(base, 'n-sum', { unit: 'mm', b: 10 }), cache)
+      expect(computes.takeComputed()).toEqual([])
+
+      const swapped = setParam(setParam(base, 'n-a', { value: 4 }), 'n-sum', { b: 7 })
+      expect(evaluateSpaghettiGraph(swapped, cache).outputsByNodeId['n-max']).toEqual({
+        result: 11,
+      })
+      expect(computes.takeComputed()).toEqual(['n-a', 'n-sum'])
+    } finally {
+      computes.restore()
+    }
+  })
+
+  it('revalidates only the nodes that changed', () => {
+    const cache = createEvaluationCache()
+    const validatedParams: unknown[] = []
+    const spies = (['Primitive/Number', 'Math/Add', 'Math/Max'] as const).map((type) => {
+      const paramsSchema = getNodeDef(type)?.paramsSchema
+      if (paramsSchema === undefined) {
+        throw new Error(`Missing node definition ${type}`)
+      }
+      const safeParse = paramsSchema.safeParse.bind(paramsSchema)
+      return vi.spyOn(paramsSchema, 'safeParse').mockImplementation((params) => {
+        validatedParams.push(params)
+        return safeParse(params)
+      })
+    })
+    try {
+      const base = createChainGraph()
+      evaluateSpaghettiGraph(base, cache)
+      expect(validatedParams.splice(0)).toHaveLength(base.nodes.length)
+
+      const invalid = setParam(base, 'n-max', { b: 'tall' })
+      expect(evaluateSpaghettiGraph(invalid, cache).diagnostics.errors).toEqual([
+        expect.objectContaining({ code: 'NODE_PARAMS_INVALID', nodeId: 'n-max' }),
+      ])
+      expect(validatedParams.splice(0)).toEqual([{ a: 0, b: 'tall', unit: 'mm' }])
+
+      const mismatched = setParam(base, 'n-a', { unit: 'deg' })
+      expect(evaluateSpaghettiGraph(mismatched, cache).diagnostics.errors).toEqual([
+        expect.objectContaining({ code: 'EDGE_UNIT_MISMATCH', edgeId: 'e-a-sum' }),
+      ])
+      expect(validatedParams.splice(0)).toHaveLength(2)
+    } finally {
+      spies.forEach((spy) => spy.mockRestore())
+    }
+  })
+})
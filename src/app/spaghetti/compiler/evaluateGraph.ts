@@ -1,13 +1,19 @@
-import { getNodeDef } from '../registry/nodeRegistry'
+import { getNodeDef, type NodeDefinition } from '../registry/nodeRegistry'
 import type {
   PortType,
   SpaghettiEdge,
   SpaghettiGraph,
   SpaghettiNode,
 } from '../schema/spaghettiTypes'
-import type { SpaghettiDiagnostic } from './validateGraph'
-import { validateGraph } from './validateGraph'
-import { listEffectiveInputPorts } from '../features/effectivePorts'
+import {
+  countInputConnections,
+  validateGraphEdges,
+  validateGraphNode,
+  type GraphValidationResult,
+  type SpaghettiDiagnostic,
+} from './validateGraph'
+import { defaultNodeRegistry, resolveEndpoint } from '../contracts/endpoints'
+import { listEffectiveInputPorts, listEffectiveOutputPorts } from '../features/effectivePorts'
 import {
   listDriverVirtualInputPorts,
   getDriverVirtualOutputValue,
@@ -20,6 +26,8 @@ import {
   listLeafFieldPaths,
   type FieldNode,
 } from '../types/fieldTree'
+import { checkUnitCompatibility, convertUnitValue } from '../types/units'
+import { stableStringify } from '../../../shared/stableStringify'
 
 export type EvaluationValue = unknown
 export type NodeOutputMap = Record<string, Record<string, EvaluationValue>>
@@ -287,339 +295,550 @@ const buildIncomingEdgesMap = (graph: SpaghettiGraph): Map<string, SpaghettiEdge
   return incomingEdgesByNodeId
 }
 
-export const evaluateSpaghettiGraph = (graph: SpaghettiGraph): EvaluationResult => {
-  const validation = validateGraph(graph)
-  if (validation.errors.length > 0) {
-    return {
-      ok: false,
-      inputsByNodeId: {},
-      outputsByNodeId: {},
-      diagnostics: {
-        errors: sortDiagnostics(validation.errors),
-        warnings: sortDiagnostics(validation.warnings),
-      },
-      topoOrder: [],
-    }
-  }
+// Scale factor applied to values crossing `edge`; 1 unless it joins two different length units.
+const getEdgeUnitFactor = (graph: SpaghettiGraph, edge: SpaghettiEdge): number => {
+  const fromType = resolveEndpoint(graph, defaultNodeRegistry, edge.from, 'out').type
+  const toType = resolveEndpoint(graph, defaultNodeRegistry, edge.to, 'in').type
+  const compatibility = checkUnitCompatibility(fromType?.unit, toType?.unit)
+  return compatibility.kind === 'convert' ? compatibility.factor : 1
+}
 
-  const errors: SpaghettiDiagnostic[] = []
-  const warnings: SpaghettiDiagnostic[] = []
-  const inputsByNodeId: NodeInputMap = {}
-  const outputsByNodeId: NodeOutputMap = {}
-  const topoOrder = computeTopoOrder(graph)
-  const incomingEdgesByNodeId = buildIncomingEdgesMap(graph)
-  const sortedNodes = [...graph.nodes].sort(compareNodes)
-  const nodeById = new Map(sortedNodes.map((node) => [node.nodeId, node]))
+type NodeEvaluation = {
+  inputs?: Record<string, EvaluationValue>
+  outputs?: Record<string, EvaluationValue>
+  errors: SpaghettiDiagnostic[]
+}
 
-  for (const nodeId of topoOrder) {
-    const node = nodeById.get(nodeId)
-    if (node === undefined) {
-      continue
+const evaluateNode = (
+  graph: SpaghettiGraph,
+  node: SpaghettiNode,
+  nodeDef: NodeDefinition,
+  incomingEdges: readonly SpaghettiEdge[],
+  outputsByNodeId: NodeOutputMap,
+): NodeEvaluation => {
+  const nodeId = node.nodeId
+  const errors: SpaghettiDiagnostic[] = []
+  const inputs: Record<string, unknown> = {}
+  let hasNodeError = false
+
+  const resolveSourceValueFromEdge = (edge: SpaghettiEdge): unknown => {
+    const sourceOutputs = outputsByNodeId[edge.from.nodeId]
+    const sourceValue = sourceOutputs?.[edge.from.portId]
+    if (sourceValue === undefined) {
+      hasNodeError = true
+      errors.push({
+        level: 'error',
+        code: 'INPUT_SOURCE_VALUE_MISSING',
+        message: `Missing source value for "${edge.from.nodeId}.${edge.from.portId}" feeding "${nodeId}.${edge.to.portId}${edge.to.path === undefined ? '' : `.${pathKey(edge.to.path)}`}".`,
+        nodeId,
+        edgeId: edge.edgeId,
+      })
+      return undefined
     }
+    return convertUnitValue(
+      getValueAtPath(sourceValue, edge.from.path),
+      getEdgeUnitFactor(graph, edge),
+    )
+  }
 
-    const nodeDef = getNodeDef(node.type)
-    if (nodeDef === undefined) {
-      continue
+  const resolveLiteralOrDefaultComposite = (
+    fieldNode: FieldNode,
+    literalValue: unknown,
+    defaultValue: unknown,
+    path: string[],
+  ): unknown => {
+    const fromLiteral = getValueAtPath(literalValue, path)
+    if (isValidForPortType(fromLiteral, fieldNode.type)) {
+      return fromLiteral
+    }
+    const fromDefault = getValueAtPath(defaultValue, path)
+    if (isValidForPortType(fromDefault, fieldNode.type)) {
+      return fromDefault
     }
+    return defaultValueForLeafType(fieldNode.type)
+  }
 
-    const incomingEdges = incomingEdgesByNodeId.get(nodeId) ?? []
-    const inputs: Record<string, unknown> = {}
-    let hasNodeError = false
+  const effectiveInputPorts = listEffectiveInputPorts(node, nodeDef)
+
+  for (const inputPort of effectiveInputPorts) {
+    const matchingEdges = incomingEdges.filter((edge) => edge.to.portId === inputPort.portId)
+    const fieldTree = getFieldTree(inputPort.type)
+    const literalValue = node.params[inputPort.portId]
+    const defaultValue = defaultValueFromFieldNode(fieldTree)
+
+    if (isCompositeFieldNode(fieldTree)) {
+      const wholeEdges = matchingEdges.filter(
+        (edge) => normalizePath(edge.to.path) === undefined,
+      )
+      const leafEdges = matchingEdges.filter(
+        (edge) => normalizePath(edge.to.path) !== undefined,
+      )
 
-    const resolveSourceValueFromEdge = (edge: SpaghettiEdge): unknown => {
-      const sourceOutputs = outputsByNodeId[edge.from.nodeId]
-      const sourceValue = sourceOutputs?.[edge.from.portId]
-      if (sourceValue === undefined) {
+      if (wholeEdges.length > 1) {
         hasNodeError = true
         errors.push({
           level: 'error',
-          code: 'INPUT_SOURCE_VALUE_MISSING',
-          message: `Missing source value for "${edge.from.nodeId}.${edge.from.portId}" feeding "${nodeId}.${edge.to.portId}${edge.to.path === undefined ? '' : `.${pathKey(edge.to.path)}`}".`,
+          code: 'MULTIPLE_INPUTS',
+          message: `Input "${inputPort.portId}" on node "${nodeId}" has multiple whole-port incoming edges.`,
           nodeId,
-          edgeId: edge.edgeId,
         })
-        return undefined
+        continue
       }
-      return getValueAtPath(sourceValue, edge.from.path)
-    }
 
-    const resolveLiteralOrDefaultComposite = (
-      fieldNode: FieldNode,
-      literalValue: unknown,
-      defaultValue: unknown,
-      path: string[],
-    ): unknown => {
-      const fromLiteral = getValueAtPath(literalValue, path)
-      if (isValidForPortType(fromLiteral, fieldNode.type)) {
-        return fromLiteral
-      }
-      const fromDefault = getValueAtPath(defaultValue, path)
-      if (isValidForPortType(fromDefault, fieldNode.type)) {
-        return fromDefault
-      }
-      return defaultValueForLeafType(fieldNode.type)
-    }
+      const wholeEdge = wholeEdges[0]
+      const wholeValue = wholeEdge === undefined ? undefined : resolveSourceValueFromEdge(wholeEdge)
 
-    const effectiveInputPorts = listEffectiveInputPorts(node, nodeDef)
-
-    for (const inputPort of effectiveInputPorts) {
-      const matchingEdges = incomingEdges.filter((edge) => edge.to.portId === inputPort.portId)
-      const fieldTree = getFieldTree(inputPort.type)
-      const literalValue = node.params[inputPort.portId]
-      const defaultValue = defaultValueFromFieldNode(fieldTree)
-
-      if (isCompositeFieldNode(fieldTree)) {
-        const wholeEdges = matchingEdges.filter(
-          (edge) => normalizePath(edge.to.path) === undefined,
-        )
-        const leafEdges = matchingEdges.filter(
-          (edge) => normalizePath(edge.to.path) !== undefined,
-        )
-
-        if (wholeEdges.length > 1) {
-          hasNodeError = true
-          errors.push({
-            level: 'error',
-            code: 'MULTIPLE_INPUTS',
-            message: `Input "${inputPort.portId}" on node "${nodeId}" has multiple whole-port incoming edges.`,
-            nodeId,
-          })
-          continue
-        }
+      if (leafEdges.length > 0) {
+        const leafPaths = listLeafFieldPaths(fieldTree)
+        let assembledValue: unknown = defaultValue
+        for (const leaf of leafPaths) {
+          const leafEdge = leafEdges.find((edge) => pathEquals(edge.to.path, leaf.path))
+          let resolvedLeafValue: unknown
 
-        const wholeEdge = wholeEdges[0]
-        const wholeValue = wholeEdge === undefined ? undefined : resolveSourceValueFromEdge(wholeEdge)
-
-        if (leafEdges.length > 0) {
-          const leafPaths = listLeafFieldPaths(fieldTree)
-          let assembledValue: unknown = defaultValue
-          for (const leaf of leafPaths) {
-            const leafEdge = leafEdges.find((edge) => pathEquals(edge.to.path, leaf.path))
-            let resolvedLeafValue: unknown
-
-            if (leafEdge !== undefined) {
-              const sourceLeafValue = resolveSourceValueFromEdge(leafEdge)
-              if (isValidForPortType(sourceLeafValue, leaf.node.type)) {
-                resolvedLeafValue = sourceLeafValue
-              } else {
-                hasNodeError = true
-                errors.push({
-                  level: 'error',
-                  code: 'INPUT_SOURCE_VALUE_MISSING',
-                  message: `Missing source leaf value for "${leafEdge.from.nodeId}.${leafEdge.from.portId}${leafEdge.from.path === undefined ? '' : `.${pathKey(leafEdge.from.path)}`}" feeding "${nodeId}.${inputPort.portId}.${pathKey(leaf.path)}".`,
-                  nodeId,
-                  edgeId: leafEdge.edgeId,
-                })
-                resolvedLeafValue = resolveLiteralOrDefaultComposite(
-                  leaf.node,
-                  literalValue,
-                  defaultValue,
-                  leaf.path,
-                )
-              }
+          if (leafEdge !== undefined) {
+            const sourceLeafValue = resolveSourceValueFromEdge(leafEdge)
+            if (isValidForPortType(sourceLeafValue, leaf.node.type)) {
+              resolvedLeafValue = sourceLeafValue
+            } else {
+              hasNodeError = true
+              errors.push({
+                level: 'error',
+                code: 'INPUT_SOURCE_VALUE_MISSING',
+                message: `Missing source leaf value for "${leafEdge.from.nodeId}.${leafEdge.from.portId}${leafEdge.from.path === undefined ? '' : `.${pathKey(leafEdge.from.path)}`}" feeding "${nodeId}.${inputPort.portId}.${pathKey(leaf.path)}".`,
+                nodeId,
+                edgeId: leafEdge.edgeId,
+              })
+              resolvedLeafValue = resolveLiteralOrDefaultComposite(
+                leaf.node,
+                literalValue,
+                defaultValue,
+                leaf.path,
+              )
+            }
+          } else {
+            const wholeFieldValue = getValueAtPath(wholeValue, leaf.path)
+            if (isValidForPortType(wholeFieldValue, leaf.node.type)) {
+              resolvedLeafValue = wholeFieldValue
             } else {
-              const wholeFieldValue = getValueAtPath(wholeValue, leaf.path)
-              if (isValidForPortType(wholeFieldValue, leaf.node.type)) {
-                resolvedLeafValue = wholeFieldValue
-              } else {
-                resolvedLeafValue = resolveLiteralOrDefaultComposite(
-                  leaf.node,
-                  literalValue,
-                  defaultValue,
-                  leaf.path,
-                )
-              }
+              resolvedLeafValue = resolveLiteralOrDefaultComposite(
+                leaf.node,
+                literalValue,
+                defaultValue,
+                leaf.path,
+              )
             }
-            assembledValue = withPathValue(assembledValue, leaf.path, resolvedLeafValue)
           }
-          inputs[inputPort.portId] = assembledValue
-          continue
-        }
-
-        if (wholeEdge !== undefined && isValidForPortType(wholeValue, inputPort.type)) {
-          inputs[inputPort.portId] = wholeValue
-          continue
+          assembledValue = withPathValue(assembledValue, leaf.path, resolvedLeafValue)
         }
-
-        if (isValidForPortType(literalValue, inputPort.type)) {
-          inputs[inputPort.portId] = literalValue
-          continue
-        }
-
-        inputs[inputPort.portId] = defaultValue
+        inputs[inputPort.portId] = assembledValue
         continue
       }
 
-      const wholeEdges = matchingEdges.filter((edge) => normalizePath(edge.to.path) === undefined)
-      if (wholeEdges.length === 0) {
-        if (inputPort.optional === true) {
-          continue
-        }
-        hasNodeError = true
-        errors.push({
-          level: 'error',
-          code: 'MISSING_REQUIRED_INPUT',
-          message: `Missing required input "${inputPort.portId}" on node "${nodeId}".`,
-          nodeId,
-        })
+      if (wholeEdge !== undefined && isValidForPortType(wholeValue, inputPort.type)) {
+        inputs[inputPort.portId] = wholeValue
         continue
       }
 
-      if (wholeEdges.length > 1) {
-        hasNodeError = true
-        errors.push({
-          level: 'error',
-          code: 'MULTIPLE_INPUTS',
-          message: `Input "${inputPort.portId}" on node "${nodeId}" has multiple incoming edges.`,
-          nodeId,
-        })
+      if (isValidForPortType(literalValue, inputPort.type)) {
+        inputs[inputPort.portId] = literalValue
         continue
       }
 
-      const edge = wholeEdges[0]
-      const sourceValue = resolveSourceValueFromEdge(edge)
-      if (sourceValue === undefined) {
+      inputs[inputPort.portId] = defaultValue
+      continue
+    }
+
+    const wholeEdges = matchingEdges.filter((edge) => normalizePath(edge.to.path) === undefined)
+    if (wholeEdges.length === 0) {
+      if (inputPort.optional === true) {
         continue
       }
-      inputs[inputPort.portId] = sourceValue
+      hasNodeError = true
+      errors.push({
+        level: 'error',
+        code: 'MISSING_REQUIRED_INPUT',
+        message: `Missing required input "${inputPort.portId}" on node "${nodeId}".`,
+        nodeId,
+      })
+      continue
     }
 
-    if (hasNodeError) {
+    if (wholeEdges.length > 1) {
+      hasNodeError = true
+      errors.push({
+        level: 'error',
+        code: 'MULTIPLE_INPUTS',
+        message: `Input "${inputPort.portId}" on node "${nodeId}" has multiple incoming edges.`,
+        nodeId,
+      })
       continue
     }
-    inputsByNodeId[nodeId] = inputs
 
-    const resolvedParams: Record<string, unknown> = {
-      ...node.params,
-    }
-    const driverVirtualInputs = listDriverVirtualInputPorts(node, nodeDef)
-    for (const driverVirtualInput of driverVirtualInputs) {
-      const parsedDriverInput = parseDriverVirtualInputPortId(driverVirtualInput.portId)
-      if (parsedDriverInput === null) {
-        continue
-      }
-      const hasIncomingWholeDriverEdge = incomingEdges.some(
-        (edge) =>
-          edge.to.portId === driverVirtualInput.portId &&
-          normalizePath(edge.to.path) === undefined,
-      )
-      if (!hasIncomingWholeDriverEdge) {
-        continue
-      }
-      const resolvedDriverValue = inputs[driverVirtualInput.portId]
-      if (resolvedDriverValue === undefined) {
-        hasNodeError = true
-        continue
-      }
-      resolvedParams[parsedDriverInput.paramId] = resolvedDriverValue
+    const edge = wholeEdges[0]
+    const sourceValue = resolveSourceValueFromEdge(edge)
+    if (sourceValue === undefined) {
+      continue
     }
+    inputs[inputPort.portId] = sourceValue
+  }
+
+  if (hasNodeError) {
+    return { errors }
+  }
 
-    if (hasNodeError) {
+  const resolvedParams: Record<string, unknown> = {
+    ...node.params,
+  }
+  const driverVirtualInputs = listDriverVirtualInputPorts(node, nodeDef)
+  for (const driverVirtualInput of driverVirtualInputs) {
+    const parsedDriverInput = parseDriverVirtualInputPortId(driverVirtualInput.portId)
+    if (parsedDriverInput === null) {
+      continue
+    }
+    const hasIncomingWholeDriverEdge = incomingEdges.some(
+      (edge) =>
+        edge.to.portId === driverVirtualInput.portId &&
+        normalizePath(edge.to.path) === undefined,
+    )
+    if (!hasIncomingWholeDriverEdge) {
       continue
     }
+    const resolvedDriverValue = inputs[driverVirtualInput.portId]
+    if (resolvedDriverValue === undefined) {
+      hasNodeError = true
+      continue
+    }
+    resolvedParams[parsedDriverInput.paramId] = resolvedDriverValue
+  }
 
-    let computedUnknown: unknown
-    try {
-      computedUnknown = nodeDef.compute({
-        nodeId,
-        params: resolvedParams,
-        inputs,
-      })
-    } catch (error) {
+  if (hasNodeError) {
+    return { inputs, errors }
+  }
+
+  let computedUnknown: unknown
+  try {
+    computedUnknown = nodeDef.compute({
+      nodeId,
+      params: resolvedParams,
+      inputs,
+    })
+  } catch (error) {
+    errors.push({
+      level: 'error',
+      code: 'NODE_COMPUTE_THROW',
+      message:
+        error instanceof Error
+          ? `Node compute threw: ${error.message}`
+          : 'Node compute threw.',
+      nodeId,
+    })
+    return { inputs, errors }
+  }
+
+  if (!isRecord(computedUnknown)) {
+    errors.push({
+      level: 'error',
+      code: 'OUTPUT_INVALID_SHAPE',
+      message: `Node "${nodeId}" compute must return a plain object.`,
+      nodeId,
+    })
+    return { inputs, errors }
+  }
+
+  const computed = computedUnknown
+  const outputPortIds = new Set(nodeDef.outputs.map((port) => port.portId))
+  const nodeOutputs: Record<string, unknown> = {}
+
+  for (const outputPort of nodeDef.outputs) {
+    if (!(outputPort.portId in computed)) {
       errors.push({
         level: 'error',
-        code: 'NODE_COMPUTE_THROW',
-        message:
-          error instanceof Error
-            ? `Node compute threw: ${error.message}`
-            : 'Node compute threw.',
+        code: 'OUTPUT_MISSING_PORT',
+        message: `Node "${nodeId}" did not return required output "${outputPort.portId}".`,
         nodeId,
       })
       continue
     }
-
-    if (!isRecord(computedUnknown)) {
+    const value = computed[outputPort.portId]
+    if (!isValidForPortType(value, outputPort.type)) {
       errors.push({
         level: 'error',
         code: 'OUTPUT_INVALID_SHAPE',
-        message: `Node "${nodeId}" compute must return a plain object.`,
+        message: `Invalid output shape for "${nodeId}.${outputPort.portId}" (${outputPort.type.kind}).`,
         nodeId,
       })
       continue
     }
+    nodeOutputs[outputPort.portId] = value
+  }
 
-    const computed = computedUnknown
-    const outputPortIds = new Set(nodeDef.outputs.map((port) => port.portId))
-    const nodeOutputs: Record<string, unknown> = {}
-
-    for (const outputPort of nodeDef.outputs) {
-      if (!(outputPort.portId in computed)) {
-        errors.push({
-          level: 'error',
-          code: 'OUTPUT_MISSING_PORT',
-          message: `Node "${nodeId}" did not return required output "${outputPort.portId}".`,
-          nodeId,
-        })
-        continue
-      }
-      const value = computed[outputPort.portId]
-      if (!isValidForPortType(value, outputPort.type)) {
-        errors.push({
-          level: 'error',
-          code: 'OUTPUT_INVALID_SHAPE',
-          message: `Invalid output shape for "${nodeId}.${outputPort.portId}" (${outputPort.type.kind}).`,
-          nodeId,
-        })
-        continue
-      }
-      nodeOutputs[outputPort.portId] = value
+  for (const key of Object.keys(computed)) {
+    if (outputPortIds.has(key)) {
+      continue
     }
+    errors.push({
+      level: 'error',
+      code: 'OUTPUT_EXTRA_PORT',
+      message: `Node "${nodeId}" returned undeclared output "${key}".`,
+      nodeId,
+    })
+  }
 
-    for (const key of Object.keys(computed)) {
-      if (outputPortIds.has(key)) {
-        continue
-      }
+  const virtualDriverOutputs = listDriverVirtualOutputPorts(node, nodeDef)
+  const resolvedParamNode: SpaghettiNode = {
+    ...node,
+    params: resolvedParams,
+  }
+  for (const virtualOutput of virtualDriverOutputs) {
+    const virtualValue = getDriverVirtualOutputValue(
+      resolvedParamNode,
+      nodeDef,
+      virtualOutput.portId,
+    )
+    if (virtualValue === undefined) {
+      continue
+    }
+    if (!isValidForPortType(virtualValue, virtualOutput.type)) {
       errors.push({
         level: 'error',
-        code: 'OUTPUT_EXTRA_PORT',
-        message: `Node "${nodeId}" returned undeclared output "${key}".`,
+        code: 'OUTPUT_INVALID_SHAPE',
+        message: `Invalid output shape for "${nodeId}.${virtualOutput.portId}" (${virtualOutput.type.kind}).`,
         nodeId,
       })
+      continue
     }
+    nodeOutputs[virtualOutput.portId] = virtualValue
+  }
 
-    const virtualDriverOutputs = listDriverVirtualOutputPorts(node, nodeDef)
-    const resolvedParamNode: SpaghettiNode = {
-      ...node,
-      params: resolvedParams,
+  return { inputs, outputs: nodeOutputs, errors }
+}
+
+type CachedNodeEvaluation = NodeEvaluation & {
+  node: SpaghettiNode
+  nodeDef: NodeDefinition
+  incomingEdges: readonly SpaghettiEdge[]
+  signature: string
+  outputsHash: string
+}
+
+type DiagnosticLists = Pick<GraphValidationResult, 'errors' | 'warnings'>
+
+// Validation split by what it depends on: node diagnostics on the node itself, edge diagnostics
+// on the edges and every node's effective ports.
+type CachedValidation = {
+  edges: readonly SpaghettiEdge[]
+  nodes: Map<string, DiagnosticLists & { node: SpaghettiNode }>
+  edgeDiagnostics: DiagnosticLists
+}
+
+// Memoizes evaluation between calls. Nodes are matched by identity with the last call: only
+// changed nodes are revalidated, and only they and the nodes downstream of a changed output are
+// re-evaluated, so dragging one driver re-runs just its downstream cone.
+export type EvaluationCache = {
+  lastGraph: SpaghettiGraph | null
+  lastResult: EvaluationResult | null
+  validation: CachedValidation | null
+  nodes: Map<string, CachedNodeEvaluation>
+}
+
+export const createEvaluationCache = (): EvaluationCache => ({
+  lastGraph: null,
+  lastResult: null,
+  validation: null,
+  nodes: new Map(),
+})
+
+const defaultEvaluationCache = createEvaluationCache()
+
+const sameEdges = (a: readonly SpaghettiEdge[], b: readonly SpaghettiEdge[]): boolean =>
+  a === b || (a.length === b.length && a.every((edge, index) => edge === b[index]))
+
+const computePortsSignature = (node: SpaghettiNode): string =>
+  stableStringify({
+    inputs: listEffectiveInputPorts(node),
+    outputs: listEffectiveOutputPorts(node),
+  })
+
+const validateInFull = (graph: SpaghettiGraph): CachedValidation => {
+  const connectionCounts = countInputConnections(graph.edges)
+  return {
+    edges: graph.edges,
+    nodes: new Map(
+      graph.nodes.map((node) => [
+        node.nodeId,
+        { node, ...validateGraphNode(node, connectionCounts.get(node.nodeId)) },
+      ]),
+    ),
+    edgeDiagnostics: validateGraphEdges(graph),
+  }
+}
+
+// Edge diagnostics are kept while the edges and node types stay put and no changed node gained or
+// lost ports; otherwise the graph is validated in full.
+const validateWithCache = (
+  graph: SpaghettiGraph,
+  previous: CachedValidation | null,
+): CachedValidation => {
+  if (
+    previous === null ||
+    !sameEdges(previous.edges, graph.edges) ||
+    previous.nodes.size !== graph.nodes.length ||
+    !graph.nodes.every((node) => previous.nodes.get(node.nodeId)?.node.type === node.type)
+  ) {
+    return validateInFull(graph)
+  }
+
+  let connectionCounts: Map<string, Map<string, number>> | null = null
+  let portsChanged = false
+  const nodes = new Map<string, DiagnosticLists & { node: SpaghettiNode }>()
+  for (const node of graph.nodes) {
+    const cached = previous.nodes.get(node.nodeId)
+    if (cached !== undefined && cached.node === node) {
+      nodes.set(node.nodeId, cached)
+      continue
     }
-    for (const virtualOutput of virtualDriverOutputs) {
-      const virtualValue = getDriverVirtualOutputValue(
-        resolvedParamNode,
-        nodeDef,
-        virtualOutput.portId,
-      )
-      if (virtualValue === undefined) {
-        continue
+    connectionCounts ??= countInputConnections(graph.edges)
+    nodes.set(node.nodeId, {
+      node,
+      ...validateGraphNode(node, connectionCounts.get(node.nodeId)),
+    })
+    portsChanged ||=
+      cached === undefined || computePortsSignature(cached.node) !== computePortsSignature(node)
+  }
+  return {
+    edges: graph.edges,
+    nodes,
+    edgeDiagnostics: portsChanged ? validateGraphEdges(graph) : previous.edgeDiagnostics,
+  }
+}
+
+// Everything a node's evaluation depends on; `ui` is left out so dragging a node on the canvas
+// keeps its cached result.
+const computeNodeSignature = (
+  graph: SpaghettiGraph,
+  node: SpaghettiNode,
+  incomingEdges: readonly SpaghettiEdge[],
+  outputsHashByNodeId: ReadonlyMap<string, string>,
+): string =>
+  stableStringify({
+    type: node.type,
+    params: node.params,
+    partSlots: node.partSlots,
+    incoming: incomingEdges.map((edge) => ({
+      edge,
+      unitFactor: getEdgeUnitFactor(graph, edge),
+      sourceOutputsHash: outputsHashByNodeId.get(edge.from.nodeId) ?? null,
+    })),
+  })
+
+// Pass `cache: null` to force a full evaluation.
+export const evaluateSpaghettiGraph = (
+  graph: SpaghettiGraph,
+  cache: EvaluationCache | null = defaultEvaluationCache,
+): EvaluationResult => {
+  if (cache !== null && cache.lastGraph === graph && cache.lastResult !== null) {
+    return cache.lastResult
+  }
+
+  const cachedValidation = validateWithCache(graph, cache?.validation ?? null)
+  if (cache !== null) {
+    cache.validation = cachedValidation
+  }
+  const validationErrors = [...cachedValidation.nodes.values()]
+    .flatMap((entry) => entry.errors)
+    .concat(cachedValidation.edgeDiagnostics.errors)
+  const validationWarnings = [...cachedValidation.nodes.values()]
+    .flatMap((entry) => entry.warnings)
+    .concat(cachedValidation.edgeDiagnostics.warnings)
+  if (validationErrors.length > 0) {
+    const invalidResult: EvaluationResult = {
+      ok: false,
+      inputsByNodeId: {},
+      outputsByNodeId: {},
+      diagnostics: {
+        errors: sortDiagnostics(validationErrors),
+        warnings: sortDiagnostics(validationWarnings),
+      },
+      topoOrder: [],
+    }
+    if (cache !== null) {
+      cache.lastGraph = graph
+      cache.lastResult = invalidResult
+    }
+    return invalidResult
+  }
+
+  const errors: SpaghettiDiagnostic[] = []
+  // Validation warnings (e.g. unitless wires) stay visible on a successful evaluation.
+  const warnings: SpaghettiDiagnostic[] = [...validationWarnings]
+  const inputsByNodeId: NodeInputMap = {}
+  const outputsByNodeId: NodeOutputMap = {}
+  const topoOrder = computeTopoOrder(graph)
+  const incomingEdgesByNodeId = buildIncomingEdgesMap(graph)
+  const sortedNodes = [...graph.nodes].sort(compareNodes)
+  const nodeById = new Map(sortedNodes.map((node) => [node.nodeId, node]))
+  const outputsHashByNodeId = new Map<string, string>()
+  const nextCachedNodes = new Map<string, CachedNodeEvaluation>()
+  // Nodes whose ports or outputs may differ from the cached run; their consumers are rechecked.
+  const touchedNodeIds = new Set<string>()
+
+  for (const nodeId of topoOrder) {
+    const node = nodeById.get(nodeId)
+    if (node === undefined) {
+      continue
+    }
+
+    const nodeDef = getNodeDef(node.type)
+    if (nodeDef === undefined) {
+      continue
+    }
+
+    const incomingEdges = incomingEdgesByNodeId.get(nodeId) ?? []
+    const cached = cache?.nodes.get(nodeId)
+    let evaluation: CachedNodeEvaluation
+    if (
+      cached !== undefined &&
+      cached.node === node &&
+      cached.nodeDef === nodeDef &&
+      sameEdges(cached.incomingEdges, incomingEdges) &&
+      !incomingEdges.some((edge) => touchedNodeIds.has(edge.from.nodeId))
+    ) {
+      evaluation = cached
+    } else {
+      const signature = computeNodeSignature(graph, node, incomingEdges, outputsHashByNodeId)
+      if (cached !== undefined && cached.nodeDef === nodeDef && cached.signature === signature) {
+        evaluation = { ...cached, node, incomingEdges }
+      } else {
+        const computed = evaluateNode(graph, node, nodeDef, incomingEdges, outputsByNodeId)
+        evaluation = {
+          ...computed,
+          node,
+          nodeDef,
+          incomingEdges,
+          signature,
+          outputsHash: stableStringify(computed.outputs ?? null),
+        }
       }
-      if (!isValidForPortType(virtualValue, virtualOutput.type)) {
-        errors.push({
-          level: 'error',
-          code: 'OUTPUT_INVALID_SHAPE',
-          message: `Invalid output shape for "${nodeId}.${virtualOutput.portId}" (${virtualOutput.type.kind}).`,
-          nodeId,
-        })
-        continue
+      if (cached?.node !== node || cached.outputsHash !== evaluation.outputsHash) {
+        touchedNodeIds.add(nodeId)
       }
-      nodeOutputs[virtualOutput.portId] = virtualValue
     }
-
-    outputsByNodeId[nodeId] = nodeOutputs
+    nextCachedNodes.set(nodeId, evaluation)
+    outputsHashByNodeId.set(nodeId, evaluation.outputsHash)
+    errors.push(...evaluation.errors)
+    if (evaluation.inputs !== undefined) {
+      inputsByNodeId[nodeId] = evaluation.inputs
+    }
+    if (evaluation.outputs !== undefined) {
+      outputsByNodeId[nodeId] = evaluation.outputs
+    }
   }
 
+
   const sortedErrors = sortDiagnostics(errors)
   const sortedWarnings = sortDiagnostics(warnings)
 
-  return {
+  const result: EvaluationResult = {
     ok: sortedErrors.length === 0,
     inputsByNodeId,
     outputsByNodeId,
@@ -629,4 +848,11 @@ export const evaluateSpaghettiGraph = (graph: SpaghettiGraph): EvaluationResult
     },
     topoOrder,
   }
+
+  if (cache !== null) {
+    cache.lastGraph = graph
+    cache.lastResult = result
+    cache.nodes = nextCachedNodes
+  }
+  return result
 }
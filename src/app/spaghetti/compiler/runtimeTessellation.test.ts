@@ -1,6 +1,59 @@
 import { describe, expect, it } from 'vitest'
 import type { Segment2 } from '../features/featureTypes'
-import { EPSILON, tessellateProfileLoop, signedAreaOpenLoop } from './runtimeTessellation'
+import {
+  EPSILON,
+  TESSELLATION_PRESETS,
+  tessellatePath,
+  tessellateProfileLoop,
+  tessellateSpline3,
+  signedAreaOpenLoop,
+} from './runtimeTessellation'
+
+type Point2 = { x: number; y: number }
+
+const distanceToSegment = (point: Point2, a: Point2, b: Point2): number => {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.min(1, Math.max(0, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+  return Math.hypot(point.x - (a.x + dx * t), point.y - (a.y + dy * t))
+}
+
+// Largest distance from any of `samples` to the closed polyline through `vertices`.
+const maxDeviation = (samples: readonly Point2[], vertices: readonly Point2[]): number =>
+  Math.max(
+    ...samples.map((sample) =>
+      Math.min(
+        ...vertices.map((vertex, index) =>
+          distanceToSegment(sample, vertex, vertices[(index + 1) % vertices.length]),
+        ),
+      ),
+    ),
+  )
+
+// Half-disc of radius `radius`: a CCW arc over the top closed by its diameter.
+const halfDisc = (radius: number): Segment2[] => [
+  {
+    kind: 'arc3pt2',
+    start: { x: radius, y: 0 },
+    mid: { x: 0, y: radius },
+    end: { x: -radius, y: 0 },
+  },
+  {
+    kind: 'line2',
+    a: { x: -radius, y: 0 },
+    b: { x: radius, y: 0 },
+  },
+]
+
+const halfCircleSamples = (radius: number): Point2[] =>
+  Array.from({ length: 721 }, (_, index) => {
+    const angle = (Math.PI * index) / 720
+    return { x: radius * Math.cos(angle), y: radius * Math.sin(angle) }
+  })
 
 describe('tessellateProfileLoop', () => {
   it('suppresses join duplicates using canonicalize-then-epsilon append ordering', () => {
@@ -109,4 +162,100 @@ describe('tessellateProfileLoop', () => {
 
     expect(JSON.stringify(first)).toBe(JSON.stringify(second))
   })
+  it('keeps large arcs within the chord tolerance of each preset', () => {
+    const preview = tessellateProfileLoop(halfDisc(100))
+    const exported = tessellateProfileLoop(halfDisc(100), TESSELLATION_PRESETS.export)
+
+    expect(maxDeviation(halfCircleSamples(100), preview)).toBeLessThanOrEqual(
+      TESSELLATION_PRESETS.preview.maxChordErrorMm + EPSILON,
+    )
+    expect(maxDeviation(halfCircleSamples(100), exported)).toBeLessThanOrEqual(
+      TESSELLATION_PRESETS.export.maxChordErrorMm + EPSILON,
+    )
+    expect(exported.length).toBeGreaterThan(preview.length)
+  })
+
+  it('limits small fillets by angle instead of a fixed step count', () => {
+    // 180 degrees at 10 (preview) or 3 (export) degrees per chord, plus the start vertex repeated
+    // by the closing line; the chord error of a 1 mm radius stays far below either tolerance.
+    expect(tessellateProfileLoop(halfDisc(1))).toHaveLength(18 + 2)
+    expect(tessellateProfileLoop(halfDisc(1), TESSELLATION_PRESETS.export)).toHaveLength(60 + 2)
+  })
+
+  it('keeps cubic curves within the chord tolerance', () => {
+    const p0 = { x: 0, y: 0 }
+    const p1 = { x: 80, y: 0 }
+    const p2 = { x: 80, y: 40 }
+    const p3 = { x: 0, y: 40 }
+    const vertices = tessellateProfileLoop([
+      { kind: 'bezier2', p0, p1, p2, p3 },
+      { kind: 'line2', a: p3, b: p0 },
+    ])
+    const samples = Array.from({ length: 1001 }, (_, index) => {
+      const t = index / 1000
+      const u = 1 - t
+      return {
+        x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+        y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+      }
+    })
+
+    expect(maxDeviation(samples, vertices)).toBeLessThanOrEqual(
+      TESSELLATION_PRESETS.preview.maxChordErrorMm + EPSILON,
+    )
+  })
+
+  it('is byte-deterministic with the export preset', () => {
+    const first = tessellateProfileLoop(halfDisc(37.5), TESSELLATION_PRESETS.export)
+    const second = tessellateProfileLoop(halfDisc(37.5), TESSELLATION_PRESETS.export)
+
+    expect(JSON.stringify(first)).toBe(JSON.stringify(second))
+    expect(first.every((point) => Number(point.x.toFixed(6)) === point.x)).toBe(true)
+  })
+})
+
+describe('tessellatePath', () => {
+  it('keeps the drawing direction of open chains', () => {
+    const vertices = tessellatePath([
+      {
+        kind: 'arc3pt2',
+        start: { x: -10, y: 0 },
+        mid: { x: 0, y: 10 },
+        end: { x: 10, y: 0 },
+      },
+    ])
+
+    expect(vertices[0]).toEqual({ x: -10, y: 0 })
+    expect(vertices[vertices.length - 1]).toEqual({ x: 10, y: 0 })
+    expect(vertices.every((vertex) => vertex.y >= 0)).toBe(true)
+  })
+})
+
+describe('tessellateSpline3', () => {
+  const points = [
+    { x: 0, y: 0, z: 0 },
+    { x: 10, y: 0, z: 5 },
+    { x: 10, y: 10, z: 10 },
+    { x: 0, y: 10, z: 15 },
+  ]
+
+  it('passes through every spline point', () => {
+    const open = tessellateSpline3(points, false)
+    const closed = tessellateSpline3(points, true)
+
+    for (const point of points) {
+      expect(open).toContainEqual(point)
+      expect(closed).toContainEqual(point)
+    }
+    expect(open[open.length - 1]).toEqual(points[points.length - 1])
+    // Closed loops end just before their start instead of repeating it.
+    expect(closed[closed.length - 1]).not.toEqual(closed[0])
+    expect(closed.length).toBeGreaterThan(open.length)
+  })
+
+  it('samples more finely with the export preset', () => {
+    expect(tessellateSpline3(points, false, TESSELLATION_PRESETS.export).length).toBeGreaterThan(
+      tessellateSpline3(points, false, TESSELLATION_PRESETS.preview).length,
+    )
+  })
 })
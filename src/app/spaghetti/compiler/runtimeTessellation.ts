@@ -1,13 +1,39 @@
+import {
+  cubicBezier3ControlTurning,
+  cubicBezier3MaxSecondDerivative,
+  cubicBezierControlTurning,
+  cubicBezierMaxSecondDerivative,
+  evaluateCubicBezier,
+  evaluateCubicBezier3,
+  type CubicBezier2,
+} from '../../../geometry/bezier'
+import { catmullRomToBeziers3 } from '../../../geometry/catmullRom'
 import type { Segment2 } from '../features/featureTypes'
 
 type Point2 = { x: number; y: number }
+type Point3 = { x: number; y: number; z: number }
 
 export const CANON_DECIMALS = 6
-export const CURVE_TESSELLATION_BEZIER_STEPS = 24
-export const CURVE_TESSELLATION_ARC_STEPS = 24
 export const EPSILON = 1e-6
 export const EPSILON2 = EPSILON * EPSILON
 
+// Curves are split until every chord stays within `maxChordErrorMm` of the curve and turns by at
+// most `maxAngleRad`; `maxSteps` caps a single segment so degenerate input cannot explode.
+export type TessellationTolerance = {
+  maxChordErrorMm: number
+  maxAngleRad: number
+  maxSteps: number
+}
+
+export type TessellationQuality = 'preview' | 'export'
+
+const DEG_TO_RAD = Math.PI / 180
+
+export const TESSELLATION_PRESETS: Readonly<Record<TessellationQuality, TessellationTolerance>> = {
+  preview: { maxChordErrorMm: 0.05, maxAngleRad: 10 * DEG_TO_RAD, maxSteps: 256 },
+  export: { maxChordErrorMm: 0.005, maxAngleRad: 3 * DEG_TO_RAD, maxSteps: 2048 },
+}
+
 const CANON_SCALE = 10 ** CANON_DECIMALS
 
 const round6 = (value: number): number => Math.round(value * CANON_SCALE) / CANON_SCALE
@@ -31,25 +57,39 @@ const toSegmentStart = (segment: Segment2): Point2 => {
   return segment.start
 }
 
-const sampleBezier = (
-  p0: Point2,
-  p1: Point2,
-  p2: Point2,
-  p3: Point2,
-  steps: number,
-): Point2[] => {
+const clampSteps = (steps: number, tolerance: TessellationTolerance): number =>
+  Math.min(Math.max(1, Math.ceil(steps - EPSILON)), Math.max(1, tolerance.maxSteps))
+
+// Uniform parameter steps for a cubic. The chord error of a step h is at most |B''|max * h^2 / 8,
+// and the curve never turns more than its control polygon.
+const bezierSteps = (
+  maxSecondDerivative: number,
+  controlTurning: number,
+  tolerance: TessellationTolerance,
+): number => {
+  const chordSteps = Math.sqrt(maxSecondDerivative / (8 * tolerance.maxChordErrorMm))
+  return clampSteps(Math.max(chordSteps, controlTurning / tolerance.maxAngleRad), tolerance)
+}
+
+// Equal angular steps for a circular arc; a chord spanning angle a deviates by r * (1 - cos(a / 2)).
+const arcSteps = (radius: number, sweep: number, tolerance: TessellationTolerance): number => {
+  const chordAngle =
+    tolerance.maxChordErrorMm >= radius
+      ? Math.PI
+      : 2 * Math.acos(1 - tolerance.maxChordErrorMm / radius)
+  const maxStepAngle = Math.min(chordAngle, tolerance.maxAngleRad)
+  return clampSteps(Math.abs(sweep) / maxStepAngle, tolerance)
+}
+
+const sampleBezier = (curve: CubicBezier2, tolerance: TessellationTolerance): Point2[] => {
+  const steps = bezierSteps(
+    cubicBezierMaxSecondDerivative(curve),
+    cubicBezierControlTurning(curve),
+    tolerance,
+  )
   const out: Point2[] = []
   for (let i = 1; i <= steps; i += 1) {
-    const t = i / steps
-    const u = 1 - t
-    const b0 = u * u * u
-    const b1 = 3 * u * u * t
-    const b2 = 3 * u * t * t
-    const b3 = t * t * t
-    out.push({
-      x: b0 * p0.x + b1 * p1.x + b2 * p2.x + b3 * p3.x,
-      y: b0 * p0.y + b1 * p1.y + b2 * p2.y + b3 * p3.y,
-    })
+    out.push(evaluateCubicBezier(curve, i / steps))
   }
   return out
 }
@@ -58,7 +98,7 @@ const sampleArc3pt = (
   start: Point2,
   mid: Point2,
   end: Point2,
-  steps: number,
+  tolerance: TessellationTolerance,
 ): Point2[] => {
   const ax = start.x
   const ay = start.y
@@ -67,16 +107,9 @@ const sampleArc3pt = (
   const cx = end.x
   const cy = end.y
   const d = 2 * (ax * (by - cy) + bx * (cy - ay) + cx * (ay - by))
+  // Collinear points describe a straight chord.
   if (Math.abs(d) < 1e-9) {
-    const out: Point2[] = []
-    for (let i = 1; i <= steps; i += 1) {
-      const t = i / steps
-      out.push({
-        x: start.x + (end.x - start.x) * t,
-        y: start.y + (end.y - start.y) * t,
-      })
-    }
-    return out
+    return [end]
   }
   const a2 = ax * ax + ay * ay
   const b2 = bx * bx + by * by
@@ -97,6 +130,7 @@ const sampleArc3pt = (
   if (!between(am, a0, a1)) {
     a1 += a1 >= a0 ? -2 * Math.PI : 2 * Math.PI
   }
+  const steps = arcSteps(r, a1 - a0, tolerance)
   const out: Point2[] = []
   for (let i = 1; i <= steps; i += 1) {
     const t = i / steps
@@ -172,9 +206,11 @@ const normalizeCounterClockwise = (vertices: Point2[]): Point2[] => {
   return reversed
 }
 
-export const tessellateProfileLoop = (segments: Segment2[]): Point2[] => {
-  if (segments.length === 0) return []
-  const vertices: Point2[] = []
+const appendSegments = (
+  vertices: Point2[],
+  segments: readonly Segment2[],
+  tolerance: TessellationTolerance,
+): void => {
   appendWithCanonicalEpsilon(vertices, toSegmentStart(segments[0]))
 
   for (const segment of segments) {
@@ -183,13 +219,7 @@ export const tessellateProfileLoop = (segments: Segment2[]): Point2[] => {
       continue
     }
     if (segment.kind === 'bezier2') {
-      for (const point of sampleBezier(
-        segment.p0,
-        segment.p1,
-        segment.p2,
-        segment.p3,
-        CURVE_TESSELLATION_BEZIER_STEPS,
-      )) {
+      for (const point of sampleBezier(segment, tolerance)) {
         appendWithCanonicalEpsilon(vertices, point)
       }
       continue
@@ -198,14 +228,89 @@ export const tessellateProfileLoop = (segments: Segment2[]): Point2[] => {
       segment.start,
       segment.mid,
       segment.end,
-      CURVE_TESSELLATION_ARC_STEPS,
+      tolerance,
     )) {
       appendWithCanonicalEpsilon(vertices, point)
     }
   }
+}
+
+export const tessellateProfileLoop = (
+  segments: Segment2[],
+  tolerance: TessellationTolerance = TESSELLATION_PRESETS.preview,
+): Point2[] => {
+  if (segments.length === 0) return []
+  const vertices: Point2[] = []
+  appendSegments(vertices, segments, tolerance)
 
   const closureSnapped = snapClosureWithinEpsilon(vertices)
   const ccw = normalizeCounterClockwise(closureSnapped)
   const reclosed = snapClosureWithinEpsilon(ccw)
   return reclosed
 }
+
+// Polyline along an open or closed segment chain in drawing order. Unlike profile loops the
+// direction is kept and a closed chain repeats its first vertex at the end.
+export const tessellatePath = (
+  segments: Segment2[],
+  tolerance: TessellationTolerance = TESSELLATION_PRESETS.preview,
+): Point2[] => {
+  if (segments.length === 0) return []
+  const vertices: Point2[] = []
+  appendSegments(vertices, segments, tolerance)
+  return snapClosureWithinEpsilon(vertices)
+}
+
+const canonPoint3 = (point: Point3): Point3 => ({
+  x: round6(point.x),
+  y: round6(point.y),
+  z: round6(point.z),
+})
+
+const dist2Point3 = (a: Point3, b: Point3): number => {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const dz = b.z - a.z
+  return dx * dx + dy * dy + dz * dz
+}
+
+// Polyline through a centripetal Catmull-Rom spline. A closed spline returns its loop without
+// repeating the first vertex.
+export const tessellateSpline3 = (
+  points: readonly Point3[],
+  closed: boolean,
+  tolerance: TessellationTolerance = TESSELLATION_PRESETS.preview,
+): Point3[] => {
+  const vertices: Point3[] = []
+  const append = (point: Point3): void => {
+    const candidate = canonPoint3(point)
+    const prev = vertices[vertices.length - 1]
+    if (prev === undefined || dist2Point3(prev, candidate) > EPSILON2) {
+      vertices.push(candidate)
+    }
+  }
+  const curves = catmullRomToBeziers3(points, { closed })
+  if (curves.length === 0) {
+    points.forEach(append)
+    return vertices
+  }
+  append(curves[0].p0)
+  for (const curve of curves) {
+    const steps = bezierSteps(
+      cubicBezier3MaxSecondDerivative(curve),
+      cubicBezier3ControlTurning(curve),
+      tolerance,
+    )
+    for (let i = 1; i <= steps; i += 1) {
+      append(evaluateCubicBezier3(curve, i / steps))
+    }
+  }
+  if (
+    closed &&
+    vertices.length > 2 &&
+    dist2Point3(vertices[0], vertices[vertices.length - 1]) <= EPSILON2
+  ) {
+    vertices.pop()
+  }
+  return vertices
+}
@@ -947,7 +947,7 @@ describe('validateGraph driver virtual output wiring', () => {
 
     const result = validateGraph(graph)
     expect(result.ok).toBe(false)
-    expect(result.errors.some((error) => error.code === 'EDGE_TYPE_MISMATCH')).toBe(true)
+    expect(result.errors.some((error) => error.code === 'EDGE_UNIT_MISMATCH')).toBe(true)
   })
 
   it('rejects path targeting driver virtual input', () => {
@@ -1,4 +1,9 @@
-import type { EdgeEndpoint, SpaghettiGraph, SpaghettiNode } from '../schema/spaghettiTypes'
+import type {
+  EdgeEndpoint,
+  SpaghettiEdge,
+  SpaghettiGraph,
+  SpaghettiNode,
+} from '../schema/spaghettiTypes'
 import { isPartNodeType, normalizePartSlots } from '../parts/partSlots'
 import { buildNodeDriverVm, type OutputPinnedRowVm } from '../canvas/driverVm'
 import { getNodeDef } from '../registry/nodeRegistry'
@@ -15,6 +20,7 @@ import {
   type ConnectionContractResult,
   validateConnectionContract,
 } from '../contracts/endpoints'
+import { formatUnit } from '../types/units'
 
 export type SpaghettiDiagnostic = {
   level: 'error' | 'warn'
@@ -136,6 +142,8 @@ const buildConnectionDiagnosticMessage = (
       return `Feature virtual input "${edge.to.nodeId}.${edge.to.portId}" cannot be driven from the same node in Phase 2 v1.`
     case 'EDGE_TYPE_MISMATCH':
       return `Type mismatch from "${edge.from.nodeId}.${edge.from.portId}${formatEndpointPathSuffix(edge.from)}" to "${edge.to.nodeId}.${edge.to.portId}${formatEndpointPathSuffix(edge.to)}".`
+    case 'EDGE_UNIT_MISMATCH':
+      return `Unit mismatch from "${edge.from.nodeId}.${edge.from.portId}${formatEndpointPathSuffix(edge.from)}" (${formatUnit(decision.details.fromUnit)}) to "${edge.to.nodeId}.${edge.to.portId}${formatEndpointPathSuffix(edge.to)}" (${formatUnit(decision.details.toUnit)}).`
     case 'EDGE_TO_PATH_DUPLICATE': {
       const pathKey = decision.details.toPathKey
       return `Duplicate leaf-path connections targeting "${edge.to.nodeId}.${edge.to.portId}${formatEndpointPathSuffixFromKey(pathKey)}".`
@@ -166,28 +174,54 @@ export const validateGraphConnectionDecision = (
 ): ConnectionContractResult =>
   validateConnectionContract(graph, defaultNodeRegistry, edge.from, edge.to)
 
-export const validateGraph = (graph: SpaghettiGraph): GraphValidationResult => {
-  const errors: SpaghettiDiagnostic[] = []
-  const warnings: SpaghettiDiagnostic[] = []
-
-  const sortedNodes = [...graph.nodes].sort(compareByNodeId)
-  const sortedEdges = [...graph.edges].sort((a, b) => a.edgeId.localeCompare(b.edgeId))
-  const inputConnectionCountsByNodeId = new Map<string, Map<string, number>>()
-  for (const edge of sortedEdges) {
-    const byPort = inputConnectionCountsByNodeId.get(edge.to.nodeId) ?? new Map<string, number>()
+// How many edges reach each input port, by target node. Part nodes size their driver rows by it.
+export const countInputConnections = (
+  edges: readonly SpaghettiEdge[],
+): Map<string, Map<string, number>> => {
+  const countsByNodeId = new Map<string, Map<string, number>>()
+  for (const edge of edges) {
+    const byPort = countsByNodeId.get(edge.to.nodeId) ?? new Map<string, number>()
     byPort.set(edge.to.portId, (byPort.get(edge.to.portId) ?? 0) + 1)
-    inputConnectionCountsByNodeId.set(edge.to.nodeId, byPort)
+    countsByNodeId.set(edge.to.nodeId, byPort)
   }
+  return countsByNodeId
+}
 
-  const nodeById = new Map<string, SpaghettiNode>()
-  for (const node of sortedNodes) {
-    nodeById.set(node.nodeId, node)
-    const nodeDef = getNodeDef(node.type)
-    let paramsForValidation = node.params
+const validateNodeParams = (
+  node: SpaghettiNode,
+  connectionCountByPortId: ReadonlyMap<string, number> | undefined,
+  errors: SpaghettiDiagnostic[],
+  warnings: SpaghettiDiagnostic[],
+): void => {
+  const nodeDef = getNodeDef(node.type)
+  let paramsForValidation = node.params
+
+  if (isPartNodeType(node.type)) {
+    const normalized = normalizePartSlots(node.partSlots, node.nodeId)
+    for (const warning of normalized.warnings) {
+      warnings.push({
+        level: 'warn',
+        code: warning.code,
+        message: warning.message,
+        nodeId: node.nodeId,
+      })
+    }
+    // TODO(partSlots): enforce slot type/category gating when slot contents are introduced.
 
-    if (isPartNodeType(node.type)) {
-      const normalized = normalizePartSlots(node.partSlots, node.nodeId)
-      for (const warning of normalized.warnings) {
+    const vm = buildNodeDriverVm(node, nodeDef, {
+      connectionCountByPortId,
+    })
+    if (vm !== null) {
+      const outputEndpointRows = vm.outputs.filter(
+        (row): row is Extract<OutputPinnedRowVm, { kind: 'endpoint' }> => row.kind === 'endpoint',
+      )
+      const normalizedPartRowOrder = normalizePartRowOrder({
+        node,
+        vmDriversRowIds: buildVmRowIdsForSection(node.nodeId, vm.drivers),
+        vmInputsRowIds: buildVmRowIdsForSection(node.nodeId, vm.inputs),
+        vmOutputsRowIds: buildVmRowIdsForSection(node.nodeId, outputEndpointRows),
+      })
+      for (const warning of normalizedPartRowOrder.warnings) {
         warnings.push({
           level: 'warn',
           code: warning.code,
@@ -195,88 +229,99 @@ export const validateGraph = (graph: SpaghettiGraph): GraphValidationResult => {
           nodeId: node.nodeId,
         })
       }
-      // TODO(partSlots): enforce slot type/category gating when slot contents are introduced.
-
-      const vm = buildNodeDriverVm(node, nodeDef, {
-        connectionCountByPortId: inputConnectionCountsByNodeId.get(node.nodeId),
-      })
-      if (vm !== null) {
-        const outputEndpointRows = vm.outputs.filter(
-          (row): row is Extract<OutputPinnedRowVm, { kind: 'endpoint' }> => row.kind === 'endpoint',
-        )
-        const normalizedPartRowOrder = normalizePartRowOrder({
-          node,
-          vmDriversRowIds: buildVmRowIdsForSection(node.nodeId, vm.drivers),
-          vmInputsRowIds: buildVmRowIdsForSection(node.nodeId, vm.inputs),
-          vmOutputsRowIds: buildVmRowIdsForSection(node.nodeId, outputEndpointRows),
-        })
-        for (const warning of normalizedPartRowOrder.warnings) {
-          warnings.push({
-            level: 'warn',
-            code: warning.code,
-            message: warning.message,
-            nodeId: node.nodeId,
-          })
-        }
-        if (normalizedPartRowOrder.repairedNode !== undefined) {
-          paramsForValidation = normalizedPartRowOrder.repairedNode.params
-        }
+      if (normalizedPartRowOrder.repairedNode !== undefined) {
+        paramsForValidation = normalizedPartRowOrder.repairedNode.params
       }
     }
+  }
 
-    if (nodeDef === undefined) {
+  if (nodeDef === undefined) {
+    errors.push({
+      level: 'error',
+      code: 'NODE_TYPE_UNKNOWN',
+      message: `Unknown node type "${node.type}".`,
+      nodeId: node.nodeId,
+    })
+    return
+  }
+
+  const paramsResult = nodeDef.paramsSchema.safeParse(paramsForValidation)
+  if (!paramsResult.success) {
+    errors.push({
+      level: 'error',
+      code: 'NODE_PARAMS_INVALID',
+      message: `Invalid params for node type "${node.type}": ${getFirstParamIssue(paramsResult.error)}.`,
+      nodeId: node.nodeId,
+    })
+  }
+}
+
+const validateNodeFeatureStack = (node: SpaghettiNode, errors: SpaghettiDiagnostic[]): void => {
+  if (!isPartNodeType(node.type)) {
+    return
+  }
+  const stack = readFeatureStack(node.params.featureStack)
+  for (const issue of getFeatureDependencyIssues(stack)) {
+    if (issue.code === 'CLOSE_PROFILE_SOURCE_MISSING') {
       errors.push({
         level: 'error',
-        code: 'NODE_TYPE_UNKNOWN',
-        message: `Unknown node type "${node.type}".`,
+        code: issue.code,
+        message: `Close Profile "${issue.featureId}" references missing source sketch.`,
         nodeId: node.nodeId,
       })
       continue
     }
-
-    const paramsResult = nodeDef.paramsSchema.safeParse(paramsForValidation)
-    if (!paramsResult.success) {
+    if (issue.code === 'CLOSE_PROFILE_PROFILE_MISSING') {
       errors.push({
         level: 'error',
-        code: 'NODE_PARAMS_INVALID',
-        message: `Invalid params for node type "${node.type}": ${getFirstParamIssue(paramsResult.error)}.`,
+        code: issue.code,
+        message: `Close Profile "${issue.featureId}" source sketch has no profile.`,
         nodeId: node.nodeId,
       })
-    }
-  }
-
-  for (const node of sortedNodes) {
-    if (!isPartNodeType(node.type)) {
       continue
     }
-    const stack = readFeatureStack(node.params.featureStack)
-    for (const issue of getFeatureDependencyIssues(stack)) {
-      if (issue.code === 'CLOSE_PROFILE_SOURCE_MISSING') {
-        errors.push({
-          level: 'error',
-          code: issue.code,
-          message: `Close Profile "${issue.featureId}" references missing source sketch.`,
-          nodeId: node.nodeId,
-        })
-        continue
-      }
-      if (issue.code === 'CLOSE_PROFILE_PROFILE_MISSING') {
-        errors.push({
-          level: 'error',
-          code: issue.code,
-          message: `Close Profile "${issue.featureId}" source sketch has no profile.`,
-          nodeId: node.nodeId,
-        })
-        continue
-      }
+    if (issue.code === 'BOOLEAN_BODY_REF_INVALID') {
       errors.push({
         level: 'error',
         code: issue.code,
-        message: `Extrude "${issue.featureId}" references missing profile source.`,
+        message: `Boolean "${issue.featureId}" references a body that is not available.`,
         nodeId: node.nodeId,
       })
+      continue
     }
+    errors.push({
+      level: 'error',
+      code: issue.code,
+      message: `Extrude "${issue.featureId}" references missing profile source.`,
+      nodeId: node.nodeId,
+    })
   }
+}
+
+// Diagnostics of one node on its own: params, part slots/rows and its feature stack. Edges only
+// matter through `connectionCountByPortId` (see `countInputConnections`).
+export const validateGraphNode = (
+  node: SpaghettiNode,
+  connectionCountByPortId: ReadonlyMap<string, number> | undefined,
+): Pick<GraphValidationResult, 'errors' | 'warnings'> => {
+  const errors: SpaghettiDiagnostic[] = []
+  const warnings: SpaghettiDiagnostic[] = []
+  validateNodeParams(node, connectionCountByPortId, errors, warnings)
+  validateNodeFeatureStack(node, errors)
+  return { errors, warnings }
+}
+
+// Connection contracts of every edge plus cycle detection. Depends on the edges and on each
+// node's effective ports only.
+export const validateGraphEdges = (
+  graph: SpaghettiGraph,
+): Pick<GraphValidationResult, 'errors' | 'warnings'> => {
+  const errors: SpaghettiDiagnostic[] = []
+  const warnings: SpaghettiDiagnostic[] = []
+  const sortedEdges = [...graph.edges].sort((a, b) => a.edgeId.localeCompare(b.edgeId))
+  const nodeById = new Map(
+    [...graph.nodes].sort(compareByNodeId).map((node) => [node.nodeId, node]),
+  )
 
   const adjacency = new Map<string, Set<string>>()
   const indegree = new Map<string, number>()
@@ -306,6 +351,15 @@ export const validateGraph = (graph: SpaghettiGraph): GraphValidationResult => {
       }
     }
 
+    if (decision.ok && decision.details.unitCompatibility === 'assumed') {
+      warnings.push({
+        level: 'warn',
+        code: 'EDGE_UNIT_ASSUMED',
+        message: `Unitless value from "${edge.from.nodeId}.${edge.from.portId}${formatEndpointPathSuffix(edge.from)}" is read as ${formatUnit(decision.details.toUnit)} by "${edge.to.nodeId}.${edge.to.portId}${formatEndpointPathSuffix(edge.to)}".`,
+        edgeId: edge.edgeId,
+      })
+    }
+
     if (excludedEdgeIds.has(edge.edgeId)) {
       continue
     }
@@ -338,6 +392,26 @@ export const validateGraph = (graph: SpaghettiGraph): GraphValidationResult => {
     })
   }
 
+  return { errors, warnings }
+}
+
+export const validateGraph = (graph: SpaghettiGraph): GraphValidationResult => {
+  const errors: SpaghettiDiagnostic[] = []
+  const warnings: SpaghettiDiagnostic[] = []
+
+  const sortedNodes = [...graph.nodes].sort(compareByNodeId)
+  const inputConnectionCountsByNodeId = countInputConnections(graph.edges)
+  for (const node of sortedNodes) {
+    validateNodeParams(node, inputConnectionCountsByNodeId.get(node.nodeId), errors, warnings)
+  }
+  for (const node of sortedNodes) {
+    validateNodeFeatureStack(node, errors)
+  }
+
+  const edgeValidation = validateGraphEdges(graph)
+  errors.push(...edgeValidation.errors)
+  warnings.push(...edgeValidation.warnings)
+
   return {
     ok: errors.length === 0,
     errors,
@@ -249,7 +249,7 @@ describe('contract parity (canvas cheap-check vs validator decision)', () => {
     if (decision.ok) {
       return
     }
-    expect(decision.code).toBe('EDGE_TYPE_MISMATCH')
+    expect(decision.code).toBe('EDGE_UNIT_MISMATCH')
   })
 
   it('keeps parity for OutputPreview dynamic slot input resolution', () => {
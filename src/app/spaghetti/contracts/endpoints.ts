@@ -4,8 +4,10 @@ import type {
   PortSpec,
   SpaghettiGraph,
   SpaghettiNode,
+  Unit,
 } from '../schema/spaghettiTypes'
 import { getFieldNodeAtPath, getFieldTree } from '../types/fieldTree'
+import { checkUnitCompatibility, type UnitCompatibility } from '../types/units'
 import {
   resolveEffectiveInputPort,
   resolveEffectiveOutputPort,
@@ -35,6 +37,7 @@ export type ConnectionContractCode =
   | 'DRIVER_VIRTUAL_INPUT_PATH_UNSUPPORTED'
   | 'FEATURE_WIRE_INTRA_NODE_UNSUPPORTED'
   | 'EDGE_TYPE_MISMATCH'
+  | 'EDGE_UNIT_MISMATCH'
   | 'EDGE_TO_MAX_CONNECTIONS'
 
 export type NodeRegistryLike = {
@@ -78,6 +81,10 @@ export type ConnectionContractDetails = {
   incomingCount?: number
   maxConnectionsIn?: number
   nodeType?: string
+  fromUnit?: Unit
+  toUnit?: Unit
+  // Set once both endpoints resolve to the same kind.
+  unitCompatibility?: UnitCompatibility['kind']
 }
 
 export type ConnectionContractResult =
@@ -348,11 +355,19 @@ export const validateConnectionContract = (
   if (
     fromResolved.type === undefined ||
     toResolved.type === undefined ||
-    fromResolved.type.kind !== toResolved.type.kind ||
-    fromResolved.type.unit !== toResolved.type.unit
+    fromResolved.type.kind !== toResolved.type.kind
   ) {
     return fail('EDGE_TYPE_MISMATCH', baseDetails)
   }
+  const unitCompatibility = checkUnitCompatibility(fromResolved.type.unit, toResolved.type.unit)
+  const unitDetails = {
+    ...(fromResolved.type.unit === undefined ? {} : { fromUnit: fromResolved.type.unit }),
+    ...(toResolved.type.unit === undefined ? {} : { toUnit: toResolved.type.unit }),
+    unitCompatibility: unitCompatibility.kind,
+  }
+  if (unitCompatibility.kind === 'mismatch') {
+    return fail('EDGE_UNIT_MISMATCH', { ...baseDetails, ...unitDetails })
+  }
 
   const endpointKey = toResolved.canonicalEndpointKey
   const maxConnectionsIn = toResolved.maxConnectionsIn ?? 1
@@ -416,6 +431,7 @@ export const validateConnectionContract = (
     code: 'OK',
     details: {
       ...baseDetails,
+      ...unitDetails,
       endpointKey,
       maxConnectionsIn,
     },
@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest'
 import { compileFeatureStack } from './compileFeatureStack'
-import type { FeatureStack } from './featureTypes'
+import type { Vec2Expression } from './expressions'
+import type { FeatureStack, RevolveAxis } from './featureTypes'
 
 const signedArea = (vertices: Array<{ x: number; y: number }>): number => {
   let sum = 0
@@ -120,6 +121,15 @@ describe('compileFeatureStack', () => {
     expect(ir[1].offsetResolved).toBe(0)
   })
 
+  it('carries the sketch plane into the IR', () => {
+    const stack = rectangleStack()
+    const sketch = stack[0] as Extract<FeatureStack[number], { type: 'sketch' }>
+    sketch.plane = 'YZ'
+
+    const ir = compileFeatureStack(stack)
+    expect(ir[0].op === 'sketch' ? ir[0].plane : null).toBe('YZ')
+  })
+
   it('returns empty profiles when chain is not closed', () => {
     const stack = rectangleStack()
     const sketch = stack[0] as Extract<FeatureStack[number], { type: 'sketch' }>
@@ -155,6 +165,152 @@ describe('compileFeatureStack', () => {
     expect(ir[1].offsetResolved).toBe(2)
   })
 
+  it('resolves revolve axes from sketch axes and sketch line components', () => {
+    const revolveStack = (axis: RevolveAxis): FeatureStack => [
+      rectangleStack()[0],
+      {
+        type: 'revolve',
+        featureId: 'revolve-1',
+        inputs: {
+          profileRef: {
+            sourceFeatureId: 'sketch-1',
+            profileId: 'prof_rect',
+          },
+          axis,
+        },
+        params: {
+          angle: { kind: 'lit', value: 90 },
+        },
+        outputs: {
+          bodyId: 'body-1',
+        },
+        uiState: {
+          collapsed: false,
+        },
+      },
+    ]
+    const revolveIr = (axis: RevolveAxis) => {
+      const op = compileFeatureStack(revolveStack(axis))[1]
+      return op.op === 'revolve' ? op : null
+    }
+
+    expect(revolveIr({ kind: 'sketchAxis', axis: 'y' })).toEqual({
+      op: 'revolve',
+      featureId: 'revolve-1',
+      profileRef: {
+        sketchFeatureId: 'sketch-1',
+        profileId: 'prof_rect',
+        profileIndex: 0,
+      },
+      axisResolved: {
+        origin: { x: 0, y: 0 },
+        direction: { x: 0, y: 1 },
+      },
+      angleResolved: 90,
+      bodyId: 'body-1',
+    })
+    expect(revolveIr({ kind: 'sketchLine', componentId: 'e4' })?.axisResolved).toEqual({
+      origin: { x: 0, y: 10 },
+      direction: { x: 0, y: -1 },
+    })
+    expect(revolveIr({ kind: 'sketchLine', componentId: 'missing' })?.axisResolved).toBeNull()
+  })
+
+  it('resolves loft sections through sketches and offset formulas', () => {
+    const stack = rectangleStack()
+    stack[1] = {
+      type: 'loft',
+      featureId: 'loft-1',
+      inputs: {
+        sections: [
+          {
+            profileRef: { sourceFeatureId: 'sketch-1', profileId: 'prof_rect' },
+            offset: { kind: 'lit', value: 0 },
+          },
+          { profileRef: null, offset: { kind: 'lit', value: 4 } },
+          {
+            profileRef: { sourceFeatureId: 'sketch-1', profileId: 'prof_rect' },
+            offset: { kind: 'expr', source: 'height * 2' },
+          },
+        ],
+      },
+      outputs: { bodyId: 'body-1' },
+      uiState: { collapsed: false },
+    }
+
+    const ir = compileFeatureStack(stack, { height: 6 })
+    expect(ir[1]).toEqual({
+      op: 'loft',
+      featureId: 'loft-1',
+      sections: [
+        {
+          profileRef: { sketchFeatureId: 'sketch-1', profileId: 'prof_rect', profileIndex: 0 },
+          offsetResolved: 0,
+        },
+        { profileRef: null, offsetResolved: 4 },
+        {
+          profileRef: { sketchFeatureId: 'sketch-1', profileId: 'prof_rect', profileIndex: 0 },
+          offsetResolved: 12,
+        },
+      ],
+      bodyId: 'body-1',
+    })
+    expect(compileFeatureStack(stack).map((op) => op.featureId)).toEqual(['sketch-1'])
+  })
+
+  it('resolves sweep paths from sketch components and passes wired splines through', () => {
+    const stack = rectangleStack()
+    stack[1] = {
+      type: 'sweep',
+      featureId: 'sweep-1',
+      inputs: {
+        profileRef: { sourceFeatureId: 'sketch-1', profileId: 'prof_rect' },
+        path: { kind: 'sketchComponent', sourceFeatureId: 'sketch-1', componentId: 'e2' },
+      },
+      params: {
+        twist: { kind: 'expr', source: 'height * 3' },
+      },
+      outputs: { bodyId: 'body-1' },
+      uiState: { collapsed: false },
+    }
+
+    expect(compileFeatureStack(stack, { height: 6 })[1]).toEqual({
+      op: 'sweep',
+      featureId: 'sweep-1',
+      profileRef: { sketchFeatureId: 'sketch-1', profileId: 'prof_rect', profileIndex: 0 },
+      path: {
+        kind: 'segment',
+        plane: 'XY',
+        segment: { kind: 'line2', a: { x: 10, y: 0 }, b: { x: 10, y: 10 } },
+      },
+      twistResolved: 18,
+      scaleResolved: 1,
+      bodyId: 'body-1',
+    })
+
+    const sweep = stack[1]
+    if (sweep.type === 'sweep') {
+      sweep.inputs.path = {
+        kind: 'spline',
+        points: [
+          { x: 0, y: 0, z: 0 },
+          { x: 0, y: 5, z: 20 },
+        ],
+        closed: false,
+      }
+    }
+    expect(compileFeatureStack(stack, { height: 6 })[1]).toMatchObject({
+      path: {
+        kind: 'spline',
+        points: [
+          { x: 0, y: 0, z: 0 },
+          { x: 0, y: 5, z: 20 },
+        ],
+        closed: false,
+      },
+    })
+  })
+
   it('excludes disabled features while preserving deterministic enabled-feature order', () => {
     const stack = rectangleStack()
     stack[0] = {
@@ -175,4 +331,40 @@ describe('compileFeatureStack', () => {
       },
     ])
   })
+
+  it('evaluates formulas against the part scope', () => {
+    const stack = rectangleStack()
+    const sketch = stack[0] as Extract<FeatureStack[number], { type: 'sketch' }>
+    const extrude = stack[1] as Extract<FeatureStack[number], { type: 'extrude' }>
+    const widen = (point: Vec2Expression): Vec2Expression =>
+      point.kind === 'lit' && point.x === 10
+        ? { kind: 'expr', x: 'widthMm', y: `${String(point.y)}mm` }
+        : point
+    sketch.components = sketch.components.map((component) =>
+      component.type === 'line' ? { ...component, a: widen(component.a), b: widen(component.b) } : component,
+    )
+    extrude.params.depth = { kind: 'expr', source: 'hookThickness * 2 + 1mm' }
+
+    const ir = compileFeatureStack(stack, { widthMm: 20, hookThickness: 3 })
+    expect(ir[1].op === 'extrude' ? ir[1].depthResolved : null).toBe(7)
+    expect(ir[0].op).toBe('sketch')
+    if (ir[0].op !== 'sketch') {
+      return
+    }
+    expect(Math.max(...ir[0].profilesResolved[0].verticesProxy.map((vertex) => vertex.x))).toBe(20)
+    expect(signedArea(ir[0].profilesResolved[0].verticesProxy)).toBeCloseTo(200, 9)
+  })
+
+  it('leaves features with failing formulas out of the IR', () => {
+    const stack = rectangleStack()
+    const extrude = stack[1] as Extract<FeatureStack[number], { type: 'extrude' }>
+    extrude.params.depth = { kind: 'expr', source: 'missingParam * 2' }
+
+    expect(compileFeatureStack(stack).map((op) => op.featureId)).toEqual(['sketch-1'])
+    expect(
+      compileFeatureStack(stack, { missingParam: 4 }).map((op) =>
+        op.op === 'extrude' ? op.depthResolved : op.featureId,
+      ),
+    ).toEqual(['sketch-1', 8])
+  })
 })
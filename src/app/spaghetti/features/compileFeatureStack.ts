@@ -1,7 +1,26 @@
-import { resolveNumberExpression } from './expressions'
-import { deriveProfilesWithDiagnostics } from './profileDerivation'
+import {
+  collectFeatureExpressionErrors,
+  resolveNumberExpression,
+  resolveVec2Expression,
+  type ExpressionScope,
+} from './expressions'
+import {
+  deriveProfilesWithDiagnostics,
+  resolveSketchComponentToSegment,
+} from './profileDerivation'
 import { getEffectiveFeatureStack } from './featureDependencies'
-import type { FeatureStack, ProfileLoop, ProfileReference } from './featureTypes'
+import type {
+  BodyReference,
+  BooleanOperation,
+  FeatureStack,
+  ProfileLoop,
+  ProfileReference,
+  RevolveAxis,
+  Segment2,
+  SketchComponent,
+  SketchPlane,
+  SweepPath,
+} from './featureTypes'
 
 type Point2 = {
   x: number
@@ -19,12 +38,14 @@ export type IRSketchProfileResolved = {
   profileIndex: number
   area: number
   loop: ProfileLoop
+  innerLoops?: ProfileLoop[]
   verticesProxy: Point2[]
 }
 
 export type IRSketch = {
   op: 'sketch'
   featureId: string
+  plane: SketchPlane
   profilesResolved: IRSketchProfileResolved[]
 }
 
@@ -45,7 +66,71 @@ export type IRExtrude = {
   bodyId?: string
 }
 
-export type FeatureStackIR = Array<IRSketch | IRCloseProfile | IRExtrude>
+// Axis in the 2D frame of the sketch that owns the revolved profile; direction is unit length.
+export type IRRevolveAxis = {
+  origin: Point2
+  direction: Point2
+}
+
+export type IRRevolve = {
+  op: 'revolve'
+  featureId: string
+  profileRef: IRProfileReference | null
+  axisResolved: IRRevolveAxis | null
+  angleResolved: number
+  bodyId?: string
+}
+
+export type IRLoftSection = {
+  profileRef: IRProfileReference | null
+  offsetResolved: number
+}
+
+export type IRLoft = {
+  op: 'loft'
+  featureId: string
+  sections: IRLoftSection[]
+  bodyId?: string
+}
+
+// A sketch component path stays a segment in its sketch's 2D frame; wired spline points are in
+// world space. Both are tessellated when the graph is compiled.
+export type IRSweepPath =
+  | {
+      kind: 'segment'
+      plane: SketchPlane
+      segment: Segment2
+    }
+  | {
+      kind: 'spline'
+      points: Array<{ x: number; y: number; z: number }>
+      closed: boolean
+    }
+
+export type IRSweep = {
+  op: 'sweep'
+  featureId: string
+  profileRef: IRProfileReference | null
+  path: IRSweepPath | null
+  twistResolved: number
+  scaleResolved: number
+  bodyId?: string
+}
+
+// Body references are passed through unresolved; cross-part tools are resolved against the other
+// Part nodes when the graph is compiled.
+export type IRBoolean = {
+  op: 'boolean'
+  featureId: string
+  operation: BooleanOperation
+  targetBodyId: string | null
+  tools: BodyReference[]
+  bodyId?: string
+}
+
+export type FeatureStackIR = Array<
+  IRSketch | IRCloseProfile | IRExtrude | IRRevolve | IRLoft | IRSweep | IRBoolean
+>
 
 const toIRProfileRef = (profileRef: ProfileReference | null): IRProfileReference | null => {
   if (profileRef === null) {
@@ -58,6 +143,65 @@ const toIRProfileRef = (profileRef: ProfileReference | null): IRProfileReference
   }
 }
 
+const resolveRevolveAxis = (
+  axis: RevolveAxis,
+  components: SketchComponent[] | undefined,
+  scope: ExpressionScope,
+): IRRevolveAxis | null => {
+  if (axis.kind === 'sketchAxis') {
+    return {
+      origin: { x: 0, y: 0 },
+      direction: axis.axis === 'x' ? { x: 1, y: 0 } : { x: 0, y: 1 },
+    }
+  }
+  const line = components?.find(
+    (component) => component.type === 'line' && component.componentId === axis.componentId,
+  )
+  if (line === undefined || line.type !== 'line') {
+    return null
+  }
+  const a = resolveVec2Expression(line.a, scope)
+  const b = resolveVec2Expression(line.b, scope)
+  const length = Math.hypot(b.x - a.x, b.y - a.y)
+  if (!(length > 0)) {
+    return null
+  }
+  return {
+    origin: a,
+    direction: { x: (b.x - a.x) / length, y: (b.y - a.y) / length },
+  }
+}
+
+const resolveSweepPath = (
+  path: SweepPath | null,
+  sketchComponentsByFeatureId: ReadonlyMap<string, SketchComponent[]>,
+  sketchPlaneByFeatureId: ReadonlyMap<string, SketchPlane>,
+  scope: ExpressionScope,
+): IRSweepPath | null => {
+  if (path === null) {
+    return null
+  }
+  if (path.kind === 'spline') {
+    return {
+      kind: 'spline',
+      points: path.points.map((point) => ({ ...point })),
+      closed: path.closed,
+    }
+  }
+  const plane = sketchPlaneByFeatureId.get(path.sourceFeatureId)
+  const component = sketchComponentsByFeatureId
+    .get(path.sourceFeatureId)
+    ?.find((candidate) => candidate.componentId === path.componentId)
+  if (plane === undefined || component === undefined) {
+    return null
+  }
+  return {
+    kind: 'segment',
+    plane,
+    segment: resolveSketchComponentToSegment(component, scope),
+  }
+}
+
 const reconcileProfileIds = (
   resolved: ReturnType<typeof deriveProfilesWithDiagnostics>,
   legacyProfileId: string | undefined,
@@ -67,6 +211,7 @@ const reconcileProfileIds = (
     profileIndex: profile.profileIndex ?? index,
     area: profile.area,
     loop: profile.loop,
+    ...(profile.innerLoops === undefined ? {} : { innerLoops: profile.innerLoops }),
     verticesProxy: profile.verticesProxy,
   }))
   if (next.length === 1 && legacyProfileId !== undefined && legacyProfileId.length > 0) {
@@ -79,21 +224,60 @@ const reconcileProfileIds = (
   return next
 }
 
-export const compileFeatureStack = (stack: FeatureStack): FeatureStackIR => {
+// Formulas are evaluated against `scope` (the owning Part node's numeric params). A feature whose
+// formulas do not evaluate is left out of the IR, like a disabled feature; the errors are reported
+// by getFeatureDiagnostics.
+export const compileFeatureStack = (
+  stack: FeatureStack,
+  scope: ExpressionScope = {},
+): FeatureStackIR => {
   const effectiveStack = getEffectiveFeatureStack(stack)
   const sketchProfilesByFeatureId = new Map<string, IRSketchProfileResolved[]>()
+  const sketchComponentsByFeatureId = new Map<string, SketchComponent[]>()
+  const sketchPlaneByFeatureId = new Map<string, SketchPlane>()
   const closeProfileByFeatureId = new Map<string, IRCloseProfile>()
   const out: FeatureStackIR = []
+  // References through a Close Profile feature resolve to the sketch profile it selected.
+  const resolveProfileRef = (
+    reference: ProfileReference | null,
+  ): IRProfileReference | null => {
+    const directCandidate = toIRProfileRef(reference)
+    const direct =
+      directCandidate === null
+        ? null
+        : sketchProfilesByFeatureId.has(directCandidate.sketchFeatureId)
+          ? directCandidate
+          : closeProfileByFeatureId.has(directCandidate.sketchFeatureId)
+            ? directCandidate
+            : null
+    const viaClose =
+      direct === null ? null : closeProfileByFeatureId.get(direct.sketchFeatureId) ?? null
+    return viaClose === null
+      ? direct
+      : viaClose.profileRefResolved === null
+        ? null
+        : {
+            sketchFeatureId: viaClose.profileRefResolved.sketchFeatureId,
+            profileId: viaClose.profileRefResolved.profileId,
+            profileIndex: 0,
+          }
+  }
 
   for (const feature of effectiveStack) {
+    if (collectFeatureExpressionErrors(feature, scope).length > 0) {
+      continue
+    }
     if (feature.type === 'sketch') {
-      const resolved = deriveProfilesWithDiagnostics(feature.components)
+      const resolved = deriveProfilesWithDiagnostics(feature.components, scope)
       const legacyPreferredProfileId = feature.outputs.profiles[0]?.profileId
       const profilesResolved = reconcileProfileIds(resolved, legacyPreferredProfileId)
       sketchProfilesByFeatureId.set(feature.featureId, profilesResolved)
+      sketchComponentsByFeatureId.set(feature.featureId, feature.components)
+      sketchPlaneByFeatureId.set(feature.featureId, feature.plane)
       out.push({
         op: 'sketch',
         featureId: feature.featureId,
+        plane: feature.plane,
         profilesResolved,
       })
       continue
@@ -125,44 +309,93 @@ export const compileFeatureStack = (stack: FeatureStack): FeatureStackIR => {
       continue
     }
 
-    const directCandidate = toIRProfileRef(feature.inputs.profileRef)
-    const direct =
-      directCandidate === null
-        ? null
-        : sketchProfilesByFeatureId.has(directCandidate.sketchFeatureId)
-          ? directCandidate
-          : closeProfileByFeatureId.has(directCandidate.sketchFeatureId)
-            ? directCandidate
-            : null
-    const viaClose =
-      direct === null ? null : closeProfileByFeatureId.get(direct.sketchFeatureId) ?? null
-    const profileRef =
-      viaClose === null
-        ? direct
-        : viaClose.profileRefResolved === null
-          ? null
-          : {
-              sketchFeatureId: viaClose.profileRefResolved.sketchFeatureId,
-              profileId: viaClose.profileRefResolved.profileId,
-              profileIndex: 0,
-            }
+    if (feature.type === 'boolean') {
+      out.push({
+        op: 'boolean',
+        featureId: feature.featureId,
+        operation: feature.params.operation,
+        targetBodyId: feature.inputs.targetBodyId,
+        tools: feature.inputs.tools.map((tool) => ({ ...tool })),
+        bodyId: feature.outputs.bodyId,
+      })
+      continue
+    }
+
+    if (feature.type === 'loft') {
+      out.push({
+        op: 'loft',
+        featureId: feature.featureId,
+        sections: feature.inputs.sections.map((section) => ({
+          profileRef: resolveProfileRef(section.profileRef),
+          offsetResolved: resolveNumberExpression(section.offset, scope),
+        })),
+        bodyId: feature.outputs.bodyId,
+      })
+      continue
+    }
+
+    const profileRef = resolveProfileRef(feature.inputs.profileRef)
+
+    if (feature.type === 'sweep') {
+      out.push({
+        op: 'sweep',
+        featureId: feature.featureId,
+        profileRef,
+        path: resolveSweepPath(
+          feature.inputs.path,
+          sketchComponentsByFeatureId,
+          sketchPlaneByFeatureId,
+          scope,
+        ),
+        twistResolved: resolveNumberExpression(
+          feature.params.twist ?? { kind: 'lit', value: 0 },
+          scope,
+        ),
+        scaleResolved: resolveNumberExpression(
+          feature.params.scale ?? { kind: 'lit', value: 1 },
+          scope,
+        ),
+        bodyId: feature.outputs.bodyId,
+      })
+      continue
+    }
+
+    if (feature.type === 'revolve') {
+      out.push({
+        op: 'revolve',
+        featureId: feature.featureId,
+        profileRef,
+        axisResolved: resolveRevolveAxis(
+          feature.inputs.axis,
+          profileRef === null
+            ? undefined
+            : sketchComponentsByFeatureId.get(profileRef.sketchFeatureId),
+          scope,
+        ),
+        angleResolved: resolveNumberExpression(feature.params.angle, scope),
+        bodyId: feature.outputs.bodyId,
+      })
+      continue
+    }
 
     out.push({
       op: 'extrude',
       featureId: feature.featureId,
       profileRef,
-      depthResolved: resolveNumberExpression(feature.params.depth),
+      depthResolved: resolveNumberExpression(feature.params.depth, scope),
       taperResolved: resolveNumberExpression(
         feature.params.taper ?? {
           kind: 'lit',
           value: 0,
         },
+        scope,
       ),
       offsetResolved: resolveNumberExpression(
         feature.params.offset ?? {
           kind: 'lit',
           value: 0,
         },
+        scope,
       ),
       bodyId: feature.outputs.bodyId,
     })
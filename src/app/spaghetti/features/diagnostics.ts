@@ -1,12 +1,36 @@
+import type { RuntimeDiagnostic } from '../../../shared/buildTypes'
+import {
+  collectFeatureExpressionErrors,
+  type ExpressionErrorCode,
+  type ExpressionScope,
+} from './expressions'
 import type { FeatureStack } from './featureTypes'
 import { getEffectiveFeatureStack, getFeatureDependencyIssues } from './featureDependencies'
 
 export type FeatureDiagnosticCode =
   | 'SKETCH_PROFILE_NOT_CLOSED'
   | 'SKETCH_PROFILE_DEGENERATE'
+  | 'SKETCH_PROFILE_LOOPS_OVERLAP'
   | 'CLOSE_PROFILE_SOURCE_MISSING'
   | 'CLOSE_PROFILE_PROFILE_MISSING'
   | 'EXTRUDE_PROFILE_REF_INVALID'
+  | 'REVOLVE_PROFILE_REF_INVALID'
+  | 'REVOLVE_AXIS_LINE_MISSING'
+  | 'LOFT_PROFILE_REF_INVALID'
+  | 'SWEEP_PROFILE_REF_INVALID'
+  | 'SWEEP_PATH_INVALID'
+  | 'BOOLEAN_BODY_REF_INVALID'
+  | ExpressionErrorCode
+  | RuntimeDiagnosticCode
+
+// Worker runtime reasons (`missing_profile`, `extrude_failure`, ...) surface as RUNTIME_* codes.
+export type RuntimeDiagnosticCode = `RUNTIME_${string}`
+
+export const toRuntimeDiagnosticCode = (reason: string): RuntimeDiagnosticCode =>
+  `RUNTIME_${reason.toUpperCase()}`
+
+export const isRuntimeDiagnosticCode = (code: string): code is RuntimeDiagnosticCode =>
+  code.startsWith('RUNTIME_')
 
 export type Diagnostic = {
   featureId: string
@@ -15,11 +39,22 @@ export type Diagnostic = {
   message: string
 }
 
-export const getFeatureDiagnostics = (stack: FeatureStack): Diagnostic[] => {
+export const getFeatureDiagnostics = (
+  stack: FeatureStack,
+  scope: ExpressionScope = {},
+): Diagnostic[] => {
   const diagnostics: Diagnostic[] = []
   const effectiveStack = getEffectiveFeatureStack(stack)
 
   for (const feature of effectiveStack) {
+    for (const error of collectFeatureExpressionErrors(feature, scope)) {
+      diagnostics.push({
+        featureId: feature.featureId,
+        level: 'error',
+        code: error.code,
+        message: `${error.target}: ${error.message}`,
+      })
+    }
     if (feature.type === 'sketch') {
       for (const diagnostic of feature.outputs.diagnostics ?? []) {
         diagnostics.push({
@@ -51,6 +86,60 @@ export const getFeatureDiagnostics = (stack: FeatureStack): Diagnostic[] => {
       })
       continue
     }
+    if (issue.code === 'REVOLVE_PROFILE_REF_INVALID') {
+      diagnostics.push({
+        featureId: issue.featureId,
+        level: 'error',
+        code: issue.code,
+        message: 'Revolve references missing profile source.',
+      })
+      continue
+    }
+    if (issue.code === 'REVOLVE_AXIS_LINE_MISSING') {
+      diagnostics.push({
+        featureId: issue.featureId,
+        level: 'error',
+        code: issue.code,
+        message: 'Revolve axis line is missing from the profile sketch.',
+      })
+      continue
+    }
+    if (issue.code === 'LOFT_PROFILE_REF_INVALID') {
+      diagnostics.push({
+        featureId: issue.featureId,
+        level: 'error',
+        code: issue.code,
+        message: 'Loft section references missing profile source.',
+      })
+      continue
+    }
+    if (issue.code === 'SWEEP_PROFILE_REF_INVALID') {
+      diagnostics.push({
+        featureId: issue.featureId,
+        level: 'error',
+        code: issue.code,
+        message: 'Sweep references missing profile source.',
+      })
+      continue
+    }
+    if (issue.code === 'SWEEP_PATH_INVALID') {
+      diagnostics.push({
+        featureId: issue.featureId,
+        level: 'error',
+        code: issue.code,
+        message: 'Sweep path references a missing sketch component.',
+      })
+      continue
+    }
+    if (issue.code === 'BOOLEAN_BODY_REF_INVALID') {
+      diagnostics.push({
+        featureId: issue.featureId,
+        level: 'error',
+        code: issue.code,
+        message: 'Boolean references a body that no earlier feature leaves available.',
+      })
+      continue
+    }
     diagnostics.push({
       featureId: issue.featureId,
       level: 'error',
@@ -60,18 +149,77 @@ export const getFeatureDiagnostics = (stack: FeatureStack): Diagnostic[] => {
   }
 
   for (const feature of effectiveStack) {
-    if (feature.type !== 'extrude' || feature.inputs.profileRef !== null) {
-      continue
+    if (feature.type === 'extrude' && feature.inputs.profileRef === null) {
+      diagnostics.push({
+        featureId: feature.featureId,
+        level: 'warning',
+        code: 'EXTRUDE_PROFILE_REF_INVALID',
+        message: 'Extrude missing profile.',
+      })
+    }
+    if (feature.type === 'revolve' && feature.inputs.profileRef === null) {
+      diagnostics.push({
+        featureId: feature.featureId,
+        level: 'warning',
+        code: 'REVOLVE_PROFILE_REF_INVALID',
+        message: 'Revolve missing profile.',
+      })
+    }
+    if (
+      feature.type === 'loft' &&
+      feature.inputs.sections.filter((section) => section.profileRef !== null).length < 2
+    ) {
+      diagnostics.push({
+        featureId: feature.featureId,
+        level: 'warning',
+        code: 'LOFT_PROFILE_REF_INVALID',
+        message: 'Loft needs at least two sections with a profile.',
+      })
+    }
+    if (feature.type === 'sweep' && feature.inputs.profileRef === null) {
+      diagnostics.push({
+        featureId: feature.featureId,
+        level: 'warning',
+        code: 'SWEEP_PROFILE_REF_INVALID',
+        message: 'Sweep missing profile.',
+      })
+    }
+    if (feature.type === 'sweep' && feature.inputs.path === null) {
+      diagnostics.push({
+        featureId: feature.featureId,
+        level: 'warning',
+        code: 'SWEEP_PATH_INVALID',
+        message: 'Sweep missing path.',
+      })
+    }
+    if (
+      feature.type === 'boolean' &&
+      (feature.inputs.targetBodyId === null || feature.inputs.tools.length === 0)
+    ) {
+      diagnostics.push({
+        featureId: feature.featureId,
+        level: 'warning',
+        code: 'BOOLEAN_BODY_REF_INVALID',
+        message: 'Boolean needs a target body and at least one tool body.',
+      })
     }
-    diagnostics.push({
-      featureId: feature.featureId,
-      level: 'warning',
-      code: 'EXTRUDE_PROFILE_REF_INVALID',
-      message: 'Extrude missing profile.',
-    })
   }
 
   return diagnostics
 }
 
 export type FeatureDiagnostic = Diagnostic
+
+// Runtime diagnostics the worker reported for one part, as feature-row warnings.
+export const getRuntimeFeatureDiagnostics = (
+  runtimeDiagnostics: readonly RuntimeDiagnostic[],
+  partKey: string,
+): FeatureDiagnostic[] =>
+  runtimeDiagnostics
+    .filter((diagnostic) => diagnostic.partKey === partKey)
+    .map((diagnostic) => ({
+      featureId: diagnostic.featureId,
+      level: 'warning',
+      code: toRuntimeDiagnosticCode(diagnostic.reason),
+      message: diagnostic.message,
+    }))
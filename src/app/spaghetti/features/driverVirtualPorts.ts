@@ -1,4 +1,5 @@
 import { getNodeDef, type NodeDefinition } from '../registry/nodeRegistry'
+import { buildExpressionScope, type ExpressionScope } from './expressions'
 import type { PortSpec, PortType, SpaghettiNode } from '../schema/spaghettiTypes'
 
 type ParsedDriverVirtualOutputPort = {
@@ -273,3 +274,42 @@ export const getDriverVirtualOutputValue = (
 
   return undefined
 }
+
+// Formula scope for a part node as evaluation sees it: a wired driver input replaces the stored
+// param, and each driver param takes the value its `out:drv:*` port emits (offset included).
+export const buildNodeExpressionScope = (
+  node: SpaghettiNode,
+  resolvedInputsByPortId?: Readonly<Record<string, unknown>>,
+  nodeDef?: NodeDefinition,
+): ExpressionScope => {
+  const resolvedNodeDef = nodeDef ?? getNodeDef(node.type)
+  if (resolvedNodeDef === undefined) {
+    return buildExpressionScope(node.params)
+  }
+  const wiredParams: Record<string, unknown> = { ...node.params }
+  for (const port of listDriverVirtualInputPorts(node, resolvedNodeDef)) {
+    const parsed = parseDriverVirtualInputPortId(port.portId)
+    const wiredValue = resolvedInputsByPortId?.[port.portId]
+    if (parsed === null || wiredValue === undefined) {
+      continue
+    }
+    const canonicalPortId = buildDriverVirtualInputPortId(parsed.paramId)
+    if (port.portId !== canonicalPortId && resolvedInputsByPortId?.[canonicalPortId] !== undefined) {
+      continue
+    }
+    wiredParams[parsed.paramId] = wiredValue
+  }
+  const wiredNode: SpaghettiNode = { ...node, params: wiredParams }
+  const scopeParams: Record<string, unknown> = { ...wiredParams }
+  for (const port of listDriverVirtualOutputPorts(wiredNode, resolvedNodeDef)) {
+    const parsed = parseDriverVirtualOutputPortId(port.portId)
+    if (parsed === null || port.portId !== buildDriverVirtualOutputPortId(parsed.paramId)) {
+      continue
+    }
+    const outputValue = getDriverVirtualOutputValue(wiredNode, resolvedNodeDef, port.portId)
+    if (outputValue !== undefined) {
+      scopeParams[parsed.paramId] = outputValue
+    }
+  }
+  return buildExpressionScope(scopeParams)
+}
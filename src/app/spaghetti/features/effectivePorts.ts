@@ -4,6 +4,7 @@ import type {
   PortSpec,
   SpaghettiNode,
 } from '../schema/spaghettiTypes'
+import { isUnit } from '../types/units'
 import { OUTPUT_PREVIEW_NODE_TYPE } from '../system/outputPreviewNode'
 import {
   listDriverVirtualInputPorts,
@@ -14,6 +15,38 @@ import { listFeatureVirtualInputPorts } from './featureVirtualPorts'
 const findPortById = (ports: readonly PortSpec[], portId: string): PortSpec | undefined =>
   ports.find((port) => port.portId === portId)
 
+const applyParamUnit = (
+  node: SpaghettiNode,
+  nodeDef: NodeDefinition | undefined,
+  ports: readonly PortSpec[],
+): PortSpec[] => {
+  const unitPortIds = nodeDef?.unitParamPortIds
+  const unit = node.params.unit
+  if (unitPortIds === undefined || !isUnit(unit)) {
+    return [...ports]
+  }
+  return ports.map((port) =>
+    unitPortIds.includes(port.portId) ? { ...port, type: { ...port.type, unit } } : port,
+  )
+}
+
+// Declared ports with units resolved against the node's params (see `unitParamPortIds`).
+export const listDeclaredInputPorts = (
+  node: SpaghettiNode,
+  nodeDef?: NodeDefinition | undefined,
+): PortSpec[] => {
+  const resolvedNodeDef = nodeDef ?? getNodeDef(node.type)
+  return applyParamUnit(node, resolvedNodeDef, resolvedNodeDef?.inputs ?? [])
+}
+
+export const listDeclaredOutputPorts = (
+  node: SpaghettiNode,
+  nodeDef?: NodeDefinition | undefined,
+): PortSpec[] => {
+  const resolvedNodeDef = nodeDef ?? getNodeDef(node.type)
+  return applyParamUnit(node, resolvedNodeDef, resolvedNodeDef?.outputs ?? [])
+}
+
 const listOutputPreviewSlotInputPorts = (node: SpaghettiNode): PortSpec[] => {
   if (node.type !== OUTPUT_PREVIEW_NODE_TYPE) {
     return []
@@ -40,7 +73,7 @@ export const listEffectiveInputPorts = (
   nodeDef?: NodeDefinition | undefined,
 ): PortSpec[] => {
   const resolvedNodeDef = nodeDef ?? getNodeDef(node.type)
-  const declaredInputs = resolvedNodeDef?.inputs ?? []
+  const declaredInputs = listDeclaredInputPorts(node, resolvedNodeDef)
   const outputPreviewSlotInputs = listOutputPreviewSlotInputPorts(node)
   const featureVirtualInputs = listFeatureVirtualInputPorts(node)
   const driverVirtualInputs = listDriverVirtualInputPorts(node, resolvedNodeDef)
@@ -57,7 +90,7 @@ export const listEffectiveOutputPorts = (
   nodeDef?: NodeDefinition | undefined,
 ): PortSpec[] => {
   const resolvedNodeDef = nodeDef ?? getNodeDef(node.type)
-  const declaredOutputs = resolvedNodeDef?.outputs ?? []
+  const declaredOutputs = listDeclaredOutputPorts(node, resolvedNodeDef)
   const virtualDriverOutputs = listDriverVirtualOutputPorts(node, resolvedNodeDef)
   return [...declaredOutputs, ...virtualDriverOutputs]
 }
@@ -67,7 +100,7 @@ export const resolveEffectiveInputPort = (
   portId: string,
   nodeDef?: NodeDefinition | undefined,
 ): PortSpec | undefined => {
-  const declared = findPortById(nodeDef?.inputs ?? getNodeDef(node.type)?.inputs ?? [], portId)
+  const declared = findPortById(listDeclaredInputPorts(node, nodeDef), portId)
   if (declared !== undefined) {
     return declared
   }
@@ -87,7 +120,7 @@ export const resolveEffectiveOutputPort = (
   portId: string,
   nodeDef?: NodeDefinition | undefined,
 ): PortSpec | undefined => {
-  const declared = findPortById(nodeDef?.outputs ?? getNodeDef(node.type)?.outputs ?? [], portId)
+  const declared = findPortById(listDeclaredOutputPorts(node, nodeDef), portId)
   if (declared !== undefined) {
     return declared
   }
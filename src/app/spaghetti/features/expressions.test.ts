@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildExpressionScope,
+  collectFeatureExpressionErrors,
+  evaluateExpressionSource,
+  formatNumberExpression,
+  resolveNumberExpression,
+  resolveVec2Expression,
+  toNumberExpression,
+  tryResolveVec2Expression,
+} from './expressions'
+
+const value = (source: string, scope = {}): number => {
+  const result = evaluateExpressionSource(source, scope)
+  if (!result.ok) {
+    throw new Error(result.error.message)
+  }
+  return result.value
+}
+
+describe('evaluateExpressionSource', () => {
+  it('applies arithmetic precedence and associativity', () => {
+    expect(value('1 + 2 * 3')).toBe(7)
+    expect(value('(1 + 2) * 3')).toBe(9)
+    expect(value('10 - 4 - 3')).toBe(3)
+    expect(value('2 ^ 3 ^ 2')).toBe(512)
+    expect(value('-2 ^ 2')).toBe(-4)
+    expect(value('-(3 - 5) / 4')).toBe(0.5)
+  })
+
+  it('accepts unit suffixes on literals', () => {
+    expect(value('12mm + 3 mm')).toBe(15)
+    expect(value('90deg / 2')).toBe(45)
+  })
+
+  it('evaluates trig in degrees and the min/max/clamp helpers', () => {
+    expect(value('sin(30)')).toBeCloseTo(0.5, 12)
+    expect(value('cos(60deg)')).toBeCloseTo(0.5, 12)
+    expect(value('atan2(1, 1)')).toBeCloseTo(45, 12)
+    expect(value('min(4, 2, 8)')).toBe(2)
+    expect(value('max(4, 2, 8)')).toBe(8)
+    expect(value('clamp(12, 0, 10)')).toBe(10)
+  })
+
+  it('resolves named parameters from the scope', () => {
+    expect(value('widthMm / 2 - hookThickness', { widthMm: 40, hookThickness: 3 })).toBe(17)
+  })
+
+  it('reports unknown symbols and parse errors', () => {
+    const unknown = evaluateExpressionSource('widthMm * 2', {})
+    expect(unknown.ok ? null : unknown.error.code).toBe('EXPRESSION_UNKNOWN_SYMBOL')
+
+    for (const source of ['1 +', '(2', '2 $ 3', 'clamp(1, 2)', 'nope(1)', '']) {
+      const result = evaluateExpressionSource(source, {})
+      expect(result.ok ? null : result.error.code).toBe('EXPRESSION_PARSE_ERROR')
+    }
+    for (const name of ['toString', 'constructor', 'hasOwnProperty']) {
+      const result = evaluateExpressionSource(`${name}(1)`, {})
+      expect(result.ok ? null : result.error.message).toBe(`Unknown function "${name}".`)
+    }
+  })
+
+  it('rejects non-finite results', () => {
+    const result = evaluateExpressionSource('1 / 0', {})
+    expect(result.ok ? null : result.error.code).toBe('EXPRESSION_NOT_FINITE')
+  })
+})
+
+describe('expression values', () => {
+  it('resolves literals directly and formulas against the scope', () => {
+    expect(resolveNumberExpression({ kind: 'lit', value: 3 })).toBe(3)
+    expect(resolveNumberExpression({ kind: 'expr', source: 'a + 1' }, { a: 2 })).toBe(3)
+    expect(resolveNumberExpression({ kind: 'expr', source: 'a + 1' })).toBeNaN()
+    expect(resolveVec2Expression({ kind: 'expr', x: 'a', y: '-a' }, { a: 2 })).toEqual({ x: 2, y: -2 })
+    expect(tryResolveVec2Expression({ kind: 'expr', x: '1', y: '2 +' }).ok).toBe(false)
+  })
+
+  it('round-trips edited text through toNumberExpression', () => {
+    expect(toNumberExpression(' 12.5 ')).toEqual({ kind: 'lit', value: 12.5 })
+    expect(toNumberExpression('widthMm / 2')).toEqual({ kind: 'expr', source: 'widthMm / 2' })
+    expect(formatNumberExpression({ kind: 'expr', source: 'widthMm / 2' })).toBe('widthMm / 2')
+  })
+
+  it('builds a sorted scope from finite numeric params only', () => {
+    expect(
+      Object.entries(buildExpressionScope({ widthMm: 20, label: 'x', angle: 45, bad: Number.NaN })),
+    ).toEqual([
+      ['angle', 45],
+      ['widthMm', 20],
+    ])
+  })
+})
+
+describe('collectFeatureExpressionErrors', () => {
+  it('names the parameter whose formula fails', () => {
+    const errors = collectFeatureExpressionErrors(
+      {
+        type: 'extrude',
+        featureId: 'extrude-1',
+        inputs: { profileRef: null },
+        params: {
+          depth: { kind: 'expr', source: 'hookThickness * 2' },
+          taper: { kind: 'expr', source: '3 *' },
+        },
+        outputs: { bodyId: 'body-1' },
+        uiState: { collapsed: false },
+      },
+      { widthMm: 10 },
+    )
+    expect(errors.map((error) => [error.target, error.code])).toEqual([
+      ['depth', 'EXPRESSION_UNKNOWN_SYMBOL'],
+      ['taper', 'EXPRESSION_PARSE_ERROR'],
+    ])
+  })
+})
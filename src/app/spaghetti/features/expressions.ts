@@ -1,19 +1,456 @@
-export type NumberExpression = {
-  kind: 'lit'
-  value: number
+import type { Feature } from './featureTypes'
+
+// Expressions are either literals or small formulas over named part parameters. Formulas are
+// parsed by a hand-written recursive-descent parser (no `eval`); lengths are millimetres, angles
+// are degrees, and the `mm` / `deg` suffixes only document the unit of a literal.
+export type NumberExpression =
+  | {
+      kind: 'lit'
+      value: number
+    }
+  | {
+      kind: 'expr'
+      source: string
+    }
+
+export type Vec2Expression =
+  | {
+      kind: 'lit'
+      x: number
+      y: number
+    }
+  | {
+      kind: 'expr'
+      x: string
+      y: string
+    }
+
+// Named values visible to formulas, e.g. the numeric params of the owning Part node.
+export type ExpressionScope = Readonly<Record<string, number>>
+
+export type ExpressionErrorCode =
+  | 'EXPRESSION_PARSE_ERROR'
+  | 'EXPRESSION_UNKNOWN_SYMBOL'
+  | 'EXPRESSION_NOT_FINITE'
+
+export type ExpressionError = {
+  code: ExpressionErrorCode
+  message: string
 }
 
-export type Vec2Expression = {
-  kind: 'lit'
-  x: number
-  y: number
+export type ExpressionResult<T> = { ok: true; value: T } | { ok: false; error: ExpressionError }
+
+type ExpressionNode =
+  | { kind: 'num'; value: number }
+  | { kind: 'ref'; name: string }
+  | { kind: 'neg'; operand: ExpressionNode }
+  | { kind: 'bin'; operator: '+' | '-' | '*' | '/' | '^'; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] }
+
+type Token =
+  | { kind: 'num'; value: number; start: number }
+  | { kind: 'ident'; name: string; start: number }
+  | { kind: 'op'; op: string; start: number }
+  | { kind: 'end'; start: number }
+
+const UNIT_SUFFIXES = new Set(['mm', 'deg'])
+
+const DEG_TO_RAD = Math.PI / 180
+
+const FUNCTIONS: Record<string, { arity: number | 'variadic'; apply: (args: number[]) => number }> =
+  {
+    min: { arity: 'variadic', apply: (args) => Math.min(...args) },
+    max: { arity: 'variadic', apply: (args) => Math.max(...args) },
+    clamp: { arity: 3, apply: ([value, low, high]) => Math.min(Math.max(value, low), high) },
+    abs: { arity: 1, apply: ([value]) => Math.abs(value) },
+    sqrt: { arity: 1, apply: ([value]) => Math.sqrt(value) },
+    round: { arity: 1, apply: ([value]) => Math.round(value) },
+    floor: { arity: 1, apply: ([value]) => Math.floor(value) },
+    ceil: { arity: 1, apply: ([value]) => Math.ceil(value) },
+    sin: { arity: 1, apply: ([deg]) => Math.sin(deg * DEG_TO_RAD) },
+    cos: { arity: 1, apply: ([deg]) => Math.cos(deg * DEG_TO_RAD) },
+    tan: { arity: 1, apply: ([deg]) => Math.tan(deg * DEG_TO_RAD) },
+    asin: { arity: 1, apply: ([value]) => Math.asin(value) / DEG_TO_RAD },
+    acos: { arity: 1, apply: ([value]) => Math.acos(value) / DEG_TO_RAD },
+    atan: { arity: 1, apply: ([value]) => Math.atan(value) / DEG_TO_RAD },
+    atan2: { arity: 2, apply: ([y, x]) => Math.atan2(y, x) / DEG_TO_RAD },
+  }
+
+const parseError = (message: string): { ok: false; error: ExpressionError } => ({
+  ok: false,
+  error: { code: 'EXPRESSION_PARSE_ERROR', message },
+})
+
+const tokenize = (source: string): ExpressionResult<Token[]> => {
+  const tokens: Token[] = []
+  let index = 0
+  while (index < source.length) {
+    const char = source[index]
+    if (/\s/.test(char)) {
+      index += 1
+      continue
+    }
+    const number = /^(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/i.exec(source.slice(index))
+    if (number !== null) {
+      tokens.push({ kind: 'num', value: Number(number[0]), start: index })
+      index += number[0].length
+      continue
+    }
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index))
+    if (ident !== null) {
+      tokens.push({ kind: 'ident', name: ident[0], start: index })
+      index += ident[0].length
+      continue
+    }
+    if ('+-*/^(),'.includes(char)) {
+      tokens.push({ kind: 'op', op: char, start: index })
+      index += 1
+      continue
+    }
+    return parseError(`Unexpected character "${char}" at ${String(index + 1)}.`)
+  }
+  tokens.push({ kind: 'end', start: source.length })
+  return { ok: true, value: tokens }
 }
 
-export const resolveNumberExpression = (expression: NumberExpression): number => expression.value
+export const parseExpression = (source: string): ExpressionResult<ExpressionNode> => {
+  const tokenized = tokenize(source)
+  if (!tokenized.ok) {
+    return tokenized
+  }
+  const tokens = tokenized.value
+  let position = 0
+
+  const peek = (): Token => tokens[position]
+  const isOp = (token: Token, op: string): boolean => token.kind === 'op' && token.op === op
+  const describe = (token: Token): string =>
+    token.kind === 'end'
+      ? 'end of expression'
+      : `"${token.kind === 'num' ? String(token.value) : token.kind === 'ident' ? token.name : token.op}" at ${String(token.start + 1)}`
+
+  // Each rule returns null after recording the first error, which aborts the parse.
+  let failure: string | null = null
+  const fail = (message: string): null => {
+    failure ??= message
+    return null
+  }
+
+  const parseSum = (): ExpressionNode | null => {
+    let left = parseProduct()
+    while (left !== null && (isOp(peek(), '+') || isOp(peek(), '-'))) {
+      const operator = (peek() as { op: '+' | '-' }).op
+      position += 1
+      const right = parseProduct()
+      left = right === null ? null : { kind: 'bin', operator, left, right }
+    }
+    return left
+  }
+
+  const parseProduct = (): ExpressionNode | null => {
+    let left = parseUnary()
+    while (left !== null && (isOp(peek(), '*') || isOp(peek(), '/'))) {
+      const operator = (peek() as { op: '*' | '/' }).op
+      position += 1
+      const right = parseUnary()
+      left = right === null ? null : { kind: 'bin', operator, left, right }
+    }
+    return left
+  }
+
+  const parseUnary = (): ExpressionNode | null => {
+    if (isOp(peek(), '-') || isOp(peek(), '+')) {
+      const negate = isOp(peek(), '-')
+      position += 1
+      const operand = parseUnary()
+      return operand === null || !negate ? operand : { kind: 'neg', operand }
+    }
+    return parsePower()
+  }
+
+  // `^` is right-associative and binds tighter than unary minus on its left: -2^2 = -4.
+  const parsePower = (): ExpressionNode | null => {
+    const base = parsePrimary()
+    if (base === null || !isOp(peek(), '^')) {
+      return base
+    }
+    position += 1
+    const exponent = parseUnary()
+    return exponent === null ? null : { kind: 'bin', operator: '^', left: base, right: exponent }
+  }
+
+  const parsePrimary = (): ExpressionNode | null => {
+    const token = peek()
+    if (token.kind === 'num') {
+      position += 1
+      const suffix = peek()
+      if (suffix.kind === 'ident' && UNIT_SUFFIXES.has(suffix.name)) {
+        position += 1
+      }
+      return { kind: 'num', value: token.value }
+    }
+    if (token.kind === 'ident') {
+      position += 1
+      if (!isOp(peek(), '(')) {
+        return { kind: 'ref', name: token.name }
+      }
+      const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, token.name)
+        ? FUNCTIONS[token.name]
+        : undefined
+      if (fn === undefined) {
+        return fail(`Unknown function "${token.name}".`)
+      }
+      position += 1
+      const args: ExpressionNode[] = []
+      if (!isOp(peek(), ')')) {
+        for (;;) {
+          const arg = parseSum()
+          if (arg === null) {
+            return null
+          }
+          args.push(arg)
+          if (!isOp(peek(), ',')) {
+            break
+          }
+          position += 1
+        }
+      }
+      if (!isOp(peek(), ')')) {
+        return fail(`Expected ")" but found ${describe(peek())}.`)
+      }
+      position += 1
+      if (fn.arity === 'variadic' ? args.length === 0 : args.length !== fn.arity) {
+        return fail(
+          `${token.name}() takes ${fn.arity === 'variadic' ? 'at least 1' : String(fn.arity)} argument${fn.arity === 1 ? '' : 's'}.`,
+        )
+      }
+      return { kind: 'call', name: token.name, args }
+    }
+    if (isOp(token, '(')) {
+      position += 1
+      const inner = parseSum()
+      if (inner === null) {
+        return null
+      }
+      if (!isOp(peek(), ')')) {
+        return fail(`Expected ")" but found ${describe(peek())}.`)
+      }
+      position += 1
+      return inner
+    }
+    return fail(`Unexpected ${describe(token)}.`)
+  }
+
+  const root = parseSum()
+  if (root !== null && peek().kind !== 'end') {
+    fail(`Unexpected ${describe(peek())}.`)
+  }
+  if (root === null || failure !== null) {
+    return parseError(failure ?? 'Invalid expression.')
+  }
+  return { ok: true, value: root }
+}
+
+const evaluateNode = (node: ExpressionNode, scope: ExpressionScope): ExpressionResult<number> => {
+  if (node.kind === 'num') {
+    return { ok: true, value: node.value }
+  }
+  if (node.kind === 'ref') {
+    const value = Object.prototype.hasOwnProperty.call(scope, node.name) ? scope[node.name] : undefined
+    return value === undefined
+      ? {
+          ok: false,
+          error: { code: 'EXPRESSION_UNKNOWN_SYMBOL', message: `Unknown symbol "${node.name}".` },
+        }
+      : { ok: true, value }
+  }
+  if (node.kind === 'neg') {
+    const operand = evaluateNode(node.operand, scope)
+    return operand.ok ? { ok: true, value: -operand.value } : operand
+  }
+  if (node.kind === 'call') {
+    const args: number[] = []
+    for (const arg of node.args) {
+      const result = evaluateNode(arg, scope)
+      if (!result.ok) {
+        return result
+      }
+      args.push(result.value)
+    }
+    return { ok: true, value: FUNCTIONS[node.name].apply(args) }
+  }
+  const left = evaluateNode(node.left, scope)
+  if (!left.ok) {
+    return left
+  }
+  const right = evaluateNode(node.right, scope)
+  if (!right.ok) {
+    return right
+  }
+  const value =
+    node.operator === '+'
+      ? left.value + right.value
+      : node.operator === '-'
+        ? left.value - right.value
+        : node.operator === '*'
+          ? left.value * right.value
+          : node.operator === '/'
+            ? left.value / right.value
+            : left.value ** right.value
+  return { ok: true, value }
+}
+
+export const evaluateExpressionSource = (
+  source: string,
+  scope: ExpressionScope = {},
+): ExpressionResult<number> => {
+  const parsed = parseExpression(source)
+  if (!parsed.ok) {
+    return parsed
+  }
+  const result = evaluateNode(parsed.value, scope)
+  if (result.ok && !Number.isFinite(result.value)) {
+    return {
+      ok: false,
+      error: { code: 'EXPRESSION_NOT_FINITE', message: `"${source}" does not evaluate to a finite number.` },
+    }
+  }
+  return result
+}
+
+export const tryResolveNumberExpression = (
+  expression: NumberExpression,
+  scope: ExpressionScope = {},
+): ExpressionResult<number> =>
+  expression.kind === 'lit'
+    ? { ok: true, value: expression.value }
+    : evaluateExpressionSource(expression.source, scope)
+
+export const tryResolveVec2Expression = (
+  expression: Vec2Expression,
+  scope: ExpressionScope = {},
+): ExpressionResult<{ x: number; y: number }> => {
+  if (expression.kind === 'lit') {
+    return { ok: true, value: { x: expression.x, y: expression.y } }
+  }
+  const x = evaluateExpressionSource(expression.x, scope)
+  if (!x.ok) {
+    return x
+  }
+  const y = evaluateExpressionSource(expression.y, scope)
+  if (!y.ok) {
+    return y
+  }
+  return { ok: true, value: { x: x.value, y: y.value } }
+}
+
+// Unresolvable expressions come back as NaN; callers that must report errors use the `try` forms.
+export const resolveNumberExpression = (
+  expression: NumberExpression,
+  scope: ExpressionScope = {},
+): number => {
+  const result = tryResolveNumberExpression(expression, scope)
+  return result.ok ? result.value : Number.NaN
+}
 
 export const resolveVec2Expression = (
   expression: Vec2Expression,
-): { x: number; y: number } => ({
-  x: expression.x,
-  y: expression.y,
-})
+  scope: ExpressionScope = {},
+): { x: number; y: number } => {
+  const result = tryResolveVec2Expression(expression, scope)
+  return result.ok ? result.value : { x: Number.NaN, y: Number.NaN }
+}
+
+// Value shown in the UI for an undriven parameter; unresolvable formulas display as 0.
+export const previewNumberExpression = (
+  expression: NumberExpression | undefined,
+  scope: ExpressionScope,
+): number => {
+  const value = expression === undefined ? 0 : resolveNumberExpression(expression, scope)
+  return Number.isFinite(value) ? value : 0
+}
+
+// Text typed into an expression field: plain numbers stay literals, anything else is a formula.
+export const toNumberExpression = (source: string): NumberExpression => {
+  const trimmed = source.trim()
+  const literal = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/i.test(trimmed) ? Number(trimmed) : NaN
+  return Number.isFinite(literal) ? { kind: 'lit', value: literal } : { kind: 'expr', source: trimmed }
+}
+
+export const formatNumberExpression = (expression: NumberExpression): string =>
+  expression.kind === 'lit' ? String(expression.value) : expression.source
+
+// Finite numeric params of a Part node, e.g. `widthMm` or `hookThickness`, sorted by name.
+export const buildExpressionScope = (params: Readonly<Record<string, unknown>>): ExpressionScope =>
+  Object.fromEntries(
+    Object.entries(params)
+      .filter((entry): entry is [string, number] => typeof entry[1] === 'number' && Number.isFinite(entry[1]))
+      .sort((a, b) => a[0].localeCompare(b[0])),
+  )
+
+export type FeatureExpressionError = ExpressionError & {
+  // Parameter or sketch point the formula belongs to, e.g. `depth` or `line-1.b`.
+  target: string
+}
+
+const collectVec2Errors = (
+  target: string,
+  expression: Vec2Expression,
+  scope: ExpressionScope,
+): FeatureExpressionError[] => {
+  const result = tryResolveVec2Expression(expression, scope)
+  return result.ok ? [] : [{ ...result.error, target }]
+}
+
+const collectNumberErrors = (
+  target: string,
+  expression: NumberExpression | undefined,
+  scope: ExpressionScope,
+): FeatureExpressionError[] => {
+  if (expression === undefined) {
+    return []
+  }
+  const result = tryResolveNumberExpression(expression, scope)
+  return result.ok ? [] : [{ ...result.error, target }]
+}
+
+// Formulas of one feature that do not evaluate against `scope`, in parameter order.
+export const collectFeatureExpressionErrors = (
+  feature: Feature,
+  scope: ExpressionScope,
+): FeatureExpressionError[] => {
+  if (feature.type === 'sketch') {
+    return feature.components.flatMap((component) => {
+      const points =
+        component.type === 'line'
+          ? { a: component.a, b: component.b }
+          : component.type === 'spline'
+            ? { p0: component.p0, p1: component.p1, p2: component.p2, p3: component.p3 }
+            : { start: component.start, mid: component.mid, end: component.end }
+      return Object.entries(points).flatMap(([pointKey, point]) =>
+        collectVec2Errors(`${component.componentId}.${pointKey}`, point, scope),
+      )
+    })
+  }
+  if (feature.type === 'extrude') {
+    return [
+      ...collectNumberErrors('depth', feature.params.depth, scope),
+      ...collectNumberErrors('taper', feature.params.taper, scope),
+      ...collectNumberErrors('offset', feature.params.offset, scope),
+    ]
+  }
+  if (feature.type === 'revolve') {
+    return collectNumberErrors('angle', feature.params.angle, scope)
+  }
+  if (feature.type === 'loft') {
+    return feature.inputs.sections.flatMap((section, index) =>
+      collectNumberErrors(`section${String(index + 1)}.offset`, section.offset, scope),
+    )
+  }
+  if (feature.type === 'sweep') {
+    return [
+      ...collectNumberErrors('twist', feature.params.twist, scope),
+      ...collectNumberErrors('scale', feature.params.scale, scope),
+    ]
+  }
+  return []
+}
@@ -4,9 +4,10 @@ import {
   canMoveFeatureInStack,
   getEffectiveFeatureStack,
   getFeatureDependencyIssues,
+  listAvailableBodyIds,
   moveFeatureInStack,
 } from './featureDependencies'
-import type { FeatureStack } from './featureTypes'
+import type { BooleanFeature, FeatureStack } from './featureTypes'
 
 const stackFixture = (): FeatureStack => [
   {
@@ -74,6 +75,28 @@ const stackFixture = (): FeatureStack => [
   },
 ]
 
+const booleanFixture = (
+  featureId: string,
+  targetBodyId: string | null,
+  tools: BooleanFeature['inputs']['tools'],
+): BooleanFeature => ({
+  type: 'boolean',
+  featureId,
+  inputs: {
+    targetBodyId,
+    tools,
+  },
+  params: {
+    operation: 'union',
+  },
+  outputs: {
+    bodyId: `${featureId}-body`,
+  },
+  uiState: {
+    collapsed: false,
+  },
+})
+
 describe('featureDependencies', () => {
   it('treats legacy features without explicit enabled state as enabled', () => {
     expect(getEffectiveFeatureStack(stackFixture()).map((feature) => feature.featureId)).toEqual([
@@ -114,6 +137,175 @@ describe('featureDependencies', () => {
     ])
   })
 
+  it('reports revolve axis lines missing from the profile sketch', () => {
+    const stack = stackFixture()
+    stack[2] = {
+      type: 'revolve',
+      featureId: 'revolve-1',
+      inputs: {
+        profileRef: {
+          sourceFeatureId: 'close-1',
+          profileId: 'profile-1',
+          profileIndex: 0,
+        },
+        axis: {
+          kind: 'sketchLine',
+          componentId: 'missing-line',
+        },
+      },
+      params: {
+        angle: {
+          kind: 'lit',
+          value: 360,
+        },
+      },
+      outputs: {
+        bodyId: 'body-1',
+      },
+      uiState: {
+        collapsed: false,
+      },
+    }
+
+    expect(getFeatureDependencyIssues(stack)).toEqual([
+      {
+        featureId: 'revolve-1',
+        code: 'REVOLVE_AXIS_LINE_MISSING',
+      },
+    ])
+    expect(analyzeFeatureDependencyGraph(stack).edges.map((edge) => edge.id)).toContain(
+      'dep:feature:close-1->feature:revolve-1',
+    )
+  })
+
+  it('validates loft section sources and links every section source', () => {
+    const stack = stackFixture()
+    stack[2] = {
+      type: 'loft',
+      featureId: 'loft-1',
+      inputs: {
+        sections: [
+          {
+            profileRef: { sourceFeatureId: 'close-1', profileId: 'profile-1', profileIndex: 0 },
+            offset: { kind: 'lit', value: 0 },
+          },
+          {
+            profileRef: { sourceFeatureId: 'sketch-1', profileId: 'profile-1', profileIndex: 0 },
+            offset: { kind: 'lit', value: 10 },
+          },
+        ],
+      },
+      outputs: { bodyId: 'body-1' },
+      uiState: { collapsed: false },
+    }
+
+    expect(getFeatureDependencyIssues(stack)).toEqual([])
+    expect(listAvailableBodyIds(stack, stack.length)).toEqual(['body-1'])
+    expect(
+      analyzeFeatureDependencyGraph(stack)
+        .edges.filter((edge) => edge.targetFeatureId === 'loft-1')
+        .map((edge) => edge.id),
+    ).toEqual(['dep:feature:close-1->feature:loft-1', 'dep:feature:sketch-1->feature:loft-1'])
+
+    const loft = stack[2]
+    if (loft.type === 'loft') {
+      loft.inputs.sections[1].profileRef = {
+        sourceFeatureId: 'sketch-1',
+        profileId: 'missing-profile',
+      }
+    }
+    expect(getFeatureDependencyIssues(stack)).toEqual([
+      {
+        featureId: 'loft-1',
+        code: 'LOFT_PROFILE_REF_INVALID',
+      },
+    ])
+  })
+
+  it('validates sweep path components and links profile and path sources', () => {
+    const stack = stackFixture()
+    const sketch = stack[0]
+    if (sketch.type === 'sketch') {
+      sketch.components = [
+        {
+          rowId: 'row-1',
+          componentId: 'rail-1',
+          type: 'line',
+          a: { kind: 'lit', x: 0, y: 0 },
+          b: { kind: 'lit', x: 0, y: 20 },
+        },
+      ]
+    }
+    stack[2] = {
+      type: 'sweep',
+      featureId: 'sweep-1',
+      inputs: {
+        profileRef: { sourceFeatureId: 'close-1', profileId: 'profile-1', profileIndex: 0 },
+        path: { kind: 'sketchComponent', sourceFeatureId: 'sketch-1', componentId: 'rail-1' },
+      },
+      params: {},
+      outputs: { bodyId: 'body-1' },
+      uiState: { collapsed: false },
+    }
+
+    expect(getFeatureDependencyIssues(stack)).toEqual([])
+    expect(listAvailableBodyIds(stack, stack.length)).toEqual(['body-1'])
+    expect(
+      analyzeFeatureDependencyGraph(stack)
+        .edges.filter((edge) => edge.targetFeatureId === 'sweep-1')
+        .map((edge) => edge.id),
+    ).toEqual(['dep:feature:close-1->feature:sweep-1', 'dep:feature:sketch-1->feature:sweep-1'])
+
+    const sweep = stack[2]
+    if (sweep.type === 'sweep') {
+      sweep.inputs.path = {
+        kind: 'sketchComponent',
+        sourceFeatureId: 'sketch-1',
+        componentId: 'missing-rail',
+      }
+    }
+    expect(getFeatureDependencyIssues(stack)).toEqual([
+      {
+        featureId: 'sweep-1',
+        code: 'SWEEP_PATH_INVALID',
+      },
+    ])
+  })
+
+  it('requires boolean bodies that earlier features leave available', () => {
+    const base = stackFixture()
+    const extrude = base[2]
+    if (extrude.type !== 'extrude') {
+      throw new Error('fixture must end with an extrude')
+    }
+    const stack: FeatureStack = [
+      ...base,
+      { ...extrude, featureId: 'extrude-2', outputs: { bodyId: 'body-2' } },
+      booleanFixture('boolean-1', 'body-1', [
+        { bodyId: 'body-2' },
+        { bodyId: 'other', sourceNodeId: 'node-b' },
+      ]),
+      booleanFixture('boolean-2', 'body-1', [{ bodyId: 'boolean-1-body' }]),
+    ]
+
+    expect(getFeatureDependencyIssues(stack)).toEqual([
+      {
+        featureId: 'boolean-2',
+        code: 'BOOLEAN_BODY_REF_INVALID',
+      },
+    ])
+    expect(listAvailableBodyIds(stack, 4)).toEqual(['body-1', 'body-2'])
+    expect(listAvailableBodyIds(stack, stack.length)).toEqual(['boolean-1-body'])
+    expect(
+      analyzeFeatureDependencyGraph(stack)
+        .edges.filter((edge) => edge.targetFeatureId === 'boolean-1')
+        .map((edge) => edge.id),
+    ).toEqual([
+      'dep:feature:extrude-1->feature:boolean-1',
+      'dep:feature:extrude-2->feature:boolean-1',
+    ])
+  })
+
   it('builds a deterministic dependency graph with feature and driver edges', () => {
     const graph = analyzeFeatureDependencyGraph(stackFixture(), {
       driverLinks: [
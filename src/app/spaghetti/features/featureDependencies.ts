@@ -1,10 +1,16 @@
-import type { FeatureStack } from './featureTypes'
+import type { FeatureStack, ProfileReference } from './featureTypes'
 import { isFeatureEnabled } from './featureTypes'
 
 export type FeatureDependencyIssueCode =
   | 'CLOSE_PROFILE_SOURCE_MISSING'
   | 'CLOSE_PROFILE_PROFILE_MISSING'
   | 'EXTRUDE_PROFILE_REF_INVALID'
+  | 'REVOLVE_PROFILE_REF_INVALID'
+  | 'REVOLVE_AXIS_LINE_MISSING'
+  | 'LOFT_PROFILE_REF_INVALID'
+  | 'SWEEP_PROFILE_REF_INVALID'
+  | 'SWEEP_PATH_INVALID'
+  | 'BOOLEAN_BODY_REF_INVALID'
 
 export type FeatureDependencyIssue = {
   featureId: string
@@ -49,9 +55,38 @@ const compareDependencyEdges = (a: FeatureDependencyEdge, b: FeatureDependencyEd
   a.sourceId.localeCompare(b.sourceId) ||
   a.targetFeatureId.localeCompare(b.targetFeatureId)
 
+// Local body ids a boolean reads; cross-part tools are resolved by the graph compiler instead.
+const getBooleanLocalBodyIds = (
+  feature: Extract<FeatureStack[number], { type: 'boolean' }>,
+): string[] => [
+  ...(feature.inputs.targetBodyId === null ? [] : [feature.inputs.targetBodyId]),
+  ...feature.inputs.tools
+    .filter((tool) => tool.sourceNodeId === undefined)
+    .map((tool) => tool.bodyId),
+]
+
 export const getEffectiveFeatureStack = (stack: FeatureStack): FeatureStack =>
   stack.filter((feature) => isFeatureEnabled(feature))
 
+// Body ids left alive by the enabled features before `featureIndex`, in production order.
+export const listAvailableBodyIds = (stack: FeatureStack, featureIndex: number): string[] => {
+  const live: string[] = []
+  for (const feature of getEffectiveFeatureStack(stack.slice(0, featureIndex))) {
+    if (feature.type === 'sketch' || feature.type === 'closeProfile') {
+      continue
+    }
+    if (feature.type === 'boolean') {
+      const consumed = new Set(getBooleanLocalBodyIds(feature))
+      if (![...consumed].every((bodyId) => live.includes(bodyId))) {
+        continue
+      }
+      live.splice(0, live.length, ...live.filter((bodyId) => !consumed.has(bodyId)))
+    }
+    live.push(feature.outputs.bodyId)
+  }
+  return live
+}
+
 export const getFeatureDependencyIssues = (
   stack: FeatureStack,
 ): FeatureDependencyIssue[] => {
@@ -62,12 +97,90 @@ export const getFeatureDependencyIssues = (
     string,
     Extract<FeatureStack[number], { type: 'closeProfile' }>
   >()
+  // Bodies still alive at the current feature; booleans consume their local inputs.
+  const liveBodyIds = new Set<string>()
+  // Sketch owning the referenced profile, or undefined when the reference does not resolve.
+  const resolveProfileSketch = (profileRef: ProfileReference) => {
+    const closeProfile = closeProfileById.get(profileRef.sourceFeatureId)
+    if (
+      closeProfile !== undefined &&
+      (closeProfile.outputs.profileRef === null ||
+        closeProfile.outputs.profileRef.profileId !== profileRef.profileId)
+    ) {
+      return undefined
+    }
+    const sketch = sketchById.get(
+      closeProfile?.inputs.sourceSketchFeatureId ?? profileRef.sourceFeatureId,
+    )
+    const exists =
+      closeProfile !== undefined ||
+      sketch?.outputs.profiles.some((profile) => profile.profileId === profileRef.profileId) ===
+        true
+    return exists ? sketch : undefined
+  }
 
   for (const feature of effectiveStack) {
     if (feature.type === 'sketch') {
       sketchById.set(feature.featureId, feature)
       continue
     }
+    if (feature.type === 'boolean') {
+      const bodyIds = getBooleanLocalBodyIds(feature)
+      if (!bodyIds.every((bodyId) => liveBodyIds.has(bodyId))) {
+        issues.push({
+          featureId: feature.featureId,
+          code: 'BOOLEAN_BODY_REF_INVALID',
+        })
+        continue
+      }
+      for (const bodyId of bodyIds) {
+        liveBodyIds.delete(bodyId)
+      }
+      liveBodyIds.add(feature.outputs.bodyId)
+      continue
+    }
+    if (
+      feature.type === 'extrude' ||
+      feature.type === 'revolve' ||
+      feature.type === 'loft' ||
+      feature.type === 'sweep'
+    ) {
+      liveBodyIds.add(feature.outputs.bodyId)
+    }
+    if (feature.type === 'loft') {
+      const invalid = feature.inputs.sections.some(
+        (section) =>
+          section.profileRef !== null && resolveProfileSketch(section.profileRef) === undefined,
+      )
+      if (invalid) {
+        issues.push({
+          featureId: feature.featureId,
+          code: 'LOFT_PROFILE_REF_INVALID',
+        })
+      }
+      continue
+    }
+    if (feature.type === 'sweep') {
+      const { profileRef, path } = feature.inputs
+      if (profileRef !== null && resolveProfileSketch(profileRef) === undefined) {
+        issues.push({
+          featureId: feature.featureId,
+          code: 'SWEEP_PROFILE_REF_INVALID',
+        })
+      }
+      if (
+        path?.kind === 'sketchComponent' &&
+        sketchById
+          .get(path.sourceFeatureId)
+          ?.components.some((component) => component.componentId === path.componentId) !== true
+      ) {
+        issues.push({
+          featureId: feature.featureId,
+          code: 'SWEEP_PATH_INVALID',
+        })
+      }
+      continue
+    }
     if (feature.type === 'closeProfile') {
       let valid = true
       const sourceId = feature.inputs.sourceSketchFeatureId
@@ -94,33 +207,27 @@ export const getFeatureDependencyIssues = (
     if (profileRef === null) {
       continue
     }
-    const closeProfile = closeProfileById.get(profileRef.sourceFeatureId)
-    if (closeProfile !== undefined) {
-      if (
-        closeProfile.outputs.profileRef === null ||
-        closeProfile.outputs.profileRef.profileId !== profileRef.profileId
-      ) {
-        issues.push({
-          featureId: feature.featureId,
-          code: 'EXTRUDE_PROFILE_REF_INVALID',
-        })
-      }
-      continue
-    }
-    const sketch = sketchById.get(profileRef.sourceFeatureId)
+    const invalidCode =
+      feature.type === 'revolve' ? 'REVOLVE_PROFILE_REF_INVALID' : 'EXTRUDE_PROFILE_REF_INVALID'
+    const sketch = resolveProfileSketch(profileRef)
     if (sketch === undefined) {
       issues.push({
         featureId: feature.featureId,
-        code: 'EXTRUDE_PROFILE_REF_INVALID',
+        code: invalidCode,
       })
       continue
     }
-    const exists = sketch.outputs.profiles.some((profile) => profile.profileId === profileRef.profileId)
-    if (!exists) {
-      issues.push({
-        featureId: feature.featureId,
-        code: 'EXTRUDE_PROFILE_REF_INVALID',
-      })
+    if (feature.type === 'revolve' && feature.inputs.axis.kind === 'sketchLine') {
+      const axisComponentId = feature.inputs.axis.componentId
+      const hasAxisLine = sketch.components.some(
+        (component) => component.type === 'line' && component.componentId === axisComponentId,
+      )
+      if (!hasAxisLine) {
+        issues.push({
+          featureId: feature.featureId,
+          code: 'REVOLVE_AXIS_LINE_MISSING',
+        })
+      }
     }
   }
 
@@ -152,6 +259,28 @@ export const analyzeFeatureDependencyGraph = (
     }
   })
   const featureRowById = new Map(featureRows.map((row) => [row.featureId, row]))
+  const buildFeatureEdge = (
+    sourceFeatureId: string,
+    targetFeatureId: string,
+  ): FeatureDependencyEdge[] => {
+    const sourceRow = featureRowById.get(sourceFeatureId)
+    const targetRow = featureRowById.get(targetFeatureId)
+    if (sourceRow === undefined || targetRow === undefined) {
+      return []
+    }
+    return [
+      {
+        id: `dep:feature:${sourceFeatureId}->feature:${targetFeatureId}`,
+        kind: 'featureToFeature' as const,
+        sourceKind: 'feature' as const,
+        sourceId: sourceFeatureId,
+        targetFeatureId,
+        targetRowId: targetRow.rowId,
+        enabled: sourceRow.enabled && targetRow.enabled,
+        effective: sourceRow.effective && targetRow.effective,
+      },
+    ]
+  }
 
   const featureEdges: FeatureDependencyEdge[] = stack.flatMap((feature) => {
     if (feature.type === 'closeProfile') {
@@ -178,28 +307,56 @@ export const analyzeFeatureDependencyGraph = (
       ]
     }
 
-    if (feature.type !== 'extrude' || feature.inputs.profileRef === null) {
-      return []
+    if (feature.type === 'boolean') {
+      const featureIndex = stack.indexOf(feature)
+      const sourceFeatureIds = new Set(
+        getBooleanLocalBodyIds(feature).flatMap((bodyId) => {
+          const producer = stack
+            .slice(0, featureIndex)
+            .reverse()
+            .find(
+              (candidate) =>
+                candidate.type !== 'sketch' &&
+                candidate.type !== 'closeProfile' &&
+                candidate.outputs.bodyId === bodyId,
+            )
+          return producer === undefined ? [] : [producer.featureId]
+        }),
+      )
+      return [...sourceFeatureIds].flatMap((sourceFeatureId) =>
+        buildFeatureEdge(sourceFeatureId, feature.featureId),
+      )
     }
 
-    const sourceFeatureId = feature.inputs.profileRef.sourceFeatureId
-    const sourceRow = featureRowById.get(sourceFeatureId)
-    const targetRow = featureRowById.get(feature.featureId)
-    if (sourceRow === undefined || targetRow === undefined) {
+    if (feature.type === 'loft') {
+      const sourceFeatureIds = new Set(
+        feature.inputs.sections.flatMap((section) =>
+          section.profileRef === null ? [] : [section.profileRef.sourceFeatureId],
+        ),
+      )
+      return [...sourceFeatureIds].flatMap((sourceFeatureId) =>
+        buildFeatureEdge(sourceFeatureId, feature.featureId),
+      )
+    }
+
+    if (feature.type === 'sweep') {
+      const { profileRef, path } = feature.inputs
+      const sourceFeatureIds = new Set([
+        ...(profileRef === null ? [] : [profileRef.sourceFeatureId]),
+        ...(path?.kind === 'sketchComponent' ? [path.sourceFeatureId] : []),
+      ])
+      return [...sourceFeatureIds].flatMap((sourceFeatureId) =>
+        buildFeatureEdge(sourceFeatureId, feature.featureId),
+      )
+    }
+
+    if (
+      (feature.type !== 'extrude' && feature.type !== 'revolve') ||
+      feature.inputs.profileRef === null
+    ) {
       return []
     }
-    return [
-      {
-        id: `dep:feature:${sourceFeatureId}->feature:${feature.featureId}`,
-        kind: 'featureToFeature' as const,
-        sourceKind: 'feature' as const,
-        sourceId: sourceFeatureId,
-        targetFeatureId: feature.featureId,
-        targetRowId: targetRow.rowId,
-        enabled: sourceRow.enabled && targetRow.enabled,
-        effective: sourceRow.effective && targetRow.effective,
-      },
-    ]
+    return buildFeatureEdge(feature.inputs.profileRef.sourceFeatureId, feature.featureId)
   })
 
   const driverEdges: FeatureDependencyEdge[] = (options?.driverLinks ?? []).flatMap((link) => {
@@ -7,20 +7,39 @@ import type {
   SketchPlane,
 } from './featureTypes'
 
-const numberExpressionSchema = z
-  .object({
-    kind: z.literal('lit'),
-    value: z.number(),
-  })
-  .strict()
+const expressionSourceSchema = z.string().trim().min(1)
 
-const vec2ExpressionSchema = z
-  .object({
-    kind: z.literal('lit'),
-    x: z.number(),
-    y: z.number(),
-  })
-  .strict()
+const numberExpressionSchema = z.discriminatedUnion('kind', [
+  z
+    .object({
+      kind: z.literal('lit'),
+      value: z.number(),
+    })
+    .strict(),
+  z
+    .object({
+      kind: z.literal('expr'),
+      source: expressionSourceSchema,
+    })
+    .strict(),
+])
+
+const vec2ExpressionSchema = z.discriminatedUnion('kind', [
+  z
+    .object({
+      kind: z.literal('lit'),
+      x: z.number(),
+      y: z.number(),
+    })
+    .strict(),
+  z
+    .object({
+      kind: z.literal('expr'),
+      x: expressionSourceSchema,
+      y: expressionSourceSchema,
+    })
+    .strict(),
+])
 
 const sketchPlaneSchema = z.enum(['XY', 'YZ', 'XZ'])
 
@@ -64,6 +83,7 @@ const profileOutputSchema = z
     profileIndex: z.number().int().nonnegative().optional(),
     area: z.number().nonnegative(),
     loop: profileLoopSchema.optional(),
+    innerLoops: z.array(profileLoopSchema).optional(),
     verticesProxy: z.array(z.object({ x: z.number(), y: z.number() }).strict()).optional(),
     // Legacy compatibility
     entityIds: z.array(z.string().min(1)).optional(),
@@ -78,6 +98,9 @@ const profileOutputSchema = z
         segments: [],
         winding: 'CCW',
       },
+    ...(input.innerLoops === undefined || input.innerLoops.length === 0
+      ? {}
+      : { innerLoops: input.innerLoops }),
     verticesProxy: input.verticesProxy ?? [],
     ...(input.entityIds === undefined ? {} : { entityIds: input.entityIds }),
   }))
@@ -162,7 +185,11 @@ const sketchFeatureSchema = z
           .array(
             z
               .object({
-                code: z.enum(['SKETCH_PROFILE_NOT_CLOSED', 'SKETCH_PROFILE_DEGENERATE']),
+                code: z.enum([
+                  'SKETCH_PROFILE_NOT_CLOSED',
+                  'SKETCH_PROFILE_DEGENERATE',
+                  'SKETCH_PROFILE_LOOPS_OVERLAP',
+                ]),
                 message: z.string().min(1),
               })
               .strict(),
@@ -266,10 +293,187 @@ const extrudeFeatureSchema = z
     enabled: feature.enabled ?? true,
   }))
 
+const revolveAxisSchema = z.discriminatedUnion('kind', [
+  z
+    .object({
+      kind: z.literal('sketchAxis'),
+      axis: z.enum(['x', 'y']),
+    })
+    .strict(),
+  z
+    .object({
+      kind: z.literal('sketchLine'),
+      componentId: z.string().min(1),
+    })
+    .strict(),
+])
+
+const revolveFeatureSchema = z
+  .object({
+    type: z.literal('revolve'),
+    featureId: z.string().min(1),
+    enabled: z.boolean().optional(),
+    inputs: z
+      .object({
+        profileRef: profileReferenceSchema.nullable(),
+        axis: revolveAxisSchema,
+      })
+      .strict(),
+    params: z
+      .object({
+        angle: numberExpressionSchema,
+      })
+      .strict(),
+    outputs: z
+      .object({
+        bodyId: z.string().min(1),
+      })
+      .strict(),
+    uiState: z
+      .object({
+        collapsed: z.boolean(),
+      })
+      .strict(),
+  })
+  .strict()
+  .transform((feature) => ({
+    ...feature,
+    enabled: feature.enabled ?? true,
+  }))
+
+const loftSectionSchema = z
+  .object({
+    profileRef: profileReferenceSchema.nullable(),
+    offset: numberExpressionSchema,
+  })
+  .strict()
+
+const loftFeatureSchema = z
+  .object({
+    type: z.literal('loft'),
+    featureId: z.string().min(1),
+    enabled: z.boolean().optional(),
+    inputs: z
+      .object({
+        sections: z.array(loftSectionSchema),
+      })
+      .strict(),
+    outputs: z
+      .object({
+        bodyId: z.string().min(1),
+      })
+      .strict(),
+    uiState: z
+      .object({
+        collapsed: z.boolean(),
+      })
+      .strict(),
+  })
+  .strict()
+  .transform((feature) => ({
+    ...feature,
+    enabled: feature.enabled ?? true,
+  }))
+
+const sweepPathSchema = z.discriminatedUnion('kind', [
+  z
+    .object({
+      kind: z.literal('sketchComponent'),
+      sourceFeatureId: z.string().min(1),
+      componentId: z.string().min(1),
+    })
+    .strict(),
+  z
+    .object({
+      kind: z.literal('spline'),
+      points: z.array(z.object({ x: z.number(), y: z.number(), z: z.number() }).strict()),
+      closed: z.boolean(),
+    })
+    .strict(),
+])
+
+const sweepFeatureSchema = z
+  .object({
+    type: z.literal('sweep'),
+    featureId: z.string().min(1),
+    enabled: z.boolean().optional(),
+    inputs: z
+      .object({
+        profileRef: profileReferenceSchema.nullable(),
+        path: sweepPathSchema.nullable(),
+      })
+      .strict(),
+    params: z
+      .object({
+        twist: numberExpressionSchema.optional(),
+        scale: numberExpressionSchema.optional(),
+      })
+      .strict(),
+    outputs: z
+      .object({
+        bodyId: z.string().min(1),
+      })
+      .strict(),
+    uiState: z
+      .object({
+        collapsed: z.boolean(),
+      })
+      .strict(),
+  })
+  .strict()
+  .transform((feature) => ({
+    ...feature,
+    enabled: feature.enabled ?? true,
+  }))
+
+const bodyReferenceSchema = z
+  .object({
+    bodyId: z.string().min(1),
+    sourceNodeId: z.string().min(1).optional(),
+  })
+  .strict()
+
+const booleanFeatureSchema = z
+  .object({
+    type: z.literal('boolean'),
+    featureId: z.string().min(1),
+    enabled: z.boolean().optional(),
+    inputs: z
+      .object({
+        targetBodyId: z.string().min(1).nullable(),
+        tools: z.array(bodyReferenceSchema),
+      })
+      .strict(),
+    params: z
+      .object({
+        operation: z.enum(['union', 'subtract', 'intersect']),
+      })
+      .strict(),
+    outputs: z
+      .object({
+        bodyId: z.string().min(1),
+      })
+      .strict(),
+    uiState: z
+      .object({
+        collapsed: z.boolean(),
+      })
+      .strict(),
+  })
+  .strict()
+  .transform((feature) => ({
+    ...feature,
+    enabled: feature.enabled ?? true,
+  }))
+
 export const featureSchema = z.discriminatedUnion('type', [
   sketchFeatureSchema,
   closeProfileFeatureSchema,
   extrudeFeatureSchema,
+  revolveFeatureSchema,
+  loftFeatureSchema,
+  sweepFeatureSchema,
+  booleanFeatureSchema,
 ])
 
 export const featureStackSchema = z.array(featureSchema)
@@ -2,7 +2,14 @@ import type { NumberExpression, Vec2Expression } from './expressions'
 
 export type FeatureStack = Feature[]
 
-export type Feature = SketchFeature | CloseProfileFeature | ExtrudeFeature
+export type Feature =
+  | SketchFeature
+  | CloseProfileFeature
+  | ExtrudeFeature
+  | RevolveFeature
+  | LoftFeature
+  | SweepFeature
+  | BooleanFeature
 
 export type SketchPlane = 'XY' | 'YZ' | 'XZ'
 
@@ -66,6 +73,7 @@ export type ProfileLoop = {
 export type SketchDerivationDiagnosticCode =
   | 'SKETCH_PROFILE_NOT_CLOSED'
   | 'SKETCH_PROFILE_DEGENERATE'
+  | 'SKETCH_PROFILE_LOOPS_OVERLAP'
 
 export type SketchDerivationDiagnostic = {
   code: SketchDerivationDiagnosticCode
@@ -103,6 +111,8 @@ export type ProfileOutput = {
   profileIndex: number
   area: number
   loop: ProfileLoop
+  // Holes cut into the outer loop, outermost-first by source order. Absent for simple profiles.
+  innerLoops?: ProfileLoop[]
   // Deterministic preview/runtime conversion proxy. Not authoritative geometry.
   verticesProxy: Array<{ x: number; y: number }>
   // Legacy compatibility for existing tests and old data.
@@ -150,6 +160,123 @@ export type ExtrudeFeature = {
   }
 }
 
+// Revolve axes live in the sketch's own 2D frame: either one of its coordinate axes through the
+// origin, or a line component of the sketch that owns the revolved profile.
+export type RevolveAxis =
+  | {
+      kind: 'sketchAxis'
+      axis: 'x' | 'y'
+    }
+  | {
+      kind: 'sketchLine'
+      componentId: string
+    }
+
+export type RevolveFeature = {
+  type: 'revolve'
+  featureId: string
+  enabled?: boolean
+  inputs: {
+    profileRef: ProfileReference | null
+    axis: RevolveAxis
+  }
+  params: {
+    angle: NumberExpression
+  }
+  outputs: {
+    bodyId: string
+  }
+  uiState: {
+    collapsed: boolean
+  }
+}
+
+// One loft cross-section: a profile placed `offset` mm along the normal of its sketch plane.
+export type LoftSection = {
+  profileRef: ProfileReference | null
+  offset: NumberExpression
+}
+
+export type LoftFeature = {
+  type: 'loft'
+  featureId: string
+  enabled?: boolean
+  inputs: {
+    sections: LoftSection[]
+  }
+  outputs: {
+    bodyId: string
+  }
+  uiState: {
+    collapsed: boolean
+  }
+}
+
+// Path a sweep follows: a line, arc or spline component of an earlier sketch (in that sketch's
+// plane), or spline points wired in from the graph. Wired points are interpolated as a centripetal
+// Catmull-Rom spline in world space; spline2 points lie in the XY plane.
+export type SweepPath =
+  | {
+      kind: 'sketchComponent'
+      sourceFeatureId: string
+      componentId: string
+    }
+  | {
+      kind: 'spline'
+      points: Array<{ x: number; y: number; z: number }>
+      closed: boolean
+    }
+
+export type SweepFeature = {
+  type: 'sweep'
+  featureId: string
+  enabled?: boolean
+  inputs: {
+    profileRef: ProfileReference | null
+    path: SweepPath | null
+  }
+  params: {
+    // Profile rotation about the path reached at its end, in degrees; zero at the start.
+    twist?: NumberExpression
+    // Profile scale factor reached at the end of the path; one at the start.
+    scale?: NumberExpression
+  }
+  outputs: {
+    bodyId: string
+  }
+  uiState: {
+    collapsed: boolean
+  }
+}
+
+export type BooleanOperation = 'union' | 'subtract' | 'intersect'
+
+// Body produced by an earlier feature of this stack, or by the stack of another Part node when
+// `sourceNodeId` is set. Cross-part tools are evaluated in the assembled view and are not consumed.
+export type BodyReference = {
+  bodyId: string
+  sourceNodeId?: string
+}
+
+export type BooleanFeature = {
+  type: 'boolean'
+  featureId: string
+  enabled?: boolean
+  inputs: {
+    targetBodyId: string | null
+    tools: BodyReference[]
+  }
+  params: {
+    operation: BooleanOperation
+  }
+  outputs: {
+    bodyId: string
+  }
+  uiState: {
+    collapsed: boolean
+  }
+}
+
 export type ProfileReference = {
   sourceFeatureId: string
   profileId: string
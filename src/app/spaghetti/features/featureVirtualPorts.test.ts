@@ -6,8 +6,11 @@ import {
   buildExtrudeDepthVirtualInputPortId,
   buildExtrudeOffsetVirtualInputPortId,
   buildExtrudeTaperVirtualInputPortId,
+  buildRevolveAngleVirtualInputPortId,
   buildSketchRectLengthVirtualInputPortId,
   buildSketchRectWidthVirtualInputPortId,
+  buildSweepPath2VirtualInputPortId,
+  buildSweepPath3VirtualInputPortId,
   isFeatureVirtualInputPortId,
   listFeatureVirtualInputPorts,
   parseFeatureVirtualInputPortId,
@@ -385,4 +388,118 @@ describe('featureVirtualPorts', () => {
       },
     })
   })
+
+  it('lists and applies the revolve angle virtual input port', () => {
+    const stack: FeatureStack = [
+      {
+        type: 'revolve',
+        featureId: 'f-revolve',
+        inputs: {
+          profileRef: null,
+          axis: {
+            kind: 'sketchAxis',
+            axis: 'y',
+          },
+        },
+        params: {
+          angle: {
+            kind: 'lit',
+            value: 360,
+          },
+        },
+        outputs: {
+          bodyId: 'body-1',
+        },
+        uiState: {
+          collapsed: false,
+        },
+      },
+    ]
+    const portId = buildRevolveAngleVirtualInputPortId('f-revolve')
+    const ports = listFeatureVirtualInputPorts(basePartNode(stack))
+
+    expect(portId).toBe('fs:in:f-revolve:revolve:angle')
+    expect(parseFeatureVirtualInputPortId(portId)).toEqual({
+      kind: 'revolveAngle',
+      featureId: 'f-revolve',
+    })
+    expect(ports.map((port) => [port.portId, port.type.unit])).toEqual([[portId, 'deg']])
+    expect(applyFeatureVirtualInputOverrides(stack, {})).toBe(stack)
+    expect(applyFeatureVirtualInputOverrides(stack, { [portId]: 180 })[0]).toMatchObject({
+      params: {
+        angle: { kind: 'lit', value: 180 },
+      },
+    })
+  })
+
+  it('lists sweep path ports and rewrites the path from wired splines', () => {
+    const stack: FeatureStack = [
+      {
+        type: 'sweep',
+        featureId: 'f-sweep',
+        inputs: {
+          profileRef: null,
+          path: { kind: 'spline', points: [], closed: false },
+        },
+        params: {},
+        outputs: {
+          bodyId: 'body-1',
+        },
+        uiState: {
+          collapsed: false,
+        },
+      },
+    ]
+    const path2PortId = buildSweepPath2VirtualInputPortId('f-sweep')
+    const path3PortId = buildSweepPath3VirtualInputPortId('f-sweep')
+    const ports = listFeatureVirtualInputPorts(basePartNode(stack))
+    const spline2 = {
+      points: [
+        { x: 0, y: 0 },
+        { x: 10, y: 5 },
+      ],
+      closed: false,
+    }
+    const spline3 = {
+      points: [
+        { x: 0, y: 0, z: 0 },
+        { x: 0, y: 5, z: 20 },
+        { x: 5, y: 5, z: 30 },
+      ],
+      closed: true,
+    }
+
+    expect(path2PortId).toBe('fs:in:f-sweep:sweep:path2')
+    expect(parseFeatureVirtualInputPortId(path3PortId)).toEqual({
+      kind: 'sweepPath3',
+      featureId: 'f-sweep',
+    })
+    expect(ports.map((port) => [port.portId, port.type.kind])).toEqual([
+      [path2PortId, 'spline2'],
+      [path3PortId, 'spline3'],
+    ])
+    // Unwired spline ports evaluate to an empty spline and leave the stack alone.
+    expect(
+      applyFeatureVirtualInputOverrides(stack, { [path2PortId]: { points: [], closed: false } }),
+    ).toBe(stack)
+    expect(applyFeatureVirtualInputOverrides(stack, { [path2PortId]: spline2 })[0]).toMatchObject({
+      inputs: {
+        path: {
+          kind: 'spline',
+          points: [
+            { x: 0, y: 0, z: 0 },
+            { x: 10, y: 5, z: 0 },
+          ],
+          closed: false,
+        },
+      },
+    })
+    expect(
+      applyFeatureVirtualInputOverrides(stack, { [path2PortId]: spline2, [path3PortId]: spline3 })[0],
+    ).toMatchObject({
+      inputs: {
+        path: { kind: 'spline', points: spline3.points, closed: true },
+      },
+    })
+  })
 })
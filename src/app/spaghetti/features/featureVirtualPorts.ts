@@ -1,5 +1,6 @@
+import { resolveVec2Expression } from './expressions'
 import { readFeatureStack } from './featureSchema'
-import type { FeatureStack } from './featureTypes'
+import type { FeatureStack, SweepPath } from './featureTypes'
 import type { PortSpec, PortType, SpaghettiNode } from '../schema/spaghettiTypes'
 
 type VirtualFeatureInputKind =
@@ -8,6 +9,9 @@ type VirtualFeatureInputKind =
   | 'extrudeDepth'
   | 'extrudeTaper'
   | 'extrudeOffset'
+  | 'revolveAngle'
+  | 'sweepPath2'
+  | 'sweepPath3'
 
 type ParsedVirtualFeatureInputPort = {
   kind: VirtualFeatureInputKind
@@ -17,15 +21,20 @@ type ParsedVirtualFeatureInputPort = {
 const VIRTUAL_PORT_PREFIX = 'fs:in'
 const SKETCH_RECT_SEGMENT = 'sketchRect'
 const EXTRUDE_SEGMENT = 'extrude'
+const REVOLVE_SEGMENT = 'revolve'
+const SWEEP_SEGMENT = 'sweep'
 const WIDTH_SEGMENT = 'width'
 const LENGTH_SEGMENT = 'length'
 const DEPTH_SEGMENT = 'depth'
 const TAPER_SEGMENT = 'taper'
 const OFFSET_SEGMENT = 'offset'
+const ANGLE_SEGMENT = 'angle'
+const PATH2_SEGMENT = 'path2'
+const PATH3_SEGMENT = 'path3'
 
 // v2.0 scope lock:
 // - virtual feature inputs only
-// - cube seed sketch width/length plus extrude depth/taper/offset only
+// - cube seed sketch width/length, extrude depth/taper/offset, revolve angle and sweep path only
 // - no path support
 // - single incoming edge
 const FEATURE_DEPTH_PORT_TYPE: PortType = {
@@ -48,6 +57,17 @@ const FEATURE_OFFSET_PORT_TYPE: PortType = {
   kind: 'number',
   unit: 'mm',
 }
+const FEATURE_ANGLE_PORT_TYPE: PortType = {
+  kind: 'number',
+  unit: 'deg',
+}
+
+const FEATURE_PATH2_PORT_TYPE: PortType = {
+  kind: 'spline2',
+}
+const FEATURE_PATH3_PORT_TYPE: PortType = {
+  kind: 'spline3',
+}
 
 export const FEATURE_VIRTUAL_INPUT_MAX_CONNECTIONS = 1
 
@@ -66,6 +86,12 @@ export const buildExtrudeTaperVirtualInputPortId = (featureId: string): string =
   `${VIRTUAL_PORT_PREFIX}:${featureId}:${EXTRUDE_SEGMENT}:${TAPER_SEGMENT}`
 export const buildExtrudeOffsetVirtualInputPortId = (featureId: string): string =>
   `${VIRTUAL_PORT_PREFIX}:${featureId}:${EXTRUDE_SEGMENT}:${OFFSET_SEGMENT}`
+export const buildRevolveAngleVirtualInputPortId = (featureId: string): string =>
+  `${VIRTUAL_PORT_PREFIX}:${featureId}:${REVOLVE_SEGMENT}:${ANGLE_SEGMENT}`
+export const buildSweepPath2VirtualInputPortId = (featureId: string): string =>
+  `${VIRTUAL_PORT_PREFIX}:${featureId}:${SWEEP_SEGMENT}:${PATH2_SEGMENT}`
+export const buildSweepPath3VirtualInputPortId = (featureId: string): string =>
+  `${VIRTUAL_PORT_PREFIX}:${featureId}:${SWEEP_SEGMENT}:${PATH3_SEGMENT}`
 
 export const parseFeatureVirtualInputPortId = (
   portId: string,
@@ -116,6 +142,26 @@ export const parseFeatureVirtualInputPortId = (
       }
     }
   }
+  if (segments[3] === REVOLVE_SEGMENT && segments[4] === ANGLE_SEGMENT) {
+    return {
+      kind: 'revolveAngle',
+      featureId,
+    }
+  }
+  if (segments[3] === SWEEP_SEGMENT) {
+    if (segments[4] === PATH2_SEGMENT) {
+      return {
+        kind: 'sweepPath2',
+        featureId,
+      }
+    }
+    if (segments[4] === PATH3_SEGMENT) {
+      return {
+        kind: 'sweepPath3',
+        featureId,
+      }
+    }
+  }
   return null
 }
 
@@ -162,6 +208,30 @@ export const buildExtrudeOffsetVirtualInputPort = (featureId: string): PortSpec
   maxConnectionsIn: FEATURE_VIRTUAL_INPUT_MAX_CONNECTIONS,
 })
 
+export const buildRevolveAngleVirtualInputPort = (featureId: string): PortSpec => ({
+  portId: buildRevolveAngleVirtualInputPortId(featureId),
+  label: 'Angle Input',
+  type: FEATURE_ANGLE_PORT_TYPE,
+  optional: true,
+  maxConnectionsIn: FEATURE_VIRTUAL_INPUT_MAX_CONNECTIONS,
+})
+
+export const buildSweepPath2VirtualInputPort = (featureId: string): PortSpec => ({
+  portId: buildSweepPath2VirtualInputPortId(featureId),
+  label: 'Path Input (2D)',
+  type: FEATURE_PATH2_PORT_TYPE,
+  optional: true,
+  maxConnectionsIn: FEATURE_VIRTUAL_INPUT_MAX_CONNECTIONS,
+})
+
+export const buildSweepPath3VirtualInputPort = (featureId: string): PortSpec => ({
+  portId: buildSweepPath3VirtualInputPortId(featureId),
+  label: 'Path Input (3D)',
+  type: FEATURE_PATH3_PORT_TYPE,
+  optional: true,
+  maxConnectionsIn: FEATURE_VIRTUAL_INPUT_MAX_CONNECTIONS,
+})
+
 const isCubeSeedRectangleSketch = (
   feature: FeatureStack[number],
 ): feature is Extract<FeatureStack[number], { type: 'sketch' }> =>
@@ -181,6 +251,15 @@ export const listFeatureVirtualInputPorts = (node: SpaghettiNode): PortSpec[] =>
       ports.push(buildSketchRectWidthVirtualInputPort(feature.featureId))
       ports.push(buildSketchRectLengthVirtualInputPort(feature.featureId))
     }
+    if (feature.type === 'revolve') {
+      ports.push(buildRevolveAngleVirtualInputPort(feature.featureId))
+      continue
+    }
+    if (feature.type === 'sweep') {
+      ports.push(buildSweepPath2VirtualInputPort(feature.featureId))
+      ports.push(buildSweepPath3VirtualInputPort(feature.featureId))
+      continue
+    }
     if (feature.type !== 'extrude') {
       continue
     }
@@ -198,8 +277,8 @@ const rewriteCubeSeedRectangleSketch = (
     length?: number
   },
 ) => {
-  const currentLength = feature.components[0]?.type === 'line' ? feature.components[0].b.x : 0
-  const currentWidth = feature.components[1]?.type === 'line' ? feature.components[1].b.y : 0
+  const currentLength = feature.components[0]?.type === 'line' ? resolveVec2Expression(feature.components[0].b).x : 0
+  const currentWidth = feature.components[1]?.type === 'line' ? resolveVec2Expression(feature.components[1].b).y : 0
   const nextLength =
     typeof dimensions.length === 'number' && Number.isFinite(dimensions.length)
       ? dimensions.length
@@ -252,6 +331,37 @@ const rewriteCubeSeedRectangleSketch = (
   }
 }
 
+const isFinitePoint = (value: unknown, withZ: boolean): boolean => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const point = value as Record<string, unknown>
+  const isFiniteNumber = (component: unknown): boolean =>
+    typeof component === 'number' && Number.isFinite(component)
+  return isFiniteNumber(point.x) && isFiniteNumber(point.y) && (!withZ || isFiniteNumber(point.z))
+}
+
+// Unwired spline ports still evaluate to an empty spline, so a wired path needs two points.
+const toWiredSweepPath = (value: unknown, withZ: boolean): SweepPath | null => {
+  if (typeof value !== 'object' || value === null) {
+    return null
+  }
+  const spline = value as { points?: unknown; closed?: unknown }
+  if (
+    !Array.isArray(spline.points) ||
+    spline.points.length < 2 ||
+    !spline.points.every((point) => isFinitePoint(point, withZ))
+  ) {
+    return null
+  }
+  const points = spline.points as Array<{ x: number; y: number; z?: number }>
+  return {
+    kind: 'spline',
+    points: points.map((point) => ({ x: point.x, y: point.y, z: withZ ? (point.z ?? 0) : 0 })),
+    closed: spline.closed === true,
+  }
+}
+
 export const applyFeatureVirtualInputOverrides = (
   stack: FeatureStack,
   resolvedInputsByPortId: Record<string, unknown> | undefined,
@@ -276,6 +386,46 @@ export const applyFeatureVirtualInputOverrides = (
       }
       return nextFeature
     }
+    if (feature.type === 'revolve') {
+      const wiredAngle = resolvedInputsByPortId[buildRevolveAngleVirtualInputPortId(feature.featureId)]
+      if (typeof wiredAngle !== 'number' || !Number.isFinite(wiredAngle)) {
+        return feature
+      }
+      changed = true
+      return {
+        ...feature,
+        params: {
+          ...feature.params,
+          angle: {
+            kind: 'lit' as const,
+            value: wiredAngle,
+          },
+        },
+      }
+    }
+    if (feature.type === 'sweep') {
+      // A wired 3D path wins over a wired 2D one.
+      const wiredPath =
+        toWiredSweepPath(
+          resolvedInputsByPortId[buildSweepPath3VirtualInputPortId(feature.featureId)],
+          true,
+        ) ??
+        toWiredSweepPath(
+          resolvedInputsByPortId[buildSweepPath2VirtualInputPortId(feature.featureId)],
+          false,
+        )
+      if (wiredPath === null) {
+        return feature
+      }
+      changed = true
+      return {
+        ...feature,
+        inputs: {
+          ...feature.inputs,
+          path: wiredPath,
+        },
+      }
+    }
     if (feature.type !== 'extrude') {
       return feature
     }
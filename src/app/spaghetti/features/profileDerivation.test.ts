@@ -67,6 +67,71 @@ describe('deriveProfiles', () => {
     expect(result.diagnostics[0]?.code).toBe('SKETCH_PROFILE_DEGENERATE')
   })
 
+  it('splits separate closed loops into islands and nests holes in their outer loop', () => {
+    const square = (prefix: string, x: number, y: number, size: number, clockwise = false) => {
+      const corners = [
+        { x, y },
+        { x: x + size, y },
+        { x: x + size, y: y + size },
+        { x, y: y + size },
+      ]
+      const ordered = clockwise ? [corners[0], ...corners.slice(1).reverse()] : corners
+      return ordered.map((corner, index) =>
+        line(`${prefix}${index + 1}`, corner, ordered[(index + 1) % ordered.length]),
+      )
+    }
+
+    const result = deriveProfilesWithDiagnostics([
+      ...square('outer', 0, 0, 100),
+      ...square('island', 200, 0, 10),
+      ...square('hole', 20, 20, 10, true),
+    ])
+
+    expect(result.diagnostics).toEqual([])
+    expect(result.profiles.map((profile) => profile.profileId)).toEqual([
+      profileIdFromSignature('outer1|outer2|outer3|outer4'),
+      profileIdFromSignature('island1|island2|island3|island4'),
+    ])
+    expect(result.profiles.map((profile) => profile.profileIndex)).toEqual([0, 1])
+    expect(result.profiles[0].area).toBe(9900)
+    expect(result.profiles[0].innerLoops).toHaveLength(1)
+    expect(result.profiles[0].innerLoops?.[0].winding).toBe('CW')
+    expect(result.profiles[1].innerLoops).toBeUndefined()
+  })
+
+  it('treats a loop inside a hole as a new island', () => {
+    const result = deriveProfilesWithDiagnostics([
+      line('a1', { x: 0, y: 0 }, { x: 90, y: 0 }),
+      line('a2', { x: 90, y: 0 }, { x: 90, y: 90 }),
+      line('a3', { x: 90, y: 90 }, { x: 0, y: 0 }),
+      line('b1', { x: 30, y: 10 }, { x: 80, y: 10 }),
+      line('b2', { x: 80, y: 10 }, { x: 80, y: 60 }),
+      line('b3', { x: 80, y: 60 }, { x: 30, y: 10 }),
+      line('c1', { x: 60, y: 20 }, { x: 70, y: 20 }),
+      line('c2', { x: 70, y: 20 }, { x: 70, y: 30 }),
+      line('c3', { x: 70, y: 30 }, { x: 60, y: 20 }),
+    ])
+
+    expect(result.profiles).toHaveLength(2)
+    expect(result.profiles[0].area).toBe(4050 - 1250)
+    expect(result.profiles[1].area).toBe(50)
+    expect(result.profiles[1].innerLoops).toBeUndefined()
+  })
+
+  it('keeps closed loops and reports open chains next to them', () => {
+    const result = deriveProfilesWithDiagnostics([
+      line('e1', { x: 0, y: 0 }, { x: 10, y: 0 }),
+      line('e2', { x: 10, y: 0 }, { x: 10, y: 10 }),
+      line('e3', { x: 10, y: 10 }, { x: 0, y: 0 }),
+      line('open', { x: 50, y: 50 }, { x: 60, y: 50 }),
+    ])
+
+    expect(result.profiles).toHaveLength(1)
+    expect(result.diagnostics.map((diagnostic) => diagnostic.code)).toEqual([
+      'SKETCH_PROFILE_NOT_CLOSED',
+    ])
+  })
+
   it('keeps the compatibility alias wired to deriveProfiles', () => {
     const entities = [
       line('e1', { x: 0, y: 0 }, { x: 100, y: 0 }),
@@ -1,10 +1,13 @@
 import type {
+  ProfileLoop,
   ProfileOutput,
   Segment2,
   SketchComponent,
   SketchDerivationDiagnostic,
   SketchEntity,
 } from './featureTypes'
+import { evaluateCubicBezier } from '../../../geometry/bezier'
+import { resolveVec2Expression, type ExpressionScope } from './expressions'
 
 type Point2 = { x: number; y: number }
 
@@ -54,20 +57,6 @@ const pushUnique = (points: Point2[], next: Point2): void => {
   }
 }
 
-const midBezierAt05 = (p0: Point2, p1: Point2, p2: Point2, p3: Point2): Point2 => {
-  // Deterministic midpoint proxy only for orientation/area math.
-  const t = 0.5
-  const u = 1 - t
-  const b0 = u * u * u
-  const b1 = 3 * u * u * t
-  const b2 = 3 * u * t * t
-  const b3 = t * t * t
-  return {
-    x: b0 * p0.x + b1 * p1.x + b2 * p2.x + b3 * p3.x,
-    y: b0 * p0.y + b1 * p1.y + b2 * p2.y + b3 * p3.y,
-  }
-}
-
 const toSegmentStart = (segment: Segment2): Point2 => {
   if (segment.kind === 'line2') return segment.a
   if (segment.kind === 'bezier2') return segment.p0
@@ -80,28 +69,31 @@ const toSegmentEnd = (segment: Segment2): Point2 => {
   return segment.end
 }
 
-const resolveSketchComponentToSegment = (component: SketchComponent): Segment2 => {
+export const resolveSketchComponentToSegment = (
+  component: SketchComponent,
+  scope: ExpressionScope,
+): Segment2 => {
   if (component.type === 'line') {
     return {
       kind: 'line2',
-      a: canonPoint(component.a),
-      b: canonPoint(component.b),
+      a: canonPoint(resolveVec2Expression(component.a, scope)),
+      b: canonPoint(resolveVec2Expression(component.b, scope)),
     }
   }
   if (component.type === 'spline') {
     return {
       kind: 'bezier2',
-      p0: canonPoint(component.p0),
-      p1: canonPoint(component.p1),
-      p2: canonPoint(component.p2),
-      p3: canonPoint(component.p3),
+      p0: canonPoint(resolveVec2Expression(component.p0, scope)),
+      p1: canonPoint(resolveVec2Expression(component.p1, scope)),
+      p2: canonPoint(resolveVec2Expression(component.p2, scope)),
+      p3: canonPoint(resolveVec2Expression(component.p3, scope)),
     }
   }
   return {
     kind: 'arc3pt2',
-    start: canonPoint(component.start),
-    mid: canonPoint(component.mid),
-    end: canonPoint(component.end),
+    start: canonPoint(resolveVec2Expression(component.start, scope)),
+    mid: canonPoint(resolveVec2Expression(component.mid, scope)),
+    end: canonPoint(resolveVec2Expression(component.end, scope)),
   }
 }
 
@@ -133,7 +125,8 @@ const buildProxyVertices = (segments: readonly Segment2[]): Point2[] => {
   pushUnique(out, toSegmentStart(segments[0]))
   for (const segment of segments) {
     if (segment.kind === 'bezier2') {
-      pushUnique(out, midBezierAt05(segment.p0, segment.p1, segment.p2, segment.p3))
+      // Deterministic midpoint proxy only for orientation/area math.
+      pushUnique(out, evaluateCubicBezier(segment, 0.5))
       pushUnique(out, segment.p3)
       continue
     }
@@ -153,8 +146,92 @@ const buildProxyVertices = (segments: readonly Segment2[]): Point2[] => {
   return out
 }
 
+type ClosedLoop = {
+  componentIds: string[]
+  segments: Segment2[]
+  proxyVertices: Point2[]
+  areaSigned: number
+}
+
+const NOT_CLOSED_MESSAGE = 'Sketch chain is not closed (first start does not match last end).'
+
+// Walks head-to-tail chains in component order. Each chain continues with the lowest-index unused
+// component starting where the previous one ended, so separate loops can share one component list.
+const collectChains = (
+  segments: readonly Segment2[],
+): Array<{ indices: number[]; closed: boolean }> => {
+  const used = new Set<number>()
+  const chains: Array<{ indices: number[]; closed: boolean }> = []
+  for (let seed = 0; seed < segments.length; seed += 1) {
+    if (used.has(seed)) {
+      continue
+    }
+    const indices = [seed]
+    used.add(seed)
+    const start = toSegmentStart(segments[seed])
+    let end = toSegmentEnd(segments[seed])
+    while (!pointsEqual(start, end)) {
+      const next = segments.findIndex(
+        (segment, index) => !used.has(index) && pointsEqual(toSegmentStart(segment), end),
+      )
+      if (next < 0) {
+        break
+      }
+      indices.push(next)
+      used.add(next)
+      end = toSegmentEnd(segments[next])
+    }
+    chains.push({ indices, closed: pointsEqual(start, end) })
+  }
+  return chains
+}
+
+const pointInPolygon = (point: Point2, polygon: readonly Point2[]): boolean => {
+  let inside = false
+  for (let index = 0, prev = polygon.length - 1; index < polygon.length; prev = index, index += 1) {
+    const a = polygon[index]
+    const b = polygon[prev]
+    if (a.y > point.y !== b.y > point.y) {
+      const crossX = ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+      if (point.x < crossX) {
+        inside = !inside
+      }
+    }
+  }
+  return inside
+}
+
+const segmentsCross = (a: Point2, b: Point2, c: Point2, d: Point2): boolean => {
+  const orient = (p: Point2, q: Point2, r: Point2): number =>
+    (q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x)
+  const d1 = orient(c, d, a)
+  const d2 = orient(c, d, b)
+  const d3 = orient(a, b, c)
+  const d4 = orient(a, b, d)
+  return d1 * d2 < 0 && d3 * d4 < 0
+}
+
+const loopsOverlap = (a: readonly Point2[], b: readonly Point2[]): boolean => {
+  for (let i = 0; i < a.length; i += 1) {
+    for (let j = 0; j < b.length; j += 1) {
+      if (segmentsCross(a[i], a[(i + 1) % a.length], b[j], b[(j + 1) % b.length])) {
+        return true
+      }
+    }
+  }
+  return false
+}
+
+const toProfileLoop = (loop: ClosedLoop): ProfileLoop => ({
+  segments: loop.segments,
+  winding: loop.areaSigned >= 0 ? 'CCW' : 'CW',
+})
+
+// Sketch points that are formulas are evaluated against `scope`; unresolvable points become NaN
+// and surface as open-profile diagnostics.
 export const deriveProfilesWithDiagnostics = (
   input: SketchComponent[] | SketchEntity[],
+  scope: ExpressionScope = {},
 ): DeriveProfilesResult => {
   const components = input.length === 0
     ? []
@@ -166,57 +243,80 @@ export const deriveProfilesWithDiagnostics = (
     return { profiles: [], diagnostics: [] }
   }
 
-  const segments = components.map(resolveSketchComponentToSegment)
-  const firstStart = toSegmentStart(segments[0])
-  const lastEnd = toSegmentEnd(segments[segments.length - 1])
-  if (!pointsEqual(firstStart, lastEnd)) {
-    return {
-      profiles: [],
-      diagnostics: [
-        {
-          code: 'SKETCH_PROFILE_NOT_CLOSED',
-          message: 'Sketch chain is not closed (first start does not match last end).',
-        },
-      ],
+  const segments = components.map((component) => resolveSketchComponentToSegment(component, scope))
+  const diagnostics: SketchDerivationDiagnostic[] = []
+  const loops: ClosedLoop[] = []
+
+  for (const chain of collectChains(segments)) {
+    if (!chain.closed) {
+      diagnostics.push({ code: 'SKETCH_PROFILE_NOT_CLOSED', message: NOT_CLOSED_MESSAGE })
+      continue
     }
+    const loopSegments = chain.indices.map((index) => segments[index])
+    const proxyVertices = buildProxyVertices(loopSegments)
+    const areaSigned = signedShoelaceArea(proxyVertices)
+    if (Math.abs(areaSigned) <= 1e-9) {
+      diagnostics.push({
+        code: 'SKETCH_PROFILE_DEGENERATE',
+        message: 'Sketch chain is closed but degenerate (zero proxy area).',
+      })
+      continue
+    }
+    loops.push({
+      componentIds: chain.indices.map((index) => components[index].componentId),
+      segments: loopSegments,
+      proxyVertices,
+      areaSigned,
+    })
   }
 
-  const proxyVertices = buildProxyVertices(segments)
-  const areaSigned = signedShoelaceArea(proxyVertices)
-  if (Math.abs(areaSigned) <= 1e-9) {
-    return {
-      profiles: [],
-      diagnostics: [
-        {
-          code: 'SKETCH_PROFILE_DEGENERATE',
-          message: 'Sketch chain is closed but degenerate (zero proxy area).',
-        },
-      ],
+  for (let i = 0; i < loops.length; i += 1) {
+    for (let j = i + 1; j < loops.length; j += 1) {
+      if (loopsOverlap(loops[i].proxyVertices, loops[j].proxyVertices)) {
+        diagnostics.push({
+          code: 'SKETCH_PROFILE_LOOPS_OVERLAP',
+          message: 'Sketch loops cross each other; hole/island classification may be wrong.',
+        })
+      }
     }
   }
 
-  const winding: 'CCW' | 'CW' = areaSigned >= 0 ? 'CCW' : 'CW'
-  const canonicalSig = components.map((component) => component.componentId).join('|')
-  const profileId = profileIdFromSignature(canonicalSig)
+  // Containment depth decides the role: even depth is an outer boundary, odd depth a hole in the
+  // smallest loop that contains it.
+  const containers = loops.map((loop) =>
+    loops
+      .filter(
+        (other) =>
+          other !== loop &&
+          Math.abs(other.areaSigned) > Math.abs(loop.areaSigned) &&
+          pointInPolygon(loop.proxyVertices[0], other.proxyVertices),
+      )
+      .sort((a, b) => Math.abs(a.areaSigned) - Math.abs(b.areaSigned)),
+  )
+  const outerLoops = loops.filter((_, index) => containers[index].length % 2 === 0)
 
-  return {
-    profiles: [
-      {
-        profileId,
-        profileIndex: 0,
-        area: Math.abs(areaSigned),
-        loop: {
-          segments,
-          winding,
-        },
-        verticesProxy: proxyVertices,
-      },
-    ],
-    diagnostics: [],
-  }
+  const profiles = outerLoops.map((outer, profileIndex): ProfileOutput => {
+    const holes = loops.filter(
+      (_, index) => containers[index].length % 2 === 1 && containers[index][0] === outer,
+    )
+    const holeArea = holes.reduce((sum, hole) => sum + Math.abs(hole.areaSigned), 0)
+    return {
+      // Only the outer loop feeds the id so cutting a hole keeps existing profile references.
+      profileId: profileIdFromSignature(outer.componentIds.join('|')),
+      profileIndex,
+      area: Math.abs(outer.areaSigned) - holeArea,
+      loop: toProfileLoop(outer),
+      ...(holes.length === 0 ? {} : { innerLoops: holes.map(toProfileLoop) }),
+      verticesProxy: outer.proxyVertices,
+    }
+  })
+
+  return { profiles, diagnostics }
 }
 
-export const deriveProfiles = (input: SketchComponent[] | SketchEntity[]): ProfileOutput[] =>
-  deriveProfilesWithDiagnostics(input).profiles
+export const deriveProfiles = (
+  input: SketchComponent[] | SketchEntity[],
+  scope?: ExpressionScope,
+): ProfileOutput[] => deriveProfilesWithDiagnostics(input, scope).profiles
 
 export const deriveProfilesFromLines = deriveProfiles
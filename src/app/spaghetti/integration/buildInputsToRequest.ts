@@ -4,6 +4,7 @@ import {
   orderSpaghettiSourcePartKeys,
   withAssembledBuildStatsKey,
 } from '../../../shared/buildStatsKeys'
+import { stableStringify } from '../../../shared/stableStringify'
 
 export type SpaghettiBuildInputs = NonNullable<CompileSpaghettiGraphResult['buildInputs']>
 
@@ -31,24 +32,6 @@ type ProfilePatch = Partial<Record<SpProfileKey, unknown>>
 const isRecord = (value: unknown): value is Record<string, unknown> =>
   typeof value === 'object' && value !== null && !Array.isArray(value)
 
-export const stableStringify = (value: unknown): string => {
-  if (value === null || typeof value !== 'object') {
-    return JSON.stringify(value)
-  }
-
-  if (Array.isArray(value)) {
-    return `[${value.map((item) => stableStringify(item)).join(',')}]`
-  }
-
-  const entries = Object.entries(value as Record<string, unknown>).sort((a, b) =>
-    a[0].localeCompare(b[0]),
-  )
-  const serialized = entries.map(
-    ([key, nested]) => `${JSON.stringify(key)}:${stableStringify(nested)}`,
-  )
-  return `{${serialized.join(',')}}`
-}
-
 export const stableHash = (value: unknown): string => stableStringify(value)
 
 const readFeatureStackIR = (buildInputs: SpaghettiBuildInputs): unknown | undefined => {
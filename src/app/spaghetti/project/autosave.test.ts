@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createValidBaseplateGraph } from '../dev/sampleGraph'
+import {
+  AUTOSAVE_DEBOUNCE_MS,
+  AUTOSAVE_MAX_SESSIONS,
+  AUTOSAVE_SNAPSHOTS_PER_SESSION,
+  createAutosaveController,
+  listRestorableSnapshots,
+  selectPrunedSnapshotIds,
+  type AutosaveSnapshot,
+  type AutosaveStorage,
+} from './autosave'
+import { createSpaghettiProject } from './projectFile'
+
+const project = createSpaghettiProject(createValidBaseplateGraph(), {})
+
+const snapshot = (sessionId: string, index: number, savedAt: number): AutosaveSnapshot => ({
+  id: `${sessionId}:${String(index).padStart(6, '0')}`,
+  sessionId,
+  savedAt,
+  project,
+})
+
+const createMemoryStorage = (): AutosaveStorage & { snapshots: Map<string, AutosaveSnapshot> } => {
+  const snapshots = new Map<string, AutosaveSnapshot>()
+  return {
+    snapshots,
+    list: () => Promise.resolve([...snapshots.values()]),
+    put: (next) => {
+      snapshots.set(next.id, next)
+      return Promise.resolve()
+    },
+    remove: (ids) => {
+      ids.forEach((id) => snapshots.delete(id))
+      return Promise.resolve()
+    },
+  }
+}
+
+describe('autosave snapshot retention', () => {
+  it('keeps the newest snapshots of the newest sessions', () => {
+    const snapshots = ['a', 'b', 'c', 'd'].flatMap((sessionId, sessionIndex) =>
+      Array.from({ length: AUTOSAVE_SNAPSHOTS_PER_SESSION + 2 }, (_, index) =>
+        snapshot(sessionId, index + 1, sessionIndex * 1000 + index),
+      ),
+    )
+    const pruned = new Set(selectPrunedSnapshotIds(snapshots))
+    const kept = snapshots.filter((entry) => !pruned.has(entry.id))
+
+    expect(new Set(kept.map((entry) => entry.sessionId)).size).toBe(AUTOSAVE_MAX_SESSIONS)
+    expect(kept.some((entry) => entry.sessionId === 'a')).toBe(false)
+    expect(kept.filter((entry) => entry.sessionId === 'd').map((entry) => entry.id)).toEqual(
+      ['d:000003', 'd:000004', 'd:000005', 'd:000006', 'd:000007'],
+    )
+  })
+
+  it('offers earlier sessions newest first', () => {
+    const snapshots = [snapshot('old', 1, 10), snapshot('now', 1, 30), snapshot('old', 2, 20)]
+    expect(listRestorableSnapshots(snapshots, 'now').map((entry) => entry.id)).toEqual([
+      'old:000002',
+      'old:000001',
+    ])
+  })
+})
+
+describe('createAutosaveController', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('debounces writes and skips unchanged projects', async () => {
+    const storage = createMemoryStorage()
+    const onSaved = vi.fn()
+    const controller = createAutosaveController({
+      storage,
+      sessionId: 's1',
+      now: () => 42,
+      onSaved,
+    })
+
+    controller.schedule(project)
+    controller.schedule(project)
+    await vi.advanceTimersByTimeAsync(AUTOSAVE_DEBOUNCE_MS - 1)
+    expect(storage.snapshots.size).toBe(0)
+    await vi.advanceTimersByTimeAsync(1)
+    expect([...storage.snapshots.keys()]).toEqual(['s1:000001'])
+    expect(onSaved).toHaveBeenCalledTimes(1)
+
+    controller.schedule(createSpaghettiProject(createValidBaseplateGraph(), {}))
+    await controller.flush()
+    expect(storage.snapshots.size).toBe(1)
+
+    controller.schedule(createSpaghettiProject({ ...project.graph, nodes: [], edges: [] }, {}))
+    await controller.flush()
+    expect([...storage.snapshots.keys()]).toEqual(['s1:000001', 's1:000002'])
+  })
+
+  it('reports storage failures and retries on the next change', async () => {
+    const storage = createMemoryStorage()
+    const onError = vi.fn()
+    const failingStorage: AutosaveStorage = {
+      ...storage,
+      put: vi.fn().mockRejectedValueOnce(new Error('quota')).mockImplementation(storage.put),
+    }
+    const controller = createAutosaveController({ storage: failingStorage, sessionId: 's1', onError })
+
+    controller.schedule(project)
+    await controller.flush()
+    expect(onError).toHaveBeenCalledTimes(1)
+
+    controller.schedule(project)
+    await controller.flush()
+    expect(storage.snapshots.size).toBe(1)
+  })
+})
@@ -0,0 +1,136 @@
+import { serializeSpaghettiProject, type SpaghettiProject } from './projectFile'
+
+// Autosave keeps a rolling set of project snapshots per browser session. Each page load is a new
+// session; pruning keeps the newest few snapshots of the newest few sessions, so edits in the
+// current tab can never push out the sessions a user may want to recover.
+export const AUTOSAVE_DEBOUNCE_MS = 1500
+
+export const AUTOSAVE_SNAPSHOTS_PER_SESSION = 5
+
+export const AUTOSAVE_MAX_SESSIONS = 3
+
+export type AutosaveSnapshot = {
+  id: string
+  sessionId: string
+  savedAt: number
+  // Stored as written; restore runs it through parseSpaghettiProject like any project file.
+  project: SpaghettiProject
+}
+
+export type AutosaveStorage = {
+  list: () => Promise<AutosaveSnapshot[]>
+  put: (snapshot: AutosaveSnapshot) => Promise<void>
+  remove: (ids: string[]) => Promise<void>
+}
+
+const compareNewestFirst = (a: AutosaveSnapshot, b: AutosaveSnapshot): number =>
+  b.savedAt - a.savedAt || b.id.localeCompare(a.id)
+
+export const selectPrunedSnapshotIds = (snapshots: AutosaveSnapshot[]): string[] => {
+  const keptPerSession = new Map<string, number>()
+  const pruned: string[] = []
+  for (const snapshot of [...snapshots].sort(compareNewestFirst)) {
+    const kept = keptPerSession.get(snapshot.sessionId)
+    if (kept === undefined && keptPerSession.size >= AUTOSAVE_MAX_SESSIONS) {
+      pruned.push(snapshot.id)
+      continue
+    }
+    if ((kept ?? 0) >= AUTOSAVE_SNAPSHOTS_PER_SESSION) {
+      pruned.push(snapshot.id)
+      continue
+    }
+    keptPerSession.set(snapshot.sessionId, (kept ?? 0) + 1)
+  }
+  return pruned.sort()
+}
+
+// Snapshots from earlier sessions, newest first; the first one is "the last session".
+export const listRestorableSnapshots = (
+  snapshots: AutosaveSnapshot[],
+  currentSessionId: string,
+): AutosaveSnapshot[] =>
+  snapshots.filter((snapshot) => snapshot.sessionId !== currentSessionId).sort(compareNewestFirst)
+
+export type AutosaveController = {
+  schedule: (project: SpaghettiProject) => void
+  flush: () => Promise<void>
+  cancel: () => void
+}
+
+type AutosaveControllerOptions = {
+  storage: AutosaveStorage
+  sessionId: string
+  now?: () => number
+  debounceMs?: number
+  onSaved?: (snapshot: AutosaveSnapshot) => void
+  onError?: (error: unknown) => void
+}
+
+export const createAutosaveController = ({
+  storage,
+  sessionId,
+  now = Date.now,
+  debounceMs = AUTOSAVE_DEBOUNCE_MS,
+  onSaved,
+  onError,
+}: AutosaveControllerOptions): AutosaveController => {
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let pending: SpaghettiProject | null = null
+  let lastWritten: string | null = null
+  let sequence = 0
+
+  const clearTimer = () => {
+    if (timer !== null) {
+      clearTimeout(timer)
+      timer = null
+    }
+  }
+
+  const flush = async (): Promise<void> => {
+    clearTimer()
+    const project = pending
+    pending = null
+    if (project === null) {
+      return
+    }
+    const text = serializeSpaghettiProject(project)
+    if (text === lastWritten) {
+      return
+    }
+    lastWritten = text
+    sequence += 1
+    const snapshot: AutosaveSnapshot = {
+      id: `${sessionId}:${String(sequence).padStart(6, '0')}`,
+      sessionId,
+      savedAt: now(),
+      project,
+    }
+    try {
+      await storage.put(snapshot)
+      const pruned = selectPrunedSnapshotIds(await storage.list())
+      if (pruned.length > 0) {
+        await storage.remove(pruned)
+      }
+      onSaved?.(snapshot)
+    } catch (error) {
+      // Let the next change retry the write.
+      lastWritten = null
+      onError?.(error)
+    }
+  }
+
+  return {
+    schedule: (project) => {
+      pending = project
+      clearTimer()
+      timer = setTimeout(() => {
+        void flush()
+      }, debounceMs)
+    },
+    flush,
+    cancel: () => {
+      clearTimer()
+      pending = null
+    },
+  }
+}
@@ -0,0 +1,70 @@
+import type { AutosaveSnapshot, AutosaveStorage } from './autosave'
+
+const DB_NAME = 'spaghetti-autosave'
+const DB_VERSION = 1
+const SNAPSHOT_STORE = 'snapshots'
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed.'))
+  })
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed.'))
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted.'))
+  })
+
+const openDatabase = (factory: IDBFactory): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = factory.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        request.result.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('Could not open autosave database.'))
+  })
+
+// Returns null where IndexedDB is missing (tests, some private browsing modes).
+export const createIndexedDbAutosaveStorage = (): AutosaveStorage | null => {
+  const factory = typeof indexedDB === 'undefined' ? null : indexedDB
+  if (factory === null) {
+    return null
+  }
+  let database: Promise<IDBDatabase> | null = null
+  const getDatabase = () => {
+    database ??= openDatabase(factory)
+    return database
+  }
+
+  return {
+    list: async () => {
+      const db = await getDatabase()
+      const transaction = db.transaction(SNAPSHOT_STORE, 'readonly')
+      const snapshots = await requestToPromise(
+        transaction.objectStore(SNAPSHOT_STORE).getAll() as IDBRequest<AutosaveSnapshot[]>,
+      )
+      await transactionDone(transaction)
+      return snapshots
+    },
+    put: async (snapshot) => {
+      const db = await getDatabase()
+      const transaction = db.transaction(SNAPSHOT_STORE, 'readwrite')
+      transaction.objectStore(SNAPSHOT_STORE).put(snapshot)
+      await transactionDone(transaction)
+    },
+    remove: async (ids) => {
+      const db = await getDatabase()
+      const transaction = db.transaction(SNAPSHOT_STORE, 'readwrite')
+      const store = transaction.objectStore(SNAPSHOT_STORE)
+      for (const id of ids) {
+        store.delete(id)
+      }
+      await transactionDone(transaction)
+    },
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_VIEW_SETTINGS } from '../../../shared/viewSettingsTypes'
+import { createValidBaseplateGraph, createValidBaseplateToeHookGraph } from '../dev/sampleGraph'
+import {
+  PROJECT_SCHEMA_VERSION,
+  createSpaghettiProject,
+  parseSpaghettiProject,
+  parseSpaghettiProjectText,
+  serializeSpaghettiProject,
+} from './projectFile'
+
+const waypoint = { waypointId: 'wp-1', x: 4, y: 8, flipSide1: false, flipSide2: true }
+
+describe('project files', () => {
+  it('round-trips graph, waypoints and view settings', () => {
+    const graph = createValidBaseplateToeHookGraph()
+    const edgeId = graph.edges[0].edgeId
+    const project = createSpaghettiProject(
+      graph,
+      { [edgeId]: [waypoint], 'edge-gone': [waypoint] },
+      {
+        ...DEFAULT_VIEW_SETTINGS,
+        materials: {
+          ...DEFAULT_VIEW_SETTINGS.materials,
+          usePerPart: true,
+          perPart: { baseplate: 'brushed_metal' },
+        },
+      },
+    )
+    expect(Object.keys(project.edgeWaypoints)).toEqual([edgeId])
+
+    const text = serializeSpaghettiProject(project)
+    const parsed = parseSpaghettiProjectText(text)
+    expect(parsed).toEqual({ ok: true, project, migratedFrom: null })
+    expect(serializeSpaghettiProject(parsed.ok ? parsed.project : project)).toBe(text)
+  })
+
+  it('upgrades a bare version-1 graph without touching view settings', () => {
+    const graph = createValidBaseplateGraph()
+    const parsed = parseSpaghettiProject(JSON.parse(JSON.stringify(graph)))
+    expect(parsed.ok).toBe(true)
+    if (!parsed.ok) {
+      return
+    }
+    expect(parsed.migratedFrom).toBe(1)
+    expect(parsed.project.schemaVersion).toBe(PROJECT_SCHEMA_VERSION)
+    expect(parsed.project.graph).toEqual(graph)
+    expect(parsed.project.edgeWaypoints).toEqual({})
+    expect(parsed.project.view).toBeUndefined()
+  })
+
+  it('rejects newer, foreign and malformed files', () => {
+    const project = createSpaghettiProject(createValidBaseplateGraph(), {})
+    const errorOf = (input: unknown) => {
+      const result = parseSpaghettiProject(input)
+      return result.ok ? null : result.error
+    }
+
+    expect(errorOf({ ...project, schemaVersion: PROJECT_SCHEMA_VERSION + 1 })).toMatch(/newer/)
+    expect(errorOf({ kind: 'something-else', schemaVersion: 1 })).toMatch(/Not a spaghetti/)
+    expect(errorOf([])).toMatch(/JSON object/)
+    expect(errorOf({ ...project, edgeWaypoints: { e: [{ x: 1 }] } })).toMatch(
+      /^Invalid project file: edgeWaypoints/,
+    )
+    expect(parseSpaghettiProjectText('{ nope').ok).toBe(false)
+  })
+})
@@ -0,0 +1,219 @@
+import { z } from 'zod'
+import type { ViewSettings } from '../../../shared/viewSettingsTypes'
+import { spaghettiGraphSchema } from '../schema/spaghettiSchema'
+import type { SpaghettiGraph } from '../schema/spaghettiTypes'
+import type { EdgeWaypoint } from '../store/useSpaghettiStore'
+
+// Project file format. Version 1 is a bare `SpaghettiGraph` (what the app kept in memory before
+// projects existed); version 2 wraps the graph with edge waypoints and, optionally, the viewer
+// settings including per-part material assignments. Older files are upgraded one version at a
+// time by PROJECT_MIGRATIONS before validation, so a file always loads the same way.
+export const PROJECT_SCHEMA_VERSION = 2
+
+export const PROJECT_FILE_KIND = 'spaghetti-project'
+
+export const PROJECT_FILE_EXTENSION = '.spaghetti.json'
+
+export type SpaghettiProject = {
+  kind: typeof PROJECT_FILE_KIND
+  schemaVersion: typeof PROJECT_SCHEMA_VERSION
+  graph: SpaghettiGraph
+  edgeWaypoints: Record<string, EdgeWaypoint[]>
+  // Absent in migrated version-1 files; loading keeps the current view settings then.
+  view?: ViewSettings
+}
+
+export type ProjectParseResult =
+  | { ok: true; project: SpaghettiProject; migratedFrom: number | null }
+  | { ok: false; error: string }
+
+type RawProject = Record<string, unknown>
+
+type ProjectMigration = {
+  fromVersion: number
+  migrate: (raw: RawProject) => RawProject
+}
+
+const PROJECT_MIGRATIONS: ProjectMigration[] = [
+  {
+    fromVersion: 1,
+    migrate: (graph) => ({
+      kind: PROJECT_FILE_KIND,
+      schemaVersion: 2,
+      graph,
+      edgeWaypoints: {},
+    }),
+  },
+]
+
+const vec3Schema = z.object({ x: z.number(), y: z.number(), z: z.number() }).strict()
+
+const lightSpecSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string(),
+    type: z.enum(['directional', 'point', 'spot', 'hemisphere', 'ambient']),
+    enabled: z.boolean(),
+    color: z.string(),
+    intensity: z.number(),
+    position: vec3Schema.optional(),
+    target: vec3Schema.optional(),
+    distance: z.number().optional(),
+    angleDeg: z.number().optional(),
+    penumbra: z.number().optional(),
+    decay: z.number().optional(),
+    castShadow: z.boolean().optional(),
+    shadowBias: z.number().optional(),
+    shadowMapSize: z.number().optional(),
+  })
+  .strict()
+
+const materialPresetSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string(),
+    color: z.string(),
+    metalness: z.number(),
+    roughness: z.number(),
+    emissive: z.string(),
+    emissiveIntensity: z.number(),
+    opacity: z.number(),
+    transparent: z.boolean(),
+  })
+  .strict()
+
+const viewSettingsSchema = z
+  .object({
+    orbitEnabled: z.boolean(),
+    gridVisible: z.boolean(),
+    axesVisible: z.boolean(),
+    shadowsEnabled: z.boolean(),
+    wireframe: z.boolean(),
+    toneMapping: z.enum(['none', 'aces']),
+    exposure: z.number(),
+    envPreset: z.enum(['none', 'studio']),
+    axisOverlayEnabled: z.boolean(),
+    lighting: z
+      .object({
+        selectedLightId: z.string().nullable(),
+        lights: z.array(lightSpecSchema),
+      })
+      .strict(),
+    materials: z
+      .object({
+        presets: z.array(materialPresetSchema),
+        selectedPresetId: z.string(),
+        usePerPart: z.boolean(),
+        perPart: z.record(z.string(), z.string()),
+      })
+      .strict(),
+  })
+  .strict()
+
+const edgeWaypointSchema = z
+  .object({
+    waypointId: z.string().min(1),
+    x: z.number(),
+    y: z.number(),
+    flipSide1: z.boolean(),
+    flipSide2: z.boolean(),
+  })
+  .strict()
+
+const projectSchema = z
+  .object({
+    kind: z.literal(PROJECT_FILE_KIND),
+    schemaVersion: z.literal(PROJECT_SCHEMA_VERSION),
+    graph: spaghettiGraphSchema,
+    edgeWaypoints: z.record(z.string(), z.array(edgeWaypointSchema)),
+    view: viewSettingsSchema.optional(),
+  })
+  .strict()
+
+const isRecord = (value: unknown): value is RawProject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// A bare graph has no `kind`; its own `schemaVersion` (defaulted to 1) is the graph version.
+const readFileVersion = (raw: RawProject): number | null => {
+  if (raw.kind === undefined) {
+    return Array.isArray(raw.nodes) && Array.isArray(raw.edges) ? 1 : null
+  }
+  if (raw.kind !== PROJECT_FILE_KIND) {
+    return null
+  }
+  return typeof raw.schemaVersion === 'number' && Number.isInteger(raw.schemaVersion)
+    ? raw.schemaVersion
+    : null
+}
+
+const formatIssues = (error: z.ZodError): string =>
+  error.issues
+    .slice(0, 3)
+    .map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ')
+
+export const parseSpaghettiProject = (input: unknown): ProjectParseResult => {
+  if (!isRecord(input)) {
+    return { ok: false, error: 'Project file must contain a JSON object.' }
+  }
+  const fileVersion = readFileVersion(input)
+  if (fileVersion === null) {
+    return { ok: false, error: 'Not a spaghetti project file.' }
+  }
+  if (fileVersion > PROJECT_SCHEMA_VERSION) {
+    return {
+      ok: false,
+      error: `Project file version ${String(fileVersion)} is newer than this app supports (${String(PROJECT_SCHEMA_VERSION)}).`,
+    }
+  }
+
+  let raw = input
+  for (let version = fileVersion; version < PROJECT_SCHEMA_VERSION; version += 1) {
+    const migration = PROJECT_MIGRATIONS.find((candidate) => candidate.fromVersion === version)
+    if (migration === undefined) {
+      return { ok: false, error: `No migration from project file version ${String(version)}.` }
+    }
+    raw = migration.migrate(raw)
+  }
+
+  const parsed = projectSchema.safeParse(raw)
+  if (!parsed.success) {
+    return { ok: false, error: `Invalid project file: ${formatIssues(parsed.error)}` }
+  }
+  return {
+    ok: true,
+    project: parsed.data,
+    migratedFrom: fileVersion === PROJECT_SCHEMA_VERSION ? null : fileVersion,
+  }
+}
+
+export const parseSpaghettiProjectText = (text: string): ProjectParseResult => {
+  let input: unknown
+  try {
+    input = JSON.parse(text)
+  } catch {
+    return { ok: false, error: 'Project file is not valid JSON.' }
+  }
+  return parseSpaghettiProject(input)
+}
+
+export const createSpaghettiProject = (
+  graph: SpaghettiGraph,
+  edgeWaypoints: Record<string, EdgeWaypoint[]>,
+  view?: ViewSettings,
+): SpaghettiProject => ({
+  kind: PROJECT_FILE_KIND,
+  schemaVersion: PROJECT_SCHEMA_VERSION,
+  graph,
+  // Only waypoints of edges that still exist, keyed in sorted order for stable diffs.
+  edgeWaypoints: Object.fromEntries(
+    Object.keys(edgeWaypoints)
+      .filter((edgeId) => graph.edges.some((edge) => edge.edgeId === edgeId))
+      .sort()
+      .map((edgeId) => [edgeId, edgeWaypoints[edgeId]]),
+  ),
+  ...(view === undefined ? {} : { view }),
+})
+
+export const serializeSpaghettiProject = (project: SpaghettiProject): string =>
+  `${JSON.stringify(project, null, 2)}\n`
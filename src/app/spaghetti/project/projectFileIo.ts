@@ -0,0 +1,114 @@
+import { downloadBlob } from '../../downloadBlob'
+import {
+  PROJECT_FILE_EXTENSION,
+  parseSpaghettiProjectText,
+  serializeSpaghettiProject,
+  type ProjectParseResult,
+  type SpaghettiProject,
+} from './projectFile'
+
+// Browser side of project files. Open/Save use the File System Access API where the browser has
+// it (Save then writes back to the opened file); Download/Upload work everywhere.
+
+type ProjectFileHandle = {
+  name: string
+  getFile: () => Promise<File>
+  createWritable: () => Promise<{
+    write: (data: string) => Promise<void>
+    close: () => Promise<void>
+  }>
+}
+
+type FilePickerOptions = {
+  suggestedName?: string
+  types: Array<{ description: string; accept: Record<string, string[]> }>
+}
+
+type FileSystemAccessWindow = Window & {
+  showOpenFilePicker?: (options: FilePickerOptions) => Promise<ProjectFileHandle[]>
+  showSaveFilePicker?: (options: FilePickerOptions) => Promise<ProjectFileHandle>
+}
+
+const PICKER_TYPES: FilePickerOptions['types'] = [
+  { description: 'Spaghetti project', accept: { 'application/json': ['.json'] } },
+]
+
+export const DEFAULT_PROJECT_FILE_NAME = `project${PROJECT_FILE_EXTENSION}`
+
+let currentHandle: ProjectFileHandle | null = null
+
+const fileSystemAccess = (): FileSystemAccessWindow | null =>
+  typeof window === 'undefined' ? null : (window as FileSystemAccessWindow)
+
+export const hasProjectFilePicker = (): boolean =>
+  fileSystemAccess()?.showOpenFilePicker !== undefined &&
+  fileSystemAccess()?.showSaveFilePicker !== undefined
+
+export const getCurrentProjectFileName = (): string | null => currentHandle?.name ?? null
+
+const isAbort = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError'
+
+export const downloadProjectFile = (
+  project: SpaghettiProject,
+  fileName = DEFAULT_PROJECT_FILE_NAME,
+): void => {
+  downloadBlob(
+    new Blob([serializeSpaghettiProject(project)], { type: 'application/json' }),
+    fileName,
+  )
+}
+
+export const readProjectFile = async (file: Blob): Promise<ProjectParseResult> =>
+  parseSpaghettiProjectText(await file.text())
+
+// Resolves to null when the user cancels the picker.
+export const openProjectFile = async (): Promise<ProjectParseResult | null> => {
+  const picker = fileSystemAccess()?.showOpenFilePicker
+  if (picker === undefined) {
+    return { ok: false, error: 'Opening files is not supported in this browser; use Upload.' }
+  }
+  try {
+    const [handle] = await picker({ types: PICKER_TYPES })
+    const result = await readProjectFile(await handle.getFile())
+    if (result.ok) {
+      currentHandle = handle
+    }
+    return result
+  } catch (error) {
+    if (isAbort(error)) {
+      return null
+    }
+    throw error
+  }
+}
+
+// Writes to the file the project was opened from, asking for a location the first time. Falls
+// back to a download when the browser has no file pickers. Returns the file name written, or null
+// when the user cancels.
+export const saveProjectFile = async (project: SpaghettiProject): Promise<string | null> => {
+  const picker = fileSystemAccess()?.showSaveFilePicker
+  if (picker === undefined) {
+    downloadProjectFile(project)
+    return DEFAULT_PROJECT_FILE_NAME
+  }
+  try {
+    const handle =
+      currentHandle ?? (await picker({ suggestedName: DEFAULT_PROJECT_FILE_NAME, types: PICKER_TYPES }))
+    const writable = await handle.createWritable()
+    await writable.write(serializeSpaghettiProject(project))
+    await writable.close()
+    currentHandle = handle
+    return handle.name
+  } catch (error) {
+    if (isAbort(error)) {
+      return null
+    }
+    throw error
+  }
+}
+
+// Loading a sample or uploading a file detaches Save from the previously opened file.
+export const forgetProjectFileHandle = (): void => {
+  currentHandle = null
+}
@@ -0,0 +1,209 @@
+import { describe, expect, it } from 'vitest'
+import { evaluateSpaghettiGraph } from '../compiler/evaluateGraph'
+import { validateGraph } from '../compiler/validateGraph'
+import {
+  listDeclaredInputPorts,
+  listDeclaredOutputPorts,
+  resolveEffectiveOutputPort,
+} from '../features/effectivePorts'
+import type { SpaghettiGraph, SpaghettiNode } from '../schema/spaghettiTypes'
+import { getDefaultNodeParams, getNodeDef, type NodeTypeId } from './nodeRegistry'
+
+const mathNode = (
+  nodeId: string,
+  type: NodeTypeId,
+  params: Record<string, unknown> = {},
+): SpaghettiNode => ({
+  nodeId,
+  type,
+  params: { ...getDefaultNodeParams(type), ...params },
+})
+
+const evaluateSingle = (type: NodeTypeId, params: Record<string, unknown>) => {
+  const result = evaluateSpaghettiGraph({
+    schemaVersion: 1,
+    nodes: [mathNode('n-math', type, params)],
+    edges: [],
+  })
+  return { result, outputs: result.outputsByNodeId['n-math'] }
+}
+
+describe('math node library', () => {
+  it('registers every math node as user addable with valid default params', () => {
+    const types: NodeTypeId[] = [
+      'Math/Add',
+      'Math/Subtract',
+      'Math/Multiply',
+      'Math/Divide',
+      'Math/Clamp',
+      'Math/Remap',
+      'Math/Min',
+      'Math/Max',
+      'Math/Compare',
+      'Math/Select',
+      'Vec2/Compose',
+      'Vec2/Decompose',
+      'Vec2/Add',
+      'Vec2/Scale',
+    ]
+    for (const type of types) {
+      const nodeDef = getNodeDef(type)
+      expect(nodeDef?.type).toBe(type)
+      expect(nodeDef?.isUserAddable).not.toBe(false)
+      expect(nodeDef?.paramsSchema.safeParse(getDefaultNodeParams(type)).success).toBe(true)
+    }
+  })
+
+  it('computes unwired inputs from literal params', () => {
+    expect(evaluateSingle('Math/Add', { a: 2, b: 3 }).outputs).toEqual({ result: 5 })
+    expect(evaluateSingle('Math/Subtract', { a: 2, b: 3 }).outputs).toEqual({ result: -1 })
+    expect(evaluateSingle('Math/Multiply', { a: 2, b: 3 }).outputs).toEqual({ result: 6 })
+    expect(evaluateSingle('Math/Divide', { a: 3, b: 2 }).outputs).toEqual({ result: 1.5 })
+    expect(evaluateSingle('Math/Min', { a: 2, b: 3 }).outputs).toEqual({ result: 2 })
+    expect(evaluateSingle('Math/Max', { a: 2, b: 3 }).outputs).toEqual({ result: 3 })
+    expect(evaluateSingle('Math/Clamp', { value: 12, min: 0, max: 10 }).outputs).toEqual({
+      result: 10,
+    })
+    expect(
+      evaluateSingle('Math/Remap', { value: 5, inMin: 0, inMax: 10, outMin: 100, outMax: 200 })
+        .outputs,
+    ).toEqual({ result: 150 })
+    expect(
+      evaluateSingle('Math/Compare', { a: 0.1 + 0.2, b: 0.3, operator: '==' }).outputs,
+    ).toEqual({ result: true })
+    expect(evaluateSingle('Math/Compare', { a: 1, b: 2, operator: '>=' }).outputs).toEqual({
+      result: false,
+    })
+    expect(
+      evaluateSingle('Math/Select', { condition: true, whenTrue: 4, whenFalse: 8 }).outputs,
+    ).toEqual({ result: 4 })
+    expect(evaluateSingle('Vec2/Compose', { x: 1, y: 2 }).outputs).toEqual({
+      vector: { x: 1, y: 2 },
+    })
+    expect(evaluateSingle('Vec2/Decompose', { vector: { x: 3, y: 4 } }).outputs).toEqual({
+      x: 3,
+      y: 4,
+    })
+    expect(
+      evaluateSingle('Vec2/Add', { a: { x: 1, y: 2 }, b: { x: 10, y: 20 } }).outputs,
+    ).toEqual({ result: { x: 11, y: 22 } })
+    expect(evaluateSingle('Vec2/Scale', { vector: { x: 1, y: -2 }, factor: 3 }).outputs).toEqual(
+      { result: { x: 3, y: -6 } },
+    )
+  })
+
+  it('reports invalid arithmetic as a node compute error', () => {
+    const divide = evaluateSingle('Math/Divide', { a: 1, b: 0 })
+    expect(divide.result.ok).toBe(false)
+    expect(divide.result.diagnostics.errors.map((error) => error.code)).toEqual([
+      'NODE_COMPUTE_THROW',
+    ])
+    expect(divide.outputs).toBeUndefined()
+
+    const remap = evaluateSingle('Math/Remap', { value: 1, inMin: 2, inMax: 2 })
+    expect(remap.result.diagnostics.errors.map((error) => error.code)).toEqual([
+      'NODE_COMPUTE_THROW',
+    ])
+
+    const clamp = evaluateSingle('Math/Clamp', { value: 1, min: 5, max: 2 })
+    expect(clamp.result.diagnostics.errors.map((error) => error.code)).toEqual([
+      'NODE_COMPUTE_THROW',
+    ])
+  })
+
+  it('resolves unit-following ports from the unit param', () => {
+    const node = mathNode('n-div', 'Math/Divide', { unit: 'deg' })
+    expect(listDeclaredInputPorts(node).map((port) => port.type)).toEqual([
+      { kind: 'number', unit: 'deg' },
+      { kind: 'number', unit: 'unitless' },
+    ])
+    expect(listDeclaredOutputPorts(node).map((port) => port.type)).toEqual([
+      { kind: 'number', unit: 'deg' },
+    ])
+
+    const compare = mathNode('n-compare', 'Math/Compare', { unit: 'deg' })
+    expect(resolveEffectiveOutputPort(compare, 'result')?.type).toEqual({ kind: 'boolean' })
+  })
+
+  it('drives ToeHook hookWidth from Baseplate widthMm minus a margin', () => {
+    const graph: SpaghettiGraph = {
+      schemaVersion: 1,
+      nodes: [
+        {
+          nodeId: 'n-baseplate',
+          type: 'Part/Baseplate',
+          params: { widthMm: 40, lengthMm: 200 },
+        },
+        mathNode('n-margin', 'Math/Subtract', { b: 6 }),
+        { nodeId: 'n-toehook', type: 'Part/ToeHook', params: {} },
+      ],
+      edges: [
+        {
+          edgeId: 'e-width',
+          from: { nodeId: 'n-baseplate', portId: 'out:drv:widthMm' },
+          to: { nodeId: 'n-margin', portId: 'a' },
+        },
+        {
+          edgeId: 'e-hook-width',
+          from: { nodeId: 'n-margin', portId: 'result' },
+          to: { nodeId: 'n-toehook', portId: 'in:drv:hookWidth' },
+        },
+      ],
+    }
+
+    expect(validateGraph(graph).errors).toEqual([])
+    const result = evaluateSpaghettiGraph(graph)
+    expect(result.ok).toBe(true)
+    expect(result.outputsByNodeId['n-margin']).toEqual({ result: 34 })
+    expect(result.outputsByNodeId['n-toehook']?.['out:drv:hookWidth']).toBe(34)
+  })
+
+  it('rejects wires whose units disagree with the unit param', () => {
+    const graph: SpaghettiGraph = {
+      schemaVersion: 1,
+      nodes: [
+        {
+          nodeId: 'n-baseplate',
+          type: 'Part/Baseplate',
+          params: { widthMm: 40, lengthMm: 200 },
+        },
+        mathNode('n-angle', 'Math/Add', { unit: 'deg' }),
+        mathNode('n-compare', 'Math/Compare'),
+        mathNode('n-vector', 'Vec2/Scale'),
+      ],
+      edges: [
+        {
+          edgeId: 'e-mm-into-deg',
+          from: { nodeId: 'n-baseplate', portId: 'out:drv:widthMm' },
+          to: { nodeId: 'n-angle', portId: 'a' },
+        },
+        {
+          edgeId: 'e-boolean-into-factor',
+          from: { nodeId: 'n-compare', portId: 'result' },
+          to: { nodeId: 'n-vector', portId: 'factor' },
+        },
+      ],
+    }
+
+    const result = validateGraph(graph)
+    expect(result.ok).toBe(false)
+    expect(
+      result.errors
+        .filter((error) => error.code.startsWith('EDGE_'))
+        .map((error) => [error.edgeId, error.code])
+        .sort(),
+    ).toEqual([
+      ['e-boolean-into-factor', 'EDGE_TYPE_MISMATCH'],
+      ['e-mm-into-deg', 'EDGE_UNIT_MISMATCH'],
+    ])
+  })
+
+  it('rejects params outside the schema', () => {
+    const result = validateGraph({
+      schemaVersion: 1,
+      nodes: [mathNode('n-compare', 'Math/Compare', { operator: '=~' })],
+      edges: [],
+    })
+    expect(result.errors.map((error) => error.code)).toContain('NODE_PARAMS_INVALID')
+  })
+})
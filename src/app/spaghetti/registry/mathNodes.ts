@@ -0,0 +1,299 @@
+import { z } from 'zod'
+import type { PortSpec, Unit } from '../schema/spaghettiTypes'
+import { UNITS } from '../types/units'
+import type { NodeComputeContext, NodeDefinition } from './nodeRegistry'
+
+// Math, logic and Vec2 nodes. Every number/vec2 port listed in `unitParamPortIds` takes its unit
+// from the node's `unit` param (see effectivePorts), so one node type serves mm, in, deg and
+// unitless values while wiring stays type checked. Unwired number inputs fall back to the param of
+// the same id; unwired vec2 inputs use the evaluator's literal fallback, reading the same param.
+export type MathNodeTypeId =
+  | 'Math/Add'
+  | 'Math/Subtract'
+  | 'Math/Multiply'
+  | 'Math/Divide'
+  | 'Math/Clamp'
+  | 'Math/Remap'
+  | 'Math/Min'
+  | 'Math/Max'
+  | 'Math/Compare'
+  | 'Math/Select'
+  | 'Vec2/Compose'
+  | 'Vec2/Decompose'
+  | 'Vec2/Add'
+  | 'Vec2/Scale'
+
+export const COMPARE_OPERATORS = ['<', '<=', '>', '>=', '==', '!='] as const
+
+export type CompareOperator = (typeof COMPARE_OPERATORS)[number]
+
+// Equality tolerance for `==` / `!=`, so values derived through arithmetic still compare equal.
+export const COMPARE_EPSILON = 1e-9
+
+const unitSchema = z.enum(UNITS)
+const vec2ParamSchema = z.object({ x: z.number(), y: z.number() }).strict()
+
+const DEFAULT_UNIT: Unit = 'mm'
+
+const numberPort = (portId: string, label: string, unit?: Unit): PortSpec => ({
+  portId,
+  label,
+  type: { kind: 'number', unit: unit ?? DEFAULT_UNIT },
+})
+
+const numberInput = (portId: string, label: string, unit?: Unit): PortSpec => ({
+  ...numberPort(portId, label, unit),
+  optional: true,
+})
+
+const vec2Port = (portId: string, label: string): PortSpec => ({
+  portId,
+  label,
+  type: { kind: 'vec2', unit: DEFAULT_UNIT },
+})
+
+const readNumber = ({ inputs, params }: NodeComputeContext, portId: string): number => {
+  const wired = inputs[portId]
+  if (typeof wired === 'number') {
+    return wired
+  }
+  const literal = params[portId]
+  return typeof literal === 'number' ? literal : 0
+}
+
+const readVec2 = ({ inputs }: NodeComputeContext, portId: string): { x: number; y: number } => {
+  const value = inputs[portId] as { x: number; y: number }
+  return { x: value.x, y: value.y }
+}
+
+const numberParamsSchema = (paramIds: string[], extra: z.ZodRawShape = {}): z.ZodTypeAny =>
+  z
+    .object({
+      ...Object.fromEntries(paramIds.map((paramId) => [paramId, z.number().finite()])),
+      ...extra,
+      unit: unitSchema.default(DEFAULT_UNIT),
+    })
+    .strict()
+
+type BinaryNumberNodeConfig = {
+  type: MathNodeTypeId
+  label: string
+  defaults: { a: number; b: number }
+  // Multiply/Divide scale by a plain factor, so `b` stays unitless.
+  bUnit?: Unit
+  bLabel?: string
+  combine: (a: number, b: number) => number
+}
+
+const binaryNumberNode = (config: BinaryNumberNodeConfig): NodeDefinition => ({
+  type: config.type,
+  label: config.label,
+  paramsSchema: numberParamsSchema(['a', 'b']),
+  defaultParams: { ...config.defaults, unit: DEFAULT_UNIT },
+  inputs: [numberInput('a', 'A'), numberInput('b', config.bLabel ?? 'B', config.bUnit)],
+  outputs: [numberPort('result', 'Result')],
+  unitParamPortIds: config.bUnit === undefined ? ['a', 'b', 'result'] : ['a', 'result'],
+  compute: (ctx) => ({
+    result: config.combine(readNumber(ctx, 'a'), readNumber(ctx, 'b')),
+  }),
+})
+
+const compare = (operator: CompareOperator, a: number, b: number): boolean => {
+  switch (operator) {
+    case '<':
+      return a < b
+    case '<=':
+      return a <= b + COMPARE_EPSILON
+    case '>':
+      return a > b
+    case '>=':
+      return a + COMPARE_EPSILON >= b
+    case '==':
+      return Math.abs(a - b) <= COMPARE_EPSILON
+    case '!=':
+      return Math.abs(a - b) > COMPARE_EPSILON
+  }
+}
+
+export const mathNodeDefinitions: Record<MathNodeTypeId, NodeDefinition> = {
+  'Math/Add': binaryNumberNode({
+    type: 'Math/Add',
+    label: 'Add',
+    defaults: { a: 0, b: 0 },
+    combine: (a, b) => a + b,
+  }),
+  'Math/Subtract': binaryNumberNode({
+    type: 'Math/Subtract',
+    label: 'Subtract',
+    defaults: { a: 0, b: 0 },
+    combine: (a, b) => a - b,
+  }),
+  'Math/Multiply': binaryNumberNode({
+    type: 'Math/Multiply',
+    label: 'Multiply',
+    defaults: { a: 0, b: 1 },
+    bUnit: 'unitless',
+    bLabel: 'Factor',
+    combine: (a, b) => a * b,
+  }),
+  'Math/Divide': binaryNumberNode({
+    type: 'Math/Divide',
+    label: 'Divide',
+    defaults: { a: 0, b: 1 },
+    bUnit: 'unitless',
+    bLabel: 'Divisor',
+    combine: (a, b) => {
+      if (b === 0) {
+        throw new Error('Division by zero.')
+      }
+      return a / b
+    },
+  }),
+  'Math/Min': binaryNumberNode({
+    type: 'Math/Min',
+    label: 'Min',
+    defaults: { a: 0, b: 0 },
+    combine: (a, b) => Math.min(a, b),
+  }),
+  'Math/Max': binaryNumberNode({
+    type: 'Math/Max',
+    label: 'Max',
+    defaults: { a: 0, b: 0 },
+    combine: (a, b) => Math.max(a, b),
+  }),
+  'Math/Clamp': {
+    type: 'Math/Clamp',
+    label: 'Clamp',
+    paramsSchema: numberParamsSchema(['value', 'min', 'max']),
+    defaultParams: { value: 0, min: 0, max: 1, unit: DEFAULT_UNIT },
+    inputs: [numberInput('value', 'Value'), numberInput('min', 'Min'), numberInput('max', 'Max')],
+    outputs: [numberPort('result', 'Result')],
+    unitParamPortIds: ['value', 'min', 'max', 'result'],
+    compute: (ctx) => {
+      const min = readNumber(ctx, 'min')
+      const max = readNumber(ctx, 'max')
+      if (min > max) {
+        throw new Error(`Clamp min (${String(min)}) is greater than max (${String(max)}).`)
+      }
+      return { result: Math.min(Math.max(readNumber(ctx, 'value'), min), max) }
+    },
+  },
+  'Math/Remap': {
+    type: 'Math/Remap',
+    label: 'Remap',
+    paramsSchema: numberParamsSchema(['value', 'inMin', 'inMax', 'outMin', 'outMax']),
+    defaultParams: { value: 0, inMin: 0, inMax: 1, outMin: 0, outMax: 1, unit: DEFAULT_UNIT },
+    inputs: [
+      numberInput('value', 'Value'),
+      numberInput('inMin', 'In Min'),
+      numberInput('inMax', 'In Max'),
+      numberInput('outMin', 'Out Min'),
+      numberInput('outMax', 'Out Max'),
+    ],
+    outputs: [numberPort('result', 'Result')],
+    unitParamPortIds: ['value', 'inMin', 'inMax', 'outMin', 'outMax', 'result'],
+    // Linear and unclamped; chain a Clamp to limit the result.
+    compute: (ctx) => {
+      const inMin = readNumber(ctx, 'inMin')
+      const inMax = readNumber(ctx, 'inMax')
+      if (inMin === inMax) {
+        throw new Error('Remap input range is empty.')
+      }
+      const outMin = readNumber(ctx, 'outMin')
+      const outMax = readNumber(ctx, 'outMax')
+      const t = (readNumber(ctx, 'value') - inMin) / (inMax - inMin)
+      return { result: outMin + t * (outMax - outMin) }
+    },
+  },
+  'Math/Compare': {
+    type: 'Math/Compare',
+    label: 'Compare',
+    paramsSchema: numberParamsSchema(['a', 'b'], {
+      operator: z.enum(COMPARE_OPERATORS).default('<'),
+    }),
+    defaultParams: { a: 0, b: 0, operator: '<', unit: DEFAULT_UNIT },
+    inputs: [numberInput('a', 'A'), numberInput('b', 'B')],
+    outputs: [{ portId: 'result', label: 'Result', type: { kind: 'boolean' } }],
+    unitParamPortIds: ['a', 'b'],
+    compute: (ctx) => {
+      const operator = COMPARE_OPERATORS.find((candidate) => candidate === ctx.params.operator)
+      if (operator === undefined) {
+        throw new Error(`Unknown compare operator "${String(ctx.params.operator)}".`)
+      }
+      return { result: compare(operator, readNumber(ctx, 'a'), readNumber(ctx, 'b')) }
+    },
+  },
+  'Math/Select': {
+    type: 'Math/Select',
+    label: 'Select',
+    paramsSchema: numberParamsSchema(['whenTrue', 'whenFalse'], {
+      condition: z.boolean().default(false),
+    }),
+    defaultParams: { condition: false, whenTrue: 0, whenFalse: 0, unit: DEFAULT_UNIT },
+    inputs: [
+      { portId: 'condition', label: 'Condition', type: { kind: 'boolean' }, optional: true },
+      numberInput('whenTrue', 'If True'),
+      numberInput('whenFalse', 'If False'),
+    ],
+    outputs: [numberPort('result', 'Result')],
+    unitParamPortIds: ['whenTrue', 'whenFalse', 'result'],
+    compute: (ctx) => {
+      const wired = ctx.inputs.condition
+      const condition = typeof wired === 'boolean' ? wired : ctx.params.condition === true
+      return { result: readNumber(ctx, condition ? 'whenTrue' : 'whenFalse') }
+    },
+  },
+  'Vec2/Compose': {
+    type: 'Vec2/Compose',
+    label: 'Compose Vec2',
+    paramsSchema: numberParamsSchema(['x', 'y']),
+    defaultParams: { x: 0, y: 0, unit: DEFAULT_UNIT },
+    inputs: [numberInput('x', 'X'), numberInput('y', 'Y')],
+    outputs: [vec2Port('vector', 'Vector')],
+    unitParamPortIds: ['x', 'y', 'vector'],
+    compute: (ctx) => ({
+      vector: { x: readNumber(ctx, 'x'), y: readNumber(ctx, 'y') },
+    }),
+  },
+  'Vec2/Decompose': {
+    type: 'Vec2/Decompose',
+    label: 'Decompose Vec2',
+    paramsSchema: numberParamsSchema([], { vector: vec2ParamSchema.optional() }),
+    defaultParams: { vector: { x: 0, y: 0 }, unit: DEFAULT_UNIT },
+    inputs: [vec2Port('vector', 'Vector')],
+    outputs: [numberPort('x', 'X'), numberPort('y', 'Y')],
+    unitParamPortIds: ['vector', 'x', 'y'],
+    compute: (ctx) => readVec2(ctx, 'vector'),
+  },
+  'Vec2/Add': {
+    type: 'Vec2/Add',
+    label: 'Add Vec2',
+    paramsSchema: numberParamsSchema([], {
+      a: vec2ParamSchema.optional(),
+      b: vec2ParamSchema.optional(),
+    }),
+    defaultParams: { a: { x: 0, y: 0 }, b: { x: 0, y: 0 }, unit: DEFAULT_UNIT },
+    inputs: [vec2Port('a', 'A'), vec2Port('b', 'B')],
+    outputs: [vec2Port('result', 'Result')],
+    unitParamPortIds: ['a', 'b', 'result'],
+    compute: (ctx) => {
+      const a = readVec2(ctx, 'a')
+      const b = readVec2(ctx, 'b')
+      return { result: { x: a.x + b.x, y: a.y + b.y } }
+    },
+  },
+  'Vec2/Scale': {
+    type: 'Vec2/Scale',
+    label: 'Scale Vec2',
+    paramsSchema: numberParamsSchema(['factor'], { vector: vec2ParamSchema.optional() }),
+    defaultParams: { vector: { x: 0, y: 0 }, factor: 1, unit: DEFAULT_UNIT },
+    inputs: [vec2Port('vector', 'Vector'), numberInput('factor', 'Factor', 'unitless')],
+    outputs: [vec2Port('result', 'Result')],
+    unitParamPortIds: ['vector', 'result'],
+    compute: (ctx) => {
+      const vector = readVec2(ctx, 'vector')
+      const factor = readNumber(ctx, 'factor')
+      return { result: { x: vector.x * factor, y: vector.y * factor } }
+    },
+  },
+}
@@ -1,10 +1,12 @@
 import { z } from 'zod'
 import { featureStackSchema } from '../features/featureSchema'
+import { mathNodeDefinitions, type MathNodeTypeId } from './mathNodes'
 import {
   cloneOutputPreviewDefaultParams,
   OUTPUT_PREVIEW_NODE_TYPE,
 } from '../system/outputPreviewNode'
 import type { PortSpec, Unit } from '../schema/spaghettiTypes'
+import { UNITS } from '../types/units'
 
 export type NodeTypeId =
   | 'Part/Baseplate'
@@ -19,6 +21,7 @@ export type NodeTypeId =
   | 'Primitive/SplineFromPoints'
   | 'Utility/IdentitySpline2'
   | 'Utility/IdentityNumberMm'
+  | MathNodeTypeId
 
 export type NodeComputeContext = {
   nodeId: string
@@ -128,11 +131,13 @@ export type NodeDefinition = {
   inputDrivers?: NodeInputDriverSpec[]
   outputDrivers?: NodeOutputDriverSpec[]
   legacyInputPortAliases?: Record<string, string>
+  // Declared ports whose unit follows the node's `unit` param instead of the declared unit.
+  unitParamPortIds?: string[]
   uiSections?: NodeUiSection[]
   presetOptions?: string[]
 }
 
-const unitSchema = z.enum(['mm', 'deg', 'unitless'])
+const unitSchema = z.enum(UNITS)
 const emptyParamsSchema = z.object({}).strict()
 const outputPreviewParamsSchema = z
   .object({
@@ -1043,6 +1048,7 @@ export const registry: Record<NodeTypeId, NodeDefinition> = {
         type: { kind: 'number', unit: 'unitless' },
       },
     ],
+    unitParamPortIds: ['value'],
     compute: ({ params }) => ({
       value: params.value,
     }),
@@ -1070,6 +1076,7 @@ export const registry: Record<NodeTypeId, NodeDefinition> = {
         type: { kind: 'vec2', unit: 'unitless' },
       },
     ],
+    unitParamPortIds: ['value'],
     compute: ({ params }) => ({
       value: {
         x: params.x,
@@ -1163,6 +1170,7 @@ export const registry: Record<NodeTypeId, NodeDefinition> = {
       out: inputs.in,
     }),
   },
+  ...mathNodeDefinitions,
 }
 
 export const getNodeDef = (type: string): NodeDefinition | undefined =>
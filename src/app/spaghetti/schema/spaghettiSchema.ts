@@ -1,7 +1,8 @@
 import { z } from 'zod'
 import type { SpaghettiGraph } from './spaghettiTypes'
+import { UNITS } from '../types/units'
 
-const unitSchema = z.enum(['mm', 'deg', 'unitless'])
+const unitSchema = z.enum(UNITS)
 
 const portTypeSchema = z
   .object({
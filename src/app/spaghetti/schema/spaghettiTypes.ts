@@ -12,7 +12,7 @@ export type PortKind =
   | 'railMath'
   | 'toeLoft'
 
-export type Unit = 'mm' | 'deg' | 'unitless'
+export type Unit = 'mm' | 'in' | 'deg' | 'unitless'
 
 export type PortType = {
   kind: PortKind
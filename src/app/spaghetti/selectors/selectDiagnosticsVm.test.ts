@@ -227,4 +227,41 @@ describe('selectDiagnosticsVm', () => {
       slotStatus: vm.slotStatus,
     }).toMatchSnapshot()
   })
+  it('attaches worker runtime diagnostics to the owning part node', () => {
+    const runtimeDiagnostics = [
+      {
+        partKey: 'baseplate',
+        featureId: 'feature-extrude',
+        reason: 'missing_profile',
+        message: 'Extrude skipped because profileId "p1" is unavailable.',
+      },
+      {
+        partKey: 'cube#2',
+        featureId: 'feature-boolean',
+        reason: 'boolean_failure',
+        message: 'Boolean skipped: empty tool.',
+      },
+    ]
+    const vm = selectDiagnosticsVm({
+      graph,
+      runtimeDiagnostics,
+      partKeyByNodeId: { 'node-c': 'baseplate', 'node-a': 'toeHook#1' },
+    })
+
+    expect(vm.nodeDiagnostics['node-c']).toEqual([
+      {
+        level: 'warn',
+        code: 'RUNTIME_MISSING_PROFILE',
+        message:
+          'Feature "feature-extrude" of part "baseplate": Extrude skipped because profileId "p1" is unavailable.',
+        nodeId: 'node-c',
+      },
+    ])
+    expect(vm.nodeDiagnostics['node-a']).toBeUndefined()
+    expect(vm.all.map((diagnostic) => [diagnostic.code, diagnostic.nodeId])).toEqual([
+      ['RUNTIME_BOOLEAN_FAILURE', undefined],
+      ['RUNTIME_MISSING_PROFILE', 'node-c'],
+    ])
+    expect(vm.edgeStatusById['edge-ok']).toEqual({ kind: 'ok' })
+  })
 })
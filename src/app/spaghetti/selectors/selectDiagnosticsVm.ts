@@ -1,5 +1,7 @@
+import type { RuntimeDiagnostic } from '../../../shared/buildTypes'
 import type { EvaluationResult } from '../compiler/evaluateGraph'
 import type { GraphValidationResult, SpaghettiDiagnostic } from '../compiler/validateGraph'
+import { toRuntimeDiagnosticCode } from '../features/diagnostics'
 import type { SpaghettiGraph } from '../schema/spaghettiTypes'
 import { OUTPUT_PREVIEW_NODE_TYPE } from '../system/outputPreviewNode'
 
@@ -56,7 +58,10 @@ const EDGE_MISSING_PORT_CODES = new Set([
   'EDGE_TO_PATH_NOT_LEAF',
 ])
 
-const EDGE_TYPE_MISMATCH_CODES = new Set(['EDGE_TYPE_MISMATCH'])
+const EDGE_TYPE_MISMATCH_CODES = new Set(['EDGE_TYPE_MISMATCH', 'EDGE_UNIT_MISMATCH'])
+
+// Wire warnings leave the edge status `ok` and surface as an inline marker instead.
+const EDGE_WARNING_CODES = new Set(['EDGE_UNIT_ASSUMED'])
 
 const EDGE_UNRESOLVED_CODES = new Set([
   'INPUT_SOURCE_VALUE_MISSING',
@@ -110,6 +115,9 @@ const toReasonForDiagnostic = (
     }
     return { reason: 'missingPort', blame: 'both' }
   }
+  if (EDGE_WARNING_CODES.has(diagnostic.code)) {
+    return { reason: null }
+  }
   if (EDGE_TYPE_MISMATCH_CODES.has(diagnostic.code)) {
     return {
       reason: 'typeMismatch',
@@ -129,6 +137,7 @@ const toReasonForDiagnostic = (
 }
 
 type EdgeStatusAccumulator = {
+  warning?: string
   reasons: Set<EdgeDiagnosticReason>
   messageByReason: Map<EdgeDiagnosticReason, string>
   blameByReason: Map<EdgeDiagnosticReason, 'from' | 'to' | 'both'>
@@ -176,6 +185,7 @@ export type EdgeStatusByIdEntry = {
   message?: string
   blame?: 'from' | 'to' | 'both'
   reasons?: EdgeDiagnosticReason[]
+  warning?: string
 }
 
 export type DiagnosticsVmItem = SpaghettiDiagnostic & {
@@ -196,6 +206,27 @@ type SelectDiagnosticsParams = {
   graph?: SpaghettiGraph
   validation?: GraphValidationResult
   evaluation?: EvaluationResult
+  // Worker feature-stack diagnostics from the last build, attached to the owning part node.
+  runtimeDiagnostics?: readonly RuntimeDiagnostic[]
+  partKeyByNodeId?: Readonly<Record<string, string>>
+}
+
+const toRuntimeGraphDiagnostics = (
+  runtimeDiagnostics: readonly RuntimeDiagnostic[],
+  partKeyByNodeId: Readonly<Record<string, string>>,
+): SpaghettiDiagnostic[] => {
+  const nodeIdByPartKey = new Map(
+    Object.entries(partKeyByNodeId).map(([nodeId, partKey]) => [partKey, nodeId]),
+  )
+  return runtimeDiagnostics.map((diagnostic) => {
+    const nodeId = nodeIdByPartKey.get(diagnostic.partKey)
+    return {
+      level: 'warn',
+      code: toRuntimeDiagnosticCode(diagnostic.reason),
+      message: `Feature "${diagnostic.featureId}" of part "${diagnostic.partKey}": ${diagnostic.message}`,
+      ...(nodeId === undefined ? {} : { nodeId }),
+    }
+  })
 }
 
 const toDiagnosticId = (diagnostic: SpaghettiDiagnostic): string =>
@@ -213,6 +244,7 @@ const buildDiagnosticsVm = (params: SelectDiagnosticsParams): DiagnosticsVm => {
     ...(params.validation?.warnings ?? []),
     ...(params.evaluation?.diagnostics.errors ?? []),
     ...(params.evaluation?.diagnostics.warnings ?? []),
+    ...toRuntimeGraphDiagnostics(params.runtimeDiagnostics ?? [], params.partKeyByNodeId ?? {}),
   ])
   const items: DiagnosticsVmItem[] = merged.map((diagnostic) => ({
     ...diagnostic,
@@ -259,6 +291,13 @@ const buildDiagnosticsVm = (params: SelectDiagnosticsParams): DiagnosticsVm => {
       parsed.forEach((nodeId) => cycleNodeIds.add(nodeId))
     }
 
+    if (diagnostic.edgeId !== undefined && EDGE_WARNING_CODES.has(diagnostic.code)) {
+      const accumulator = edgeStatusAccumById.get(diagnostic.edgeId)
+      if (accumulator !== undefined && accumulator.warning === undefined) {
+        accumulator.warning = diagnostic.message
+      }
+    }
+
     const { reason, blame } = toReasonForDiagnostic(diagnostic)
     if (reason === null || diagnostic.edgeId === undefined) {
       continue
@@ -306,8 +345,9 @@ const buildDiagnosticsVm = (params: SelectDiagnosticsParams): DiagnosticsVm => {
       const accumulator = edgeStatusAccumById.get(edge.edgeId) ?? createEdgeStatusAccumulator()
       const winningReason = toWinningReason(accumulator.reasons)
       const reasons = toSortedReasonList(accumulator.reasons)
+      const warning = accumulator.warning === undefined ? {} : { warning: accumulator.warning }
       if (winningReason === null) {
-        edgeStatusById[edge.edgeId] = { kind: 'ok' }
+        edgeStatusById[edge.edgeId] = { kind: 'ok', ...warning }
         continue
       }
       edgeStatusById[edge.edgeId] = {
@@ -315,6 +355,7 @@ const buildDiagnosticsVm = (params: SelectDiagnosticsParams): DiagnosticsVm => {
         message: accumulator.messageByReason.get(winningReason),
         blame: accumulator.blameByReason.get(winningReason),
         reasons,
+        ...warning,
       }
     }
   }
@@ -389,6 +430,8 @@ const buildDiagnosticsVm = (params: SelectDiagnosticsParams): DiagnosticsVm => {
 let lastGraph: SpaghettiGraph | undefined
 let lastValidation: GraphValidationResult | undefined
 let lastEvaluation: EvaluationResult | undefined
+let lastRuntimeDiagnostics: readonly RuntimeDiagnostic[] | undefined
+let lastPartKeyByNodeId: Readonly<Record<string, string>> | undefined
 let lastDiagnosticsVm: DiagnosticsVm | undefined
 
 export const selectDiagnosticsVm = (params: SelectDiagnosticsParams): DiagnosticsVm => {
@@ -396,7 +439,9 @@ export const selectDiagnosticsVm = (params: SelectDiagnosticsParams): Diagnostic
     lastDiagnosticsVm !== undefined &&
     lastGraph === params.graph &&
     lastValidation === params.validation &&
-    lastEvaluation === params.evaluation
+    lastEvaluation === params.evaluation &&
+    lastRuntimeDiagnostics === params.runtimeDiagnostics &&
+    lastPartKeyByNodeId === params.partKeyByNodeId
   ) {
     return lastDiagnosticsVm
   }
@@ -404,6 +449,8 @@ export const selectDiagnosticsVm = (params: SelectDiagnosticsParams): Diagnostic
   lastGraph = params.graph
   lastValidation = params.validation
   lastEvaluation = params.evaluation
+  lastRuntimeDiagnostics = params.runtimeDiagnostics
+  lastPartKeyByNodeId = params.partKeyByNodeId
   lastDiagnosticsVm = next
   return next
 }
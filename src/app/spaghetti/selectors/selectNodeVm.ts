@@ -1,7 +1,12 @@
 import type { EvaluationResult } from '../compiler/evaluateGraph'
 import {
+  listDeclaredInputPorts,
+  listDeclaredOutputPorts,
   listEffectiveInputPorts,
 } from '../features/effectivePorts'
+import { isRuntimeDiagnosticCode } from '../features/diagnostics'
+import { buildNodeExpressionScope } from '../features/driverVirtualPorts'
+import type { ExpressionScope } from '../features/expressions'
 import { readFeatureStack } from '../features/featureSchema'
 import {
   analyzeFeatureDependencyGraph,
@@ -10,8 +15,9 @@ import {
 } from '../features/featureDependencies'
 import { isFeatureVirtualInputPortId } from '../features/featureVirtualPorts'
 import { getNodeDef, type NodeUiSection } from '../registry/nodeRegistry'
-import type { PortSpec, SpaghettiGraph, SpaghettiNode } from '../schema/spaghettiTypes'
+import type { PortSpec, SpaghettiGraph, SpaghettiNode, Unit } from '../schema/spaghettiTypes'
 import { OUTPUT_PREVIEW_NODE_TYPE } from '../system/outputPreviewNode'
+import { isUnit } from '../types/units'
 import type { PortDetailLine } from '../canvas/PortView'
 import {
   type DriverControlRowVm,
@@ -305,6 +311,12 @@ export type NodeVm = {
     }
   >
   primitiveNumberValue: number
+  // Formula scope for the feature stack, with wire-driven params resolved.
+  expressionScope: ExpressionScope
+  // Set for nodes whose port units follow their `unit` param.
+  unitValue?: Unit
+  // Feature-stack warnings from the last worker build of this part node; absent when none.
+  runtimeWarnings?: string[]
   driverVm: ReturnType<typeof selectDriverVm>['driverVm']
   driverGroups: DriverSectionGroupVm[]
   driverRowIndexById: Record<string, number>
@@ -344,8 +356,8 @@ const buildNodeVm = (
 
   for (const node of orderedNodes) {
     const nodeDef = getNodeDef(node.type)
-    const nodeInputs = nodeDef?.inputs ?? []
-    const nodeOutputs = nodeDef?.outputs ?? []
+    const nodeInputs = listDeclaredInputPorts(node, nodeDef)
+    const nodeOutputs = listDeclaredOutputPorts(node, nodeDef)
     const effectiveInputPorts = listEffectiveInputPorts(node, nodeDef)
     const incoming = sortedEdges.filter((edge) => edge.to.nodeId === node.nodeId)
     const outgoing = sortedEdges.filter((edge) => edge.from.nodeId === node.nodeId)
@@ -594,6 +606,10 @@ const buildNodeVm = (
           })
         : undefined
 
+    const runtimeWarnings = (resolvedDiagnosticsVm.nodeDiagnostics[node.nodeId] ?? [])
+      .filter((diagnostic) => isRuntimeDiagnosticCode(diagnostic.code))
+      .map((diagnostic) => diagnostic.message)
+
     const nodeVm: NodeVm = {
       nodeId: node.nodeId,
       title: nodeDef?.label ?? node.type,
@@ -615,10 +631,19 @@ const buildNodeVm = (
         vec2DisplayByPortId,
       },
       featureVirtualInputStateByPortId,
+      expressionScope: buildNodeExpressionScope(
+        node,
+        evaluation.inputsByNodeId[node.nodeId],
+        nodeDef,
+      ),
       primitiveNumberValue:
         node.type === 'Primitive/Number' && typeof node.params.value === 'number'
           ? node.params.value
           : 0,
+      ...(nodeDef?.unitParamPortIds === undefined
+        ? {}
+        : { unitValue: isUnit(node.params.unit) ? node.params.unit : 'unitless' }),
+      ...(runtimeWarnings.length === 0 ? {} : { runtimeWarnings }),
       driverVm: orderedDriverVm,
       driverGroups,
       driverRowIndexById,
@@ -156,6 +156,20 @@ describe('selectPreviewRenderVm', () => {
     expect(vm.viewerParts).toHaveLength(1)
   })
 
+  it('passes mesh artifacts through to viewer parts with their render kind', () => {
+    const meshCubeArtifact: PartArtifact = {
+      ...cubeArtifact,
+      kind: 'mesh',
+      mesh: {
+        positions: new Float32Array([0, 0, 0, 20, 0, 0, 0, 20, 0]),
+        indices: new Uint32Array([0, 1, 2]),
+      },
+    }
+    const vm = selectPreviewRenderVm(cubeGraph, [meshCubeArtifact])
+    expect(vm.items[0]?.renderKind).toBe('mesh')
+    expect(vm.viewerParts[0]?.artifact).toBe(meshCubeArtifact)
+  })
+
   it('keeps the cube slot out of viewerParts when the artifact is missing', () => {
     const vm = selectPreviewRenderVm(cubeGraph, [])
     expect(vm.items).toHaveLength(1)
@@ -15,6 +15,7 @@ export type PreviewRenderVmItem = PreviewRenderEntry & {
   id: string
   nodeId: string
   isReady: boolean
+  renderKind: PartArtifact['kind'] | null
   viewerKey: string
   viewerPart: ViewerRenderablePart | null
 }
@@ -41,6 +42,7 @@ const buildPreviewRenderVm = (
       id: `preview:${entry.slotId}:${entry.sourceNodeId}:${entry.sourcePartKeyStr}`,
       nodeId: entry.sourceNodeId,
       isReady: entry.renderable !== null,
+      renderKind: entry.renderable?.kind ?? null,
       // Preview identity stays slot-scoped even when the underlying artifact identity is part-scoped.
       viewerKey: entry.slotId,
       viewerPart:
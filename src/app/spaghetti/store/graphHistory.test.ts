@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import type { SpaghettiGraph } from '../schema/spaghettiTypes'
+import {
+  GRAPH_HISTORY_COALESCE_MS,
+  GRAPH_HISTORY_LIMIT,
+  createGraphHistory,
+  describeGraphChange,
+  recordGraphChange,
+  redoGraphHistory,
+  undoGraphHistory,
+} from './graphHistory'
+
+const graphWith = (widthMm: number, x = 0): SpaghettiGraph => ({
+  schemaVersion: 1,
+  nodes: [{ nodeId: 'node-a', type: 'Part/Baseplate', params: { widthMm } }],
+  edges: [],
+  ui: { nodes: { 'node-a': { x, y: 0 } } },
+})
+
+describe('describeGraphChange', () => {
+  it('classifies structural, param and move edits', () => {
+    const base = graphWith(10)
+    expect(describeGraphChange(base, graphWith(10))).toBeNull()
+    expect(describeGraphChange(base, graphWith(12))).toEqual({
+      label: 'Edit Part/Baseplate',
+      coalesceKey: 'params:node-a:widthMm',
+    })
+    expect(describeGraphChange(base, graphWith(10, 40))).toEqual({
+      label: 'Move node',
+      coalesceKey: 'move:node-a',
+    })
+    expect(
+      describeGraphChange(base, {
+        ...base,
+        nodes: [...base.nodes, { nodeId: 'node-b', type: 'Part/ToeHook', params: {} }],
+      }),
+    ).toEqual({ label: 'Add node', coalesceKey: null })
+  })
+})
+
+describe('graph history', () => {
+  it('coalesces repeated edits of the same kind inside the window', () => {
+    let history = createGraphHistory()
+    history = recordGraphChange(history, graphWith(10), graphWith(11), 0)
+    history = recordGraphChange(history, graphWith(11), graphWith(12), GRAPH_HISTORY_COALESCE_MS)
+    expect(history.undoStack).toHaveLength(1)
+    expect(history.undoStack[0].graph.nodes[0].params.widthMm).toBe(10)
+
+    history = recordGraphChange(history, graphWith(12), graphWith(13), GRAPH_HISTORY_COALESCE_MS * 3)
+    history = recordGraphChange(history, graphWith(13), graphWith(13, 5), GRAPH_HISTORY_COALESCE_MS * 3)
+    expect(history.undoStack.map((entry) => entry.label)).toEqual([
+      'Edit Part/Baseplate',
+      'Edit Part/Baseplate',
+      'Move node',
+    ])
+  })
+
+  it('walks back and forward and drops redo on a new edit', () => {
+    let history = recordGraphChange(createGraphHistory(), graphWith(10), graphWith(20), 0)
+    const undone = undoGraphHistory(history, graphWith(20))
+    expect(undone?.graph.nodes[0].params.widthMm).toBe(10)
+    history = undone!.history
+    expect(history.redoStack).toHaveLength(1)
+
+    const redone = redoGraphHistory(history, graphWith(10))
+    expect(redone?.graph.nodes[0].params.widthMm).toBe(20)
+    expect(redoGraphHistory(redone!.history, graphWith(20))).toBeNull()
+
+    history = recordGraphChange(history, graphWith(10), graphWith(30), 0)
+    expect(history.redoStack).toEqual([])
+    expect(undoGraphHistory(createGraphHistory(), graphWith(10))).toBeNull()
+  })
+
+  it('keeps at most GRAPH_HISTORY_LIMIT entries', () => {
+    let history = createGraphHistory()
+    for (let index = 0; index < GRAPH_HISTORY_LIMIT + 5; index += 1) {
+      history = recordGraphChange(history, graphWith(index), graphWith(index + 1), index * 10_000)
+    }
+    expect(history.undoStack).toHaveLength(GRAPH_HISTORY_LIMIT)
+    expect(history.undoStack[0].graph.nodes[0].params.widthMm).toBe(5)
+  })
+})
@@ -0,0 +1,206 @@
+import type { SpaghettiGraph, SpaghettiNode } from '../schema/spaghettiTypes'
+
+// Undo/redo snapshots of the committed graph. Graphs are immutable, so an entry is just a
+// reference to the graph as it was; selection, hover and drag state live outside the graph and
+// are never recorded.
+export const GRAPH_HISTORY_LIMIT = 100
+
+// Changes with the same coalesce key that arrive within this window (measured from the previous
+// change) fold into one entry, so a node drag or a slider drag undoes in a single step.
+export const GRAPH_HISTORY_COALESCE_MS = 750
+
+export type GraphHistoryEntry = {
+  graph: SpaghettiGraph
+  label: string
+}
+
+export type GraphHistory = {
+  undoStack: GraphHistoryEntry[]
+  redoStack: GraphHistoryEntry[]
+  lastChange: { key: string; at: number } | null
+}
+
+export type GraphChange = {
+  label: string
+  // null for structural edits, which never coalesce.
+  coalesceKey: string | null
+}
+
+export const createGraphHistory = (): GraphHistory => ({
+  undoStack: [],
+  redoStack: [],
+  lastChange: null,
+})
+
+const sameJson = (a: unknown, b: unknown): boolean =>
+  a === b || JSON.stringify(a) === JSON.stringify(b)
+
+const plural = (count: number, noun: string): string =>
+  count === 1 ? noun : `${noun}s`
+
+// Feature rows keep their collapsed state in `uiState` inside node params; it is view state, so
+// it is left out of the diff and collapsing a row never becomes an undo entry.
+const undoableParams = (node: SpaghettiNode): SpaghettiNode['params'] => {
+  const featureStack = node.params.featureStack
+  if (!Array.isArray(featureStack)) {
+    return node.params
+  }
+  return {
+    ...node.params,
+    featureStack: featureStack.map((feature: unknown) =>
+      typeof feature === 'object' && feature !== null && 'uiState' in feature
+        ? { ...feature, uiState: undefined }
+        : feature,
+    ),
+  }
+}
+
+const changedParamKeys = (prev: SpaghettiNode, next: SpaghettiNode): string[] => {
+  const prevParams = undoableParams(prev)
+  const nextParams = undoableParams(next)
+  return [...new Set([...Object.keys(prevParams), ...Object.keys(nextParams)])]
+    .filter((key) => !sameJson(prevParams[key], nextParams[key]))
+    .sort()
+}
+
+// Classifies the edit between two committed graphs; null when nothing undoable changed.
+export const describeGraphChange = (
+  prev: SpaghettiGraph,
+  next: SpaghettiGraph,
+): GraphChange | null => {
+  if (prev === next) {
+    return null
+  }
+
+  const prevNodes = new Map(prev.nodes.map((node) => [node.nodeId, node]))
+  const nextNodes = new Map(next.nodes.map((node) => [node.nodeId, node]))
+  const addedNodes = next.nodes.filter((node) => !prevNodes.has(node.nodeId))
+  const removedNodes = prev.nodes.filter((node) => !nextNodes.has(node.nodeId))
+  if (addedNodes.length > 0 && removedNodes.length === 0) {
+    return { label: `Add ${plural(addedNodes.length, 'node')}`, coalesceKey: null }
+  }
+  if (removedNodes.length > 0 && addedNodes.length === 0) {
+    return { label: `Remove ${plural(removedNodes.length, 'node')}`, coalesceKey: null }
+  }
+  if (addedNodes.length > 0) {
+    return { label: 'Replace nodes', coalesceKey: null }
+  }
+
+  const prevEdgeIds = new Set(prev.edges.map((edge) => edge.edgeId))
+  const nextEdgeIds = new Set(next.edges.map((edge) => edge.edgeId))
+  const addedEdges = next.edges.filter((edge) => !prevEdgeIds.has(edge.edgeId)).length
+  const removedEdges = prev.edges.filter((edge) => !nextEdgeIds.has(edge.edgeId)).length
+  if (addedEdges > 0 || removedEdges > 0) {
+    return {
+      label: addedEdges > 0 && removedEdges > 0 ? 'Rewire' : addedEdges > 0 ? 'Connect' : 'Disconnect',
+      coalesceKey: null,
+    }
+  }
+
+  const changedNodes = next.nodes.filter((node) => {
+    const before = prevNodes.get(node.nodeId)
+    return (
+      before !== node &&
+      (before?.type !== node.type ||
+        !sameJson(undoableParams(before), undoableParams(node)) ||
+        !sameJson(before.partSlots, node.partSlots))
+    )
+  })
+  if (changedNodes.length === 1) {
+    const [node] = changedNodes
+    const before = prevNodes.get(node.nodeId) as SpaghettiNode
+    return {
+      label: `Edit ${node.type}`,
+      coalesceKey: `params:${node.nodeId}:${changedParamKeys(before, node).join(',')}`,
+    }
+  }
+  if (changedNodes.length > 1) {
+    return { label: 'Edit nodes', coalesceKey: null }
+  }
+  if (!sameJson(prev.edges, next.edges)) {
+    return { label: 'Edit wires', coalesceKey: null }
+  }
+
+  const prevPos = prev.ui?.nodes ?? {}
+  const nextPos = next.ui?.nodes ?? {}
+  const movedNodeIds = Object.keys(nextPos)
+    .filter((nodeId) => !sameJson(prevPos[nodeId], nextPos[nodeId]))
+    .sort()
+  if (movedNodeIds.length > 0) {
+    return {
+      label: `Move ${plural(movedNodeIds.length, 'node')}`,
+      coalesceKey: `move:${movedNodeIds.join(',')}`,
+    }
+  }
+  return null
+}
+
+// Records `prev` as the undo point for the edit that produced `next`.
+export const recordGraphChange = (
+  history: GraphHistory,
+  prev: SpaghettiGraph,
+  next: SpaghettiGraph,
+  now: number,
+): GraphHistory => {
+  const change = describeGraphChange(prev, next)
+  if (change === null) {
+    return history
+  }
+  const last = history.lastChange
+  if (
+    change.coalesceKey !== null &&
+    last !== null &&
+    last.key === change.coalesceKey &&
+    now - last.at <= GRAPH_HISTORY_COALESCE_MS &&
+    history.undoStack.length > 0
+  ) {
+    return {
+      ...history,
+      redoStack: [],
+      lastChange: { key: change.coalesceKey, at: now },
+    }
+  }
+  return {
+    undoStack: [...history.undoStack, { graph: prev, label: change.label }].slice(
+      -GRAPH_HISTORY_LIMIT,
+    ),
+    redoStack: [],
+    lastChange: change.coalesceKey === null ? null : { key: change.coalesceKey, at: now },
+  }
+}
+
+export const undoGraphHistory = (
+  history: GraphHistory,
+  current: SpaghettiGraph,
+): { history: GraphHistory; graph: SpaghettiGraph } | null => {
+  const entry = history.undoStack[history.undoStack.length - 1]
+  if (entry === undefined) {
+    return null
+  }
+  return {
+    graph: entry.graph,
+    history: {
+      undoStack: history.undoStack.slice(0, -1),
+      redoStack: [...history.redoStack, { graph: current, label: entry.label }],
+      lastChange: null,
+    },
+  }
+}
+
+export const redoGraphHistory = (
+  history: GraphHistory,
+  current: SpaghettiGraph,
+): { history: GraphHistory; graph: SpaghettiGraph } | null => {
+  const entry = history.redoStack[history.redoStack.length - 1]
+  if (entry === undefined) {
+    return null
+  }
+  return {
+    graph: entry.graph,
+    history: {
+      undoStack: [...history.undoStack, { graph: current, label: entry.label }],
+      redoStack: history.redoStack.slice(0, -1),
+      lastChange: null,
+    },
+  }
+}
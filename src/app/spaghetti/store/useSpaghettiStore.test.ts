@@ -629,3 +629,79 @@ describe('useSpaghettiStore feature stack editing semantics', () => {
     expect((baseplate?.params.featureStack as Array<{ enabled?: boolean }>)[0]?.enabled).toBe(true)
   })
 })
+
+describe('useSpaghettiStore undo/redo', () => {
+  afterEach(() => {
+    useSpaghettiStore.getState().setGraph(emptyGraph)
+  })
+
+  const baseplateGraph: SpaghettiGraph = {
+    schemaVersion: 1,
+    nodes: [{ nodeId: 'node-baseplate-1', type: 'Part/Baseplate', params: {} }],
+    edges: [],
+  }
+
+  it('undoes feature edits and node moves, and ignores UI-only state', () => {
+    const store = useSpaghettiStore.getState()
+    store.setGraph(baseplateGraph)
+    const loaded = useSpaghettiStore.getState().graph
+    expect(useSpaghettiStore.getState().graphHistory.undoStack).toEqual([])
+
+    store.addSketchFeature('node-baseplate-1')
+    store.setHoveredEdgeId('edge-x')
+    store.setSelectedNodeId('node-baseplate-1')
+    store.setNodePos('node-baseplate-1', 10, 10)
+    store.setNodePos('node-baseplate-1', 20, 10)
+    store.setNodePos('node-baseplate-1', 30, 10)
+    expect(
+      useSpaghettiStore.getState().graphHistory.undoStack.map((entry) => entry.label),
+    ).toEqual(['Edit Part/Baseplate', 'Move node'])
+
+    store.undo()
+    expect(useSpaghettiStore.getState().graph.ui?.nodes?.['node-baseplate-1']).toEqual(
+      loaded.ui?.nodes?.['node-baseplate-1'],
+    )
+    store.undo()
+    expect(useSpaghettiStore.getState().graph).toBe(loaded)
+    expect(useSpaghettiStore.getState().selectedNodeId).toBe('node-baseplate-1')
+
+    store.redo()
+    store.redo()
+    expect(useSpaghettiStore.getState().graph.ui?.nodes?.['node-baseplate-1']).toEqual({
+      x: 30,
+      y: 10,
+    })
+    expect(useSpaghettiStore.getState().graphHistory.redoStack).toEqual([])
+  })
+
+  it('does not record collapsing a feature row', () => {
+    const store = useSpaghettiStore.getState()
+    store.setGraph(baseplateGraph)
+    store.addSketchFeature('node-baseplate-1')
+    const featureStack = useSpaghettiStore.getState().graph.nodes[0]?.params.featureStack as Array<{
+      featureId: string
+      uiState: { collapsed: boolean }
+    }>
+    const featureId = featureStack[0]?.featureId ?? ''
+    // A move in between ends the feature edit's coalesce window.
+    store.setNodePos('node-baseplate-1', 10, 10)
+
+    store.toggleFeatureCollapsed('node-baseplate-1', featureId)
+    const collapsedStack = useSpaghettiStore.getState().graph.nodes[0]?.params.featureStack as Array<{
+      uiState: { collapsed: boolean }
+    }>
+    expect(collapsedStack[0]?.uiState.collapsed).toBe(!featureStack[0]?.uiState.collapsed)
+    expect(
+      useSpaghettiStore.getState().graphHistory.undoStack.map((entry) => entry.label),
+    ).toEqual(['Edit Part/Baseplate', 'Move node'])
+  })
+
+  it('clears history when a new graph is loaded', () => {
+    const store = useSpaghettiStore.getState()
+    store.setGraph(baseplateGraph)
+    store.addSketchFeature('node-baseplate-1')
+    store.setGraph(baseplateGraph)
+    expect(useSpaghettiStore.getState().graphHistory.undoStack).toEqual([])
+  })
+})
+
@@ -1,4 +1,5 @@
-import { create } from 'zustand'
+import { create, type StateCreator, type StoreMutatorIdentifier } from 'zustand'
+import type { RuntimeDiagnostic } from '../../../shared/buildTypes'
 import {
   compileSpaghettiGraph,
   computeFeatureStackIrParts,
@@ -7,15 +8,41 @@ import {
 import { evaluateSpaghettiGraph } from '../compiler/evaluateGraph'
 import { pickDefaultProfileRef } from '../features/autoLink'
 import {
+  listAvailableBodyIds,
   moveFeatureInStack,
 } from '../features/featureDependencies'
 import { readFeatureStack } from '../features/featureSchema'
+import {
+  createGraphHistory,
+  recordGraphChange,
+  redoGraphHistory,
+  undoGraphHistory,
+  type GraphHistory,
+} from './graphHistory'
 import { deriveProfilesWithDiagnostics } from '../features/profileDerivation'
-import type { NumberExpression, Vec2Expression } from '../features/expressions'
-import type { FeatureStack, SketchComponent, SketchFeature } from '../features/featureTypes'
+import {
+  resolveVec2Expression,
+  type ExpressionScope,
+  type NumberExpression,
+  type Vec2Expression,
+} from '../features/expressions'
+import type {
+  BodyReference,
+  BooleanOperation,
+  FeatureStack,
+  LoftSection,
+  RevolveAxis,
+  SketchComponent,
+  SketchFeature,
+  SketchPlane,
+  SweepPath,
+} from '../features/featureTypes'
 import { isFeatureEnabled as isFeatureEnabledInStack } from '../features/featureTypes'
 import type { FeatureStackIR } from '../features/compileFeatureStack'
-import { parseDriverVirtualInputPortId } from '../features/driverVirtualPorts'
+import {
+  buildNodeExpressionScope,
+  parseDriverVirtualInputPortId,
+} from '../features/driverVirtualPorts'
 import {
   addEdge as addEdgeCommand,
   removeEdge as removeEdgeCommand,
@@ -60,7 +87,7 @@ type NodePosUpdate = {
   y: number
 }
 
-type EdgeWaypoint = {
+export type EdgeWaypoint = {
   waypointId: string
   x: number
   y: number
@@ -78,7 +105,10 @@ export type SpaghettiStoreState = {
   hoveredEdgeId: string | null
   connectionDrag: ConnectionDragState | null
   uiMessage: CanvasUiMessage | null
-  setGraph: (next: SpaghettiGraph) => void
+  // Feature-stack diagnostics from the latest accepted worker build, keyed by part key.
+  runtimeDiagnostics: RuntimeDiagnostic[]
+  graphHistory: GraphHistory
+  setGraph: (next: SpaghettiGraph, edgeWaypoints?: Record<string, EdgeWaypoint[]>) => void
   applyGraphCommand: (cmd: GraphCommand) => void
   applyGraphPatch: (patchFn: (prev: SpaghettiGraph) => SpaghettiGraph) => void
   setNodePos: (nodeId: string, x: number, y: number) => void
@@ -98,9 +128,14 @@ export type SpaghettiStoreState = {
   clearConnectionDrag: () => void
   setUiMessage: (message: CanvasUiMessage | null) => void
   clearUiMessage: () => void
+  setRuntimeDiagnostics: (diagnostics: RuntimeDiagnostic[]) => void
   addSketchFeature: (nodeId: string) => void
   addCloseProfileFeature: (nodeId: string) => void
   addExtrudeFeature: (nodeId: string) => void
+  addRevolveFeature: (nodeId: string) => void
+  addLoftFeature: (nodeId: string) => void
+  addSweepFeature: (nodeId: string) => void
+  addBooleanFeature: (nodeId: string) => void
   toggleFeatureCollapsed: (nodeId: string, featureId: string) => void
   moveFeatureUp: (nodeId: string, featureId: string) => void
   moveFeatureDown: (nodeId: string, featureId: string) => void
@@ -125,6 +160,7 @@ export type SpaghettiStoreState = {
     featureId: string,
     dimensions: { width?: number; length?: number },
   ) => void
+  setSketchPlane: (nodeId: string, featureId: string, plane: SketchPlane) => void
   setCloseProfileSource: (
     nodeId: string,
     featureId: string,
@@ -147,7 +183,28 @@ export type SpaghettiStoreState = {
     featureId: string,
     ref: { sourceFeatureId: string; profileId: string; profileIndex?: number } | null,
   ) => void
+  setRevolveAngle: (nodeId: string, featureId: string, angle: NumberExpression) => void
+  setRevolveAxis: (nodeId: string, featureId: string, axis: RevolveAxis) => void
+  setRevolveProfileRef: (
+    nodeId: string,
+    featureId: string,
+    ref: { sourceFeatureId: string; profileId: string; profileIndex?: number } | null,
+  ) => void
+  setLoftSections: (nodeId: string, featureId: string, sections: LoftSection[]) => void
+  setSweepProfileRef: (
+    nodeId: string,
+    featureId: string,
+    ref: { sourceFeatureId: string; profileId: string; profileIndex?: number } | null,
+  ) => void
+  setSweepPath: (nodeId: string, featureId: string, path: SweepPath | null) => void
+  setSweepTwist: (nodeId: string, featureId: string, twist: NumberExpression) => void
+  setSweepScale: (nodeId: string, featureId: string, scale: NumberExpression) => void
+  setBooleanOperation: (nodeId: string, featureId: string, operation: BooleanOperation) => void
+  setBooleanTarget: (nodeId: string, featureId: string, targetBodyId: string | null) => void
+  setBooleanTools: (nodeId: string, featureId: string, tools: BodyReference[]) => void
   getPartFeatureStackIrForNode: (nodeId: string) => FeatureStackIR | null
+  undo: () => void
+  redo: () => void
   validate: () => ReturnType<typeof compileSpaghettiGraph>
 }
 
@@ -509,13 +566,38 @@ const setPartFeatureStack = (node: SpaghettiNode, stack: FeatureStack): Spaghett
   },
 })
 
-const recomputeSketchFeature = (feature: SketchFeature): SketchFeature => ({
+const recomputeSketchFeature = (
+  feature: SketchFeature,
+  scope: ExpressionScope = {},
+): SketchFeature => ({
   ...feature,
   outputs: {
-    ...deriveProfilesWithDiagnostics(feature.components),
+    ...deriveProfilesWithDiagnostics(feature.components, scope),
   },
 })
 
+const SKETCH_POINT_KEYS = ['a', 'b', 'p0', 'p1', 'p2', 'p3', 'start', 'mid', 'end'] as const
+
+const hasExpressionPoint = (feature: SketchFeature): boolean =>
+  feature.components.some((component) =>
+    SKETCH_POINT_KEYS.some((key) => {
+      const point = (component as Partial<Record<(typeof SKETCH_POINT_KEYS)[number], Vec2Expression>>)[key]
+      return point?.kind === 'expr'
+    }),
+  )
+
+// Sketches with formula points depend on the Part node params, so their outputs are re-derived
+// against the node scope after every stack edit.
+const recomputeExpressionSketchOutputs = (
+  stack: FeatureStack,
+  scope: ExpressionScope,
+): FeatureStack =>
+  stack.map((feature) =>
+    feature.type === 'sketch' && hasExpressionPoint(feature)
+      ? recomputeSketchFeature(feature, scope)
+      : feature,
+  )
+
 const createSketchFeature = (): SketchFeature => ({
   type: 'sketch',
   featureId: newId('feature'),
@@ -589,8 +671,8 @@ const rewriteCubeSeedRectangleSketch = (
     return feature
   }
 
-  const currentLength = feature.components[0]?.type === 'line' ? feature.components[0].b.x : 0
-  const currentWidth = feature.components[1]?.type === 'line' ? feature.components[1].b.y : 0
+  const currentLength = feature.components[0]?.type === 'line' ? resolveVec2Expression(feature.components[0].b).x : 0
+  const currentWidth = feature.components[1]?.type === 'line' ? resolveVec2Expression(feature.components[1].b).y : 0
   const nextLength =
     typeof dimensions.length === 'number' && Number.isFinite(dimensions.length)
       ? dimensions.length
@@ -720,10 +802,18 @@ const updatePartNodeFeatureStack = (
       return node
     }
     const currentStack = getPartFeatureStack(node)
-    const nextStack = recomputeCloseProfileOutputs(updateFn(currentStack))
-    if (nextStack === currentStack) {
+    const updatedStack = updateFn(currentStack)
+    if (updatedStack === currentStack) {
       return node
     }
+    const evaluation = evaluateSpaghettiGraph(graph)
+    const expressionScope = buildNodeExpressionScope(
+      node,
+      evaluation.ok ? evaluation.inputsByNodeId[node.nodeId] : undefined,
+    )
+    const nextStack = recomputeCloseProfileOutputs(
+      recomputeExpressionSketchOutputs(updatedStack, expressionScope),
+    )
     changed = true
     return setPartFeatureStack(node, nextStack)
   })
@@ -837,7 +927,78 @@ const withGraphAndFeatureStackCache = (
 
 const initialGraph = normalizeGraphForStoreCommit(emptyGraph)
 
-export const useSpaghettiStore = create<SpaghettiStoreState>((set, get) => ({
+// Graph commits from any action become undo entries. Updates that set `graphHistory` themselves
+// (load, undo, redo) are passed through untouched.
+const withGraphHistory = (
+  state: SpaghettiStoreState,
+  update: Partial<SpaghettiStoreState>,
+): Partial<SpaghettiStoreState> => {
+  if (update.graph === undefined || update.graphHistory !== undefined) {
+    return update
+  }
+  return {
+    ...update,
+    graphHistory: recordGraphChange(state.graphHistory, state.graph, update.graph, Date.now()),
+  }
+}
+
+type GraphHistoryMiddleware = <
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+>(
+  initializer: StateCreator<SpaghettiStoreState, Mps, Mcs>,
+) => StateCreator<SpaghettiStoreState, Mps, Mcs>
+
+type StoreUpdate =
+  | SpaghettiStoreState
+  | Partial<SpaghettiStoreState>
+  | ((state: SpaghettiStoreState) => SpaghettiStoreState | Partial<SpaghettiStoreState>)
+
+// Wraps the store's `set` so every action's graph commit is recorded by `withGraphHistory`.
+// `replace` is forwarded; a full-state update stays a full state after recording.
+const graphHistoryMiddlewareImpl =
+  (
+    initializer: StateCreator<SpaghettiStoreState, [], []>,
+  ): StateCreator<SpaghettiStoreState, [], []> =>
+  (set, get, api) => {
+    const recordingSet = (update: StoreUpdate, replace?: boolean): void => {
+      const record = (state: SpaghettiStoreState) =>
+        withGraphHistory(state, typeof update === 'function' ? update(state) : update)
+      if (replace === true) {
+        set((state) => record(state) as SpaghettiStoreState, true)
+        return
+      }
+      set(record)
+    }
+    return initializer(recordingSet as typeof set, get, api)
+  }
+
+const withGraphHistoryMiddleware = graphHistoryMiddlewareImpl as GraphHistoryMiddleware
+
+const restoreHistoryGraph = (
+  state: SpaghettiStoreState,
+  restored: { history: GraphHistory; graph: SpaghettiGraph } | null,
+): Partial<SpaghettiStoreState> => {
+  if (restored === null) {
+    return {}
+  }
+  const { graph } = restored
+  return {
+    ...withGraphAndFeatureStackCache(graph),
+    graphHistory: restored.history,
+    edgeWaypoints: pruneEdgeWaypoints(graph, state.edgeWaypoints),
+    selectedNodeId: graph.nodes.some((node) => node.nodeId === state.selectedNodeId)
+      ? state.selectedNodeId
+      : null,
+    selectedEdgeId: graph.edges.some((edge) => edge.edgeId === state.selectedEdgeId)
+      ? state.selectedEdgeId
+      : null,
+    hoveredEdgeId: null,
+    connectionDrag: null,
+  }
+}
+
+export const useSpaghettiStore = create(withGraphHistoryMiddleware((set, get) => ({
   ...withGraphAndFeatureStackCache(initialGraph),
   edgeWaypoints: {},
   selectedNodeId: null,
@@ -845,15 +1006,18 @@ export const useSpaghettiStore = create<SpaghettiStoreState>((set, get) => ({
   hoveredEdgeId: null,
   connectionDrag: null,
   uiMessage: null,
-  setGraph: (next) => {
+  runtimeDiagnostics: [],
+  graphHistory: createGraphHistory(),
+  setGraph: (next, edgeWaypoints = {}) => {
     const nextGraph = normalizeGraphForStoreCommit(next)
     set({
       ...withGraphAndFeatureStackCache(nextGraph),
+      graphHistory: createGraphHistory(),
       selectedNodeId: null,
       selectedEdgeId: null,
       hoveredEdgeId: null,
       connectionDrag: null,
-      edgeWaypoints: {},
+      edgeWaypoints: pruneEdgeWaypoints(nextGraph, edgeWaypoints),
       uiMessage: null,
     })
   },
@@ -1093,6 +1257,9 @@ export const useSpaghettiStore = create<SpaghettiStoreState>((set, get) => ({
   clearUiMessage: () => {
     set({ uiMessage: null })
   },
+  setRuntimeDiagnostics: (runtimeDiagnostics) => {
+    set({ runtimeDiagnostics })
+  },
   addSketchFeature: (nodeId) => {
     set((state) => {
       const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) => [
@@ -1155,6 +1322,153 @@ export const useSpaghettiStore = create<SpaghettiStoreState>((set, get) => ({
       }
     })
   },
+  addRevolveFeature: (nodeId) => {
+    set((state) => {
+      const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) => {
+        const profileRef = pickDefaultProfileRef(stack, stack.length)
+        return [
+          ...stack,
+          {
+            type: 'revolve',
+            featureId: newId('feature'),
+            inputs: {
+              profileRef,
+              axis: {
+                kind: 'sketchAxis',
+                axis: 'y',
+              },
+            },
+            params: {
+              angle: {
+                kind: 'lit',
+                value: 360,
+              },
+            },
+            outputs: {
+              bodyId: newId('body'),
+            },
+            uiState: {
+              collapsed: false,
+            },
+          },
+        ]
+      })
+      return {
+        ...withGraphAndFeatureStackCache(nextGraph),
+      }
+    })
+  },
+  addLoftFeature: (nodeId) => {
+    set((state) => {
+      const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) => {
+        const profileRef = pickDefaultProfileRef(stack, stack.length)
+        return [
+          ...stack,
+          {
+            type: 'loft',
+            featureId: newId('feature'),
+            inputs: {
+              sections: [
+                {
+                  profileRef,
+                  offset: {
+                    kind: 'lit',
+                    value: 0,
+                  },
+                },
+                {
+                  profileRef,
+                  offset: {
+                    kind: 'lit',
+                    value: 10,
+                  },
+                },
+              ],
+            },
+            outputs: {
+              bodyId: newId('body'),
+            },
+            uiState: {
+              collapsed: false,
+            },
+          },
+        ]
+      })
+      return {
+        ...withGraphAndFeatureStackCache(nextGraph),
+      }
+    })
+  },
+  addSweepFeature: (nodeId) => {
+    set((state) => {
+      const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) => {
+        const profileRef = pickDefaultProfileRef(stack, stack.length)
+        return [
+          ...stack,
+          {
+            type: 'sweep',
+            featureId: newId('feature'),
+            inputs: {
+              profileRef,
+              path: null,
+            },
+            params: {
+              twist: {
+                kind: 'lit',
+                value: 0,
+              },
+              scale: {
+                kind: 'lit',
+                value: 1,
+              },
+            },
+            outputs: {
+              bodyId: newId('body'),
+            },
+            uiState: {
+              collapsed: false,
+            },
+          },
+        ]
+      })
+      return {
+        ...withGraphAndFeatureStackCache(nextGraph),
+      }
+    })
+  },
+  addBooleanFeature: (nodeId) => {
+    set((state) => {
+      const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) => {
+        // Default to combining the two most recent bodies.
+        const bodyIds = listAvailableBodyIds(stack, stack.length)
+        const toolBodyId = bodyIds.length >= 2 ? bodyIds[bodyIds.length - 1] : undefined
+        return [
+          ...stack,
+          {
+            type: 'boolean',
+            featureId: newId('feature'),
+            inputs: {
+              targetBodyId:
+                bodyIds[bodyIds.length - (toolBodyId === undefined ? 1 : 2)] ?? null,
+              tools: toolBodyId === undefined ? [] : [{ bodyId: toolBodyId }],
+            },
+            params: {
+              operation: 'union',
+            },
+            outputs: {
+              bodyId: newId('body'),
+            },
+            uiState: {
+              collapsed: false,
+            },
+          },
+        ]
+      })
+      return {
+        ...withGraphAndFeatureStackCache(nextGraph),
+      }
+    })
+  },
   toggleFeatureCollapsed: (nodeId, featureId) => {
     set((state) => {
       const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) =>
@@ -1344,6 +1658,23 @@ export const useSpaghettiStore = create<SpaghettiStoreState>((set, get) => ({
       }
     })
   },
+  setSketchPlane: (nodeId, featureId, plane) => {
+    set((state) => {
+      const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) =>
+        stack.map((feature) =>
+          feature.featureId !== featureId || feature.type !== 'sketch'
+            ? feature
+            : {
+                ...feature,
+                plane,
+              },
+        ),
+      )
+      return {
+        ...withGraphAndFeatureStackCache(nextGraph),
+      }
+    })
+  },
   setCloseProfileSource: (nodeId, featureId, sourceSketchFeatureId) => {
     set((state) => {
       const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) =>
@@ -1452,6 +1783,226 @@ export const useSpaghettiStore = create<SpaghettiStoreState>((set, get) => ({
       }
     })
   },
+  setRevolveAngle: (nodeId, featureId, angle) => {
+    set((state) => {
+      const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) =>
+        stack.map((feature) =>
+          feature.featureId !== featureId || feature.type !== 'revolve'
+            ? feature
+            : {
+                ...feature,
+                params: {
+                  ...feature.params,
+                  angle,
+                },
+              },
+        ),
+      )
+      return {
+        ...withGraphAndFeatureStackCache(nextGraph),
+      }
+    })
+  },
+  setRevolveAxis: (nodeId, featureId, axis) => {
+    set((state) => {
+      const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) =>
+        stack.map((feature) =>
+          feature.featureId !== featureId || feature.type !== 'revolve'
+            ? feature
+            : {
+                ...feature,
+                inputs: {
+                  ...feature.inputs,
+                  axis,
+                },
+              },
+        ),
+      )
+      return {
+        ...withGraphAndFeatureStackCache(nextGraph),
+      }
+    })
+  },
+  setRevolveProfileRef: (nodeId, featureId, ref) => {
+    set((state) => {
+      const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) =>
+        stack.map((feature) =>
+          feature.featureId !== featureId || feature.type !== 'revolve'
+            ? feature
+            : {
+                ...feature,
+                inputs: {
+                  ...feature.inputs,
+                  profileRef: ref,
+                },
+              },
+        ),
+      )
+      return {
+        ...withGraphAndFeatureStackCache(nextGraph),
+      }
+    })
+  },
+  setLoftSections: (nodeId, featureId, sections) => {
+    set((state) => {
+      const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) =>
+        stack.map((feature) =>
+          feature.featureId !== featureId || feature.type !== 'loft'
+            ? feature
+            : {
+                ...feature,
+                inputs: {
+                  ...feature.inputs,
+                  sections,
+                },
+              },
+        ),
+      )
+      return {
+        ...withGraphAndFeatureStackCache(nextGraph),
+      }
+    })
+  },
+  setSweepProfileRef: (nodeId, featureId, ref) => {
+    set((state) => {
+      const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) =>
+        stack.map((feature) =>
+          feature.featureId !== featureId || feature.type !== 'sweep'
+            ? feature
+            : {
+                ...feature,
+                inputs: {
+                  ...feature.inputs,
+                  profileRef: ref,
+                },
+              },
+        ),
+      )
+      return {
+        ...withGraphAndFeatureStackCache(nextGraph),
+      }
+    })
+  },
+  setSweepPath: (nodeId, featureId, path) => {
+    set((state) => {
+      const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) =>
+        stack.map((feature) =>
+          feature.featureId !== featureId || feature.type !== 'sweep'
+            ? feature
+            : {
+                ...feature,
+                inputs: {
+                  ...feature.inputs,
+                  path,
+                },
+              },
+        ),
+      )
+      return {
+        ...withGraphAndFeatureStackCache(nextGraph),
+      }
+    })
+  },
+  setSweepTwist: (nodeId, featureId, twist) => {
+    set((state) => {
+      const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) =>
+        stack.map((feature) =>
+          feature.featureId !== featureId || feature.type !== 'sweep'
+            ? feature
+            : {
+                ...feature,
+                params: {
+                  ...feature.params,
+                  twist,
+                },
+              },
+        ),
+      )
+      return {
+        ...withGraphAndFeatureStackCache(nextGraph),
+      }
+    })
+  },
+  setSweepScale: (nodeId, featureId, scale) => {
+    set((state) => {
+      const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) =>
+        stack.map((feature) =>
+          feature.featureId !== featureId || feature.type !== 'sweep'
+            ? feature
+            : {
+                ...feature,
+                params: {
+                  ...feature.params,
+                  scale,
+                },
+              },
+        ),
+      )
+      return {
+        ...withGraphAndFeatureStackCache(nextGraph),
+      }
+    })
+  },
+  setBooleanOperation: (nodeId, featureId, operation) => {
+    set((state) => {
+      const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) =>
+        stack.map((feature) =>
+          feature.featureId !== featureId || feature.type !== 'boolean'
+            ? feature
+            : {
+                ...feature,
+                params: {
+                  ...feature.params,
+                  operation,
+                },
+              },
+        ),
+      )
+      return {
+        ...withGraphAndFeatureStackCache(nextGraph),
+      }
+    })
+  },
+  setBooleanTarget: (nodeId, featureId, targetBodyId) => {
+    set((state) => {
+      const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) =>
+        stack.map((feature) =>
+          feature.featureId !== featureId || feature.type !== 'boolean'
+            ? feature
+            : {
+                ...feature,
+                inputs: {
+                  ...feature.inputs,
+                  targetBodyId,
+                },
+              },
+        ),
+      )
+      return {
+        ...withGraphAndFeatureStackCache(nextGraph),
+      }
+    })
+  },
+  setBooleanTools: (nodeId, featureId, tools) => {
+    set((state) => {
+      const nextGraph = updatePartNodeFeatureStack(state.graph, nodeId, (stack) =>
+        stack.map((feature) =>
+          feature.featureId !== featureId || feature.type !== 'boolean'
+            ? feature
+            : {
+                ...feature,
+                inputs: {
+                  ...feature.inputs,
+                  tools,
+                },
+              },
+        ),
+      )
+      return {
+        ...withGraphAndFeatureStackCache(nextGraph),
+      }
+    })
+  },
   getPartFeatureStackIrForNode: (nodeId) => {
     const partKey = get().partKeyByNodeId[nodeId]
     if (partKey === undefined) {
@@ -1459,5 +2010,11 @@ export const useSpaghettiStore = create<SpaghettiStoreState>((set, get) => ({
     }
     return get().partFeatureStackIrByPartKey[partKey] ?? null
   },
+  undo: () => {
+    set((state) => restoreHistoryGraph(state, undoGraphHistory(state.graphHistory, state.graph)))
+  },
+  redo: () => {
+    set((state) => restoreHistoryGraph(state, redoGraphHistory(state.graphHistory, state.graph)))
+  },
   validate: () => compileSpaghettiGraph(get().graph),
-}))
+})))
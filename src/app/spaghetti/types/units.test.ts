@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { evaluateSpaghettiGraph } from '../compiler/evaluateGraph'
+import { validateGraph } from '../compiler/validateGraph'
+import type { SpaghettiGraph } from '../schema/spaghettiTypes'
+import { selectDiagnosticsVm } from '../selectors/selectDiagnosticsVm'
+import { checkUnitCompatibility, convertUnitValue } from './units'
+
+describe('unit compatibility rules', () => {
+  it('classifies unit pairs', () => {
+    expect(checkUnitCompatibility('mm', 'mm')).toEqual({ kind: 'same' })
+    expect(checkUnitCompatibility(undefined, 'unitless')).toEqual({ kind: 'same' })
+    expect(checkUnitCompatibility('unitless', 'mm')).toEqual({ kind: 'assumed', to: 'mm' })
+    expect(checkUnitCompatibility(undefined, 'deg')).toEqual({ kind: 'assumed', to: 'deg' })
+    expect(checkUnitCompatibility('in', 'mm')).toEqual({
+      kind: 'convert',
+      from: 'in',
+      to: 'mm',
+      factor: 25.4,
+    })
+    expect(checkUnitCompatibility('mm', 'in')).toMatchObject({ kind: 'convert', factor: 1 / 25.4 })
+    expect(checkUnitCompatibility('mm', 'deg')).toEqual({ kind: 'mismatch', from: 'mm', to: 'deg' })
+    expect(checkUnitCompatibility('deg', 'in')).toEqual({ kind: 'mismatch', from: 'deg', to: 'in' })
+    expect(checkUnitCompatibility('mm', 'unitless')).toEqual({
+      kind: 'mismatch',
+      from: 'mm',
+      to: 'unitless',
+    })
+  })
+
+  it('scales numbers and vector-shaped values only', () => {
+    expect(convertUnitValue(2, 25.4)).toBe(50.8)
+    expect(convertUnitValue({ x: 1, y: 2 }, 10)).toEqual({ x: 10, y: 20 })
+    expect(convertUnitValue({ x: 1, y: 2, z: 3 }, 10)).toEqual({ x: 10, y: 20, z: 30 })
+    expect(convertUnitValue(true, 10)).toBe(true)
+    expect(convertUnitValue([1, 2], 10)).toEqual([1, 2])
+  })
+})
+
+describe('unit-aware wiring', () => {
+  const createGraph = (sourceUnit: string): SpaghettiGraph => ({
+    schemaVersion: 1,
+    nodes: [
+      { nodeId: 'n-source', type: 'Primitive/Number', params: { value: 2, unit: sourceUnit } },
+      { nodeId: 'n-sum', type: 'Math/Add', params: { a: 0, b: 1, unit: 'mm' } },
+    ],
+    edges: [
+      {
+        edgeId: 'e-source',
+        from: { nodeId: 'n-source', portId: 'value' },
+        to: { nodeId: 'n-sum', portId: 'a' },
+      },
+    ],
+  })
+
+  it('converts inch values into mm inputs without diagnostics', () => {
+    const graph = createGraph('in')
+    expect(validateGraph(graph)).toEqual({ ok: true, errors: [], warnings: [] })
+
+    const result = evaluateSpaghettiGraph(graph)
+    expect(result.ok).toBe(true)
+    expect(result.inputsByNodeId['n-sum']?.a).toBe(50.8)
+    expect(result.outputsByNodeId['n-sum']).toEqual({ result: 51.8 })
+  })
+
+  it('passes unitless values through with an inline wire warning', () => {
+    const graph = createGraph('unitless')
+    const result = evaluateSpaghettiGraph(graph)
+    expect(result.ok).toBe(true)
+    expect(result.outputsByNodeId['n-sum']).toEqual({ result: 3 })
+    expect(result.diagnostics.warnings).toEqual([
+      {
+        level: 'warn',
+        code: 'EDGE_UNIT_ASSUMED',
+        message: 'Unitless value from "n-source.value" is read as mm by "n-sum.a".',
+        edgeId: 'e-source',
+      },
+    ])
+
+    const diagnosticsVm = selectDiagnosticsVm({ graph, evaluation: result })
+    expect(diagnosticsVm.edgeStatusById['e-source']).toEqual({
+      kind: 'ok',
+      warning: 'Unitless value from "n-source.value" is read as mm by "n-sum.a".',
+    })
+  })
+
+  it('rejects angle values wired into length inputs', () => {
+    const result = validateGraph(createGraph('deg'))
+    expect(result.ok).toBe(false)
+    expect(result.errors).toEqual([
+      {
+        level: 'error',
+        code: 'EDGE_UNIT_MISMATCH',
+        message: 'Unit mismatch from "n-source.value" (deg) to "n-sum.a" (mm).',
+        edgeId: 'e-source',
+      },
+    ])
+  })
+})
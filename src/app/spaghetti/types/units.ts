@@ -0,0 +1,69 @@
+import type { Unit } from '../schema/spaghettiTypes'
+
+export const UNITS = ['mm', 'in', 'deg', 'unitless'] as const satisfies readonly Unit[]
+
+export const isUnit = (value: unknown): value is Unit =>
+  UNITS.some((unit) => unit === value)
+
+// Length units and their size in millimetres. Values crossing between two length units are
+// converted on the wire, so an inch-driven number can feed any mm port.
+const LENGTH_UNIT_MM: Partial<Record<Unit, number>> = {
+  mm: 1,
+  in: 25.4,
+}
+
+export type UnitCompatibility =
+  | { kind: 'same' }
+  // A unitless value takes on the target unit as-is; allowed, but reported as a warning.
+  | { kind: 'assumed'; to: Unit }
+  | { kind: 'convert'; from: Unit; to: Unit; factor: number }
+  | { kind: 'mismatch'; from: Unit; to: Unit }
+
+// Ports without a unit behave as unitless.
+export const checkUnitCompatibility = (
+  from: Unit | undefined,
+  to: Unit | undefined,
+): UnitCompatibility => {
+  const fromUnit = from ?? 'unitless'
+  const toUnit = to ?? 'unitless'
+  if (fromUnit === toUnit) {
+    return { kind: 'same' }
+  }
+  if (fromUnit === 'unitless') {
+    return { kind: 'assumed', to: toUnit }
+  }
+  const fromMm = LENGTH_UNIT_MM[fromUnit]
+  const toMm = LENGTH_UNIT_MM[toUnit]
+  if (fromMm !== undefined && toMm !== undefined) {
+    return { kind: 'convert', from: fromUnit, to: toUnit, factor: fromMm / toMm }
+  }
+  return { kind: 'mismatch', from: fromUnit, to: toUnit }
+}
+
+const scaleCoordinate = (value: unknown, factor: number): unknown =>
+  typeof value === 'number' ? value * factor : value
+
+// Scales numbers and vec2/vec3-shaped values; anything else passes through unchanged.
+export const convertUnitValue = (value: unknown, factor: number): unknown => {
+  if (factor === 1) {
+    return value
+  }
+  if (typeof value === 'number') {
+    return value * factor
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return value
+  }
+  const record = value as Record<string, unknown>
+  if (typeof record.x !== 'number' || typeof record.y !== 'number') {
+    return value
+  }
+  return {
+    ...record,
+    x: record.x * factor,
+    y: record.y * factor,
+    ...('z' in record ? { z: scaleCoordinate(record.z, factor) } : {}),
+  }
+}
+
+export const formatUnit = (unit: Unit | undefined): string => unit ?? 'unitless'
@@ -1,18 +1,36 @@
 import { useMemo } from 'react'
-import { getFeatureDiagnostics, type FeatureDiagnostic } from '../features/diagnostics'
+import {
+  getFeatureDiagnostics,
+  getRuntimeFeatureDiagnostics,
+  type FeatureDiagnostic,
+} from '../features/diagnostics'
 import type { FeatureDependencyRow } from '../features/featureDependencies'
 import { listEffectiveInputPorts } from '../features/effectivePorts'
+import { buildNodeExpressionScope } from '../features/driverVirtualPorts'
+import {
+  previewNumberExpression,
+  type ExpressionScope,
+} from '../features/expressions'
 import { canMoveFeatureInStack } from '../features/featureDependencies'
 import { readFeatureStack } from '../features/featureSchema'
 import {
   buildExtrudeDepthVirtualInputPortId,
   buildExtrudeOffsetVirtualInputPortId,
   buildExtrudeTaperVirtualInputPortId,
+  buildRevolveAngleVirtualInputPortId,
   buildSketchRectLengthVirtualInputPortId,
   buildSketchRectWidthVirtualInputPortId,
+  buildSweepPath2VirtualInputPortId,
+  buildSweepPath3VirtualInputPortId,
   isFeatureVirtualInputPortId,
 } from '../features/featureVirtualPorts'
-import type { ExtrudeFeature } from '../features/featureTypes'
+import type {
+  BooleanFeature,
+  ExtrudeFeature,
+  LoftFeature,
+  RevolveFeature,
+  SweepFeature,
+} from '../features/featureTypes'
 import { isFeatureEnabled } from '../features/featureTypes'
 import type { SpaghettiNode } from '../schema/spaghettiTypes'
 import { useSpaghettiStore } from '../store/useSpaghettiStore'
@@ -21,6 +39,10 @@ import {
   ExtrudeFeatureView,
   type FeatureInputWiringBridge,
 } from './features/ExtrudeFeatureView'
+import { RevolveFeatureView } from './features/RevolveFeatureView'
+import { LoftFeatureView } from './features/LoftFeatureView'
+import { SweepFeatureView } from './features/SweepFeatureView'
+import { BooleanFeatureView } from './features/BooleanFeatureView'
 import { SketchFeatureView } from './features/SketchFeatureView'
 import { CloseProfileFeatureView } from './features/CloseProfileFeatureView'
 import {
@@ -44,6 +66,8 @@ type FeatureStackViewProps = {
     }
   >
   featureInputWiring?: FeatureInputWiringBridge
+  // Scope with wire-driven params resolved; derived from the stored params when absent.
+  expressionScope?: ExpressionScope
   featureRows?: readonly FeatureDependencyRow[]
   onRegisterFeatureRowElement?: (rowId: string, element: HTMLDivElement | null) => void
 }
@@ -104,29 +128,57 @@ const withDiagnosticKeys = (diagnostics: readonly FeatureDiagnostic[]) => {
   })
 }
 
-const extrudeSummary = (
-  feature: ExtrudeFeature,
+const profileFeatureSummary = (
+  feature: ExtrudeFeature | RevolveFeature | SweepFeature,
   sketchProfilesByFeatureId: ReadonlyMap<string, PreviewProfileWithLabel[]>,
   closeProfileResolvedByFeatureId: ReadonlyMap<
     string,
     { sourceFeatureId: string; profileId: string; profileIndex: number }
   >,
+  expressionScope: ExpressionScope,
 ): string => {
   const rawProfileRef = feature.inputs.profileRef
   const profileRef =
     rawProfileRef === null
       ? null
       : closeProfileResolvedByFeatureId.get(rawProfileRef.sourceFeatureId) ?? rawProfileRef
-  const depth = formatStableNumber(feature.params.depth.value)
+  const value =
+    feature.type === 'revolve'
+      ? `Angle: ${formatStableNumber(previewNumberExpression(feature.params.angle, expressionScope))}`
+      : feature.type === 'sweep'
+        ? `Path: ${
+            feature.inputs.path === null
+              ? '-'
+              : feature.inputs.path.kind === 'spline'
+                ? 'wired'
+                : shortId(feature.inputs.path.componentId)
+          }`
+        : `Depth: ${formatStableNumber(previewNumberExpression(feature.params.depth, expressionScope))}`
   if (profileRef === null) {
-    return `Profile: -, Depth: ${depth}`
+    return `Profile: -, ${value}`
   }
   const sourceProfiles = sketchProfilesByFeatureId.get(profileRef.sourceFeatureId) ?? []
   const selectedProfile = sourceProfiles.find((profile) => profile.profileId === profileRef.profileId)
   if (selectedProfile === undefined) {
-    return `Profile: -, Depth: ${depth}`
+    return `Profile: -, ${value}`
   }
-  return `Profile: ${shortId(profileRef.sourceFeatureId)}/${selectedProfile.label}, Depth: ${depth}`
+  return `Profile: ${shortId(profileRef.sourceFeatureId)}/${selectedProfile.label}, ${value}`
+}
+
+const loftFeatureSummary = (feature: LoftFeature, expressionScope: ExpressionScope): string =>
+  `Sections: ${feature.inputs.sections.length}, Offsets: ${
+    feature.inputs.sections
+      .map((section) => formatStableNumber(previewNumberExpression(section.offset, expressionScope)))
+      .join(' / ') || '-'
+  }`
+
+const booleanFeatureSummary = (feature: BooleanFeature): string => {
+  const target =
+    feature.inputs.targetBodyId === null ? '-' : shortId(feature.inputs.targetBodyId)
+  const crossPart = feature.inputs.tools.some((tool) => tool.sourceNodeId !== undefined)
+  return `${feature.params.operation}: ${target} with ${feature.inputs.tools.length} tool${
+    feature.inputs.tools.length === 1 ? '' : 's'
+  }${crossPart ? ' (cross-part)' : ''}`
 }
 
 export function FeatureStackView({
@@ -136,19 +188,30 @@ export function FeatureStackView({
   onToggleGroup,
   featureVirtualInputStateByPortId,
   featureInputWiring,
+  expressionScope: resolvedExpressionScope,
   featureRows,
   onRegisterFeatureRowElement,
 }: FeatureStackViewProps) {
   const addSketchFeature = useSpaghettiStore((state) => state.addSketchFeature)
   const addCloseProfileFeature = useSpaghettiStore((state) => state.addCloseProfileFeature)
   const addExtrudeFeature = useSpaghettiStore((state) => state.addExtrudeFeature)
+  const addRevolveFeature = useSpaghettiStore((state) => state.addRevolveFeature)
+  const addLoftFeature = useSpaghettiStore((state) => state.addLoftFeature)
+  const addSweepFeature = useSpaghettiStore((state) => state.addSweepFeature)
+  const addBooleanFeature = useSpaghettiStore((state) => state.addBooleanFeature)
   const toggleFeatureCollapsed = useSpaghettiStore((state) => state.toggleFeatureCollapsed)
   const moveFeatureUp = useSpaghettiStore((state) => state.moveFeatureUp)
   const moveFeatureDown = useSpaghettiStore((state) => state.moveFeatureDown)
   const setFeatureEnabled = useSpaghettiStore((state) => state.setFeatureEnabled)
   const featureStackIr = useSpaghettiStore((state) => state.getPartFeatureStackIrForNode(node.nodeId))
+  const partKey = useSpaghettiStore((state) => state.partKeyByNodeId[node.nodeId])
+  const runtimeDiagnostics = useSpaghettiStore((state) => state.runtimeDiagnostics)
 
   const stack = useMemo(() => readFeatureStack(node.params.featureStack), [node.params.featureStack])
+  const expressionScope = useMemo(
+    () => resolvedExpressionScope ?? buildNodeExpressionScope(node),
+    [node, resolvedExpressionScope],
+  )
   const sketchProfilesByFeatureId = useMemo(() => {
     const next = new Map<string, PreviewProfileWithLabel[]>()
     if (featureStackIr === null) return next
@@ -183,17 +246,30 @@ export function FeatureStackView({
   const highlightedProfilesBySketchFeatureId = useMemo(() => {
     const next = new Map<string, Set<string>>()
     for (const feature of stack) {
-      if (feature.type !== 'extrude' || feature.inputs.profileRef === null) continue
-      const viaClose = closeProfileResolvedByFeatureId.get(feature.inputs.profileRef.sourceFeatureId)
-      const sourceSketchId = viaClose?.sourceFeatureId ?? feature.inputs.profileRef.sourceFeatureId
-      const profileSet = next.get(sourceSketchId) ?? new Set<string>()
-      profileSet.add(viaClose?.profileId ?? feature.inputs.profileRef.profileId)
-      next.set(sourceSketchId, profileSet)
+      const profileRefs =
+        feature.type === 'extrude' || feature.type === 'revolve' || feature.type === 'sweep'
+          ? [feature.inputs.profileRef]
+          : feature.type === 'loft'
+            ? feature.inputs.sections.map((section) => section.profileRef)
+            : []
+      for (const profileRef of profileRefs) {
+        if (profileRef === null) {
+          continue
+        }
+        const viaClose = closeProfileResolvedByFeatureId.get(profileRef.sourceFeatureId)
+        const sourceSketchId = viaClose?.sourceFeatureId ?? profileRef.sourceFeatureId
+        const profileSet = next.get(sourceSketchId) ?? new Set<string>()
+        profileSet.add(viaClose?.profileId ?? profileRef.profileId)
+        next.set(sourceSketchId, profileSet)
+      }
     }
     return next
   }, [closeProfileResolvedByFeatureId, stack])
   const diagnosticsByFeatureId = useMemo(() => {
-    const sorted = [...getFeatureDiagnostics(stack)].sort(compareDiagnostics)
+    const sorted = [
+      ...getFeatureDiagnostics(stack, expressionScope),
+      ...(partKey === undefined ? [] : getRuntimeFeatureDiagnostics(runtimeDiagnostics, partKey)),
+    ].sort(compareDiagnostics)
     const next = new Map<string, FeatureDiagnostic[]>()
     for (const diagnostic of sorted) {
       const list = next.get(diagnostic.featureId) ?? []
@@ -201,7 +277,7 @@ export function FeatureStackView({
       next.set(diagnostic.featureId, list)
     }
     return next
-  }, [stack])
+  }, [expressionScope, partKey, runtimeDiagnostics, stack])
   const virtualFeatureInputsByPortId = useMemo(() => {
     const next = new Map<string, ReturnType<typeof listEffectiveInputPorts>[number]>()
     for (const port of listEffectiveInputPorts(node)) {
@@ -239,6 +315,18 @@ export function FeatureStackView({
             <button type="button" {...SP_INTERACTIVE_PROPS} onClick={() => addExtrudeFeature(node.nodeId)}>
               + Extrude
             </button>
+            <button type="button" {...SP_INTERACTIVE_PROPS} onClick={() => addRevolveFeature(node.nodeId)}>
+              + Revolve
+            </button>
+            <button type="button" {...SP_INTERACTIVE_PROPS} onClick={() => addLoftFeature(node.nodeId)}>
+              + Loft
+            </button>
+            <button type="button" {...SP_INTERACTIVE_PROPS} onClick={() => addSweepFeature(node.nodeId)}>
+              + Sweep
+            </button>
+            <button type="button" {...SP_INTERACTIVE_PROPS} onClick={() => addBooleanFeature(node.nodeId)}>
+              + Boolean
+            </button>
           </div>
         ) : null}
       </div>
@@ -252,7 +340,16 @@ export function FeatureStackView({
             ? `Sketch: ${(sketchProfilesByFeatureId.get(feature.featureId) ?? []).length} profiles`
             : feature.type === 'closeProfile'
               ? `Close Profile: ${feature.outputs.profileRef === null ? 'unresolved' : shortId(feature.outputs.profileRef.profileId)}`
-              : extrudeSummary(feature, sketchProfilesByFeatureId, closeProfileResolvedByFeatureId)
+              : feature.type === 'boolean'
+                ? booleanFeatureSummary(feature)
+                : feature.type === 'loft'
+                  ? loftFeatureSummary(feature, expressionScope)
+                  : profileFeatureSummary(
+                      feature,
+                      sketchProfilesByFeatureId,
+                      closeProfileResolvedByFeatureId,
+                      expressionScope,
+                    )
         const diagnosticCounts = countDiagnostics(featureDiagnostics)
         const featureCollapsed =
           sectionCollapsed === undefined ? feature.uiState.collapsed : sectionCollapsed(feature.featureId)
@@ -293,7 +390,15 @@ export function FeatureStackView({
                     ? 'Sketch'
                     : feature.type === 'closeProfile'
                       ? 'Close Profile'
-                      : 'Extrude'}
+                      : feature.type === 'revolve'
+                        ? 'Revolve'
+                        : feature.type === 'loft'
+                          ? 'Loft'
+                          : feature.type === 'sweep'
+                            ? 'Sweep'
+                            : feature.type === 'boolean'
+                              ? 'Boolean'
+                              : 'Extrude'}
                 </span>
                 <span className="SpaghettiFeatureSummary">
                   {featureEnabled ? summary : `Disabled · ${summary}`}
@@ -369,9 +474,56 @@ export function FeatureStackView({
                       featureVirtualInputStateByPortId?.[buildSketchRectLengthVirtualInputPortId(feature.featureId)]
                     }
                     featureInputWiring={featureInputWiring}
+                    expressionScope={expressionScope}
                   />
                 ) : feature.type === 'closeProfile' ? (
                   <CloseProfileFeatureView nodeId={node.nodeId} feature={feature} stack={stack} featureIndex={index} />
+                ) : feature.type === 'boolean' ? (
+                  <BooleanFeatureView nodeId={node.nodeId} feature={feature} stack={stack} featureIndex={index} />
+                ) : feature.type === 'loft' ? (
+                  <LoftFeatureView
+                    nodeId={node.nodeId}
+                    feature={feature}
+                    stack={stack}
+                    featureIndex={index}
+                    previewProfilesBySketchId={sketchProfilesByFeatureId}
+                    closeProfileResolvedByFeatureId={closeProfileResolvedByFeatureId}
+                    expressionScope={expressionScope}
+                  />
+                ) : feature.type === 'sweep' ? (
+                  <SweepFeatureView
+                    nodeId={node.nodeId}
+                    feature={feature}
+                    stack={stack}
+                    featureIndex={index}
+                    previewProfilesBySketchId={sketchProfilesByFeatureId}
+                    closeProfileResolvedByFeatureId={closeProfileResolvedByFeatureId}
+                    path2VirtualInputPort={virtualFeatureInputsByPortId.get(buildSweepPath2VirtualInputPortId(feature.featureId))}
+                    path2VirtualInputState={
+                      featureVirtualInputStateByPortId?.[buildSweepPath2VirtualInputPortId(feature.featureId)]
+                    }
+                    path3VirtualInputPort={virtualFeatureInputsByPortId.get(buildSweepPath3VirtualInputPortId(feature.featureId))}
+                    path3VirtualInputState={
+                      featureVirtualInputStateByPortId?.[buildSweepPath3VirtualInputPortId(feature.featureId)]
+                    }
+                    featureInputWiring={featureInputWiring}
+                    expressionScope={expressionScope}
+                  />
+                ) : feature.type === 'revolve' ? (
+                  <RevolveFeatureView
+                    nodeId={node.nodeId}
+                    feature={feature}
+                    stack={stack}
+                    featureIndex={index}
+                    previewProfilesBySketchId={sketchProfilesByFeatureId}
+                    closeProfileResolvedByFeatureId={closeProfileResolvedByFeatureId}
+                    angleVirtualInputPort={virtualFeatureInputsByPortId.get(buildRevolveAngleVirtualInputPortId(feature.featureId))}
+                    angleVirtualInputState={
+                      featureVirtualInputStateByPortId?.[buildRevolveAngleVirtualInputPortId(feature.featureId)]
+                    }
+                    featureInputWiring={featureInputWiring}
+                    expressionScope={expressionScope}
+                  />
                 ) : (
                   <ExtrudeFeatureView
                     nodeId={node.nodeId}
@@ -393,6 +545,7 @@ export function FeatureStackView({
                       featureVirtualInputStateByPortId?.[buildExtrudeOffsetVirtualInputPortId(feature.featureId)]
                     }
                     featureInputWiring={featureInputWiring}
+                    expressionScope={expressionScope}
                   />
                 )}
                 {featureDiagnostics.length > 0 ? (
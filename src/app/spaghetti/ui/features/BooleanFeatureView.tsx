@@ -0,0 +1,176 @@
+import { useMemo } from 'react'
+import { listAvailableBodyIds } from '../../features/featureDependencies'
+import { readFeatureStack } from '../../features/featureSchema'
+import type {
+  BodyReference,
+  BooleanFeature,
+  BooleanOperation,
+  FeatureStack,
+} from '../../features/featureTypes'
+import { isPartNodeType } from '../../parts/partSlots'
+import { useSpaghettiStore } from '../../store/useSpaghettiStore'
+import { SP_INTERACTIVE_PROPS } from '../../spInteractive'
+
+type BooleanFeatureViewProps = {
+  nodeId: string
+  feature: BooleanFeature
+  stack: FeatureStack
+  featureIndex: number
+}
+
+type ToolCandidate = {
+  reference: BodyReference
+  label: string
+}
+
+const OPERATION_LABELS: Record<BooleanOperation, string> = {
+  union: 'Union',
+  subtract: 'Subtract',
+  intersect: 'Intersect',
+}
+
+const shortId = (id: string): string => id.slice(0, 8)
+
+const isSameReference = (a: BodyReference, b: BodyReference): boolean =>
+  a.bodyId === b.bodyId && a.sourceNodeId === b.sourceNodeId
+
+export function BooleanFeatureView({ nodeId, feature, stack, featureIndex }: BooleanFeatureViewProps) {
+  const setBooleanOperation = useSpaghettiStore((state) => state.setBooleanOperation)
+  const setBooleanTarget = useSpaghettiStore((state) => state.setBooleanTarget)
+  const setBooleanTools = useSpaghettiStore((state) => state.setBooleanTools)
+  const graph = useSpaghettiStore((state) => state.graph)
+  const partKeyByNodeId = useSpaghettiStore((state) => state.partKeyByNodeId)
+
+  const localBodyIds = listAvailableBodyIds(stack, featureIndex)
+  const targetBodyId = feature.inputs.targetBodyId
+  const targetMissing = targetBodyId !== null && !localBodyIds.includes(targetBodyId)
+
+  // Cross-part tools are the final bodies of every other Part node's stack.
+  const foreignCandidates = useMemo(
+    () =>
+      graph.nodes
+        .filter((node) => node.nodeId !== nodeId && isPartNodeType(node.type))
+        .sort((a, b) => a.nodeId.localeCompare(b.nodeId))
+        .flatMap((node) => {
+          const nodeStack = readFeatureStack(node.params.featureStack)
+          const partLabel = partKeyByNodeId[node.nodeId] ?? shortId(node.nodeId)
+          return listAvailableBodyIds(nodeStack, nodeStack.length).map((bodyId) => ({
+            reference: { bodyId, sourceNodeId: node.nodeId },
+            label: `${partLabel} / Body ${shortId(bodyId)}`,
+          }))
+        }),
+    [graph.nodes, nodeId, partKeyByNodeId],
+  )
+  const candidates: ToolCandidate[] = [
+    ...localBodyIds
+      .filter((bodyId) => bodyId !== targetBodyId)
+      .map((bodyId) => ({ reference: { bodyId }, label: `Body ${shortId(bodyId)}` })),
+    ...foreignCandidates,
+  ]
+  const missingTools = feature.inputs.tools.filter(
+    (tool) => !candidates.some((candidate) => isSameReference(candidate.reference, tool)),
+  )
+
+  const toggleTool = (reference: BodyReference, selected: boolean) => {
+    const remaining = feature.inputs.tools.filter((tool) => !isSameReference(tool, reference))
+    setBooleanTools(nodeId, feature.featureId, selected ? [...remaining, reference] : remaining)
+  }
+
+  return (
+    <div className="SpaghettiFeatureBody" {...SP_INTERACTIVE_PROPS}>
+      <div className="SpaghettiFeatureSectionHeader">
+        <span>Operation</span>
+      </div>
+      <label className="SpaghettiFeatureSelectRow" {...SP_INTERACTIVE_PROPS}>
+        <span>Operation</span>
+        <select
+          {...SP_INTERACTIVE_PROPS}
+          value={feature.params.operation}
+          onChange={(event) =>
+            setBooleanOperation(nodeId, feature.featureId, event.target.value as BooleanOperation)
+          }
+        >
+          {(Object.keys(OPERATION_LABELS) as BooleanOperation[]).map((operation) => (
+            <option key={operation} value={operation}>
+              {OPERATION_LABELS[operation]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="SpaghettiFeatureSectionHeader">
+        <span>Target</span>
+      </div>
+      <label className="SpaghettiFeatureSelectRow" {...SP_INTERACTIVE_PROPS}>
+        <span>Body</span>
+        <select
+          {...SP_INTERACTIVE_PROPS}
+          value={targetBodyId ?? ''}
+          onChange={(event) => {
+            const nextTargetBodyId = event.target.value.length === 0 ? null : event.target.value
+            setBooleanTarget(nodeId, feature.featureId, nextTargetBodyId)
+            if (nextTargetBodyId !== null) {
+              toggleTool({ bodyId: nextTargetBodyId }, false)
+            }
+          }}
+        >
+          <option value="">None</option>
+          {localBodyIds.map((bodyId) => (
+            <option key={bodyId} value={bodyId}>
+              Body {shortId(bodyId)}
+            </option>
+          ))}
+          {targetMissing ? <option value={targetBodyId}>Missing body</option> : null}
+        </select>
+      </label>
+
+      <div className="SpaghettiFeatureSectionHeader">
+        <span>Tools</span>
+      </div>
+      {candidates.length === 0 && missingTools.length === 0 ? (
+        <div className="fsPrev_extrudeSummary">No other bodies available.</div>
+      ) : null}
+      {candidates.map((candidate) => {
+        const selected = feature.inputs.tools.some((tool) =>
+          isSameReference(tool, candidate.reference),
+        )
+        return (
+          <label
+            key={`${candidate.reference.sourceNodeId ?? ''}:${candidate.reference.bodyId}`}
+            className="SpaghettiFeatureSelectRow"
+            {...SP_INTERACTIVE_PROPS}
+          >
+            <span>{candidate.label}</span>
+            <input
+              type="checkbox"
+              {...SP_INTERACTIVE_PROPS}
+              checked={selected}
+              onChange={(event) => toggleTool(candidate.reference, event.target.checked)}
+            />
+          </label>
+        )
+      })}
+      {missingTools.map((tool) => (
+        <label
+          key={`missing:${tool.sourceNodeId ?? ''}:${tool.bodyId}`}
+          className="SpaghettiFeatureSelectRow"
+          {...SP_INTERACTIVE_PROPS}
+        >
+          <span>Missing body {shortId(tool.bodyId)}</span>
+          <input
+            type="checkbox"
+            {...SP_INTERACTIVE_PROPS}
+            checked
+            onChange={() => toggleTool(tool, false)}
+          />
+        </label>
+      ))}
+
+      <div className="fsPrev_extrudeSummary">
+        {feature.inputs.tools.some((tool) => tool.sourceNodeId !== undefined)
+          ? 'Cross-part boolean: evaluated in the assembled view after every part stack.'
+          : 'Target and tool bodies are replaced by the result.'}
+      </div>
+    </div>
+  )
+}
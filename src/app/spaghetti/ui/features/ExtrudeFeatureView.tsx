@@ -1,4 +1,5 @@
 import type { PointerEvent as ReactPointerEvent } from 'react'
+import { previewNumberExpression, type ExpressionScope } from '../../features/expressions'
 import type { ExtrudeFeature, FeatureStack } from '../../features/featureTypes'
 import {
   buildExtrudeDepthVirtualInputPortId,
@@ -9,6 +10,7 @@ import type { PortSpec } from '../../schema/spaghettiTypes'
 import { useSpaghettiStore } from '../../store/useSpaghettiStore'
 import { SP_INTERACTIVE_PROPS } from '../../spInteractive'
 import { FeatureValueBar } from './FeatureValueBar'
+import { FeatureExpressionInput } from './FeatureExpressionInput'
 import { PortView } from '../../canvas/PortView'
 import type { PortDirection } from '../../canvas/types'
 import {
@@ -73,6 +75,7 @@ type ExtrudeFeatureViewProps = {
     drivenValue?: number
   }
   featureInputWiring?: FeatureInputWiringBridge
+  expressionScope: ExpressionScope
 }
 
 const shortId = (id: string): string => id.slice(0, 8)
@@ -91,6 +94,7 @@ export function ExtrudeFeatureView({
   offsetVirtualInputPort,
   offsetVirtualInputState,
   featureInputWiring,
+  expressionScope,
 }: ExtrudeFeatureViewProps) {
   const setExtrudeDepth = useSpaghettiStore((state) => state.setExtrudeDepth)
   const setExtrudeTaper = useSpaghettiStore((state) => state.setExtrudeTaper)
@@ -152,15 +156,15 @@ export function ExtrudeFeatureView({
   const depthValue =
     depthDriven && typeof depthVirtualInputState?.drivenValue === 'number'
       ? depthVirtualInputState.drivenValue
-      : feature.params.depth.value
+      : previewNumberExpression(feature.params.depth, expressionScope)
   const taperValue =
     taperDriven && typeof taperVirtualInputState?.drivenValue === 'number'
       ? taperVirtualInputState.drivenValue
-      : feature.params.taper?.value ?? 0
+      : previewNumberExpression(feature.params.taper, expressionScope)
   const offsetValue =
     offsetDriven && typeof offsetVirtualInputState?.drivenValue === 'number'
       ? offsetVirtualInputState.drivenValue
-      : feature.params.offset?.value ?? 0
+      : previewNumberExpression(feature.params.offset, expressionScope)
 
   const renderVirtualInputRow = (
     label: string,
@@ -270,6 +274,12 @@ export function ExtrudeFeatureView({
           })
         }
       />
+      <FeatureExpressionInput
+        expression={feature.params.depth}
+        scope={expressionScope}
+        disabled={depthDriven}
+        onCommit={(expression) => setExtrudeDepth(nodeId, feature.featureId, expression)}
+      />
 
       <div className="SpaghettiFeatureSectionHeader">
         <span>Taper</span>
@@ -288,6 +298,12 @@ export function ExtrudeFeatureView({
           })
         }
       />
+      <FeatureExpressionInput
+        expression={feature.params.taper ?? { kind: 'lit', value: 0 }}
+        scope={expressionScope}
+        disabled={taperDriven}
+        onCommit={(expression) => setExtrudeTaper(nodeId, feature.featureId, expression)}
+      />
 
       <div className="SpaghettiFeatureSectionHeader">
         <span>Offset</span>
@@ -306,6 +322,12 @@ export function ExtrudeFeatureView({
           })
         }
       />
+      <FeatureExpressionInput
+        expression={feature.params.offset ?? { kind: 'lit', value: 0 }}
+        scope={expressionScope}
+        disabled={offsetDriven}
+        onCommit={(expression) => setExtrudeOffset(nodeId, feature.featureId, expression)}
+      />
 
       <div className="fsPrev_extrudeSummary">
         Profile: {profileSummary}, Depth: {formatStableNumber(depthValue)}, Taper: {formatStableNumber(
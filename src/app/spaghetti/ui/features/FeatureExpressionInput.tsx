@@ -0,0 +1,72 @@
+import { useState } from 'react'
+import {
+  formatNumberExpression,
+  toNumberExpression,
+  tryResolveNumberExpression,
+  type ExpressionScope,
+  type NumberExpression,
+} from '../../features/expressions'
+import { SP_INTERACTIVE_PROPS } from '../../spInteractive'
+import { formatStableNumber } from './profilePreview'
+
+type FeatureExpressionInputProps = {
+  expression: NumberExpression
+  scope: ExpressionScope
+  onCommit: (expression: NumberExpression) => void
+  disabled?: boolean
+}
+
+// Formula field under a value bar. Plain numbers commit as literals; anything else is stored as a
+// formula over the part's parameters and shown with its current value.
+export function FeatureExpressionInput({
+  expression,
+  scope,
+  onCommit,
+  disabled = false,
+}: FeatureExpressionInputProps) {
+  const committedText = formatNumberExpression(expression)
+  const [draft, setDraft] = useState<string | null>(null)
+  const text = draft ?? committedText
+  const resolved = tryResolveNumberExpression(expression, scope)
+
+  const commit = () => {
+    if (draft === null) {
+      return
+    }
+    setDraft(null)
+    if (draft.trim().length === 0 || draft === committedText) {
+      return
+    }
+    onCommit(toNumberExpression(draft))
+  }
+
+  return (
+    <label className="SpaghettiFeatureSelectRow" {...SP_INTERACTIVE_PROPS}>
+      <span>
+        Formula
+        {expression.kind === 'expr' && resolved.ok ? ` = ${formatStableNumber(resolved.value)}` : ''}
+      </span>
+      <input
+        {...SP_INTERACTIVE_PROPS}
+        className="SpaghettiFeatureExpressionInput"
+        type="text"
+        spellCheck={false}
+        value={text}
+        disabled={disabled}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={commit}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') {
+            commit()
+          }
+          if (event.key === 'Escape') {
+            setDraft(null)
+          }
+        }}
+      />
+      {resolved.ok ? null : (
+        <span className="SpaghettiFeatureDiagMsg isError">{resolved.error.message}</span>
+      )}
+    </label>
+  )
+}
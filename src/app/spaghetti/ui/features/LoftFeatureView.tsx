@@ -0,0 +1,232 @@
+import {
+  previewNumberExpression,
+  type ExpressionScope,
+  type NumberExpression,
+} from '../../features/expressions'
+import type {
+  FeatureStack,
+  LoftFeature,
+  LoftSection,
+  ProfileReference,
+} from '../../features/featureTypes'
+import { useSpaghettiStore } from '../../store/useSpaghettiStore'
+import { SP_INTERACTIVE_PROPS } from '../../spInteractive'
+import { FeatureValueBar } from './FeatureValueBar'
+import { FeatureExpressionInput } from './FeatureExpressionInput'
+import { labelProfilesForPreview, type PreviewProfileWithLabel } from './profilePreview'
+
+type LoftFeatureViewProps = {
+  nodeId: string
+  feature: LoftFeature
+  stack: FeatureStack
+  featureIndex: number
+  previewProfilesBySketchId: ReadonlyMap<string, PreviewProfileWithLabel[]>
+  closeProfileResolvedByFeatureId: ReadonlyMap<
+    string,
+    { sourceFeatureId: string; profileId: string; profileIndex: number }
+  >
+  expressionScope: ExpressionScope
+}
+
+const MIN_LOFT_SECTIONS = 2
+const NEW_SECTION_SPACING_MM = 10
+
+export function LoftFeatureView({
+  nodeId,
+  feature,
+  stack,
+  featureIndex,
+  previewProfilesBySketchId,
+  closeProfileResolvedByFeatureId,
+  expressionScope,
+}: LoftFeatureViewProps) {
+  const setLoftSections = useSpaghettiStore((state) => state.setLoftSections)
+
+  const priorSketches = stack
+    .slice(0, featureIndex)
+    .filter((item): item is FeatureStack[number] & { type: 'sketch' } => item.type === 'sketch')
+  const priorCloseProfiles = stack
+    .slice(0, featureIndex)
+    .filter((item): item is FeatureStack[number] & { type: 'closeProfile' } => item.type === 'closeProfile')
+
+  const getProfilesForSketch = (sourceFeatureId: string): PreviewProfileWithLabel[] => {
+    const resolved = previewProfilesBySketchId.get(sourceFeatureId)
+    if (resolved !== undefined) return resolved
+    const sourceSketch = priorSketches.find((candidate) => candidate.featureId === sourceFeatureId)
+    if (sourceSketch === undefined) return []
+    return labelProfilesForPreview(
+      sourceSketch.outputs.profiles.map((profile) => ({
+        profileId: profile.profileId,
+        area: profile.area,
+        vertices: profile.verticesProxy,
+      })),
+    )
+  }
+
+  const sections = feature.inputs.sections
+  const updateSection = (sectionIndex: number, patch: Partial<LoftSection>) =>
+    setLoftSections(
+      nodeId,
+      feature.featureId,
+      sections.map((section, index) => (index === sectionIndex ? { ...section, ...patch } : section)),
+    )
+  const setSectionProfileRef = (sectionIndex: number, profileRef: ProfileReference | null) =>
+    updateSection(sectionIndex, { profileRef })
+  const setSectionOffset = (sectionIndex: number, offset: NumberExpression) =>
+    updateSection(sectionIndex, { offset })
+  const removeSection = (sectionIndex: number) =>
+    setLoftSections(
+      nodeId,
+      feature.featureId,
+      sections.filter((_, index) => index !== sectionIndex),
+    )
+  const addSection = () => {
+    const last = sections[sections.length - 1]
+    const lastOffset = last === undefined ? 0 : previewNumberExpression(last.offset, expressionScope)
+    setLoftSections(nodeId, feature.featureId, [
+      ...sections,
+      {
+        profileRef: last?.profileRef ?? null,
+        offset: {
+          kind: 'lit',
+          value: lastOffset + NEW_SECTION_SPACING_MM,
+        },
+      },
+    ])
+  }
+
+  return (
+    <div className="SpaghettiFeatureBody" {...SP_INTERACTIVE_PROPS}>
+      {sections.map((section, sectionIndex) => {
+        const selectedSourceFeatureId = section.profileRef?.sourceFeatureId ?? ''
+        const selectedProfileId = section.profileRef?.profileId ?? ''
+        const closeResolvedForSource = closeProfileResolvedByFeatureId.get(selectedSourceFeatureId)
+        const profileOptions =
+          selectedSourceFeatureId.length === 0
+            ? []
+            : getProfilesForSketch(
+                closeResolvedForSource?.sourceFeatureId ?? selectedSourceFeatureId,
+              ).filter(
+                (profile) =>
+                  closeResolvedForSource === undefined ||
+                  profile.profileId === closeResolvedForSource.profileId,
+              )
+        const offsetValue = previewNumberExpression(section.offset, expressionScope)
+        return (
+          <div key={sectionIndex} className="SpaghettiLoftSection">
+            <div className="SpaghettiFeatureSectionHeader">
+              <span>Section {sectionIndex + 1}</span>
+              <button
+                type="button"
+                {...SP_INTERACTIVE_PROPS}
+                disabled={sections.length <= MIN_LOFT_SECTIONS}
+                onClick={() => removeSection(sectionIndex)}
+              >
+                Remove
+              </button>
+            </div>
+            <label className="SpaghettiFeatureSelectRow" {...SP_INTERACTIVE_PROPS}>
+              <span>Source</span>
+              <select
+                {...SP_INTERACTIVE_PROPS}
+                value={selectedSourceFeatureId}
+                onChange={(event) => {
+                  const sourceFeatureId = event.target.value
+                  if (sourceFeatureId.length === 0) {
+                    setSectionProfileRef(sectionIndex, null)
+                    return
+                  }
+                  const closeResolved = closeProfileResolvedByFeatureId.get(sourceFeatureId)
+                  if (closeResolved !== undefined) {
+                    setSectionProfileRef(sectionIndex, {
+                      sourceFeatureId,
+                      profileId: closeResolved.profileId,
+                      profileIndex: closeResolved.profileIndex,
+                    })
+                    return
+                  }
+                  const firstProfile = getProfilesForSketch(sourceFeatureId)[0]
+                  setSectionProfileRef(
+                    sectionIndex,
+                    firstProfile === undefined
+                      ? null
+                      : {
+                          sourceFeatureId,
+                          profileId: firstProfile.profileId,
+                          profileIndex: 0,
+                        },
+                  )
+                }}
+              >
+                <option value="">None</option>
+                {priorCloseProfiles.map((closeProfile) => (
+                  <option key={closeProfile.featureId} value={closeProfile.featureId}>
+                    Close {closeProfile.featureId.slice(0, 8)}
+                  </option>
+                ))}
+                {priorSketches.map((sketch) => (
+                  <option key={sketch.featureId} value={sketch.featureId}>
+                    Sketch {sketch.featureId.slice(0, 8)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="SpaghettiFeatureSelectRow" {...SP_INTERACTIVE_PROPS}>
+              <span>Profile</span>
+              <select
+                {...SP_INTERACTIVE_PROPS}
+                value={selectedProfileId}
+                onChange={(event) => {
+                  const profileId = event.target.value
+                  if (selectedSourceFeatureId.length === 0 || profileId.length === 0) {
+                    setSectionProfileRef(sectionIndex, null)
+                    return
+                  }
+                  setSectionProfileRef(sectionIndex, {
+                    sourceFeatureId: selectedSourceFeatureId,
+                    profileId: closeResolvedForSource?.profileId ?? profileId,
+                    profileIndex: closeResolvedForSource?.profileIndex ?? 0,
+                  })
+                }}
+                disabled={selectedSourceFeatureId.length === 0 || profileOptions.length === 0}
+              >
+                <option value="">None</option>
+                {profileOptions.map((profile) => (
+                  <option key={profile.profileId} value={profile.profileId}>
+                    {profile.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <FeatureValueBar
+              label="mm"
+              value={offsetValue}
+              min={-500}
+              max={500}
+              step={0.1}
+              onChange={(value) =>
+                setSectionOffset(sectionIndex, {
+                  kind: 'lit',
+                  value,
+                })
+              }
+            />
+            <FeatureExpressionInput
+              expression={section.offset}
+              scope={expressionScope}
+              onCommit={(expression) => setSectionOffset(sectionIndex, expression)}
+            />
+          </div>
+        )
+      })}
+
+      <button type="button" {...SP_INTERACTIVE_PROPS} onClick={addSection}>
+        + Section
+      </button>
+      <div className="fsPrev_extrudeSummary">
+        Sections are skinned in offset order along the sketch normal and must share one sketch
+        plane.
+      </div>
+    </div>
+  )
+}
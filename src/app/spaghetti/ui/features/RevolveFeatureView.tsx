@@ -0,0 +1,306 @@
+import { previewNumberExpression, type ExpressionScope } from '../../features/expressions'
+import type { FeatureStack, RevolveAxis, RevolveFeature } from '../../features/featureTypes'
+import { buildRevolveAngleVirtualInputPortId } from '../../features/featureVirtualPorts'
+import type { PortSpec } from '../../schema/spaghettiTypes'
+import { useSpaghettiStore } from '../../store/useSpaghettiStore'
+import { SP_INTERACTIVE_PROPS } from '../../spInteractive'
+import { FeatureValueBar } from './FeatureValueBar'
+import { FeatureExpressionInput } from './FeatureExpressionInput'
+import { PortView } from '../../canvas/PortView'
+import type { FeatureInputWiringBridge } from './ExtrudeFeatureView'
+import {
+  formatStableNumber,
+  labelProfilesForPreview,
+  type PreviewProfileWithLabel,
+} from './profilePreview'
+
+type RevolveFeatureViewProps = {
+  nodeId: string
+  feature: RevolveFeature
+  stack: FeatureStack
+  featureIndex: number
+  previewProfilesBySketchId: ReadonlyMap<string, PreviewProfileWithLabel[]>
+  closeProfileResolvedByFeatureId: ReadonlyMap<
+    string,
+    { sourceFeatureId: string; profileId: string; profileIndex: number }
+  >
+  angleVirtualInputPort?: PortSpec
+  angleVirtualInputState?: {
+    driven: boolean
+    connectionCount: number
+    unresolved: boolean
+    drivenValue?: number
+  }
+  featureInputWiring?: FeatureInputWiringBridge
+  expressionScope: ExpressionScope
+}
+
+const shortId = (id: string): string => id.slice(0, 8)
+
+const SKETCH_AXIS_X = 'axis:x'
+const SKETCH_AXIS_Y = 'axis:y'
+const SKETCH_LINE_PREFIX = 'line:'
+
+const axisToOptionValue = (axis: RevolveAxis): string =>
+  axis.kind === 'sketchAxis'
+    ? axis.axis === 'x'
+      ? SKETCH_AXIS_X
+      : SKETCH_AXIS_Y
+    : `${SKETCH_LINE_PREFIX}${axis.componentId}`
+
+const optionValueToAxis = (value: string): RevolveAxis =>
+  value.startsWith(SKETCH_LINE_PREFIX)
+    ? { kind: 'sketchLine', componentId: value.slice(SKETCH_LINE_PREFIX.length) }
+    : { kind: 'sketchAxis', axis: value === SKETCH_AXIS_X ? 'x' : 'y' }
+
+export function RevolveFeatureView({
+  nodeId,
+  feature,
+  stack,
+  featureIndex,
+  previewProfilesBySketchId,
+  closeProfileResolvedByFeatureId,
+  angleVirtualInputPort,
+  angleVirtualInputState,
+  featureInputWiring,
+  expressionScope,
+}: RevolveFeatureViewProps) {
+  const setRevolveAngle = useSpaghettiStore((state) => state.setRevolveAngle)
+  const setRevolveAxis = useSpaghettiStore((state) => state.setRevolveAxis)
+  const setRevolveProfileRef = useSpaghettiStore((state) => state.setRevolveProfileRef)
+
+  const priorSketches = stack
+    .slice(0, featureIndex)
+    .filter((item): item is FeatureStack[number] & { type: 'sketch' } => item.type === 'sketch')
+  const priorCloseProfiles = stack
+    .slice(0, featureIndex)
+    .filter((item): item is FeatureStack[number] & { type: 'closeProfile' } => item.type === 'closeProfile')
+
+  const selectedSourceFeatureId = feature.inputs.profileRef?.sourceFeatureId ?? ''
+  const selectedProfileId = feature.inputs.profileRef?.profileId ?? ''
+  const closeResolvedForSource = closeProfileResolvedByFeatureId.get(selectedSourceFeatureId)
+  const profileSketchId = closeResolvedForSource?.sourceFeatureId ?? selectedSourceFeatureId
+
+  const getProfilesForSketch = (sourceFeatureId: string): PreviewProfileWithLabel[] => {
+    const resolved = previewProfilesBySketchId.get(sourceFeatureId)
+    if (resolved !== undefined) return resolved
+    const sourceSketch = priorSketches.find((candidate) => candidate.featureId === sourceFeatureId)
+    if (sourceSketch === undefined) return []
+    return labelProfilesForPreview(
+      sourceSketch.outputs.profiles.map((profile) => ({
+        profileId: profile.profileId,
+        area: profile.area,
+        vertices: profile.verticesProxy,
+      })),
+    )
+  }
+
+  const profileOptions =
+    selectedSourceFeatureId.length === 0
+      ? []
+      : getProfilesForSketch(profileSketchId).filter(
+          (profile) =>
+            closeResolvedForSource === undefined ||
+            profile.profileId === closeResolvedForSource.profileId,
+        )
+  const selectedProfile = profileOptions.find((profile) => profile.profileId === selectedProfileId)
+  const profileSummary =
+    selectedProfile === undefined || selectedSourceFeatureId.length === 0
+      ? '-'
+      : `${shortId(selectedSourceFeatureId)}/${selectedProfile.label}`
+  const axisLines = (
+    priorSketches.find((candidate) => candidate.featureId === profileSketchId)?.components ?? []
+  ).filter((component) => component.type === 'line')
+  const axisValue = axisToOptionValue(feature.inputs.axis)
+  const axisLineMissing =
+    feature.inputs.axis.kind === 'sketchLine' &&
+    !axisLines.some((line) => `${SKETCH_LINE_PREFIX}${line.componentId}` === axisValue)
+
+  const anglePortId = buildRevolveAngleVirtualInputPortId(feature.featureId)
+  const angleDriven =
+    angleVirtualInputState?.driven === true && angleVirtualInputState.connectionCount > 0
+  const angleUnresolved = angleVirtualInputState?.unresolved === true
+  const angleValue =
+    angleDriven && typeof angleVirtualInputState?.drivenValue === 'number'
+      ? angleVirtualInputState.drivenValue
+      : previewNumberExpression(feature.params.angle, expressionScope)
+
+  return (
+    <div className="SpaghettiFeatureBody" {...SP_INTERACTIVE_PROPS}>
+      {featureInputWiring !== undefined && angleVirtualInputPort !== undefined ? (
+        <>
+          <div className="SpaghettiFeatureSectionHeader">
+            <span>Feature Wire Inputs</span>
+          </div>
+          <div className="SpaghettiFeatureDepthWireInput" data-sp-feature-angle-port-id={anglePortId}>
+            <PortView
+              nodeId={nodeId}
+              direction="in"
+              endpointPortId={anglePortId}
+              port={angleVirtualInputPort}
+              labelOverride="Angle Input"
+              dropState={featureInputWiring.getInputDropState({
+                nodeId,
+                portId: anglePortId,
+              })}
+              setPortElement={(element) =>
+                featureInputWiring.onRegisterPortElement(
+                  nodeId,
+                  'in',
+                  anglePortId,
+                  undefined,
+                  element,
+                )
+              }
+              onInputPointerDown={featureInputWiring.onInputPointerDown}
+              onInputPointerEnter={featureInputWiring.onInputPointerEnter}
+              onInputPointerLeave={featureInputWiring.onInputPointerLeave}
+              resolvedValueLabel={
+                angleDriven && !angleUnresolved
+                  ? `${formatStableNumber(angleValue)} deg`
+                  : undefined
+              }
+              drivenMessage={
+                !angleDriven
+                  ? undefined
+                  : angleUnresolved
+                    ? 'Driven by external wire (unresolved).'
+                    : 'Driven by external wire.'
+              }
+            />
+          </div>
+        </>
+      ) : null}
+
+      <div className="SpaghettiFeatureSectionHeader">
+        <span>Angle</span>
+      </div>
+      <FeatureValueBar
+        label="deg"
+        value={angleValue}
+        min={0}
+        max={360}
+        step={1}
+        disabled={angleDriven}
+        onChange={(value) =>
+          setRevolveAngle(nodeId, feature.featureId, {
+            kind: 'lit',
+            value,
+          })
+        }
+      />
+      <FeatureExpressionInput
+        expression={feature.params.angle}
+        scope={expressionScope}
+        disabled={angleDriven}
+        onCommit={(expression) => setRevolveAngle(nodeId, feature.featureId, expression)}
+      />
+
+      <div className="fsPrev_extrudeSummary">
+        Profile: {profileSummary}, Angle: {formatStableNumber(angleValue)}
+      </div>
+
+      <div className="SpaghettiFeatureSectionHeader">
+        <span>Profile Source</span>
+      </div>
+      <label className="SpaghettiFeatureSelectRow" {...SP_INTERACTIVE_PROPS}>
+        <span>Source</span>
+        <select
+          {...SP_INTERACTIVE_PROPS}
+          value={selectedSourceFeatureId}
+          onChange={(event) => {
+            const sourceFeatureId = event.target.value
+            if (sourceFeatureId.length === 0) {
+              setRevolveProfileRef(nodeId, feature.featureId, null)
+              return
+            }
+            const closeResolved = closeProfileResolvedByFeatureId.get(sourceFeatureId)
+            if (closeResolved !== undefined) {
+              setRevolveProfileRef(nodeId, feature.featureId, {
+                sourceFeatureId,
+                profileId: closeResolved.profileId,
+                profileIndex: closeResolved.profileIndex,
+              })
+              return
+            }
+            const firstProfile = getProfilesForSketch(sourceFeatureId)[0]
+            setRevolveProfileRef(
+              nodeId,
+              feature.featureId,
+              firstProfile === undefined
+                ? null
+                : {
+                    sourceFeatureId,
+                    profileId: firstProfile.profileId,
+                    profileIndex: 0,
+                  },
+            )
+          }}
+        >
+          <option value="">None</option>
+          {priorCloseProfiles.map((closeProfile) => (
+            <option key={closeProfile.featureId} value={closeProfile.featureId}>
+              Close {closeProfile.featureId.slice(0, 8)}
+            </option>
+          ))}
+          {priorSketches.map((sketch) => (
+            <option key={sketch.featureId} value={sketch.featureId}>
+              Sketch {sketch.featureId.slice(0, 8)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="SpaghettiFeatureSelectRow" {...SP_INTERACTIVE_PROPS}>
+        <span>Profile</span>
+        <select
+          {...SP_INTERACTIVE_PROPS}
+          value={selectedProfileId}
+          onChange={(event) => {
+            const profileId = event.target.value
+            if (selectedSourceFeatureId.length === 0 || profileId.length === 0) {
+              setRevolveProfileRef(nodeId, feature.featureId, null)
+              return
+            }
+            setRevolveProfileRef(nodeId, feature.featureId, {
+              sourceFeatureId: selectedSourceFeatureId,
+              profileId: closeResolvedForSource?.profileId ?? profileId,
+              profileIndex: closeResolvedForSource?.profileIndex ?? 0,
+            })
+          }}
+          disabled={selectedSourceFeatureId.length === 0 || profileOptions.length === 0}
+        >
+          <option value="">None</option>
+          {profileOptions.map((profile) => (
+            <option key={profile.profileId} value={profile.profileId}>
+              {profile.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="SpaghettiFeatureSectionHeader">
+        <span>Axis</span>
+      </div>
+      <label className="SpaghettiFeatureSelectRow" {...SP_INTERACTIVE_PROPS}>
+        <span>Axis</span>
+        <select
+          {...SP_INTERACTIVE_PROPS}
+          value={axisValue}
+          onChange={(event) =>
+            setRevolveAxis(nodeId, feature.featureId, optionValueToAxis(event.target.value))
+          }
+        >
+          <option value={SKETCH_AXIS_X}>Sketch X</option>
+          <option value={SKETCH_AXIS_Y}>Sketch Y</option>
+          {axisLines.map((line) => (
+            <option key={line.componentId} value={`${SKETCH_LINE_PREFIX}${line.componentId}`}>
+              Line {line.componentId.slice(0, 8)}
+            </option>
+          ))}
+          {axisLineMissing ? <option value={axisValue}>Missing line</option> : null}
+        </select>
+      </label>
+    </div>
+  )
+}
@@ -1,4 +1,9 @@
-import type { SketchComponent, SketchFeature } from '../../features/featureTypes'
+import {
+  resolveVec2Expression,
+  type ExpressionScope,
+  type Vec2Expression,
+} from '../../features/expressions'
+import type { SketchComponent, SketchFeature, SketchPlane } from '../../features/featureTypes'
 import type { PortSpec } from '../../schema/spaghettiTypes'
 import { useSpaghettiStore } from '../../store/useSpaghettiStore'
 import { SP_INTERACTIVE_PROPS } from '../../spInteractive'
@@ -32,6 +37,7 @@ type SketchFeatureViewProps = {
     drivenValue?: number
   }
   featureInputWiring?: FeatureInputWiringBridge
+  expressionScope: ExpressionScope
 }
 
 const POINT_KEYS_BY_COMPONENT: Record<
@@ -43,6 +49,12 @@ const POINT_KEYS_BY_COMPONENT: Record<
   arc3pt: ['start', 'mid', 'end'],
 }
 
+const SKETCH_PLANE_OPTIONS: ReadonlyArray<{ plane: SketchPlane; label: string }> = [
+  { plane: 'XY', label: 'XY (extrude +Z)' },
+  { plane: 'YZ', label: 'YZ (extrude +X)' },
+  { plane: 'XZ', label: 'XZ (extrude -Y)' },
+]
+
 const componentTitle = (component: SketchComponent): string => {
   if (component.type === 'line') return 'Line'
   if (component.type === 'spline') return 'Spline'
@@ -55,8 +67,8 @@ const isCubeSeedRectangleSketch = (feature: SketchFeature): boolean =>
   feature.components.every((component) => component.type === 'line')
 
 const readRectangleDimensions = (feature: SketchFeature): { width: number; length: number } => {
-  const length = feature.components[0]?.type === 'line' ? feature.components[0].b.x : 0
-  const width = feature.components[1]?.type === 'line' ? feature.components[1].b.y : 0
+  const length = feature.components[0]?.type === 'line' ? resolveVec2Expression(feature.components[0].b).x : 0
+  const width = feature.components[1]?.type === 'line' ? resolveVec2Expression(feature.components[1].b).y : 0
   return { width, length }
 }
 
@@ -71,6 +83,7 @@ export function SketchFeatureView({
   lengthVirtualInputPort,
   lengthVirtualInputState,
   featureInputWiring,
+  expressionScope,
 }: SketchFeatureViewProps) {
   const addSketchComponent = useSpaghettiStore((state) => state.addSketchComponent)
   const updateSketchComponentPoint = useSpaghettiStore((state) => state.updateSketchComponentPoint)
@@ -78,6 +91,7 @@ export function SketchFeatureView({
   const moveSketchComponentDown = useSpaghettiStore((state) => state.moveSketchComponentDown)
   const removeSketchComponent = useSpaghettiStore((state) => state.removeSketchComponent)
   const setSketchRectangleDimensions = useSpaghettiStore((state) => state.setSketchRectangleDimensions)
+  const setSketchPlane = useSpaghettiStore((state) => state.setSketchPlane)
   const isRectangleSketch = isCubeSeedRectangleSketch(feature)
   const rectangleDimensions = readRectangleDimensions(feature)
   const widthDriven = widthVirtualInputState?.driven === true && widthVirtualInputState.connectionCount > 0
@@ -101,7 +115,15 @@ export function SketchFeatureView({
     if (!(pointKey in component)) {
       return null
     }
-    const point = (component as Record<string, unknown>)[pointKey] as { x: number; y: number }
+    const resolvedPoint = resolveVec2Expression(
+      (component as Record<string, unknown>)[pointKey] as Vec2Expression,
+      expressionScope,
+    )
+    // Editing either coordinate of a formula point stores its current value as a literal.
+    const point = {
+      x: Number.isFinite(resolvedPoint.x) ? resolvedPoint.x : 0,
+      y: Number.isFinite(resolvedPoint.y) ? resolvedPoint.y : 0,
+    }
     return (
       <div key={pointKey} className="SpaghettiFeatureEndpoint">
         <span>{pointKey.toUpperCase()}</span>
@@ -192,6 +214,25 @@ export function SketchFeatureView({
 
   return (
     <div className="SpaghettiFeatureBody" {...SP_INTERACTIVE_PROPS}>
+      <div className="SpaghettiFeatureSectionHeader">
+        <span>Sketch Plane</span>
+      </div>
+      <label className="SpaghettiFeatureSelectRow" {...SP_INTERACTIVE_PROPS}>
+        <span>Plane</span>
+        <select
+          {...SP_INTERACTIVE_PROPS}
+          value={feature.plane}
+          onChange={(event) =>
+            setSketchPlane(nodeId, feature.featureId, event.target.value as SketchPlane)
+          }
+        >
+          {SKETCH_PLANE_OPTIONS.map((option) => (
+            <option key={option.plane} value={option.plane}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
       {isRectangleSketch ? (
         <>
           {featureInputWiring !== undefined ? (
@@ -322,7 +363,9 @@ export function SketchFeatureView({
       )}
 
       <div className="SpaghettiFeatureSectionHeader">
-        <span>Sketch: {previewProfiles.length} profiles</span>
+        <span>
+          Sketch ({feature.plane}): {previewProfiles.length} profiles
+        </span>
       </div>
       {(feature.outputs.diagnostics ?? []).length > 0 ? (
         <div className="SpaghettiFeatureDiagList">
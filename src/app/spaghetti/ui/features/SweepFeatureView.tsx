@@ -0,0 +1,366 @@
+import { previewNumberExpression, type ExpressionScope } from '../../features/expressions'
+import type { FeatureStack, SweepFeature, SweepPath } from '../../features/featureTypes'
+import {
+  buildSweepPath2VirtualInputPortId,
+  buildSweepPath3VirtualInputPortId,
+} from '../../features/featureVirtualPorts'
+import type { PortSpec } from '../../schema/spaghettiTypes'
+import { useSpaghettiStore } from '../../store/useSpaghettiStore'
+import { SP_INTERACTIVE_PROPS } from '../../spInteractive'
+import { FeatureValueBar } from './FeatureValueBar'
+import { FeatureExpressionInput } from './FeatureExpressionInput'
+import { PortView } from '../../canvas/PortView'
+import type { FeatureInputWiringBridge } from './ExtrudeFeatureView'
+import {
+  formatStableNumber,
+  labelProfilesForPreview,
+  type PreviewProfileWithLabel,
+} from './profilePreview'
+
+type VirtualInputState = {
+  driven: boolean
+  connectionCount: number
+  unresolved: boolean
+}
+
+type SweepFeatureViewProps = {
+  nodeId: string
+  feature: SweepFeature
+  stack: FeatureStack
+  featureIndex: number
+  previewProfilesBySketchId: ReadonlyMap<string, PreviewProfileWithLabel[]>
+  closeProfileResolvedByFeatureId: ReadonlyMap<
+    string,
+    { sourceFeatureId: string; profileId: string; profileIndex: number }
+  >
+  path2VirtualInputPort?: PortSpec
+  path2VirtualInputState?: VirtualInputState
+  path3VirtualInputPort?: PortSpec
+  path3VirtualInputState?: VirtualInputState
+  featureInputWiring?: FeatureInputWiringBridge
+  expressionScope: ExpressionScope
+}
+
+const shortId = (id: string): string => id.slice(0, 8)
+
+const WIRED_PATH = 'wired'
+const COMPONENT_PATH_PREFIX = 'component:'
+
+const pathToOptionValue = (path: SweepPath | null): string =>
+  path === null
+    ? ''
+    : path.kind === 'spline'
+      ? WIRED_PATH
+      : `${COMPONENT_PATH_PREFIX}${path.sourceFeatureId}:${path.componentId}`
+
+// Choosing the wired option stores an empty spline; the Path Input ports fill it in when wired.
+const optionValueToPath = (value: string): SweepPath | null => {
+  if (value === WIRED_PATH) {
+    return { kind: 'spline', points: [], closed: false }
+  }
+  if (!value.startsWith(COMPONENT_PATH_PREFIX)) {
+    return null
+  }
+  const [sourceFeatureId, componentId] = value.slice(COMPONENT_PATH_PREFIX.length).split(':')
+  return sourceFeatureId === undefined || componentId === undefined
+    ? null
+    : { kind: 'sketchComponent', sourceFeatureId, componentId }
+}
+
+const COMPONENT_LABELS = {
+  line: 'Line',
+  arc3pt: 'Arc',
+  spline: 'Spline',
+} as const
+
+export function SweepFeatureView({
+  nodeId,
+  feature,
+  stack,
+  featureIndex,
+  previewProfilesBySketchId,
+  closeProfileResolvedByFeatureId,
+  path2VirtualInputPort,
+  path2VirtualInputState,
+  path3VirtualInputPort,
+  path3VirtualInputState,
+  featureInputWiring,
+  expressionScope,
+}: SweepFeatureViewProps) {
+  const setSweepProfileRef = useSpaghettiStore((state) => state.setSweepProfileRef)
+  const setSweepPath = useSpaghettiStore((state) => state.setSweepPath)
+  const setSweepTwist = useSpaghettiStore((state) => state.setSweepTwist)
+  const setSweepScale = useSpaghettiStore((state) => state.setSweepScale)
+
+  const priorSketches = stack
+    .slice(0, featureIndex)
+    .filter((item): item is FeatureStack[number] & { type: 'sketch' } => item.type === 'sketch')
+  const priorCloseProfiles = stack
+    .slice(0, featureIndex)
+    .filter((item): item is FeatureStack[number] & { type: 'closeProfile' } => item.type === 'closeProfile')
+
+  const selectedSourceFeatureId = feature.inputs.profileRef?.sourceFeatureId ?? ''
+  const selectedProfileId = feature.inputs.profileRef?.profileId ?? ''
+  const closeResolvedForSource = closeProfileResolvedByFeatureId.get(selectedSourceFeatureId)
+  const profileSketchId = closeResolvedForSource?.sourceFeatureId ?? selectedSourceFeatureId
+
+  const getProfilesForSketch = (sourceFeatureId: string): PreviewProfileWithLabel[] => {
+    const resolved = previewProfilesBySketchId.get(sourceFeatureId)
+    if (resolved !== undefined) return resolved
+    const sourceSketch = priorSketches.find((candidate) => candidate.featureId === sourceFeatureId)
+    if (sourceSketch === undefined) return []
+    return labelProfilesForPreview(
+      sourceSketch.outputs.profiles.map((profile) => ({
+        profileId: profile.profileId,
+        area: profile.area,
+        vertices: profile.verticesProxy,
+      })),
+    )
+  }
+
+  const profileOptions =
+    selectedSourceFeatureId.length === 0
+      ? []
+      : getProfilesForSketch(profileSketchId).filter(
+          (profile) =>
+            closeResolvedForSource === undefined ||
+            profile.profileId === closeResolvedForSource.profileId,
+        )
+  const selectedProfile = profileOptions.find((profile) => profile.profileId === selectedProfileId)
+  const profileSummary =
+    selectedProfile === undefined || selectedSourceFeatureId.length === 0
+      ? '-'
+      : `${shortId(selectedSourceFeatureId)}/${selectedProfile.label}`
+
+  const pathOptions = priorSketches.flatMap((sketch) =>
+    sketch.components.map((component) => ({
+      value: `${COMPONENT_PATH_PREFIX}${sketch.featureId}:${component.componentId}`,
+      label: `Sketch ${shortId(sketch.featureId)} / ${COMPONENT_LABELS[component.type]} ${shortId(
+        component.componentId,
+      )}`,
+    })),
+  )
+  const pathValue = pathToOptionValue(feature.inputs.path)
+  const pathMissing =
+    feature.inputs.path?.kind === 'sketchComponent' &&
+    !pathOptions.some((option) => option.value === pathValue)
+
+  const twistValue = previewNumberExpression(feature.params.twist, expressionScope)
+  const scaleValue =
+    feature.params.scale === undefined
+      ? 1
+      : previewNumberExpression(feature.params.scale, expressionScope)
+
+  const renderVirtualInputRow = (
+    label: string,
+    portId: string,
+    port: PortSpec | undefined,
+    state: VirtualInputState | undefined,
+  ) => {
+    if (port === undefined || featureInputWiring === undefined) return null
+    const driven = state?.driven === true && state.connectionCount > 0
+    return (
+      <div className="SpaghettiFeatureDepthWireInput" data-sp-feature-path-port-id={portId}>
+        <PortView
+          nodeId={nodeId}
+          direction="in"
+          endpointPortId={portId}
+          port={port}
+          labelOverride={label}
+          dropState={featureInputWiring.getInputDropState({
+            nodeId,
+            portId,
+          })}
+          setPortElement={(element) =>
+            featureInputWiring.onRegisterPortElement(nodeId, 'in', portId, undefined, element)
+          }
+          onInputPointerDown={featureInputWiring.onInputPointerDown}
+          onInputPointerEnter={featureInputWiring.onInputPointerEnter}
+          onInputPointerLeave={featureInputWiring.onInputPointerLeave}
+          drivenMessage={
+            !driven
+              ? undefined
+              : state?.unresolved === true
+                ? 'Driven by external wire (unresolved).'
+                : 'Driven by external wire.'
+          }
+        />
+      </div>
+    )
+  }
+
+  return (
+    <div className="SpaghettiFeatureBody" {...SP_INTERACTIVE_PROPS}>
+      {featureInputWiring !== undefined ? (
+        <>
+          <div className="SpaghettiFeatureSectionHeader">
+            <span>Feature Wire Inputs</span>
+          </div>
+          {renderVirtualInputRow(
+            'Path Input (2D)',
+            buildSweepPath2VirtualInputPortId(feature.featureId),
+            path2VirtualInputPort,
+            path2VirtualInputState,
+          )}
+          {renderVirtualInputRow(
+            'Path Input (3D)',
+            buildSweepPath3VirtualInputPortId(feature.featureId),
+            path3VirtualInputPort,
+            path3VirtualInputState,
+          )}
+        </>
+      ) : null}
+
+      <div className="SpaghettiFeatureSectionHeader">
+        <span>Path</span>
+      </div>
+      <label className="SpaghettiFeatureSelectRow" {...SP_INTERACTIVE_PROPS}>
+        <span>Path</span>
+        <select
+          {...SP_INTERACTIVE_PROPS}
+          value={pathValue}
+          onChange={(event) =>
+            setSweepPath(nodeId, feature.featureId, optionValueToPath(event.target.value))
+          }
+        >
+          <option value="">None</option>
+          <option value={WIRED_PATH}>Wired spline input</option>
+          {pathOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+          {pathMissing ? <option value={pathValue}>Missing component</option> : null}
+        </select>
+      </label>
+
+      <div className="SpaghettiFeatureSectionHeader">
+        <span>Twist</span>
+      </div>
+      <FeatureValueBar
+        label="deg"
+        value={twistValue}
+        min={-720}
+        max={720}
+        step={1}
+        onChange={(value) =>
+          setSweepTwist(nodeId, feature.featureId, {
+            kind: 'lit',
+            value,
+          })
+        }
+      />
+      <FeatureExpressionInput
+        expression={feature.params.twist ?? { kind: 'lit', value: 0 }}
+        scope={expressionScope}
+        onCommit={(expression) => setSweepTwist(nodeId, feature.featureId, expression)}
+      />
+
+      <div className="SpaghettiFeatureSectionHeader">
+        <span>End Scale</span>
+      </div>
+      <FeatureValueBar
+        label="x"
+        value={scaleValue}
+        min={0.05}
+        max={5}
+        step={0.05}
+        onChange={(value) =>
+          setSweepScale(nodeId, feature.featureId, {
+            kind: 'lit',
+            value,
+          })
+        }
+      />
+      <FeatureExpressionInput
+        expression={feature.params.scale ?? { kind: 'lit', value: 1 }}
+        scope={expressionScope}
+        onCommit={(expression) => setSweepScale(nodeId, feature.featureId, expression)}
+      />
+
+      <div className="fsPrev_extrudeSummary">
+        Profile: {profileSummary}, Twist: {formatStableNumber(twistValue)}, Scale:{' '}
+        {formatStableNumber(scaleValue)}
+      </div>
+
+      <div className="SpaghettiFeatureSectionHeader">
+        <span>Profile Source</span>
+      </div>
+      <label className="SpaghettiFeatureSelectRow" {...SP_INTERACTIVE_PROPS}>
+        <span>Source</span>
+        <select
+          {...SP_INTERACTIVE_PROPS}
+          value={selectedSourceFeatureId}
+          onChange={(event) => {
+            const sourceFeatureId = event.target.value
+            if (sourceFeatureId.length === 0) {
+              setSweepProfileRef(nodeId, feature.featureId, null)
+              return
+            }
+            const closeResolved = closeProfileResolvedByFeatureId.get(sourceFeatureId)
+            if (closeResolved !== undefined) {
+              setSweepProfileRef(nodeId, feature.featureId, {
+                sourceFeatureId,
+                profileId: closeResolved.profileId,
+                profileIndex: closeResolved.profileIndex,
+              })
+              return
+            }
+            const firstProfile = getProfilesForSketch(sourceFeatureId)[0]
+            setSweepProfileRef(
+              nodeId,
+              feature.featureId,
+              firstProfile === undefined
+                ? null
+                : {
+                    sourceFeatureId,
+                    profileId: firstProfile.profileId,
+                    profileIndex: 0,
+                  },
+            )
+          }}
+        >
+          <option value="">None</option>
+          {priorCloseProfiles.map((closeProfile) => (
+            <option key={closeProfile.featureId} value={closeProfile.featureId}>
+              Close {closeProfile.featureId.slice(0, 8)}
+            </option>
+          ))}
+          {priorSketches.map((sketch) => (
+            <option key={sketch.featureId} value={sketch.featureId}>
+              Sketch {sketch.featureId.slice(0, 8)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="SpaghettiFeatureSelectRow" {...SP_INTERACTIVE_PROPS}>
+        <span>Profile</span>
+        <select
+          {...SP_INTERACTIVE_PROPS}
+          value={selectedProfileId}
+          onChange={(event) => {
+            const profileId = event.target.value
+            if (selectedSourceFeatureId.length === 0 || profileId.length === 0) {
+              setSweepProfileRef(nodeId, feature.featureId, null)
+              return
+            }
+            setSweepProfileRef(nodeId, feature.featureId, {
+              sourceFeatureId: selectedSourceFeatureId,
+              profileId: closeResolvedForSource?.profileId ?? profileId,
+              profileIndex: closeResolvedForSource?.profileIndex ?? 0,
+            })
+          }}
+          disabled={selectedSourceFeatureId.length === 0 || profileOptions.length === 0}
+        >
+          <option value="">None</option>
+          {profileOptions.map((profile) => (
+            <option key={profile.profileId} value={profile.profileId}>
+              {profile.label}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  )
+}
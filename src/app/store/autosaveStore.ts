@@ -0,0 +1,59 @@
+import { create } from 'zustand'
+import type { AutosaveSnapshot } from '../spaghetti/project/autosave'
+import { parseSpaghettiProject } from '../spaghetti/project/projectFile'
+import { useAppStore } from './useAppStore'
+
+export type AutosaveStatus = 'unavailable' | 'idle' | 'saved' | 'error'
+
+type AutosaveState = {
+  status: AutosaveStatus
+  lastSavedAt: number | null
+  lastError: string | null
+  // Snapshots of earlier sessions offered on boot, newest first. Empty once restored or dismissed.
+  restoreCandidates: AutosaveSnapshot[]
+  setStatus: (status: AutosaveStatus) => void
+  markSaved: (savedAt: number) => void
+  markError: (message: string) => void
+  offerRestore: (candidates: AutosaveSnapshot[]) => void
+  dismissRestore: () => void
+  restoreSnapshot: (snapshotId: string) => boolean
+}
+
+export const useAutosaveStore = create<AutosaveState>((set, get) => ({
+  status: 'idle',
+  lastSavedAt: null,
+  lastError: null,
+  restoreCandidates: [],
+  setStatus: (status) => {
+    set({ status })
+  },
+  markSaved: (savedAt) => {
+    set({ status: 'saved', lastSavedAt: savedAt, lastError: null })
+  },
+  markError: (message) => {
+    set({ status: 'error', lastError: message })
+  },
+  offerRestore: (candidates) => {
+    set({ restoreCandidates: candidates })
+  },
+  dismissRestore: () => {
+    set({ restoreCandidates: [] })
+  },
+  restoreSnapshot: (snapshotId) => {
+    const snapshot = get().restoreCandidates.find((candidate) => candidate.id === snapshotId)
+    if (snapshot === undefined) {
+      return false
+    }
+    // Snapshots may predate the current schema: migrate and validate like a project file.
+    // loadSpaghettiProject commits through setGraph, which runs normalizeGraphForStoreCommit to
+    // repair stale graphs (missing OutputPreview, slots, positions).
+    const parsed = parseSpaghettiProject(snapshot.project)
+    if (!parsed.ok) {
+      set({ lastError: `Could not restore snapshot: ${parsed.error}` })
+      return false
+    }
+    useAppStore.getState().loadSpaghettiProject(parsed.project)
+    set({ restoreCandidates: [], lastError: null })
+    return true
+  },
+}))
@@ -1,7 +1,12 @@
 import { create } from 'zustand'
-import type { BuildProgress, BuildProgressState } from '../../shared/buildTypes'
+import type {
+  BuildPhase,
+  BuildProgress,
+  BuildProgressState,
+  GeometryCacheCounts,
+} from '../../shared/buildTypes'
 
-export type OverallBuildState = 'idle' | 'building' | 'assembling' | 'error'
+export type OverallBuildState = 'idle' | 'building' | 'assembling' | 'exporting' | 'error'
 
 type PartStats = {
   state: BuildProgressState
@@ -14,13 +19,17 @@ type PartStats = {
 type BuildStatsState = {
   statsExpanded: boolean
   activeSeq: number | null
+  // Phase of the active seq's rows: part builds, the assemble pass or an export.
+  activePhase: BuildPhase | null
   overallState: OverallBuildState
   partOrder: string[]
   partStatsByKey: Record<string, PartStats>
+  // Latest worker geometry cache counts reported for the active seq.
+  cacheCounts: GeometryCacheCounts | null
   pulseNonce: number
   pulseKind: 'cache_hit' | null
   toggleStatsExpanded: () => void
-  resetStatsForSeq: (seq: number, partKeys: string[]) => void
+  resetStatsForSeq: (seq: number, partKeys: string[], phase?: BuildPhase) => void
   applyProgress: (message: BuildProgress) => void
   setOverallState: (state: OverallBuildState) => void
   triggerCacheHitPulse: () => void
@@ -47,23 +56,27 @@ const clampProgress = (value: number): number => {
 export const useBuildStatsStore = create<BuildStatsState>((set, get) => ({
   statsExpanded: false,
   activeSeq: null,
+  activePhase: null,
   overallState: 'idle',
   partOrder: [],
   partStatsByKey: {},
+  cacheCounts: null,
   pulseNonce: 0,
   pulseKind: null,
   toggleStatsExpanded: () => {
     set((state) => ({ statsExpanded: !state.statsExpanded }))
   },
-  resetStatsForSeq: (seq, partKeys) => {
+  resetStatsForSeq: (seq, partKeys, phase = 'parts') => {
     const nextStats: Record<string, PartStats> = {}
     for (const key of partKeys) {
       nextStats[key] = createPartStats()
     }
     set({
       activeSeq: seq,
+      activePhase: phase,
       partOrder: [...partKeys],
       partStatsByKey: nextStats,
+      cacheCounts: null,
     })
   },
   applyProgress: (message) => {
@@ -93,11 +106,13 @@ export const useBuildStatsStore = create<BuildStatsState>((set, get) => ({
     }
 
     set({
+      activePhase: message.phase,
       partOrder,
       partStatsByKey: {
         ...state.partStatsByKey,
         [message.partKey]: nextStats,
       },
+      ...(message.cache !== undefined ? { cacheCounts: { ...message.cache } } : {}),
     })
   },
   setOverallState: (overallState) => {
@@ -138,7 +153,7 @@ export const selectOverallProgress01 = (state: BuildStatsState): number => {
       continue
     }
 
-    if (stats.state === 'error') {
+    if (stats.state === 'error' || stats.state === 'cancelled') {
       total += 1
     }
   }
@@ -152,7 +167,12 @@ export const selectHasDeterminateProgress = (state: BuildStatsState): boolean =>
     if (part === undefined) {
       return false
     }
-    if (part.state === 'cache_hit' || part.state === 'done' || part.state === 'error') {
+    if (
+      part.state === 'cache_hit' ||
+      part.state === 'done' ||
+      part.state === 'error' ||
+      part.state === 'cancelled'
+    ) {
       return true
     }
     return part.state === 'building' && part.progress01 !== null
@@ -3,11 +3,17 @@ import { buildDispatcher } from '../buildDispatcher'
 import { artifactToPartKeyStr } from '../parts/partKeyResolver'
 import { useSpaghettiStore } from '../spaghetti/store/useSpaghettiStore'
 import type { SpaghettiGraph } from '../spaghetti/schema/spaghettiTypes'
+import {
+  createSpaghettiProject,
+  type SpaghettiProject,
+} from '../spaghetti/project/projectFile'
+import { useUiPrefsStore } from './uiPrefsStore'
 import {
   compileSpaghettiGraph,
   type CompileSpaghettiGraphResult,
 } from '../spaghetti/compiler/compileGraph'
 import { buildRequestFromBuildInputs } from '../spaghetti/integration/buildInputsToRequest'
+import type { TessellationQuality } from '../spaghetti/compiler/runtimeTessellation'
 import type {
   AssembleResult,
   BoxParams,
@@ -51,8 +57,12 @@ export type AppState = {
   setBoxParam: (key: BoxParamKey, value: number) => void
   setInputMode: (mode: InputMode) => void
   setSpaghettiGraph: (graph: SpaghettiGraph) => void
+  getSpaghettiProject: () => SpaghettiProject
+  loadSpaghettiProject: (project: SpaghettiProject) => void
   compileSpaghetti: () => CompileSpaghettiGraphResult
   requestSpaghettiBuild: () => CompileSpaghettiGraphResult
+  // Build payload for an export, compiled at `quality`; null when the graph does not compile.
+  compileExportPayload: (quality: TessellationQuality) => BoxParams | null
   setBuildPolicy: (policy: BuildPolicy) => void
   beginInteraction: () => void
   endInteraction: () => void
@@ -168,6 +178,23 @@ export const useAppStore = create<AppState>((set, get) => ({
       spaghettiLastCompile: null,
     })
   },
+  getSpaghettiProject: () => {
+    const spaghetti = useSpaghettiStore.getState()
+    return createSpaghettiProject(
+      spaghetti.graph,
+      spaghetti.edgeWaypoints,
+      useUiPrefsStore.getState().view,
+    )
+  },
+  loadSpaghettiProject: (project) => {
+    useSpaghettiStore.getState().setGraph(project.graph, project.edgeWaypoints)
+    if (project.view !== undefined) {
+      useUiPrefsStore.getState().setView(project.view)
+    }
+    set({
+      spaghettiLastCompile: null,
+    })
+  },
   compileSpaghetti: () => {
     const graph = useSpaghettiStore.getState().graph
     const compileResult = compileSpaghettiGraph(graph)
@@ -205,6 +232,22 @@ export const useAppStore = create<AppState>((set, get) => ({
     buildDispatcher.requestBuild(payloadWithPatch as BoxParams)
     return compileResult
   },
+  compileExportPayload: (quality) => {
+    const state = get()
+    if (state.inputMode !== 'spaghetti') {
+      return state.box
+    }
+    const compileResult = compileSpaghettiGraph(useSpaghettiStore.getState().graph, {
+      tessellation: quality,
+    })
+    if (!compileResult.ok || compileResult.buildInputs === undefined) {
+      return null
+    }
+    return {
+      ...state.box,
+      ...buildRequestFromBuildInputs(compileResult.buildInputs).profilePatch,
+    } as BoxParams
+  },
   setBuildPolicy: (policy) => {
     set((state) => ({
       buildPolicy: policy,
@@ -244,6 +287,9 @@ export const useAppStore = create<AppState>((set, get) => ({
     set({ viewMode: mode })
   },
   acceptBuildResult: (result) => {
+    if (result.seq > get().lastBuildSeq) {
+      useSpaghettiStore.getState().setRuntimeDiagnostics(result.diagnostics ?? [])
+    }
     set((state) => {
       if (result.seq <= state.lastBuildSeq) {
         return state
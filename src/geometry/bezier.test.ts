@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import {
+  cubicBezierArcLength,
+  cubicBezierControlTurning,
+  cubicBezierDerivative,
+  cubicBezierMaxSecondDerivative,
+  cubicBezierParameterAtLength,
+  cubicBezierSecondDerivative,
+  evaluateCubicBezier,
+  splitCubicBezier,
+  type CubicBezier2,
+} from './bezier'
+
+const line: CubicBezier2 = {
+  p0: { x: 0, y: 0 },
+  p1: { x: 1, y: 0 },
+  p2: { x: 2, y: 0 },
+  p3: { x: 3, y: 0 },
+}
+
+// Standard quarter-circle approximation of radius 10.
+const KAPPA = 0.5522847498
+const quarter: CubicBezier2 = {
+  p0: { x: 10, y: 0 },
+  p1: { x: 10, y: 10 * KAPPA },
+  p2: { x: 10 * KAPPA, y: 10 },
+  p3: { x: 0, y: 10 },
+}
+
+describe('cubic bezier', () => {
+  it('evaluates end points, midpoint and derivatives', () => {
+    expect(evaluateCubicBezier(quarter, 0)).toEqual(quarter.p0)
+    expect(evaluateCubicBezier(quarter, 1)).toEqual(quarter.p3)
+    const mid = evaluateCubicBezier(quarter, 0.5)
+    expect(Math.hypot(mid.x, mid.y)).toBeCloseTo(10, 3)
+    expect(cubicBezierDerivative(quarter, 0)).toEqual({ x: 0, y: 30 * KAPPA })
+    expect(cubicBezierDerivative(line, 0.5)).toEqual({ x: 3, y: 0 })
+
+    const h = 1e-5
+    const ahead = cubicBezierDerivative(quarter, 0.4 + h)
+    const behind = cubicBezierDerivative(quarter, 0.4 - h)
+    const second = cubicBezierSecondDerivative(quarter, 0.4)
+    expect((ahead.x - behind.x) / (2 * h)).toBeCloseTo(second.x, 4)
+    expect((ahead.y - behind.y) / (2 * h)).toBeCloseTo(second.y, 4)
+    expect(cubicBezierMaxSecondDerivative(line)).toBe(0)
+  })
+
+  it('measures arc length and inverts it', () => {
+    expect(cubicBezierArcLength(line)).toBeCloseTo(3, 12)
+    expect(cubicBezierArcLength(quarter)).toBeCloseTo(5 * Math.PI, 2)
+    expect(cubicBezierArcLength(quarter, 0.25, 0.75)).toBeCloseTo(
+      cubicBezierArcLength(quarter) - 2 * cubicBezierArcLength(quarter, 0, 0.25),
+      9,
+    )
+
+    const total = cubicBezierArcLength(quarter)
+    const t = cubicBezierParameterAtLength(quarter, total / 3)
+    expect(cubicBezierArcLength(quarter, 0, t)).toBeCloseTo(total / 3, 9)
+    expect(cubicBezierParameterAtLength(quarter, -1)).toBe(0)
+    expect(cubicBezierParameterAtLength(quarter, total * 2)).toBe(1)
+  })
+
+  it('splits into halves that trace the same curve', () => {
+    const [left, right] = splitCubicBezier(quarter, 0.3)
+    expect(left.p3).toEqual(right.p0)
+    for (const s of [0, 0.25, 0.5, 1]) {
+      const fromLeft = evaluateCubicBezier(left, s)
+      const expected = evaluateCubicBezier(quarter, 0.3 * s)
+      expect(fromLeft.x).toBeCloseTo(expected.x, 12)
+      expect(fromLeft.y).toBeCloseTo(expected.y, 12)
+      const fromRight = evaluateCubicBezier(right, s)
+      const expectedRight = evaluateCubicBezier(quarter, 0.3 + 0.7 * s)
+      expect(fromRight.x).toBeCloseTo(expectedRight.x, 12)
+      expect(fromRight.y).toBeCloseTo(expectedRight.y, 12)
+    }
+  })
+
+  it('bounds the turning by the control polygon', () => {
+    expect(cubicBezierControlTurning(line)).toBe(0)
+    expect(cubicBezierControlTurning(quarter)).toBeCloseTo(Math.PI / 2, 12)
+    expect(
+      cubicBezierControlTurning({ ...quarter, p1: quarter.p0, p2: quarter.p3 }),
+    ).toBe(0)
+  })
+})
@@ -0,0 +1,212 @@
+import type { Vec2, Vec3 } from './transforms'
+
+export type CubicBezier2 = {
+  p0: Vec2
+  p1: Vec2
+  p2: Vec2
+  p3: Vec2
+}
+
+export type CubicBezier3 = {
+  p0: Vec3
+  p1: Vec3
+  p2: Vec3
+  p3: Vec3
+}
+
+const EPSILON = 1e-12
+// Control legs shorter than this carry no usable direction.
+const LEG_EPSILON = 1e-6
+
+// Five-point Gauss-Legendre nodes/weights on [-1, 1].
+const GAUSS_NODES = [
+  0,
+  -0.5384693101056831,
+  0.5384693101056831,
+  -0.906179845938664,
+  0.906179845938664,
+] as const
+const GAUSS_WEIGHTS = [
+  0.5688888888888889,
+  0.47862867049936647,
+  0.47862867049936647,
+  0.23692688505618908,
+  0.23692688505618908,
+] as const
+// Each unit of parameter is integrated in this many Gauss panels; cubic speed is smooth enough that
+// this stays within ~1e-9 relative error on sketch-sized curves.
+const ARC_LENGTH_PANELS = 16
+const PARAMETER_SEARCH_ITERATIONS = 32
+
+export const evaluateCubicBezier = (curve: CubicBezier2, t: number): Vec2 => {
+  const { p0, p1, p2, p3 } = curve
+  const u = 1 - t
+  const b0 = u * u * u
+  const b1 = 3 * u * u * t
+  const b2 = 3 * u * t * t
+  const b3 = t * t * t
+  return {
+    x: b0 * p0.x + b1 * p1.x + b2 * p2.x + b3 * p3.x,
+    y: b0 * p0.y + b1 * p1.y + b2 * p2.y + b3 * p3.y,
+  }
+}
+
+export const cubicBezierDerivative = (curve: CubicBezier2, t: number): Vec2 => {
+  const { p0, p1, p2, p3 } = curve
+  const u = 1 - t
+  const d0 = 3 * u * u
+  const d1 = 6 * u * t
+  const d2 = 3 * t * t
+  return {
+    x: d0 * (p1.x - p0.x) + d1 * (p2.x - p1.x) + d2 * (p3.x - p2.x),
+    y: d0 * (p1.y - p0.y) + d1 * (p2.y - p1.y) + d2 * (p3.y - p2.y),
+  }
+}
+
+export const cubicBezierSecondDerivative = (curve: CubicBezier2, t: number): Vec2 => {
+  const { p0, p1, p2, p3 } = curve
+  const u = 1 - t
+  return {
+    x: 6 * (u * (p0.x - 2 * p1.x + p2.x) + t * (p1.x - 2 * p2.x + p3.x)),
+    y: 6 * (u * (p0.y - 2 * p1.y + p2.y) + t * (p1.y - 2 * p2.y + p3.y)),
+  }
+}
+
+// B'' is linear in t, so its magnitude peaks at an end point.
+export const cubicBezierMaxSecondDerivative = (curve: CubicBezier2): number => {
+  const start = cubicBezierSecondDerivative(curve, 0)
+  const end = cubicBezierSecondDerivative(curve, 1)
+  return Math.max(Math.hypot(start.x, start.y), Math.hypot(end.x, end.y))
+}
+
+// Total turning of the control polygon, an upper bound for the turning of the curve itself.
+// Zero-length legs are skipped.
+export const cubicBezierControlTurning = (curve: CubicBezier2): number => {
+  const { p0, p1, p2, p3 } = curve
+  const legs = [
+    { x: p1.x - p0.x, y: p1.y - p0.y },
+    { x: p2.x - p1.x, y: p2.y - p1.y },
+    { x: p3.x - p2.x, y: p3.y - p2.y },
+  ].filter((leg) => Math.hypot(leg.x, leg.y) > LEG_EPSILON)
+  let turning = 0
+  for (let index = 1; index < legs.length; index += 1) {
+    const a = legs[index - 1]
+    const b = legs[index]
+    const cos = (a.x * b.x + a.y * b.y) / (Math.hypot(a.x, a.y) * Math.hypot(b.x, b.y))
+    turning += Math.acos(Math.min(1, Math.max(-1, cos)))
+  }
+  return turning
+}
+
+// De Casteljau split at `t`; the halves meet at evaluateCubicBezier(curve, t).
+export const splitCubicBezier = (
+  curve: CubicBezier2,
+  t: number,
+): [CubicBezier2, CubicBezier2] => {
+  const lerp = (a: Vec2, b: Vec2): Vec2 => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t })
+  const { p0, p1, p2, p3 } = curve
+  const p01 = lerp(p0, p1)
+  const p12 = lerp(p1, p2)
+  const p23 = lerp(p2, p3)
+  const p012 = lerp(p01, p12)
+  const p123 = lerp(p12, p23)
+  const mid = lerp(p012, p123)
+  return [
+    { p0, p1: p01, p2: p012, p3: mid },
+    { p0: mid, p1: p123, p2: p23, p3 },
+  ]
+}
+
+export const cubicBezierArcLength = (curve: CubicBezier2, t0 = 0, t1 = 1): number => {
+  if (t1 === t0) {
+    return 0
+  }
+  const panels = Math.max(1, Math.ceil(Math.abs(t1 - t0) * ARC_LENGTH_PANELS))
+  const width = (t1 - t0) / panels
+  let length = 0
+  for (let panel = 0; panel < panels; panel += 1) {
+    const center = t0 + (panel + 0.5) * width
+    for (let index = 0; index < GAUSS_NODES.length; index += 1) {
+      const derivative = cubicBezierDerivative(curve, center + (GAUSS_NODES[index] * width) / 2)
+      length += GAUSS_WEIGHTS[index] * Math.hypot(derivative.x, derivative.y)
+    }
+  }
+  return (length * width) / 2
+}
+
+// Parameter whose arc length from t = 0 equals `length`, clamped to [0, 1]. Newton steps are
+// guarded by a bisection bracket so flat spots (zero speed) cannot throw the search off.
+export const cubicBezierParameterAtLength = (curve: CubicBezier2, length: number): number => {
+  const total = cubicBezierArcLength(curve)
+  if (length <= 0 || total <= EPSILON) {
+    return 0
+  }
+  if (length >= total) {
+    return 1
+  }
+  let lo = 0
+  let hi = 1
+  let t = length / total
+  for (let iteration = 0; iteration < PARAMETER_SEARCH_ITERATIONS; iteration += 1) {
+    const error = cubicBezierArcLength(curve, 0, t) - length
+    if (Math.abs(error) <= EPSILON * Math.max(1, total)) {
+      break
+    }
+    if (error > 0) {
+      hi = t
+    } else {
+      lo = t
+    }
+    const derivative = cubicBezierDerivative(curve, t)
+    const speed = Math.hypot(derivative.x, derivative.y)
+    const newton = speed > EPSILON ? t - error / speed : Number.NaN
+    t = newton > lo && newton < hi ? newton : (lo + hi) / 2
+  }
+  return t
+}
+
+export const evaluateCubicBezier3 = (curve: CubicBezier3, t: number): Vec3 => {
+  const { p0, p1, p2, p3 } = curve
+  const u = 1 - t
+  const b0 = u * u * u
+  const b1 = 3 * u * u * t
+  const b2 = 3 * u * t * t
+  const b3 = t * t * t
+  return {
+    x: b0 * p0.x + b1 * p1.x + b2 * p2.x + b3 * p3.x,
+    y: b0 * p0.y + b1 * p1.y + b2 * p2.y + b3 * p3.y,
+    z: b0 * p0.z + b1 * p1.z + b2 * p2.z + b3 * p3.z,
+  }
+}
+
+// 3D counterpart of cubicBezierMaxSecondDerivative.
+export const cubicBezier3MaxSecondDerivative = (curve: CubicBezier3): number => {
+  const { p0, p1, p2, p3 } = curve
+  return (
+    6 *
+    Math.max(
+      Math.hypot(p0.x - 2 * p1.x + p2.x, p0.y - 2 * p1.y + p2.y, p0.z - 2 * p1.z + p2.z),
+      Math.hypot(p1.x - 2 * p2.x + p3.x, p1.y - 2 * p2.y + p3.y, p1.z - 2 * p2.z + p3.z),
+    )
+  )
+}
+
+// 3D counterpart of cubicBezierControlTurning.
+export const cubicBezier3ControlTurning = (curve: CubicBezier3): number => {
+  const { p0, p1, p2, p3 } = curve
+  const legs = [
+    { x: p1.x - p0.x, y: p1.y - p0.y, z: p1.z - p0.z },
+    { x: p2.x - p1.x, y: p2.y - p1.y, z: p2.z - p1.z },
+    { x: p3.x - p2.x, y: p3.y - p2.y, z: p3.z - p2.z },
+  ].filter((leg) => Math.hypot(leg.x, leg.y, leg.z) > LEG_EPSILON)
+  let turning = 0
+  for (let index = 1; index < legs.length; index += 1) {
+    const a = legs[index - 1]
+    const b = legs[index]
+    const cos =
+      (a.x * b.x + a.y * b.y + a.z * b.z) /
+      (Math.hypot(a.x, a.y, a.z) * Math.hypot(b.x, b.y, b.z))
+    turning += Math.acos(Math.min(1, Math.max(-1, cos)))
+  }
+  return turning
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import { cubicBezierDerivative, evaluateCubicBezier, evaluateCubicBezier3 } from './bezier'
+import { catmullRomToBeziers, catmullRomToBeziers3 } from './catmullRom'
+
+describe('catmullRomToBeziers', () => {
+  it('interpolates every point with C1 joins', () => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 10, y: 5 },
+      { x: 12, y: 20 },
+      { x: 30, y: 22 },
+    ]
+    const curves = catmullRomToBeziers(points)
+    expect(curves).toHaveLength(3)
+    curves.forEach((curve, index) => {
+      expect(curve.p0).toEqual(points[index])
+      expect(curve.p3).toEqual(points[index + 1])
+    })
+    for (let index = 1; index < curves.length; index += 1) {
+      const incoming = cubicBezierDerivative(curves[index - 1], 1)
+      const outgoing = cubicBezierDerivative(curves[index], 0)
+      // Directions match; magnitudes differ with the span lengths.
+      expect(incoming.x * outgoing.y - incoming.y * outgoing.x).toBeCloseTo(0, 9)
+      expect(incoming.x * outgoing.x + incoming.y * outgoing.y).toBeGreaterThan(0)
+    }
+  })
+
+  it('closes loops and drops repeated points', () => {
+    const square = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+      { x: 0, y: 10 },
+      { x: 0, y: 0 },
+    ]
+    const curves = catmullRomToBeziers(square, { closed: true })
+    expect(curves).toHaveLength(4)
+    expect(curves[3].p3).toEqual(curves[0].p0)
+    // The symmetric loop bulges equally outwards on every side.
+    const mids = curves.map((curve) => evaluateCubicBezier(curve, 0.5))
+    expect(mids[0].y).toBeCloseTo(-(mids[2].y - 10), 12)
+    expect(mids[0].y).toBeLessThan(0)
+    expect(catmullRomToBeziers([{ x: 1, y: 1 }])).toEqual([])
+  })
+
+  it('keeps centripetal spans free of cusps where uniform knots loop', () => {
+    // A short middle span between two long ones makes uniform Catmull-Rom loop back on itself.
+    const points = [
+      { x: 0, y: 0 },
+      { x: 1, y: 1 },
+      { x: 1.1, y: 1 },
+      { x: 2, y: 0 },
+    ]
+    const hasBacktrack = (alpha: number) => {
+      const curve = catmullRomToBeziers(points, { alpha })[1]
+      const chord = { x: curve.p3.x - curve.p0.x, y: curve.p3.y - curve.p0.y }
+      return Array.from({ length: 33 }, (_, index) => cubicBezierDerivative(curve, index / 32)).some(
+        (velocity) => velocity.x * chord.x + velocity.y * chord.y < 0,
+      )
+    }
+    expect(hasBacktrack(0)).toBe(true)
+    expect(hasBacktrack(0.5)).toBe(false)
+  })
+})
+
+describe('catmullRomToBeziers3', () => {
+  it('interpolates 3D points and matches the planar spline at z = 0', () => {
+    const points = [
+      { x: 0, y: 0, z: 0 },
+      { x: 10, y: 5, z: 4 },
+      { x: 12, y: 20, z: -3 },
+    ]
+    const curves = catmullRomToBeziers3(points)
+    expect(curves).toHaveLength(2)
+    expect(evaluateCubicBezier3(curves[1], 0)).toEqual(points[1])
+    expect(evaluateCubicBezier3(curves[1], 1)).toEqual(points[2])
+
+    const flat = points.map((point) => ({ ...point, z: 0 }))
+    const planar = catmullRomToBeziers(flat)
+    catmullRomToBeziers3(flat).forEach((curve, index) => {
+      expect(curve.p1).toEqual({ ...planar[index].p1, z: 0 })
+      expect(curve.p2).toEqual({ ...planar[index].p2, z: 0 })
+    })
+  })
+})
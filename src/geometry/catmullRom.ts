@@ -0,0 +1,114 @@
+import type { CubicBezier2, CubicBezier3 } from './bezier'
+import type { Vec2, Vec3 } from './transforms'
+
+export type CatmullRomOptions = {
+  closed?: boolean
+  // Knot exponent: 0 uniform, 0.5 centripetal (default), 1 chordal.
+  alpha?: number
+}
+
+const EPSILON = 1e-12
+
+const sub = (a: Vec3, b: Vec3): Vec3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z })
+
+const distance = (a: Vec3, b: Vec3): number => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z)
+
+const dedupeConsecutive = (points: readonly Vec3[], closed: boolean): Vec3[] => {
+  const out: Vec3[] = []
+  for (const point of points) {
+    const previous = out[out.length - 1]
+    if (previous === undefined || distance(point, previous) > EPSILON) {
+      out.push(point)
+    }
+  }
+  if (closed && out.length > 1 && distance(out[0], out[out.length - 1]) <= EPSILON) {
+    out.pop()
+  }
+  return out
+}
+
+// Tangent at `p1` (per unit of the p1 -> p2 segment parameter) for knot spacings d0 and d1.
+const knotTangent = (p0: Vec3, p1: Vec3, p2: Vec3, d0: number, d1: number, span: number): Vec3 => {
+  const a = sub(p1, p0)
+  const b = sub(p2, p0)
+  const c = sub(p2, p1)
+  return {
+    x: (a.x / d0 - b.x / (d0 + d1) + c.x / d1) * span,
+    y: (a.y / d0 - b.y / (d0 + d1) + c.y / d1) * span,
+    z: (a.z / d0 - b.z / (d0 + d1) + c.z / d1) * span,
+  }
+}
+
+// Converts a Catmull-Rom spline through `points` into one cubic Bezier per span. Repeated points
+// are dropped first; open splines get mirrored end neighbours so the end tangents follow the first
+// and last spans. With the default centripetal knots the curve never cusps or self-intersects
+// inside a span.
+export const catmullRomToBeziers3 = (
+  points: readonly Vec3[],
+  options: CatmullRomOptions = {},
+): CubicBezier3[] => {
+  const closed = options.closed === true
+  const alpha = options.alpha ?? 0.5
+  const unique = dedupeConsecutive(points, closed)
+  const n = unique.length
+  if (n < 2) {
+    return []
+  }
+
+  const mirror = (end: Vec3, neighbour: Vec3): Vec3 => ({
+    x: 2 * end.x - neighbour.x,
+    y: 2 * end.y - neighbour.y,
+    z: 2 * end.z - neighbour.z,
+  })
+  const at = (index: number): Vec3 => {
+    if (closed) {
+      return unique[((index % n) + n) % n]
+    }
+    if (index < 0) {
+      return mirror(unique[0], unique[1])
+    }
+    if (index >= n) {
+      return mirror(unique[n - 1], unique[n - 2])
+    }
+    return unique[index]
+  }
+  const knot = (a: Vec3, b: Vec3): number => Math.max(distance(a, b) ** alpha, EPSILON)
+
+  const spans = closed && n > 2 ? n : n - 1
+  const out: CubicBezier3[] = []
+  for (let index = 0; index < spans; index += 1) {
+    const p0 = at(index - 1)
+    const p1 = at(index)
+    const p2 = at(index + 1)
+    const p3 = at(index + 2)
+    const d0 = knot(p0, p1)
+    const d1 = knot(p1, p2)
+    const d2 = knot(p2, p3)
+    const m1 = knotTangent(p0, p1, p2, d0, d1, d1)
+    const m2 = knotTangent(p1, p2, p3, d1, d2, d1)
+    out.push({
+      p0: p1,
+      p1: { x: p1.x + m1.x / 3, y: p1.y + m1.y / 3, z: p1.z + m1.z / 3 },
+      p2: { x: p2.x - m2.x / 3, y: p2.y - m2.y / 3, z: p2.z - m2.z / 3 },
+      p3: p2,
+    })
+  }
+  return out
+}
+
+// Planar variant of catmullRomToBeziers3.
+export const catmullRomToBeziers = (
+  points: readonly Vec2[],
+  options: CatmullRomOptions = {},
+): CubicBezier2[] => {
+  const flatten = ({ x, y }: Vec3): Vec2 => ({ x, y })
+  return catmullRomToBeziers3(
+    points.map((point) => ({ x: point.x, y: point.y, z: 0 })),
+    options,
+  ).map((curve) => ({
+    p0: flatten(curve.p0),
+    p1: flatten(curve.p1),
+    p2: flatten(curve.p2),
+    p3: flatten(curve.p3),
+  }))
+}
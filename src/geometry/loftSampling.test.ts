@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { alignLoop, matchLoopSampling, resampleLoop } from './loftSampling'
+
+const square = [
+  { x: 0, y: 0 },
+  { x: 10, y: 0 },
+  { x: 10, y: 10 },
+  { x: 0, y: 10 },
+]
+
+describe('loft sampling', () => {
+  it('resamples by splitting the longest edges and keeps source corners', () => {
+    const rectangle = [
+      { x: 0, y: 0 },
+      { x: 20, y: 0 },
+      { x: 20, y: 5 },
+      { x: 0, y: 5 },
+    ]
+    expect(resampleLoop(rectangle, 6)).toEqual([
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 20, y: 0 },
+      { x: 20, y: 5 },
+      { x: 10, y: 5 },
+      { x: 0, y: 5 },
+    ])
+    expect(resampleLoop(square, 3)).toEqual(square)
+  })
+
+  it('aligns loop starts to the nearest reference vertex', () => {
+    const rotated = [...square.slice(2), ...square.slice(0, 2)]
+    expect(alignLoop(rotated, square)).toEqual(square)
+
+    const shifted = square.map((point) => ({ x: point.x + 100, y: point.y - 50 }))
+    expect(alignLoop([...shifted.slice(1), shifted[0]], square)[0]).toEqual(shifted[0])
+  })
+
+  it('matches vertex counts across loops', () => {
+    const triangle = [
+      { x: 5, y: -5 },
+      { x: 15, y: 10 },
+      { x: -5, y: 10 },
+    ]
+    const octagon = Array.from({ length: 8 }, (_, index) => ({
+      x: 5 + 6 * Math.cos((index / 8) * Math.PI * 2),
+      y: 5 + 6 * Math.sin((index / 8) * Math.PI * 2),
+    }))
+    const matched = matchLoopSampling([triangle, square, octagon])
+    expect(matched.map((loop) => loop.length)).toEqual([8, 8, 8])
+    expect(matched[0]).toEqual(expect.arrayContaining(triangle))
+    expect(matched[1]).toEqual(expect.arrayContaining(square))
+  })
+})
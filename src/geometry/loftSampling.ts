@@ -0,0 +1,79 @@
+import type { Vec2 } from './transforms'
+
+// Splits the edges that are longest per piece until the closed loop has `count` vertices. Source
+// vertices are kept, so profile corners survive the resampling. Loops that already have `count`
+// or more vertices come back unchanged.
+export const resampleLoop = (loop: readonly Vec2[], count: number): Vec2[] => {
+  const n = loop.length
+  if (n === 0) {
+    return []
+  }
+  const lengths = loop.map((point, index) => {
+    const next = loop[(index + 1) % n]
+    return Math.hypot(next.x - point.x, next.y - point.y)
+  })
+  const pieces = loop.map(() => 1)
+  for (let total = n; total < count; total += 1) {
+    let longest = 0
+    for (let index = 1; index < n; index += 1) {
+      if (lengths[index] / pieces[index] > lengths[longest] / pieces[longest]) {
+        longest = index
+      }
+    }
+    pieces[longest] += 1
+  }
+  return loop.flatMap((point, index) => {
+    const next = loop[(index + 1) % n]
+    return Array.from({ length: pieces[index] }, (_, piece) => {
+      const t = piece / pieces[index]
+      return { x: point.x + (next.x - point.x) * t, y: point.y + (next.y - point.y) * t }
+    })
+  })
+}
+
+export const loopCentroid = (loop: readonly Vec2[]): Vec2 => ({
+  x: loop.reduce((sum, point) => sum + point.x, 0) / loop.length,
+  y: loop.reduce((sum, point) => sum + point.y, 0) / loop.length,
+})
+
+// Rotates the start of `loop` so that, with both loops centred, its vertices travel the least
+// squared distance to `reference`; ties keep the earliest start. Both loops must have the same
+// vertex count.
+export const alignLoop = (loop: readonly Vec2[], reference: readonly Vec2[]): Vec2[] => {
+  const n = loop.length
+  if (n === 0) {
+    return []
+  }
+  const center = loopCentroid(loop)
+  const referenceCenter = loopCentroid(reference)
+  let bestShift = 0
+  let bestCost = Number.POSITIVE_INFINITY
+  for (let shift = 0; shift < n; shift += 1) {
+    let cost = 0
+    for (let index = 0; index < n && cost < bestCost; index += 1) {
+      const point = loop[(index + shift) % n]
+      const target = reference[index]
+      const dx = point.x - center.x - (target.x - referenceCenter.x)
+      const dy = point.y - center.y - (target.y - referenceCenter.y)
+      cost += dx * dx + dy * dy
+    }
+    if (cost < bestCost) {
+      bestCost = cost
+      bestShift = shift
+    }
+  }
+  return [...loop.slice(bestShift), ...loop.slice(0, bestShift)]
+}
+
+// Resamples every loop to the largest vertex count and aligns each one to its predecessor, ready
+// to be skinned ring to ring.
+export const matchLoopSampling = (loops: readonly (readonly Vec2[])[]): Vec2[][] => {
+  const count = Math.max(0, ...loops.map((loop) => loop.length))
+  const out: Vec2[][] = []
+  for (const loop of loops) {
+    const resampled = resampleLoop(loop, count)
+    const previous = out[out.length - 1]
+    out.push(previous === undefined ? resampled : alignLoop(resampled, previous))
+  }
+  return out
+}
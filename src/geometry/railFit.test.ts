@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { evaluateCubicBezier, type CubicBezier2 } from './bezier'
+import { fitCubicBezier, fitRail } from './railFit'
+
+const source: CubicBezier2 = {
+  p0: { x: 0, y: 0 },
+  p1: { x: 10, y: 30 },
+  p2: { x: 40, y: 30 },
+  p3: { x: 50, y: 0 },
+}
+
+describe('rail fitting', () => {
+  it('recovers a cubic from its own samples', () => {
+    const samples = Array.from({ length: 21 }, (_, index) => evaluateCubicBezier(source, index / 20))
+    const fit = fitCubicBezier(samples, { iterations: 30 })
+    expect(fit).not.toBeNull()
+    if (fit === null) return
+
+    // Chord-length parameters start off; every reparameterization pass tightens the fit.
+    const rough = fitCubicBezier(samples, { iterations: 0 })
+    const default4 = fitCubicBezier(samples)
+    expect(default4?.maxError ?? 0).toBeLessThan(rough?.maxError ?? 0)
+    expect(fit.maxError).toBeLessThan(default4?.maxError ?? 0)
+
+    expect(fit.curve.p0).toEqual(source.p0)
+    expect(fit.curve.p3).toEqual(source.p3)
+    expect(fit.maxError).toBeLessThan(1e-3)
+    expect(fit.curve.p1.x).toBeCloseTo(10, 1)
+    expect(fit.curve.p2.y).toBeCloseTo(30, 1)
+    expect(fit.parameters[0]).toBe(0)
+    expect(fit.parameters[20]).toBe(1)
+  })
+
+  it('falls back to a straight cubic for two points', () => {
+    const fit = fitCubicBezier([
+      { x: 0, y: 0 },
+      { x: 9, y: 3 },
+    ])
+    expect(fit?.curve.p1).toEqual({ x: 3, y: 1 })
+    expect(fit?.curve.p2).toEqual({ x: 6, y: 2 })
+    expect(fit?.maxError).toBe(0)
+    expect(fitCubicBezier([{ x: 1, y: 1 }])).toBeNull()
+  })
+
+  it('splits rails until every sample is within tolerance', () => {
+    // A full sine period cannot be matched by one cubic within 0.01.
+    const samples = Array.from({ length: 41 }, (_, index) => ({
+      x: index,
+      y: 10 * Math.sin((index / 40) * Math.PI * 2),
+    }))
+    const single = fitCubicBezier(samples)
+    const rail = fitRail(samples, 0.01)
+
+    expect(single?.maxError ?? 0).toBeGreaterThan(0.01)
+    expect(rail.length).toBeGreaterThan(1)
+    expect(rail[0].p0).toEqual(samples[0])
+    expect(rail[rail.length - 1].p3).toEqual(samples[40])
+    for (let index = 1; index < rail.length; index += 1) {
+      expect(rail[index].p0).toEqual(rail[index - 1].p3)
+    }
+    for (const sample of samples) {
+      const nearest = Math.min(
+        ...rail.flatMap((curve) =>
+          Array.from({ length: 2001 }, (_, step) => {
+            const point = evaluateCubicBezier(curve, step / 2000)
+            return Math.hypot(point.x - sample.x, point.y - sample.y)
+          }),
+        ),
+      )
+      // Sampled distance overshoots the true one by at most half a sample spacing.
+      expect(nearest).toBeLessThan(0.016)
+    }
+  })
+})
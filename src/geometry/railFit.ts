@@ -0,0 +1,177 @@
+import {
+  cubicBezierDerivative,
+  cubicBezierSecondDerivative,
+  evaluateCubicBezier,
+  type CubicBezier2,
+} from './bezier'
+import type { Vec2 } from './transforms'
+
+export type CubicFit = {
+  curve: CubicBezier2
+  // Curve parameter matched to each input point after reparameterization.
+  parameters: number[]
+  maxError: number
+  // Index of the input point farthest from the curve.
+  maxErrorIndex: number
+}
+
+export type RailFitOptions = {
+  // Newton reparameterization passes between least-squares solves.
+  iterations?: number
+}
+
+const EPSILON = 1e-12
+const DEFAULT_ITERATIONS = 4
+
+const chordLengthParameters = (points: readonly Vec2[]): number[] => {
+  const distances = [0]
+  for (let index = 1; index < points.length; index += 1) {
+    const previous = points[index - 1]
+    const point = points[index]
+    distances.push(distances[index - 1] + Math.hypot(point.x - previous.x, point.y - previous.y))
+  }
+  const total = distances[distances.length - 1]
+  if (total <= EPSILON) {
+    return points.map((_, index) => (points.length < 2 ? 0 : index / (points.length - 1)))
+  }
+  return distances.map((distance) => distance / total)
+}
+
+// Least-squares inner control points for fixed end points at the given parameters. A single
+// interior sample leaves the system singular; the inner points then collapse onto one shared
+// control, and with no interior samples at all the cubic becomes the straight chord.
+const solveInnerControls = (
+  points: readonly Vec2[],
+  parameters: readonly number[],
+): CubicBezier2 => {
+  const p0 = points[0]
+  const p3 = points[points.length - 1]
+  let a11 = 0
+  let a12 = 0
+  let a22 = 0
+  let r1x = 0
+  let r1y = 0
+  let r2x = 0
+  let r2y = 0
+  parameters.forEach((t, index) => {
+    const u = 1 - t
+    const b0 = u * u * u
+    const b1 = 3 * u * u * t
+    const b2 = 3 * u * t * t
+    const b3 = t * t * t
+    const rx = points[index].x - b0 * p0.x - b3 * p3.x
+    const ry = points[index].y - b0 * p0.y - b3 * p3.y
+    a11 += b1 * b1
+    a12 += b1 * b2
+    a22 += b2 * b2
+    r1x += b1 * rx
+    r1y += b1 * ry
+    r2x += b2 * rx
+    r2y += b2 * ry
+  })
+  const det = a11 * a22 - a12 * a12
+  if (Math.abs(det) > EPSILON * Math.max(1, a11 * a22)) {
+    return {
+      p0,
+      p1: { x: (r1x * a22 - r2x * a12) / det, y: (r1y * a22 - r2y * a12) / det },
+      p2: { x: (a11 * r2x - a12 * r1x) / det, y: (a11 * r2y - a12 * r1y) / det },
+      p3,
+    }
+  }
+  const shared = a11 + 2 * a12 + a22
+  if (shared > EPSILON) {
+    const control = { x: (r1x + r2x) / shared, y: (r1y + r2y) / shared }
+    return { p0, p1: control, p2: control, p3 }
+  }
+  return {
+    p0,
+    p1: { x: p0.x + (p3.x - p0.x) / 3, y: p0.y + (p3.y - p0.y) / 3 },
+    p2: { x: p0.x + (2 * (p3.x - p0.x)) / 3, y: p0.y + (2 * (p3.y - p0.y)) / 3 },
+    p3,
+  }
+}
+
+// One Newton step on |B(t) - point|^2 per sample; end parameters stay pinned at 0 and 1.
+const reparameterize = (
+  curve: CubicBezier2,
+  points: readonly Vec2[],
+  parameters: readonly number[],
+): number[] =>
+  parameters.map((t, index) => {
+    if (index === 0 || index === parameters.length - 1) {
+      return t
+    }
+    const point = evaluateCubicBezier(curve, t)
+    const first = cubicBezierDerivative(curve, t)
+    const second = cubicBezierSecondDerivative(curve, t)
+    const dx = point.x - points[index].x
+    const dy = point.y - points[index].y
+    const numerator = dx * first.x + dy * first.y
+    const denominator = first.x * first.x + first.y * first.y + dx * second.x + dy * second.y
+    if (Math.abs(denominator) <= EPSILON) {
+      return t
+    }
+    return Math.min(1, Math.max(0, t - numerator / denominator))
+  })
+
+const measureFit = (
+  curve: CubicBezier2,
+  points: readonly Vec2[],
+  parameters: number[],
+): CubicFit => {
+  let maxError = 0
+  let maxErrorIndex = 0
+  parameters.forEach((t, index) => {
+    const point = evaluateCubicBezier(curve, t)
+    const error = Math.hypot(point.x - points[index].x, point.y - points[index].y)
+    if (error > maxError) {
+      maxError = error
+      maxErrorIndex = index
+    }
+  })
+  return { curve, parameters, maxError, maxErrorIndex }
+}
+
+// Fits one cubic through the first and last point that minimizes the squared distance to the
+// samples in between (chord-length start, then alternating solve / reparameterize). The pass
+// with the smallest maximum error wins.
+export const fitCubicBezier = (
+  points: readonly Vec2[],
+  options: RailFitOptions = {},
+): CubicFit | null => {
+  if (points.length < 2) {
+    return null
+  }
+  let parameters = chordLengthParameters(points)
+  let fit = measureFit(solveInnerControls(points, parameters), points, parameters)
+  let best = fit
+  for (let iteration = 0; iteration < (options.iterations ?? DEFAULT_ITERATIONS); iteration += 1) {
+    parameters = reparameterize(fit.curve, points, parameters)
+    fit = measureFit(solveInnerControls(points, parameters), points, parameters)
+    if (fit.maxError < best.maxError) {
+      best = fit
+    }
+  }
+  return best
+}
+
+// Piecewise rail through ordered samples: a cubic is split at its worst sample until every sample
+// lies within `tolerance`. Consecutive curves share end points; tangents are not forced to match.
+export const fitRail = (
+  points: readonly Vec2[],
+  tolerance: number,
+  options: RailFitOptions = {},
+): CubicBezier2[] => {
+  const fit = fitCubicBezier(points, options)
+  if (fit === null) {
+    return []
+  }
+  const splitIndex = Math.min(Math.max(fit.maxErrorIndex, 1), points.length - 2)
+  if (fit.maxError <= tolerance || points.length <= 3) {
+    return [fit.curve]
+  }
+  return [
+    ...fitRail(points.slice(0, splitIndex + 1), tolerance, options),
+    ...fitRail(points.slice(splitIndex), tolerance, options),
+  ]
+}
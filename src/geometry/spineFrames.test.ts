@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { rotationMinimizingFrames, spineFrameToAffine3 } from './spineFrames'
+import { applyAffine3, crossVec3, dotVec3, lengthVec3, type Vec3 } from './transforms'
+
+const helix = (turns: number, samples: number): Vec3[] =>
+  Array.from({ length: samples + 1 }, (_, index) => {
+    const angle = (index / samples) * turns * Math.PI * 2
+    return { x: 20 * Math.cos(angle), y: 20 * Math.sin(angle), z: (index / samples) * 30 }
+  })
+
+describe('rotationMinimizingFrames', () => {
+  it('keeps the normal fixed along a straight spine', () => {
+    const frames = rotationMinimizingFrames(
+      [
+        { x: 0, y: 0, z: 0 },
+        { x: 0, y: 0, z: 5 },
+        { x: 0, y: 0, z: 5 },
+        { x: 0, y: 0, z: 20 },
+      ],
+      { x: 1, y: 0, z: 3 },
+    )
+    expect(frames).toHaveLength(3)
+    for (const frame of frames) {
+      expect(frame.tangent).toEqual({ x: 0, y: 0, z: 1 })
+      expect(frame.normal).toEqual({ x: 1, y: 0, z: 0 })
+      expect(frame.binormal).toEqual({ x: 0, y: 1, z: 0 })
+    }
+    expect(rotationMinimizingFrames([{ x: 1, y: 2, z: 3 }])).toEqual([])
+  })
+
+  it('produces orthonormal frames that do not spin about a planar bend', () => {
+    const arc = Array.from({ length: 33 }, (_, index) => {
+      const angle = (index / 32) * Math.PI
+      return { x: 10 * Math.cos(angle), y: 10 * Math.sin(angle), z: 0 }
+    })
+    const frames = rotationMinimizingFrames(arc, { x: 0, y: 0, z: 1 })
+    for (const frame of frames) {
+      expect(lengthVec3(frame.normal)).toBeCloseTo(1, 12)
+      expect(dotVec3(frame.normal, frame.tangent)).toBeCloseTo(0, 12)
+      // A planar spine has no torsion, so the out-of-plane normal stays put.
+      expect(frame.normal.z).toBeCloseTo(1, 9)
+    }
+  })
+
+  it('stays orthonormal and right-handed along a helix', () => {
+    const frames = rotationMinimizingFrames(helix(2, 200))
+    expect(frames).toHaveLength(201)
+    for (const frame of frames) {
+      expect(lengthVec3(frame.tangent)).toBeCloseTo(1, 9)
+      expect(lengthVec3(frame.normal)).toBeCloseTo(1, 9)
+      expect(dotVec3(frame.tangent, frame.normal)).toBeCloseTo(0, 9)
+      const handed = crossVec3(frame.normal, frame.binormal)
+      expect(dotVec3(handed, frame.tangent)).toBeCloseTo(1, 9)
+    }
+    expect(rotationMinimizingFrames(helix(2, 200))).toEqual(frames)
+  })
+
+  it('maps profile coordinates into the frame', () => {
+    const [frame] = rotationMinimizingFrames(
+      [
+        { x: 5, y: 0, z: 0 },
+        { x: 5, y: 10, z: 0 },
+      ],
+      { x: 0, y: 0, z: 1 },
+    )
+    const placed = applyAffine3(spineFrameToAffine3(frame), { x: 2, y: 3, z: 0 })
+    expect(placed.x).toBeCloseTo(8, 12)
+    expect(placed.y).toBeCloseTo(0, 12)
+    expect(placed.z).toBeCloseTo(2, 12)
+  })
+})
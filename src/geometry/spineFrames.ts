@@ -0,0 +1,107 @@
+import {
+  addVec3,
+  basisAffine3,
+  crossVec3,
+  dotVec3,
+  lengthVec3,
+  normalizeVec3,
+  scaleVec3,
+  subVec3,
+  type Affine3,
+  type Vec3,
+} from './transforms'
+
+export type SpineFrame = {
+  origin: Vec3
+  tangent: Vec3
+  normal: Vec3
+  binormal: Vec3
+}
+
+const EPSILON = 1e-9
+
+const dedupeSpine = (spine: readonly Vec3[]): Vec3[] => {
+  const out: Vec3[] = []
+  for (const point of spine) {
+    const previous = out[out.length - 1]
+    if (previous === undefined || lengthVec3(subVec3(point, previous)) > EPSILON) {
+      out.push(point)
+    }
+  }
+  return out
+}
+
+// End points use their only segment; interior points average the unit directions either side.
+// A full reversal falls back to the incoming direction.
+const spineTangents = (spine: readonly Vec3[]): Vec3[] => {
+  const directions = spine
+    .slice(1)
+    .map((point, index) => normalizeVec3(subVec3(point, spine[index])))
+  return spine.map((_, index) => {
+    if (index === 0) return directions[0]
+    if (index === spine.length - 1) return directions[directions.length - 1]
+    const average = normalizeVec3(addVec3(directions[index - 1], directions[index]))
+    return lengthVec3(average) > 0 ? average : directions[index - 1]
+  })
+}
+
+// Any unit vector perpendicular to `tangent`, built from the world axis least aligned with it.
+const perpendicularTo = (tangent: Vec3): Vec3 => {
+  const ax = Math.abs(tangent.x)
+  const ay = Math.abs(tangent.y)
+  const az = Math.abs(tangent.z)
+  const axis: Vec3 =
+    ax <= ay && ax <= az ? { x: 1, y: 0, z: 0 } : ay <= az ? { x: 0, y: 1, z: 0 } : { x: 0, y: 0, z: 1 }
+  return normalizeVec3(crossVec3(tangent, axis))
+}
+
+const projectOut = (vector: Vec3, unit: Vec3): Vec3 =>
+  subVec3(vector, scaleVec3(unit, dotVec3(vector, unit)))
+
+const reflect = (vector: Vec3, across: Vec3, acrossLengthSquared: number): Vec3 =>
+  subVec3(vector, scaleVec3(across, (2 * dotVec3(across, vector)) / acrossLengthSquared))
+
+// Rotation-minimizing frames along a polyline spine (double reflection, Wang et al. 2008), so a
+// swept profile does not twist beyond what the spine's own torsion demands. Repeated points are
+// dropped, so the result has one frame per distinct spine point. `initialNormal` is projected onto
+// the first cross-section plane; without it (or when it is parallel to the tangent) a stable
+// perpendicular is chosen.
+export const rotationMinimizingFrames = (
+  spine: readonly Vec3[],
+  initialNormal?: Vec3,
+): SpineFrame[] => {
+  const points = dedupeSpine(spine)
+  if (points.length < 2) {
+    return []
+  }
+  const tangents = spineTangents(points)
+
+  const seeded = initialNormal === undefined ? null : normalizeVec3(projectOut(initialNormal, tangents[0]))
+  let normal = seeded !== null && lengthVec3(seeded) > 0 ? seeded : perpendicularTo(tangents[0])
+  const frames: SpineFrame[] = []
+  points.forEach((origin, index) => {
+    const tangent = tangents[index]
+    if (index > 0) {
+      const step = subVec3(origin, points[index - 1])
+      const stepLengthSquared = dotVec3(step, step)
+      const reflectedNormal = reflect(normal, step, stepLengthSquared)
+      const reflectedTangent = reflect(tangents[index - 1], step, stepLengthSquared)
+      const correction = subVec3(tangent, reflectedTangent)
+      const correctionLengthSquared = dotVec3(correction, correction)
+      const next =
+        correctionLengthSquared <= EPSILON * EPSILON
+          ? reflectedNormal
+          : reflect(reflectedNormal, correction, correctionLengthSquared)
+      // Re-orthogonalize so rounding cannot accumulate over long spines.
+      const cleaned = normalizeVec3(projectOut(next, tangent))
+      normal = lengthVec3(cleaned) > 0 ? cleaned : perpendicularTo(tangent)
+    }
+    frames.push({ origin, tangent, normal, binormal: crossVec3(tangent, normal) })
+  })
+  return frames
+}
+
+// Places frame-local profile coordinates: x along the normal, y along the binormal, z along the
+// tangent.
+export const spineFrameToAffine3 = (frame: SpineFrame): Affine3 =>
+  basisAffine3(frame.origin, frame.normal, frame.binormal, frame.tangent)
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import {
+  applyAffine2,
+  applyAffine3,
+  applyAffine3ToVector,
+  composeAffine2,
+  composeAffine3,
+  identityAffine3,
+  invertAffine2,
+  invertAffine3,
+  rotateAffine2,
+  rotateAffine3,
+  scaleAffine2,
+  scaleAffine3,
+  translateAffine2,
+  translateAffine3,
+  type Vec3,
+} from './transforms'
+
+const expectVec3Close = (actual: Vec3, expected: Vec3) => {
+  expect(actual.x).toBeCloseTo(expected.x, 12)
+  expect(actual.y).toBeCloseTo(expected.y, 12)
+  expect(actual.z).toBeCloseTo(expected.z, 12)
+}
+
+describe('2D affine transforms', () => {
+  it('composes right to left and inverts', () => {
+    const m = composeAffine2(translateAffine2({ x: 5, y: -2 }), scaleAffine2(2, 3))
+    expect(applyAffine2(m, { x: 1, y: 1 })).toEqual({ x: 7, y: 1 })
+
+    const rotation = rotateAffine2(Math.PI / 2, { x: 1, y: 1 })
+    const rotated = applyAffine2(rotation, { x: 2, y: 1 })
+    expect(rotated.x).toBeCloseTo(1, 12)
+    expect(rotated.y).toBeCloseTo(2, 12)
+
+    const inverse = invertAffine2(composeAffine2(rotation, m))
+    expect(inverse).not.toBeNull()
+    if (inverse === null) return
+    const back = applyAffine2(inverse, applyAffine2(composeAffine2(rotation, m), { x: 3, y: 4 }))
+    expect(back.x).toBeCloseTo(3, 12)
+    expect(back.y).toBeCloseTo(4, 12)
+    expect(invertAffine2(scaleAffine2(0, 1))).toBeNull()
+  })
+})
+
+describe('3D affine transforms', () => {
+  it('rotates right-handed about an axis and ignores translation for vectors', () => {
+    const quarterTurn = rotateAffine3({ x: 0, y: 0, z: 2 }, Math.PI / 2)
+    expectVec3Close(applyAffine3(quarterTurn, { x: 1, y: 0, z: 0 }), { x: 0, y: 1, z: 0 })
+
+    const diagonal = rotateAffine3({ x: 1, y: 1, z: 1 }, (Math.PI * 2) / 3)
+    expectVec3Close(applyAffine3(diagonal, { x: 1, y: 0, z: 0 }), { x: 0, y: 1, z: 0 })
+
+    const moved = composeAffine3(translateAffine3({ x: 1, y: 2, z: 3 }), quarterTurn)
+    expectVec3Close(applyAffine3(moved, { x: 1, y: 0, z: 0 }), { x: 1, y: 3, z: 3 })
+    expectVec3Close(applyAffine3ToVector(moved, { x: 1, y: 0, z: 0 }), { x: 0, y: 1, z: 0 })
+  })
+
+  it('inverts non-singular maps', () => {
+    const m = composeAffine3(
+      translateAffine3({ x: -4, y: 2, z: 9 }),
+      composeAffine3(rotateAffine3({ x: 1, y: 2, z: 0.5 }, 0.7), scaleAffine3({ x: 2, y: 1, z: 0.5 })),
+    )
+    const inverse = invertAffine3(m)
+    expect(inverse).not.toBeNull()
+    if (inverse === null) return
+    const point = { x: 3, y: -1, z: 8 }
+    expectVec3Close(applyAffine3(inverse, applyAffine3(m, point)), point)
+    composeAffine3(inverse, m).forEach((value, index) => {
+      expect(value).toBeCloseTo(identityAffine3()[index], 12)
+    })
+    expect(invertAffine3(scaleAffine3({ x: 1, y: 0, z: 1 }))).toBeNull()
+  })
+})
@@ -0,0 +1,260 @@
+export type Vec2 = { x: number; y: number }
+
+export type Vec3 = { x: number; y: number; z: number }
+
+// Column-vector affine map in SVG order: x' = a * x + c * y + e, y' = b * x + d * y + f.
+export type Affine2 = {
+  a: number
+  b: number
+  c: number
+  d: number
+  e: number
+  f: number
+}
+
+// Row-major 3x4 affine map: the first three columns are linear, the last is the translation.
+export type Affine3 = readonly [
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+]
+
+const SINGULAR_EPSILON = 1e-12
+
+export const addVec3 = (a: Vec3, b: Vec3): Vec3 => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z })
+
+export const subVec3 = (a: Vec3, b: Vec3): Vec3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z })
+
+export const scaleVec3 = (v: Vec3, factor: number): Vec3 => ({
+  x: v.x * factor,
+  y: v.y * factor,
+  z: v.z * factor,
+})
+
+export const dotVec3 = (a: Vec3, b: Vec3): number => a.x * b.x + a.y * b.y + a.z * b.z
+
+export const crossVec3 = (a: Vec3, b: Vec3): Vec3 => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x,
+})
+
+export const lengthVec3 = (v: Vec3): number => Math.hypot(v.x, v.y, v.z)
+
+// Zero-length input stays zero instead of turning into NaN.
+export const normalizeVec3 = (v: Vec3): Vec3 => {
+  const length = lengthVec3(v)
+  return length <= SINGULAR_EPSILON ? { x: 0, y: 0, z: 0 } : scaleVec3(v, 1 / length)
+}
+
+export const identityAffine2 = (): Affine2 => ({ a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 })
+
+export const translateAffine2 = (offset: Vec2): Affine2 => ({
+  a: 1,
+  b: 0,
+  c: 0,
+  d: 1,
+  e: offset.x,
+  f: offset.y,
+})
+
+export const scaleAffine2 = (sx: number, sy: number = sx): Affine2 => ({
+  a: sx,
+  b: 0,
+  c: 0,
+  d: sy,
+  e: 0,
+  f: 0,
+})
+
+// Counter-clockwise rotation by `angleRad` about `origin`.
+export const rotateAffine2 = (angleRad: number, origin: Vec2 = { x: 0, y: 0 }): Affine2 => {
+  const cos = Math.cos(angleRad)
+  const sin = Math.sin(angleRad)
+  return {
+    a: cos,
+    b: sin,
+    c: -sin,
+    d: cos,
+    e: origin.x - cos * origin.x + sin * origin.y,
+    f: origin.y - sin * origin.x - cos * origin.y,
+  }
+}
+
+// `outer` applied after `inner`.
+export const composeAffine2 = (outer: Affine2, inner: Affine2): Affine2 => ({
+  a: outer.a * inner.a + outer.c * inner.b,
+  b: outer.b * inner.a + outer.d * inner.b,
+  c: outer.a * inner.c + outer.c * inner.d,
+  d: outer.b * inner.c + outer.d * inner.d,
+  e: outer.a * inner.e + outer.c * inner.f + outer.e,
+  f: outer.b * inner.e + outer.d * inner.f + outer.f,
+})
+
+export const applyAffine2 = (m: Affine2, point: Vec2): Vec2 => ({
+  x: m.a * point.x + m.c * point.y + m.e,
+  y: m.b * point.x + m.d * point.y + m.f,
+})
+
+export const invertAffine2 = (m: Affine2): Affine2 | null => {
+  const det = m.a * m.d - m.b * m.c
+  if (Math.abs(det) <= SINGULAR_EPSILON) {
+    return null
+  }
+  const a = m.d / det
+  const b = -m.b / det
+  const c = -m.c / det
+  const d = m.a / det
+  return { a, b, c, d, e: -(a * m.e + c * m.f), f: -(b * m.e + d * m.f) }
+}
+
+export const identityAffine3 = (): Affine3 => [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0]
+
+export const translateAffine3 = (offset: Vec3): Affine3 => [
+  1,
+  0,
+  0,
+  offset.x,
+  0,
+  1,
+  0,
+  offset.y,
+  0,
+  0,
+  1,
+  offset.z,
+]
+
+export const scaleAffine3 = (factor: Vec3): Affine3 => [
+  factor.x,
+  0,
+  0,
+  0,
+  0,
+  factor.y,
+  0,
+  0,
+  0,
+  0,
+  factor.z,
+  0,
+]
+
+// Right-handed rotation by `angleRad` about `axis` through the origin (Rodrigues).
+export const rotateAffine3 = (axis: Vec3, angleRad: number): Affine3 => {
+  const { x, y, z } = normalizeVec3(axis)
+  const cos = Math.cos(angleRad)
+  const sin = Math.sin(angleRad)
+  const t = 1 - cos
+  return [
+    t * x * x + cos,
+    t * x * y - sin * z,
+    t * x * z + sin * y,
+    0,
+    t * x * y + sin * z,
+    t * y * y + cos,
+    t * y * z - sin * x,
+    0,
+    t * x * z - sin * y,
+    t * y * z + sin * x,
+    t * z * z + cos,
+    0,
+  ]
+}
+
+// Maps local (x, y, z) onto `origin + x * xAxis + y * yAxis + z * zAxis`.
+export const basisAffine3 = (origin: Vec3, xAxis: Vec3, yAxis: Vec3, zAxis: Vec3): Affine3 => [
+  xAxis.x,
+  yAxis.x,
+  zAxis.x,
+  origin.x,
+  xAxis.y,
+  yAxis.y,
+  zAxis.y,
+  origin.y,
+  xAxis.z,
+  yAxis.z,
+  zAxis.z,
+  origin.z,
+]
+
+// `outer` applied after `inner`.
+export const composeAffine3 = (outer: Affine3, inner: Affine3): Affine3 => {
+  const entry = (row: number, column: number): number =>
+    outer[row * 4] * inner[column] +
+    outer[row * 4 + 1] * inner[4 + column] +
+    outer[row * 4 + 2] * inner[8 + column] +
+    (column === 3 ? outer[row * 4 + 3] : 0)
+  return [
+    entry(0, 0),
+    entry(0, 1),
+    entry(0, 2),
+    entry(0, 3),
+    entry(1, 0),
+    entry(1, 1),
+    entry(1, 2),
+    entry(1, 3),
+    entry(2, 0),
+    entry(2, 1),
+    entry(2, 2),
+    entry(2, 3),
+  ]
+}
+
+export const applyAffine3 = (m: Affine3, point: Vec3): Vec3 => ({
+  x: m[0] * point.x + m[1] * point.y + m[2] * point.z + m[3],
+  y: m[4] * point.x + m[5] * point.y + m[6] * point.z + m[7],
+  z: m[8] * point.x + m[9] * point.y + m[10] * point.z + m[11],
+})
+
+// Directions ignore the translation column.
+export const applyAffine3ToVector = (m: Affine3, vector: Vec3): Vec3 => ({
+  x: m[0] * vector.x + m[1] * vector.y + m[2] * vector.z,
+  y: m[4] * vector.x + m[5] * vector.y + m[6] * vector.z,
+  z: m[8] * vector.x + m[9] * vector.y + m[10] * vector.z,
+})
+
+export const invertAffine3 = (m: Affine3): Affine3 | null => {
+  const [a, b, c, tx, d, e, f, ty, g, h, i, tz] = m
+  const c00 = e * i - f * h
+  const c01 = c * h - b * i
+  const c02 = b * f - c * e
+  const det = a * c00 + d * c01 + g * c02
+  if (Math.abs(det) <= SINGULAR_EPSILON) {
+    return null
+  }
+  const inv = [
+    c00 / det,
+    c01 / det,
+    c02 / det,
+    (f * g - d * i) / det,
+    (a * i - c * g) / det,
+    (c * d - a * f) / det,
+    (d * h - e * g) / det,
+    (b * g - a * h) / det,
+    (a * e - b * d) / det,
+  ]
+  return [
+    inv[0],
+    inv[1],
+    inv[2],
+    -(inv[0] * tx + inv[1] * ty + inv[2] * tz),
+    inv[3],
+    inv[4],
+    inv[5],
+    -(inv[3] * tx + inv[4] * ty + inv[5] * tz),
+    inv[6],
+    inv[7],
+    inv[8],
+    -(inv[6] * tx + inv[7] * ty + inv[8] * tz),
+  ]
+}
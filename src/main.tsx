@@ -2,9 +2,11 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import AppMain from './app/main.tsx'
+import { bootstrapAutosave } from './app/bootstrapAutosave'
 import { bootstrapBuildWiring } from './app/bootstrapBuildWiring'
 
 bootstrapBuildWiring()
+bootstrapAutosave()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest'
 import {
   ASSEMBLED_BUILD_STATS_KEY,
+  compareRuntimeDiagnostics,
   deriveSpaghettiSourcePartKeysFromProfilePatch,
   orderSpaghettiSourcePartKeys,
   withAssembledBuildStatsKey,
@@ -47,6 +48,32 @@ describe('buildStatsKeys', () => {
     ])
   })
 
+  it('orders runtime diagnostics by source part rank, then feature and reason', () => {
+    const diagnostic = (partKey: string, featureId: string, reason: string) => ({
+      partKey,
+      featureId,
+      reason,
+      message: `${featureId} ${reason}`,
+    })
+    expect(
+      [
+        diagnostic('heelKick#1', 'e1', 'missing_profile_ref'),
+        diagnostic('toeHook#1', 'e2', 'missing_profile_ref'),
+        diagnostic('toeHook#1', 'e1', 'missing_profile_ref'),
+        diagnostic('baseplate', 'e1', 'zero_depth'),
+        diagnostic('baseplate', 'e1', 'missing_profile_ref'),
+      ]
+        .sort(compareRuntimeDiagnostics)
+        .map((entry) => `${entry.partKey}|${entry.featureId}|${entry.reason}`),
+    ).toEqual([
+      'baseplate|e1|missing_profile_ref',
+      'baseplate|e1|zero_depth',
+      'toeHook#1|e1|missing_profile_ref',
+      'toeHook#1|e2|missing_profile_ref',
+      'heelKick#1|e1|missing_profile_ref',
+    ])
+  })
+
   it('appends assembled last without using preview identity as a stats key', () => {
     expect(withAssembledBuildStatsKey(['cube', ASSEMBLED_BUILD_STATS_KEY])).toEqual([
       'cube',
@@ -1,4 +1,5 @@
-import { parsePartKeyString } from './buildTypes'
+import { parsePartKeyString, type RuntimeDiagnostic } from './buildTypes'
+import type { ExportScope } from './exportTypes'
 
 export const LEGACY_BUILD_STATS_PART_ORDER = [
   'baseplate',
@@ -49,6 +50,13 @@ export const compareSpaghettiSourcePartKeys = (a: string, b: string): number =>
   return a.localeCompare(b)
 }
 
+// Runtime diagnostics in source part order, then by feature and reason. Workers emit them in
+// this order and sharded builds re-sort with it, so both paths report identically.
+export const compareRuntimeDiagnostics = (a: RuntimeDiagnostic, b: RuntimeDiagnostic): number =>
+  compareSpaghettiSourcePartKeys(a.partKey, b.partKey) ||
+  a.featureId.localeCompare(b.featureId) ||
+  a.reason.localeCompare(b.reason)
+
 export const orderSpaghettiSourcePartKeys = (partKeys: readonly string[]): string[] => {
   const unique = [...new Set(partKeys.filter((partKey) => partKey.length > 0))]
   return unique.sort(compareSpaghettiSourcePartKeys)
@@ -59,6 +67,31 @@ export const withAssembledBuildStatsKey = (partKeys: readonly string[]): string[
   return [...ordered, ASSEMBLED_BUILD_STATS_KEY]
 }
 
+// Rows an export reports under: its parts in source order, or the assembled row.
+export const deriveExportBuildStatsKeys = (scope: ExportScope): string[] => {
+  if (scope.kind === 'assembly') {
+    return [ASSEMBLED_BUILD_STATS_KEY]
+  }
+  return orderSpaghettiSourcePartKeys(scope.kind === 'part' ? [scope.partKey] : scope.partKeys)
+}
+
+// Part keys of the feature-stack IR carried in `sp_featureStackIR`, in build order.
+export const deriveFeatureStackPartKeysFromProfilePatch = (
+  profilePatch: Record<string, unknown>,
+): string[] => {
+  const featureStackPayload = asRecord(profilePatch.sp_featureStackIR)
+  const featureStackParts = asRecord(featureStackPayload?.parts)
+  return featureStackParts === null
+    ? []
+    : orderSpaghettiSourcePartKeys(Object.keys(featureStackParts))
+}
+
+// Cross-part booleans need every part's bodies in one runtime, so such builds cannot be sharded.
+export const hasFeatureStackAssembly = (profilePatch: Record<string, unknown>): boolean => {
+  const assembly = asRecord(profilePatch.sp_featureStackIR)?.assembly
+  return Array.isArray(assembly) && assembly.length > 0
+}
+
 export const deriveSpaghettiSourcePartKeysFromProfilePatch = (
   profilePatch: Record<string, unknown>,
 ): string[] => {
@@ -76,11 +109,7 @@ export const deriveSpaghettiSourcePartKeysFromProfilePatch = (
     partKeys.push('heelKick#1')
   }
 
-  const featureStackPayload = asRecord(profilePatch.sp_featureStackIR)
-  const featureStackParts = asRecord(featureStackPayload?.parts)
-  if (featureStackParts !== null) {
-    partKeys.push(...Object.keys(featureStackParts))
-  }
+  partKeys.push(...deriveFeatureStackPartKeysFromProfilePatch(profilePatch))
 
   return orderSpaghettiSourcePartKeys(partKeys)
 }
@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest'
 import {
+  collectPartArtifactTransferables,
   isPartArtifact,
   parsePartKeyString,
   partKeyToString,
@@ -37,6 +38,32 @@ describe('buildTypes PartArtifact contract', () => {
     ).toBe(false)
   })
 
+  it('accepts mesh artifacts and rejects out-of-range mesh indices', () => {
+    const meshArtifact: PartArtifact = {
+      ...cubeArtifact(),
+      kind: 'mesh',
+      mesh: {
+        positions: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]),
+        indices: new Uint32Array([0, 1, 2]),
+      },
+    }
+    expect(isPartArtifact(meshArtifact)).toBe(true)
+    expect(
+      isPartArtifact({
+        ...meshArtifact,
+        mesh: {
+          positions: meshArtifact.mesh.positions,
+          indices: new Uint32Array([0, 1, 3]),
+        },
+      }),
+    ).toBe(false)
+    expect(isPartArtifact({ ...meshArtifact, mesh: undefined })).toBe(false)
+    expect(collectPartArtifactTransferables([cubeArtifact(), meshArtifact])).toEqual([
+      meshArtifact.mesh.positions.buffer,
+      meshArtifact.mesh.indices.buffer,
+    ])
+  })
+
   it('parses and reserializes part keys deterministically', () => {
     expect(partKeyToString(parsePartKeyString('heelKick#2'))).toBe('heelKick#2')
     expect(partKeyToString(parsePartKeyString('cube'))).toBe('cube')
@@ -1,3 +1,5 @@
+import type { ExportRequest, ExportResult } from './exportTypes'
+
 export type BoxParams = {
   width: number
   length: number
@@ -6,7 +8,13 @@ export type BoxParams = {
 
 export type ViewMode = 'parts' | 'assembled'
 export type BuildPhase = 'parts' | 'assemble' | 'export'
-export type BuildProgressState = 'queued' | 'cache_hit' | 'building' | 'done' | 'error'
+export type BuildProgressState =
+  | 'queued'
+  | 'cache_hit'
+  | 'building'
+  | 'done'
+  | 'error'
+  | 'cancelled'
 
 export const PART_ORDER = ['baseplate', 'heelKick', 'toeHook', 'assembled'] as const
 
@@ -52,15 +60,32 @@ export const parsePartKeyString = (partKeyStr: string): PartKey => {
   }
 }
 
-export type PartArtifact = {
+export type PartMeshData = {
+  // Flat xyz triples in millimetres, CAD frame (Z up).
+  positions: Float32Array
+  indices: Uint32Array
+}
+
+type PartArtifactBase = {
   id: PartId
   label: string
-  kind: 'box'
+  // Box artifacts size the stand-in from params; mesh artifacts report their bounding extents here.
   params: BoxParams
   partKeyStr: string
   partKey: PartKey
 }
 
+export type BoxPartArtifact = PartArtifactBase & {
+  kind: 'box'
+}
+
+export type MeshPartArtifact = PartArtifactBase & {
+  kind: 'mesh'
+  mesh: PartMeshData
+}
+
+export type PartArtifact = BoxPartArtifact | MeshPartArtifact
+
 export type ViewerRenderablePart = {
   viewerKey: string
   artifact: PartArtifact
@@ -86,15 +111,32 @@ export const isPartKey = (value: unknown): value is PartKey => {
 
 export const getPartArtifactKey = (artifact: PartArtifact): string => artifact.partKeyStr
 
+export const isPartMeshData = (value: unknown): value is PartMeshData => {
+  if (!isRecord(value)) {
+    return false
+  }
+  if (!(value.positions instanceof Float32Array) || !(value.indices instanceof Uint32Array)) {
+    return false
+  }
+  if (value.positions.length % 3 !== 0 || value.indices.length % 3 !== 0) {
+    return false
+  }
+  const vertexCount = value.positions.length / 3
+  return value.indices.every((index) => index < vertexCount)
+}
+
 export const isPartArtifact = (value: unknown): value is PartArtifact => {
   if (!isRecord(value)) {
     return false
   }
+  if (value.kind === 'mesh' && !isPartMeshData(value.mesh)) {
+    return false
+  }
   if (
     typeof value.id !== 'string' ||
     value.id.length === 0 ||
     typeof value.label !== 'string' ||
-    value.kind !== 'box' ||
+    (value.kind !== 'box' && value.kind !== 'mesh') ||
     !isRecord(value.params) ||
     typeof value.partKeyStr !== 'string' ||
     value.partKeyStr.length === 0 ||
@@ -112,6 +154,20 @@ export const isPartArtifact = (value: unknown): value is PartArtifact => {
   return partKeyToString(value.partKey) === value.partKeyStr
 }
 
+export const collectPartArtifactTransferables = (
+  parts: readonly PartArtifact[],
+): ArrayBuffer[] => {
+  const buffers = new Set<ArrayBuffer>()
+  for (const part of parts) {
+    if (part.kind !== 'mesh') {
+      continue
+    }
+    buffers.add(part.mesh.positions.buffer as ArrayBuffer)
+    buffers.add(part.mesh.indices.buffer as ArrayBuffer)
+  }
+  return [...buffers]
+}
+
 export const toViewerRenderablePart = (
   artifact: PartArtifact,
   viewerKey: string = artifact.partKeyStr,
@@ -120,30 +176,78 @@ export const toViewerRenderablePart = (
   artifact,
 })
 
+// Non-fatal feature-stack problem reported by the worker, e.g. an extrude skipped because its
+// profile is missing. `reason` is a snake_case code such as `missing_profile`.
+export type RuntimeDiagnostic = {
+  partKey: string
+  featureId: string
+  reason: string
+  message: string
+}
+
+export const isRuntimeDiagnostic = (value: unknown): value is RuntimeDiagnostic =>
+  isRecord(value) &&
+  typeof value.partKey === 'string' &&
+  typeof value.featureId === 'string' &&
+  typeof value.reason === 'string' &&
+  typeof value.message === 'string'
+
+// Slice of a build spread over the worker pool. The worker executes only `partKeys` of the
+// feature-stack IR; the lead shard also builds and reports every part outside the feature stack
+// (legacy parts and the assembled row).
+export type BuildShard = {
+  partKeys: string[]
+  lead: boolean
+}
+
 export type BuildRequest = {
-  type: 'build'
+  type: 'build/request'
   seq: number
   payload: BoxParams
   changedParamIds?: string[]
   heelKickInstances?: number[]
   toeHookInstances?: number[]
+  shard?: BuildShard
 }
 
 export type AssembleRequest = {
-  type: 'assemble'
+  type: 'assemble/request'
   seq: number
   payload: BoxParams
 }
 
+// Stops the in-flight build or assemble for `seq` (or an older one) at its next feature boundary.
+export type CancelRequest = {
+  type: 'build/cancel'
+  seq: number
+}
+
+// Exports rebuild from `payload` (compiled at the export's tessellation quality) rather than reuse
+// the preview build, then write the bodies `request.scope` selects.
+export type ExportRequestMessage = {
+  type: 'export/request'
+  seq: number
+  payload: BoxParams
+  request: ExportRequest
+}
+
+// Exports run beside builds, so `build/cancel` leaves them alone; this stops the export for `seq`
+// (or an older one).
+export type ExportCancelRequest = {
+  type: 'export/cancel'
+  seq: number
+}
+
 export type BuildResult = {
-  type: 'build_result'
+  type: 'build/result'
   seq: number
   parts: PartArtifact[]
   changedParamIds?: string[]
+  diagnostics?: RuntimeDiagnostic[]
 }
 
 export type AssembleResult = {
-  type: 'assemble_result'
+  type: 'assemble/result'
   seq: number
   assembled: {
     width: number
@@ -153,15 +257,35 @@ export type AssembleResult = {
   signature: string
 }
 
+export type ExportResultMessage = {
+  type: 'export/result'
+  seq: number
+  payload: ExportResult
+}
+
+// First message of every worker; the app holds requests back until it arrives.
+export type WorkerReady = {
+  type: 'worker/ready'
+  protocolVersion: number
+}
+
 export type WorkerError = {
-  type: 'worker_error'
+  type: 'worker/error'
   seq: number
   op: 'assemble' | 'build' | 'export'
   message: string
 }
 
+// Worker geometry cache activity for one build; `entries` is the cache size once it finished.
+export type GeometryCacheCounts = {
+  hits: number
+  misses: number
+  evictions: number
+  entries: number
+}
+
 export type BuildProgress = {
-  type: 'build_progress'
+  type: 'build/progress'
   seq: number
   phase: BuildPhase
   partKey: string
@@ -169,10 +293,20 @@ export type BuildProgress = {
   progress01?: number
   ms?: number
   message?: string
+  cache?: GeometryCacheCounts
 }
 
+export type WorkerInboundMessage =
+  | BuildRequest
+  | AssembleRequest
+  | ExportRequestMessage
+  | CancelRequest
+  | ExportCancelRequest
+
 export type WorkerOutboundMessage =
+  | WorkerReady
   | BuildResult
   | AssembleResult
+  | ExportResultMessage
   | WorkerError
   | BuildProgress
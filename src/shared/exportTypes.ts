@@ -1,10 +1,27 @@
 export type ExportFormat = 'stl' | 'step'
 
+export type StlEncoding = 'binary' | 'ascii'
+
+export type ExportScope =
+  | {
+      kind: 'part'
+      partKey: string
+    }
+  | {
+      kind: 'parts'
+      partKeys: string[]
+    }
+  | {
+      kind: 'assembly'
+    }
+
 export interface ExportRequest {
   schemaVersion: number
   requestId: string
   format: ExportFormat
   buildRequestId: string
+  scope: ExportScope
+  stlEncoding?: StlEncoding
 }
 
 export interface ExportResult {
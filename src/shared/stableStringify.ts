@@ -0,0 +1,17 @@
+// JSON with object keys sorted, so equal values always serialize alike. Keys holding `undefined`
+// are dropped as JSON.stringify would, which keeps `{ a: undefined }` equal to `{}`.
+export const stableStringify = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'undefined'
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(',')}]`
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, nested]) => nested !== undefined)
+    .sort((a, b) => a[0].localeCompare(b[0]))
+  const serialized = entries.map(
+    ([key, nested]) => `${JSON.stringify(key)}:${stableStringify(nested)}`,
+  )
+  return `{${serialized.join(',')}}`
+}
@@ -3,6 +3,8 @@ import {
   AmbientLight,
   AxesHelper,
   BoxGeometry,
+  BufferAttribute,
+  BufferGeometry,
   Clock,
   Color,
   DirectionalLight,
@@ -24,7 +26,11 @@ import {
   WebGLRenderer,
 } from 'three'
 import type { TransformControlsMode } from 'three/examples/jsm/controls/TransformControls.js'
-import type { AssembleResult, ViewerRenderablePart } from '../shared/buildTypes'
+import type {
+  AssembleResult,
+  PartArtifact,
+  ViewerRenderablePart,
+} from '../shared/buildTypes'
 import {
   DEFAULT_VIEW_SETTINGS,
   type LightSpec,
@@ -100,6 +106,39 @@ const toLightType = (light: Light): LightType | null => {
   return null
 }
 
+const createPartGeometry = (artifact: PartArtifact): BufferGeometry => {
+  if (artifact.kind === 'box') {
+    return new BoxGeometry(
+      artifact.params.length,
+      artifact.params.height,
+      artifact.params.width,
+    )
+  }
+
+  const indexed = new BufferGeometry()
+  indexed.setAttribute('position', new BufferAttribute(artifact.mesh.positions, 3))
+  indexed.setIndex(new BufferAttribute(artifact.mesh.indices, 1))
+  // De-index so caps and side walls get flat normals; this also copies the artifact buffers,
+  // which keeps the in-place rotation below from mutating the build result.
+  const geometry = indexed.toNonIndexed()
+  indexed.dispose()
+  // CAD bodies are Z-up; the scene is Y-up.
+  geometry.rotateX(-Math.PI / 2)
+  geometry.computeVertexNormals()
+  geometry.center()
+  geometry.computeBoundingBox()
+  return geometry
+}
+
+const geometrySize = (geometry: BufferGeometry): Vector3 => {
+  const size = new Vector3()
+  if (geometry.boundingBox === null) {
+    geometry.computeBoundingBox()
+  }
+  geometry.boundingBox?.getSize(size)
+  return size
+}
+
 export class Viewer {
   private readonly container: HTMLElement
   private readonly scene: Scene
@@ -190,22 +229,18 @@ export class Viewer {
     let xCursor = -2
     for (const part of parts) {
       const partKeyStr = part.viewerKey
-      const artifact = part.artifact
-      const geometry = new BoxGeometry(
-        artifact.params.length,
-        artifact.params.height,
-        artifact.params.width,
-      )
+      const geometry = createPartGeometry(part.artifact)
+      const size = geometrySize(geometry)
       const material = this.resolveMaterialForPart(partKeyStr)
       const mesh = new Mesh(geometry, material)
       mesh.name = partKeyStr
-      mesh.position.set(xCursor + artifact.params.length / 2, artifact.params.height / 2, 0)
+      mesh.position.set(xCursor + size.x / 2, size.y / 2, 0)
       mesh.visible = visibility[partKeyStr] ?? true
       mesh.castShadow = this.currentViewSettings.shadowsEnabled
       mesh.receiveShadow = this.currentViewSettings.shadowsEnabled
       this.rootGroup.add(mesh)
       this.partMeshes.set(partKeyStr, mesh)
-      xCursor += artifact.params.length + 0.2
+      xCursor += size.x + 0.2
     }
 
     this.refreshSelectionStyling()
@@ -4,8 +4,10 @@ import {
   type BoxParams,
   type PartArtifact,
 } from '../shared/buildTypes'
-import { compareSpaghettiSourcePartKeys } from '../shared/buildStatsKeys'
+import { compareRuntimeDiagnostics, compareSpaghettiSourcePartKeys } from '../shared/buildStatsKeys'
+import { mergeMeshPacks } from './cad/cadKernelAdapter'
 import type { MeshPack, RuntimeDiagnostic, Shape3D } from './cad/cadTypes'
+import type { FeatureStackRunOptions } from './cad/featureStackRuntime'
 import { deriveLegacyParts } from './pipeline/partsSpec'
 import { runFoothookFeatureStack } from './products/foothook/buildFoothook'
 
@@ -17,6 +19,14 @@ type BuildInstances = {
 type BuildModelRequest = {
   payload: BoxParams
   instances: BuildInstances
+  // Cache, abort signal and pause for the feature-stack run.
+  featureStack?: FeatureStackRunOptions
+}
+
+export type BuildModelResult = {
+  parts: PartArtifact[]
+  // Unique feature-stack diagnostics, sorted by part, feature and reason.
+  diagnostics: RuntimeDiagnostic[]
 }
 
 const asRecord = (value: unknown): Record<string, unknown> | null =>
@@ -72,32 +82,27 @@ const boundsFromMesh = (mesh: MeshPack): Bounds3 | null => {
   }
 }
 
-const mergeBounds = (current: Bounds3, next: Bounds3): Bounds3 => ({
-  minX: Math.min(current.minX, next.minX),
-  maxX: Math.max(current.maxX, next.maxX),
-  minY: Math.min(current.minY, next.minY),
-  maxY: Math.max(current.maxY, next.maxY),
-  minZ: Math.min(current.minZ, next.minZ),
-  maxZ: Math.max(current.maxZ, next.maxZ),
-})
-
 const compareShapes = (a: Shape3D, b: Shape3D): number =>
   compareSpaghettiSourcePartKeys(a.partKey, b.partKey) ||
   a.bodyId.localeCompare(b.bodyId) ||
   a.featureId.localeCompare(b.featureId)
 
-const toArtifactFromBounds = (partKeyStr: string, bounds: Bounds3): PartArtifact => {
+const toMeshArtifact = (partKeyStr: string, mesh: MeshPack, bounds: Bounds3): PartArtifact => {
   const partKey = parsePartKeyString(partKeyStr)
   const baseLabel = GRAPH_PART_LABELS[partKey.id] ?? partKey.id
   return {
     id: partKey.id,
     label: partKey.instance === null ? baseLabel : `${baseLabel} #${partKey.instance}`,
-    kind: 'box',
+    kind: 'mesh',
     params: {
       length: bounds.maxX - bounds.minX,
       width: bounds.maxY - bounds.minY,
       height: bounds.maxZ - bounds.minZ,
     },
+    mesh: {
+      positions: Float32Array.from(mesh.vertices),
+      indices: Uint32Array.from(mesh.indices),
+    },
     partKeyStr,
     partKey,
   }
@@ -107,27 +112,34 @@ const deriveFeatureStackArtifacts = (
   bodies: Record<string, Shape3D>,
   existingPartKeys: ReadonlySet<string>,
 ): PartArtifact[] => {
-  const boundsByPartKey = new Map<string, Bounds3>()
+  const meshesByPartKey = new Map<string, MeshPack[]>()
   const sortedBodies = Object.values(bodies).sort(compareShapes)
 
   for (const body of sortedBodies) {
-    const nextBounds = boundsFromMesh(body.mesh)
-    if (nextBounds === null) {
+    if (boundsFromMesh(body.mesh) === null) {
       continue
     }
-    const current = boundsByPartKey.get(body.partKey)
-    boundsByPartKey.set(body.partKey, current === undefined ? nextBounds : mergeBounds(current, nextBounds))
+    const current = meshesByPartKey.get(body.partKey)
+    if (current === undefined) {
+      meshesByPartKey.set(body.partKey, [body.mesh])
+      continue
+    }
+    current.push(body.mesh)
   }
 
-  return [...boundsByPartKey.entries()]
+  return [...meshesByPartKey.entries()]
     .filter(([partKey]) => !existingPartKeys.has(partKey))
     .sort((a, b) => compareSpaghettiSourcePartKeys(a[0], b[0]))
-    .map(([partKey, bounds]) => toArtifactFromBounds(partKey, bounds))
+    .flatMap(([partKey, meshes]) => {
+      const merged = mergeMeshPacks(meshes)
+      const bounds = boundsFromMesh(merged)
+      return bounds === null ? [] : [toMeshArtifact(partKey, merged, bounds)]
+    })
 }
 
-const flushDiagnostics = (diagnostics: readonly RuntimeDiagnostic[]): void => {
+const flushDiagnostics = (diagnostics: readonly RuntimeDiagnostic[]): RuntimeDiagnostic[] => {
   if (diagnostics.length === 0) {
-    return
+    return []
   }
   const unique = new Map<string, RuntimeDiagnostic>()
   for (const diagnostic of diagnostics) {
@@ -137,32 +149,33 @@ const flushDiagnostics = (diagnostics: readonly RuntimeDiagnostic[]): void => {
     }
   }
   if (unique.size === 0) {
-    return
+    return []
   }
-  const sorted = [...unique.entries()].sort((a, b) => a[0].localeCompare(b[0]))
-  const lines = sorted.map(
-    ([key, diagnostic]) => `${key}: ${diagnostic.message}`,
-  )
-  console.warn(
-    `[FeatureStackRuntime] ${lines.length} unique warning(s)\n${lines.join('\n')}`,
-  )
+  return [...unique.values()].sort(compareRuntimeDiagnostics)
 }
 
-export const buildModel = ({ payload, instances }: BuildModelRequest): PartArtifact[] => {
+export const buildModel = async ({
+  payload,
+  instances,
+  featureStack,
+}: BuildModelRequest): Promise<BuildModelResult> => {
   const legacyParts = deriveLegacyParts(payload, instances)
   const profilePatch = asRecord(payload)
   if (profilePatch === null) {
-    return legacyParts
+    return { parts: legacyParts, diagnostics: [] }
   }
 
-  const featureStackResult = runFoothookFeatureStack(profilePatch)
+  const featureStackResult = await runFoothookFeatureStack(profilePatch, featureStack)
   if (featureStackResult !== null) {
-    flushDiagnostics(featureStackResult.diagnostics)
+    const diagnostics = flushDiagnostics(featureStackResult.diagnostics)
     const legacyPartKeys = new Set(legacyParts.map(getPartArtifactKey))
-    return [
-      ...legacyParts,
-      ...deriveFeatureStackArtifacts(featureStackResult.bodies, legacyPartKeys),
-    ]
+    return {
+      parts: [
+        ...legacyParts,
+        ...deriveFeatureStackArtifacts(featureStackResult.bodies, legacyPartKeys),
+      ],
+      diagnostics,
+    }
   }
-  return legacyParts
+  return { parts: legacyParts, diagnostics: [] }
 }
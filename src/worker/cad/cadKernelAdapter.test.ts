@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import type { MeshPack } from './cadTypes'
+import { mergeMeshPacks } from './cadKernelAdapter'
+
+describe('mergeMeshPacks', () => {
+  it('offsets indices by the vertices merged before each mesh', () => {
+    const triangle: MeshPack = { vertices: [0, 0, 0, 1, 0, 0, 0, 1, 0], indices: [0, 1, 2] }
+
+    expect(mergeMeshPacks([triangle, triangle])).toEqual({
+      vertices: [...triangle.vertices, ...triangle.vertices],
+      indices: [0, 1, 2, 3, 4, 5],
+    })
+  })
+
+  it('merges meshes too dense to spread into a call', () => {
+    const vertexCount = 400_000
+    const dense: MeshPack = {
+      vertices: Array.from({ length: vertexCount * 3 }, (_, index) => index),
+      indices: Array.from({ length: vertexCount }, (_, index) => index),
+    }
+
+    const merged = mergeMeshPacks([dense, dense])
+
+    expect(merged.vertices).toHaveLength(vertexCount * 6)
+    expect(merged.vertices[vertexCount * 3]).toBe(0)
+    expect(merged.indices.at(-1)).toBe(vertexCount * 2 - 1)
+  })
+})
@@ -1,4 +1,20 @@
-import type { Face, MeshPack, Point2, Shape3D, Wire } from './cadTypes'
+import type {
+  Face,
+  LoftSection,
+  MeshPack,
+  Point2,
+  ProfileSegment,
+  RevolveAxis,
+  Point3,
+  Shape3D,
+  SketchPlane,
+  SweepPath,
+  Wire,
+} from './cadTypes'
+import type { YieldingWork } from './yieldingWork'
+import { matchLoopSampling } from '../../geometry/loftSampling'
+import { rotationMinimizingFrames, spineFrameToAffine3 } from '../../geometry/spineFrames'
+import { applyAffine3, crossVec3, dotVec3, subVec3 } from '../../geometry/transforms'
 
 const pointKey = (point: Point2): string => `${String(point.x)}|${String(point.y)}`
 
@@ -27,15 +43,53 @@ const signedArea = (vertices: readonly Point2[]): number => {
   return sum * 0.5
 }
 
-const ensureCounterClockwise = (vertices: readonly Point2[]): Point2[] => {
-  if (signedArea(vertices) >= 0) {
+export type LoopOrientation = 'ccw' | 'cw'
+
+const orientVertices = (vertices: readonly Point2[], orientation: LoopOrientation): Point2[] => {
+  if (signedArea(vertices) >= 0 === (orientation === 'ccw')) {
     return [...vertices]
   }
   return [vertices[0], ...vertices.slice(1).reverse()]
 }
 
-export const wireFromLoop = (vertices: readonly Point2[]): Wire => {
-  const normalized = ensureCounterClockwise(dedupeClosingVertex(vertices))
+const reverseSegment = (segment: ProfileSegment): ProfileSegment => {
+  if (segment.kind === 'line2') {
+    return { kind: 'line2', a: segment.b, b: segment.a }
+  }
+  if (segment.kind === 'bezier2') {
+    return { kind: 'bezier2', p0: segment.p3, p1: segment.p2, p2: segment.p1, p3: segment.p0 }
+  }
+  return { kind: 'arc3pt2', start: segment.end, mid: segment.mid, end: segment.start }
+}
+
+// Coarse orientation proxy; control points keep Bezier hulls on the same side as the curve.
+const segmentOrientationPoints = (segment: ProfileSegment): Point2[] => {
+  if (segment.kind === 'line2') {
+    return [segment.a]
+  }
+  if (segment.kind === 'bezier2') {
+    return [segment.p0, segment.p1, segment.p2]
+  }
+  return [segment.start, segment.mid]
+}
+
+const orientSegments = (
+  segments: readonly ProfileSegment[],
+  orientation: LoopOrientation,
+): ProfileSegment[] => {
+  if (signedArea(segments.flatMap(segmentOrientationPoints)) >= 0 === (orientation === 'ccw')) {
+    return [...segments]
+  }
+  return [...segments].reverse().map(reverseSegment)
+}
+
+// Outer boundaries are counter-clockwise, holes clockwise, so the material is always on the left.
+export const wireFromLoop = (
+  vertices: readonly Point2[],
+  segments?: readonly ProfileSegment[],
+  orientation: LoopOrientation = 'ccw',
+): Wire => {
+  const normalized = orientVertices(dedupeClosingVertex(vertices), orientation)
   if (normalized.length < 3) {
     throw new Error('Profile has fewer than 3 vertices.')
   }
@@ -44,62 +98,720 @@ export const wireFromLoop = (vertices: readonly Point2[]): Wire => {
   }
   return {
     vertices: normalized,
+    ...(segments === undefined || segments.length === 0
+      ? {}
+      : { segments: orientSegments(segments, orientation) }),
   }
 }
 
-export const faceFromWire = (wire: Wire): Face => ({
+export const faceFromWire = (
+  wire: Wire,
+  plane: SketchPlane = 'XY',
+  holes: readonly Wire[] = [],
+): Face => ({
   wire,
+  holes: [...holes],
+  plane,
 })
 
-const extrudeMesh = (wire: Wire, depth: number): MeshPack => {
+export const toSketchPlaneFrame = (
+  plane: SketchPlane,
+  u: number,
+  v: number,
+  w: number,
+): [number, number, number] => {
+  if (plane === 'YZ') {
+    return [w, u, v]
+  }
+  if (plane === 'XZ') {
+    // `0 - w` keeps the start plane at +0 rather than -0 in emitted meshes.
+    return [u, 0 - w, v]
+  }
+  return [u, v, w]
+}
+
+const meshToSketchPlane = (mesh: MeshPack, plane: SketchPlane): MeshPack => {
+  if (plane === 'XY') {
+    return mesh
+  }
+  const vertices: number[] = []
+  for (let index = 0; index + 2 < mesh.vertices.length; index += 3) {
+    vertices.push(
+      ...toSketchPlaneFrame(plane, mesh.vertices[index], mesh.vertices[index + 1], mesh.vertices[index + 2]),
+    )
+  }
+  return { vertices, indices: mesh.indices }
+}
+
+const DRAFT_EPSILON = 1e-9
+
+// Miter-offsets a loop; positive insets move edges towards the material (left of travel), which
+// shrinks outer boundaries and widens holes. Returns null when the offset flips an edge or swallows
+// the area, i.e. the drafted profile has collapsed.
+const insetLoop = (loop: readonly Point2[], inset: number): Point2[] | null => {
+  const n = loop.length
+  const inwardNormal = (index: number): Point2 => {
+    const from = loop[index]
+    const to = loop[(index + 1) % n]
+    const length = Math.hypot(to.x - from.x, to.y - from.y)
+    return { x: -(to.y - from.y) / length, y: (to.x - from.x) / length }
+  }
+
+  const result = loop.map((point, index) => {
+    const before = inwardNormal((index + n - 1) % n)
+    const after = inwardNormal(index)
+    const scale = inset / (1 + before.x * after.x + before.y * after.y)
+    return { x: point.x + (before.x + after.x) * scale, y: point.y + (before.y + after.y) * scale }
+  })
+
+  for (let index = 0; index < n; index += 1) {
+    const next = (index + 1) % n
+    const dot =
+      (loop[next].x - loop[index].x) * (result[next].x - result[index].x) +
+      (loop[next].y - loop[index].y) * (result[next].y - result[index].y)
+    if (!Number.isFinite(dot) || dot <= DRAFT_EPSILON) {
+      return null
+    }
+  }
+  return signedArea(result) * Math.sign(signedArea(loop)) > DRAFT_EPSILON ? result : null
+}
+
+const faceLoops = (face: Face): Point2[][] => [
+  face.wire.vertices,
+  ...face.holes.map((hole) => hole.vertices),
+]
+
+// Top loops of a drafted extrude in `[outer, ...holes]` order, or null when the taper collapses one.
+export const draftTopLoops = (face: Face, depth: number, taperDeg: number): Point2[][] | null => {
+  if (taperDeg === 0) {
+    return faceLoops(face).map((loop) => [...loop])
+  }
+  const inset = depth * Math.tan((taperDeg * Math.PI) / 180)
+  const loops: Point2[][] = []
+  for (const loop of faceLoops(face)) {
+    const drafted = insetLoop(loop, inset)
+    if (drafted === null) {
+      return null
+    }
+    loops.push(drafted)
+  }
+  return loops
+}
+
+const TRIANGULATION_EPSILON = 1e-12
+
+const cross2 = (o: Point2, a: Point2, b: Point2): number =>
+  (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+
+const samePoint = (a: Point2, b: Point2): boolean => a.x === b.x && a.y === b.y
+
+const segmentsCross = (a: Point2, b: Point2, c: Point2, d: Point2): boolean =>
+  cross2(c, d, a) * cross2(c, d, b) < 0 && cross2(a, b, c) * cross2(a, b, d) < 0
+
+const pointInTriangle = (point: Point2, a: Point2, b: Point2, c: Point2): boolean =>
+  cross2(a, b, point) >= -TRIANGULATION_EPSILON &&
+  cross2(b, c, point) >= -TRIANGULATION_EPSILON &&
+  cross2(c, a, point) >= -TRIANGULATION_EPSILON
+
+// Splices every clockwise hole into the counter-clockwise outer ring through a bridge edge that
+// crosses no boundary, giving one weakly simple ring of point indices.
+const bridgeHoles = (points: readonly Point2[], outer: number[], holes: number[][]): number[] => {
+  let ring = [...outer]
+  const rightmost = (hole: number[]): number =>
+    hole.reduce((best, index, position) => (points[index].x > points[hole[best]].x ? position : best), 0)
+  const pending = [...holes].sort(
+    (a, b) => points[b[rightmost(b)]].x - points[a[rightmost(a)]].x || a[0] - b[0],
+  )
+
+  pending.forEach((hole, holeOrder) => {
+    const start = rightmost(hole)
+    const anchor = points[hole[start]]
+    const edges: Array<[Point2, Point2]> = []
+    for (const loop of [ring, ...pending.slice(holeOrder)]) {
+      loop.forEach((index, position) => {
+        edges.push([points[index], points[loop[(position + 1) % loop.length]]])
+      })
+    }
+    const candidates = ring
+      .map((index, position) => ({
+        position,
+        distance: Math.hypot(points[index].x - anchor.x, points[index].y - anchor.y),
+      }))
+      .sort((a, b) => a.distance - b.distance || a.position - b.position)
+    const visible = candidates.find(({ position }) => {
+      const target = points[ring[position]]
+      return edges.every(
+        ([from, to]) =>
+          samePoint(from, target) ||
+          samePoint(to, target) ||
+          samePoint(from, anchor) ||
+          samePoint(to, anchor) ||
+          !segmentsCross(anchor, target, from, to),
+      )
+    })
+    const position = (visible ?? candidates[0]).position
+    const holeRing = [...hole.slice(start), ...hole.slice(0, start), hole[start]]
+    ring = [...ring.slice(0, position + 1), ...holeRing, ...ring.slice(position)]
+  })
+
+  return ring
+}
+
+// Ear clipping over the bridged ring; returns counter-clockwise triangles as point indices. Yields
+// after every clipped vertex: the ear search is quadratic in the ring size.
+const triangulateRing = function* (
+  points: readonly Point2[],
+  ring: readonly number[],
+): YieldingWork<number[]> {
+  const remaining = [...ring]
+  const triangles: number[] = []
+
+  while (remaining.length > 3) {
+    const count = remaining.length
+    let earPosition = -1
+    for (let position = 0; position < count && earPosition < 0; position += 1) {
+      const a = points[remaining[(position + count - 1) % count]]
+      const b = points[remaining[position]]
+      const c = points[remaining[(position + 1) % count]]
+      if (cross2(a, b, c) <= TRIANGULATION_EPSILON) {
+        continue
+      }
+      const blocked = remaining.some((index) => {
+        const point = points[index]
+        return (
+          !samePoint(point, a) &&
+          !samePoint(point, b) &&
+          !samePoint(point, c) &&
+          pointInTriangle(point, a, b, c)
+        )
+      })
+      if (!blocked) {
+        earPosition = position
+      }
+    }
+
+    if (earPosition < 0) {
+      // Only numerically flat leftovers get here; drop the flattest vertex so clipping terminates.
+      let flattest = 0
+      let flattestArea = Number.POSITIVE_INFINITY
+      for (let position = 0; position < count; position += 1) {
+        const area = Math.abs(
+          cross2(
+            points[remaining[(position + count - 1) % count]],
+            points[remaining[position]],
+            points[remaining[(position + 1) % count]],
+          ),
+        )
+        if (area < flattestArea) {
+          flattest = position
+          flattestArea = area
+        }
+      }
+      remaining.splice(flattest, 1)
+      yield
+      continue
+    }
+
+    triangles.push(
+      remaining[(earPosition + count - 1) % count],
+      remaining[earPosition],
+      remaining[(earPosition + 1) % count],
+    )
+    remaining.splice(earPosition, 1)
+    yield
+  }
+
+  if (
+    remaining.length === 3 &&
+    cross2(points[remaining[0]], points[remaining[1]], points[remaining[2]]) > TRIANGULATION_EPSILON
+  ) {
+    triangles.push(remaining[0], remaining[1], remaining[2])
+  }
+  return triangles
+}
+
+// Triangulates `[outer (ccw), ...holes (cw)]`; indices address the loops concatenated in order.
+export const triangulateLoops = function* (
+  loops: readonly (readonly Point2[])[],
+): YieldingWork<number[]> {
+  const points = loops.flat()
+  const rings: number[][] = []
+  let offset = 0
+  for (const loop of loops) {
+    rings.push(loop.map((_, index) => offset + index))
+    offset += loop.length
+  }
+  const [outer, ...holes] = rings
+  return outer === undefined ? [] : yield* triangulateRing(points, bridgeHoles(points, outer, holes))
+}
+
+const extrudeMesh = function* (
+  bottomLoops: readonly (readonly Point2[])[],
+  topLoops: readonly (readonly Point2[])[],
+  z0: number,
+  depth: number,
+): YieldingWork<MeshPack> {
   if (!Number.isFinite(depth) || depth <= 0) {
     throw new Error('Extrude depth must be positive and finite.')
   }
+  if (
+    topLoops.length !== bottomLoops.length ||
+    topLoops.some((loop, index) => loop.length !== bottomLoops[index].length)
+  ) {
+    throw new Error('Extrude top loops must match the profile loops.')
+  }
 
-  const loop = wire.vertices
-  const n = loop.length
+  const total = bottomLoops.reduce((sum, loop) => sum + loop.length, 0)
   const vertices: number[] = []
   const indices: number[] = []
 
-  for (const point of loop) {
-    vertices.push(point.x, point.y, 0)
+  for (const point of bottomLoops.flat()) {
+    vertices.push(point.x, point.y, z0)
   }
-  for (const point of loop) {
-    vertices.push(point.x, point.y, depth)
+  for (const point of topLoops.flat()) {
+    vertices.push(point.x, point.y, z0 + depth)
   }
 
-  for (let index = 1; index < n - 1; index += 1) {
-    indices.push(0, index + 1, index)
+  const bottomCap = yield* triangulateLoops(bottomLoops)
+  for (let index = 0; index + 2 < bottomCap.length; index += 3) {
+    indices.push(bottomCap[index], bottomCap[index + 2], bottomCap[index + 1])
   }
-  for (let index = 1; index < n - 1; index += 1) {
-    indices.push(n, n + index, n + index + 1)
+  for (const index of yield* triangulateLoops(topLoops)) {
+    indices.push(total + index)
   }
-  for (let index = 0; index < n; index += 1) {
-    const next = (index + 1) % n
-    indices.push(index, next, n + next)
-    indices.push(index, n + next, n + index)
+
+  // Drafted sides stay planar trapezoids because every top edge is parallel to its bottom edge.
+  let offset = 0
+  for (const loop of bottomLoops) {
+    const n = loop.length
+    for (let index = 0; index < n; index += 1) {
+      const current = offset + index
+      const next = offset + ((index + 1) % n)
+      indices.push(current, next, total + next)
+      indices.push(current, total + next, total + current)
+    }
+    offset += n
   }
 
   return { vertices, indices }
 }
 
-export const extrudeFaceAlongZ = (
+export type ExtrudeOptions = {
+  offset?: number
+  // Drafted top loops from `draftTopLoops`; omitted for straight walls.
+  topLoops?: readonly (readonly Point2[])[]
+}
+
+// Extrudes along the local Z axis of the face, i.e. the normal of its sketch plane.
+export const extrudeFaceAlongZ = function* (
   face: Face,
   depth: number,
   metadata: Pick<Shape3D, 'bodyId' | 'featureId' | 'op' | 'partKey'>,
-): Shape3D => ({
-  kind: 'extrusion',
-  ...metadata,
-  mesh: extrudeMesh(face.wire, depth),
-})
+  options: ExtrudeOptions = {},
+): YieldingWork<Shape3D> {
+  const z0 = options.offset ?? 0
+  const bottomLoops = faceLoops(face)
+  const topLoops = options.topLoops ?? bottomLoops
+  // Exact prism data only describes straight walls; drafted bodies are exported from the mesh.
+  const straight = options.topLoops === undefined
+  const holeSegments = face.holes.flatMap((hole) =>
+    hole.segments === undefined ? [] : [hole.segments],
+  )
+  const exact =
+    straight && face.wire.segments !== undefined && holeSegments.length === face.holes.length
+  return {
+    kind: 'extrusion',
+    ...metadata,
+    mesh: meshToSketchPlane(yield* extrudeMesh(bottomLoops, topLoops, z0, depth), face.plane),
+    ...(!exact || face.wire.segments === undefined
+      ? {}
+      : {
+          brep: {
+            kind: 'prism',
+            plane: face.plane,
+            segments: face.wire.segments,
+            holes: holeSegments,
+            z0,
+            z1: z0 + depth,
+          },
+        }),
+  }
+}
+
+const REVOLVE_SEGMENTS_PER_TURN = 64
+const REVOLVE_AXIS_EPSILON = 1e-9
+
+const signedMeshVolume = (mesh: MeshPack): number => {
+  let sum = 0
+  for (let index = 0; index + 2 < mesh.indices.length; index += 3) {
+    const [a, b, c] = [0, 1, 2].map((corner) => mesh.indices[index + corner] * 3)
+    const v = mesh.vertices
+    sum +=
+      v[a] * (v[b + 1] * v[c + 2] - v[b + 2] * v[c + 1]) -
+      v[a + 1] * (v[b] * v[c + 2] - v[b + 2] * v[c]) +
+      v[a + 2] * (v[b] * v[c + 1] - v[b + 1] * v[c])
+  }
+  return sum / 6
+}
 
+const revolveMesh = function* (
+  loops: readonly (readonly Point2[])[],
+  axis: RevolveAxis,
+  angleDeg: number,
+): YieldingWork<MeshPack> {
+  if (!Number.isFinite(angleDeg) || angleDeg <= 0 || angleDeg > 360) {
+    throw new Error('Revolve angle must be within (0, 360] degrees.')
+  }
+  const length = Math.hypot(axis.direction.x, axis.direction.y)
+  if (!Number.isFinite(length) || length <= 0) {
+    throw new Error('Revolve axis direction must be non-zero.')
+  }
+  const along = { x: axis.direction.x / length, y: axis.direction.y / length }
+  const radial = { x: -along.y, y: along.x }
+  const points = loops.flat()
+  const radii = points.map(
+    (point) => (point.x - axis.origin.x) * radial.x + (point.y - axis.origin.y) * radial.y,
+  )
+  if (radii.some((r) => r > REVOLVE_AXIS_EPSILON) && radii.some((r) => r < -REVOLVE_AXIS_EPSILON)) {
+    throw new Error('Revolve profile crosses the axis.')
+  }
+  if (radii.every((r) => Math.abs(r) <= REVOLVE_AXIS_EPSILON)) {
+    throw new Error('Revolve profile lies on the axis.')
+  }
+
+  const full = angleDeg === 360
+  const steps = Math.max(1, Math.ceil((REVOLVE_SEGMENTS_PER_TURN * angleDeg) / 360))
+  const ringCount = full ? steps : steps + 1
+  const vertices: number[] = []
+  // Points on the axis share one vertex across every ring so the surface closes without slivers.
+  const rings: number[][] = []
+  for (let ring = 0; ring < ringCount; ring += 1) {
+    const theta = (((angleDeg * ring) / steps) * Math.PI) / 180
+    const cos = Math.cos(theta)
+    const sin = Math.sin(theta)
+    rings.push(
+      points.map((point, index) => {
+        const r = radii[index]
+        if (ring > 0 && Math.abs(r) <= REVOLVE_AXIS_EPSILON) {
+          return rings[0][index]
+        }
+        const dx = radial.x * r * (cos - 1)
+        const dy = radial.y * r * (cos - 1)
+        vertices.push(point.x + dx, point.y + dy, r * sin)
+        return vertices.length / 3 - 1
+      }),
+    )
+  }
+
+  const indices: number[] = []
+  const pushTriangle = (a: number, b: number, c: number): void => {
+    if (a !== b && b !== c && a !== c) {
+      indices.push(a, b, c)
+    }
+  }
+
+  let offset = 0
+  for (const loop of loops) {
+    const n = loop.length
+    for (let index = 0; index < n; index += 1) {
+      const current = offset + index
+      const next = offset + ((index + 1) % n)
+      for (let step = 0; step < steps; step += 1) {
+        const from = rings[step]
+        const to = rings[(step + 1) % ringCount]
+        pushTriangle(from[current], from[next], to[next])
+        pushTriangle(from[current], to[next], to[current])
+      }
+    }
+    offset += n
+  }
+
+  if (!full) {
+    const cap = yield* triangulateLoops(loops)
+    const last = rings[ringCount - 1]
+    for (let index = 0; index + 2 < cap.length; index += 3) {
+      pushTriangle(rings[0][cap[index]], rings[0][cap[index + 2]], rings[0][cap[index + 1]])
+      pushTriangle(last[cap[index]], last[cap[index + 1]], last[cap[index + 2]])
+    }
+  }
+
+  // Profiles on the negative side of the axis sweep the other way; flip them outward.
+  if (signedMeshVolume({ vertices, indices }) < 0) {
+    for (let index = 0; index + 2 < indices.length; index += 3) {
+      const swap = indices[index + 1]
+      indices[index + 1] = indices[index + 2]
+      indices[index + 2] = swap
+    }
+  }
+  return { vertices, indices }
+}
+
+// Revolves a face about an axis lying in its sketch plane, starting in the plane and turning
+// towards the plane normal. Partial revolves are capped; 360 deg closes on itself.
+export const revolveFace = function* (
+  face: Face,
+  axis: RevolveAxis,
+  angleDeg: number,
+  metadata: Pick<Shape3D, 'bodyId' | 'featureId' | 'op' | 'partKey'>,
+): YieldingWork<Shape3D> {
+  return {
+    kind: 'revolution',
+    ...metadata,
+    mesh: meshToSketchPlane(yield* revolveMesh(faceLoops(face), axis, angleDeg), face.plane),
+  }
+}
+
+const LOFT_OFFSET_EPSILON = 1e-9
+
+const loftMesh = function* (
+  rings: readonly { loop: readonly Point2[]; offset: number }[],
+): YieldingWork<MeshPack> {
+  const n = rings[0].loop.length
+  const vertices: number[] = []
+  const indices: number[] = []
+  for (const ring of rings) {
+    for (const point of ring.loop) {
+      vertices.push(point.x, point.y, ring.offset)
+    }
+  }
+
+  const bottomCap = yield* triangulateLoops([rings[0].loop])
+  for (let index = 0; index + 2 < bottomCap.length; index += 3) {
+    indices.push(bottomCap[index], bottomCap[index + 2], bottomCap[index + 1])
+  }
+  const top = (rings.length - 1) * n
+  for (const index of yield* triangulateLoops([rings[rings.length - 1].loop])) {
+    indices.push(top + index)
+  }
+
+  for (let ring = 0; ring + 1 < rings.length; ring += 1) {
+    const lower = ring * n
+    const upper = lower + n
+    for (let index = 0; index < n; index += 1) {
+      const next = (index + 1) % n
+      indices.push(lower + index, lower + next, upper + next)
+      indices.push(lower + index, upper + next, upper + index)
+    }
+  }
+
+  return { vertices, indices }
+}
+
+// Skins the outer loops of two or more faces of one sketch plane, placed at their offsets along
+// the plane normal. Sections are taken in offset order, resampled to a common vertex count and
+// aligned to their predecessor; both ends are capped, so the body is a closed manifold.
+export const loftFaces = function* (
+  sections: readonly LoftSection[],
+  metadata: Pick<Shape3D, 'bodyId' | 'featureId' | 'op' | 'partKey'>,
+): YieldingWork<Shape3D> {
+  if (sections.length < 2) {
+    throw new Error('Loft needs at least two sections.')
+  }
+  const plane = sections[0].face.plane
+  if (sections.some((section) => section.face.plane !== plane)) {
+    throw new Error('Loft sections must share one sketch plane.')
+  }
+  if (sections.some((section) => section.face.holes.length > 0)) {
+    throw new Error('Loft sections cannot have holes.')
+  }
+  if (sections.some((section) => !Number.isFinite(section.offset))) {
+    throw new Error('Loft section offsets must be finite.')
+  }
+  const ordered = sections
+    .map((section, order) => ({ section, order }))
+    .sort((a, b) => a.section.offset - b.section.offset || a.order - b.order)
+    .map(({ section }) => section)
+  if (
+    ordered.some(
+      (section, index) =>
+        index > 0 && section.offset - ordered[index - 1].offset <= LOFT_OFFSET_EPSILON,
+    )
+  ) {
+    throw new Error('Loft sections must sit at distinct offsets.')
+  }
+
+  const loops = matchLoopSampling(ordered.map((section) => section.face.wire.vertices))
+  const rings = loops.map((loop, index) => ({ loop, offset: ordered[index].offset }))
+
+  return {
+    kind: 'loft',
+    ...metadata,
+    mesh: meshToSketchPlane(yield* loftMesh(rings), plane),
+  }
+}
+
+const SWEEP_POINT_EPSILON = 1e-9
+
+const toWorldPoint = (plane: SketchPlane, point: Point3): Point3 => {
+  const [x, y, z] = toSketchPlaneFrame(plane, point.x, point.y, point.z)
+  return { x, y, z }
+}
+
+const dedupePathPoints = (points: readonly Point3[], closed: boolean): Point3[] => {
+  const out: Point3[] = []
+  for (const point of points) {
+    const previous = out[out.length - 1]
+    if (
+      previous === undefined ||
+      Math.hypot(point.x - previous.x, point.y - previous.y, point.z - previous.z) >
+        SWEEP_POINT_EPSILON
+    ) {
+      out.push(point)
+    }
+  }
+  if (closed && out.length > 2) {
+    const first = out[0]
+    const last = out[out.length - 1]
+    if (Math.hypot(first.x - last.x, first.y - last.y, first.z - last.z) <= SWEEP_POINT_EPSILON) {
+      out.pop()
+    }
+  }
+  return out
+}
+
+// Moves a face along a path from where it was drawn: the first cross-section is the face itself,
+// and later ones follow the path's rotation-minimizing frames, seeded with the face plane's u
+// axis. The profile turns by up to `twistDeg` and scales towards `scale` in proportion to the
+// arc length travelled. Open paths are capped at both ends; closed paths join the last
+// cross-section back to the first, with the frames' residual rotation spread along the loop so
+// the seam meets.
+export const sweepFace = function* (
+  face: Face,
+  path: SweepPath,
+  twistDeg: number,
+  scale: number,
+  metadata: Pick<Shape3D, 'bodyId' | 'featureId' | 'op' | 'partKey'>,
+): YieldingWork<Shape3D> {
+  if (!Number.isFinite(twistDeg)) {
+    throw new Error('Sweep twist must be finite.')
+  }
+  if (!Number.isFinite(scale) || scale <= 0) {
+    throw new Error('Sweep scale must be greater than zero.')
+  }
+  if (path.closed && scale !== 1) {
+    throw new Error('Closed sweep paths cannot scale the profile.')
+  }
+  const spine = dedupePathPoints(
+    path.points.map((point) => toWorldPoint(path.plane, point)),
+    path.closed,
+  )
+  if (spine.length < (path.closed ? 3 : 2)) {
+    throw new Error('Sweep path needs at least two distinct points.')
+  }
+
+  // Closed paths are padded with their neighbours so every point gets an averaged tangent; the
+  // extra frame at the repeated start measures how far the normal drifted around the loop.
+  const n = spine.length
+  const padded = path.closed ? [spine[n - 1], ...spine, spine[0], spine[1]] : spine
+  const paddedFrames = rotationMinimizingFrames(
+    padded,
+    toWorldPoint(face.plane, { x: 1, y: 0, z: 0 }),
+  )
+  if (paddedFrames.length !== padded.length) {
+    throw new Error('Sweep path doubles back on itself.')
+  }
+  const frames = path.closed ? paddedFrames.slice(1, n + 1) : paddedFrames
+  const first = frames[0]
+  const closingNormal = path.closed ? paddedFrames[n + 1].normal : first.normal
+  const drift = Math.atan2(
+    dotVec3(crossVec3(first.normal, closingNormal), first.tangent),
+    dotVec3(first.normal, closingNormal),
+  )
+
+  const distances = [0]
+  for (let index = 1; index < n; index += 1) {
+    const step = subVec3(spine[index], spine[index - 1])
+    distances.push(distances[index - 1] + Math.hypot(step.x, step.y, step.z))
+  }
+  const closing = subVec3(spine[0], spine[n - 1])
+  const total =
+    distances[n - 1] + (path.closed ? Math.hypot(closing.x, closing.y, closing.z) : 0)
+
+  // Profile points in the first frame: x along the normal, y the binormal, z the tangent.
+  const loops = faceLoops(face)
+  const points = loops.flat()
+  const local = points.map((point) => {
+    const offset = subVec3(toWorldPoint(face.plane, { x: point.x, y: point.y, z: 0 }), first.origin)
+    return {
+      x: dotVec3(offset, first.normal),
+      y: dotVec3(offset, first.binormal),
+      z: dotVec3(offset, first.tangent),
+    }
+  })
+
+  const twistRad = (twistDeg * Math.PI) / 180
+  const vertices: number[] = []
+  frames.forEach((frame, ring) => {
+    const s = distances[ring] / total
+    const angle = (twistRad - drift) * s
+    const factor = 1 + (scale - 1) * s
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    const placement = spineFrameToAffine3(frame)
+    for (const point of local) {
+      const placed = applyAffine3(placement, {
+        x: (point.x * cos - point.y * sin) * factor,
+        y: (point.x * sin + point.y * cos) * factor,
+        z: point.z * factor,
+      })
+      vertices.push(placed.x, placed.y, placed.z)
+    }
+  })
+
+  const ringSize = points.length
+  const ringCount = frames.length
+  const indices: number[] = []
+  const steps = path.closed ? ringCount : ringCount - 1
+  let offset = 0
+  for (const loop of loops) {
+    for (let index = 0; index < loop.length; index += 1) {
+      const current = offset + index
+      const next = offset + ((index + 1) % loop.length)
+      for (let step = 0; step < steps; step += 1) {
+        const from = step * ringSize
+        const to = ((step + 1) % ringCount) * ringSize
+        indices.push(from + current, from + next, to + next)
+        indices.push(from + current, to + next, to + current)
+      }
+    }
+    offset += loop.length
+  }
+
+  if (!path.closed) {
+    const cap = yield* triangulateLoops(loops)
+    const last = (ringCount - 1) * ringSize
+    for (let index = 0; index + 2 < cap.length; index += 3) {
+      indices.push(cap[index], cap[index + 2], cap[index + 1])
+      indices.push(last + cap[index], last + cap[index + 1], last + cap[index + 2])
+    }
+  }
+
+  // A path leaving against the face normal sweeps the profile inside out; flip it outward.
+  if (signedMeshVolume({ vertices, indices }) < 0) {
+    for (let index = 0; index + 2 < indices.length; index += 3) {
+      const swap = indices[index + 1]
+      indices[index + 1] = indices[index + 2]
+      indices[index + 2] = swap
+    }
+  }
+
+  return {
+    kind: 'sweep',
+    ...metadata,
+    mesh: { vertices, indices },
+  }
+}
+
+// Copies element by element: spreading a dense mesh into `push` overflows the call stack.
 export const mergeMeshPacks = (meshes: readonly MeshPack[]): MeshPack => {
   const mergedVertices: number[] = []
   const mergedIndices: number[] = []
   let vertexOffset = 0
 
   for (const mesh of meshes) {
-    mergedVertices.push(...mesh.vertices)
+    for (const value of mesh.vertices) {
+      mergedVertices.push(value)
+    }
     for (const index of mesh.indices) {
       mergedIndices.push(index + vertexOffset)
     }
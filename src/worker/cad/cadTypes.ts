@@ -9,12 +9,61 @@ export type Point3 = {
   z: number
 }
 
+// Sketch plane of a profile. Local (u, v, w) maps to XY: (u, v, w), YZ: (w, u, v), XZ: (u, -w, v),
+// so w is always the plane normal and local extrusions stay right-handed.
+export type SketchPlane = 'XY' | 'YZ' | 'XZ'
+
+export type ProfileSegment =
+  | {
+      kind: 'line2'
+      a: Point2
+      b: Point2
+    }
+  | {
+      kind: 'bezier2'
+      p0: Point2
+      p1: Point2
+      p2: Point2
+      p3: Point2
+    }
+  | {
+      kind: 'arc3pt2'
+      start: Point2
+      mid: Point2
+      end: Point2
+    }
+
 export type Wire = {
   vertices: Point2[]
+  // Exact source curves, oriented counter-clockwise like `vertices`. Absent for vertex-only profiles.
+  segments?: ProfileSegment[]
 }
 
 export type Face = {
   wire: Wire
+  // Inner boundaries, oriented clockwise.
+  holes: Wire[]
+  plane: SketchPlane
+}
+
+// Revolve axis in the sketch's local 2D frame; `direction` need not be normalised.
+export type RevolveAxis = {
+  origin: Point2
+  direction: Point2
+}
+
+// Loft section: a face placed `offset` along the normal of its sketch plane.
+export type LoftSection = {
+  face: Face
+  offset: number
+}
+
+// Sweep path polyline in the (u, v, w) frame of `plane`. Closed paths do not repeat their first
+// point.
+export type SweepPath = {
+  plane: SketchPlane
+  points: Point3[]
+  closed: boolean
 }
 
 export type MeshPack = {
@@ -22,21 +71,29 @@ export type MeshPack = {
   indices: number[]
 }
 
+// Exact boundary description for bodies that are a straight extrusion of a closed segment loop.
+export type PrismBrep = {
+  kind: 'prism'
+  plane: SketchPlane
+  segments: ProfileSegment[]
+  // Clockwise hole loops cut through the prism.
+  holes: ProfileSegment[][]
+  // Local extent along the plane normal.
+  z0: number
+  z1: number
+}
+
 export type Shape3D = {
-  kind: 'extrusion' | 'mesh_pack_merge'
+  kind: 'extrusion' | 'revolution' | 'loft' | 'sweep' | 'boolean' | 'mesh_pack_merge'
   bodyId: string
   featureId: string
   op: string
   mesh: MeshPack
   partKey: string
+  brep?: PrismBrep
 }
 
-export type RuntimeDiagnostic = {
-  partKey: string
-  featureId: string
-  reason: string
-  message: string
-}
+export type { RuntimeDiagnostic } from '../../shared/buildTypes'
 
 export type RuntimeTraceBody = {
   bodyKey: string
@@ -51,10 +51,15 @@ vi.mock('../../app/spaghetti/registry/nodeRegistry', async () => {
 import { compileSpaghettiGraph } from '../../app/spaghetti/compiler/compileGraph'
 import { getDefaultNodeParams } from '../../app/spaghetti/registry/nodeRegistry'
 import { OUTPUT_PREVIEW_NODE_TYPE } from '../../app/spaghetti/system/outputPreviewNode'
+import { isPartArtifact } from '../../shared/buildTypes'
 import { buildModel } from '../buildModel'
 import {
   executeFeatureStack,
+  executeFeatureStackCooperatively,
+  type FeatureStackCache,
+  type FeatureStackCacheStage,
   type FeatureStackIRPayload,
+  type FeatureStackSnapshot,
 } from './featureStackRuntime'
 
 const rectangleVertices = [
@@ -93,6 +98,16 @@ const basePayload = (): FeatureStackIRPayload => ({
   },
 })
 
+const withExtrudeParams = (params: {
+  taperResolved?: number
+  offsetResolved?: number
+}): FeatureStackIRPayload => {
+  const payload = basePayload()
+  const [sketch, extrude] = payload.parts.baseplate
+  payload.parts.baseplate = [sketch, { ...extrude, ...params }]
+  return payload
+}
+
 const cubeGraph = (): SpaghettiGraph => ({
   schemaVersion: 1,
   nodes: [
@@ -418,14 +433,820 @@ describe('executeFeatureStack', () => {
       result.diagnostics.some((item) => item.reason === 'duplicate_body_id'),
     ).toBe(true)
   })
+
+  it('starts the body at the resolved offset plane', () => {
+    const payload = withExtrudeParams({ offsetResolved: 2 })
+
+    const result = executeFeatureStack(payload)
+    const zs = result.bodies['baseplate:body-a'].mesh.vertices.filter((_, index) => index % 3 === 2)
+    expect(Math.min(...zs)).toBe(2)
+    expect(Math.max(...zs)).toBe(5)
+    expect(result.diagnostics).toEqual([])
+  })
+
+  it('insets the top loop for a positive taper and flares it for a negative one', () => {
+    const topLoopX = (taperResolved: number): number[] => {
+      const payload = withExtrudeParams({ taperResolved })
+      const result = executeFeatureStack(payload)
+      expect(result.diagnostics).toEqual([])
+      const { vertices } = result.bodies['baseplate:body-a'].mesh
+      return [0, 1, 2, 3].map((index) => Number(vertices[(4 + index) * 3].toFixed(6)))
+    }
+
+    // tan(taper) * depth 3 moves every edge 1mm.
+    const taperDeg = (Math.atan(1 / 3) * 180) / Math.PI
+    expect(topLoopX(taperDeg)).toEqual([1, 9, 9, 1])
+    expect(topLoopX(-taperDeg)).toEqual([-1, 11, 11, -1])
+  })
+
+  it('extrudes along the normal of the sketch plane', () => {
+    const extents = (plane: 'XY' | 'YZ' | 'XZ') => {
+      const payload = basePayload()
+      Object.assign(payload.parts.baseplate[0], { plane })
+      const result = executeFeatureStack(payload)
+      expect(result.diagnostics).toEqual([])
+      const { vertices } = result.bodies['baseplate:body-a'].mesh
+      return [0, 1, 2].map((axis) => {
+        const values = vertices.filter((_, index) => index % 3 === axis)
+        return [Math.min(...values), Math.max(...values)]
+      })
+    }
+
+    // 10 x 5 rectangle, depth 3.
+    expect(extents('XY')).toEqual([[0, 10], [0, 5], [0, 3]])
+    expect(extents('YZ')).toEqual([[0, 3], [0, 10], [0, 5]])
+    expect(extents('XZ')).toEqual([[0, 10], [-3, 0], [0, 5]])
+  })
+
+  it('cuts profile holes through the body with watertight caps', () => {
+    const payload = basePayload()
+    Object.assign(payload.parts.baseplate[0], {
+      profilesResolved: [
+        {
+          profileId: 'prof-a',
+          area: 46,
+          vertices: rectangleVertices,
+          holes: [
+            {
+              vertices: [
+                { x: 2, y: 2 },
+                { x: 4, y: 2 },
+                { x: 4, y: 4 },
+                { x: 2, y: 4 },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+
+    const result = executeFeatureStack(payload)
+    expect(result.diagnostics).toEqual([])
+    const { vertices, indices } = result.bodies['baseplate:body-a'].mesh
+    const edgeUses = new Map<string, number>()
+    let topCapArea = 0
+    for (let index = 0; index < indices.length; index += 3) {
+      const corners = [indices[index], indices[index + 1], indices[index + 2]]
+      corners.forEach((corner, position) => {
+        const next = corners[(position + 1) % 3]
+        const key = `${Math.min(corner, next)}-${Math.max(corner, next)}`
+        edgeUses.set(key, (edgeUses.get(key) ?? 0) + 1)
+      })
+      const [a, b, c] = corners.map((corner) => vertices.slice(corner * 3, corner * 3 + 3))
+      if (a[2] === 3 && b[2] === 3 && c[2] === 3) {
+        topCapArea += ((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0])) / 2
+      }
+    }
+
+    expect(topCapArea).toBeCloseTo(46)
+    expect([...edgeUses.values()].every((uses) => uses === 2)).toBe(true)
+  })
+
+  it('triangulates concave profiles without covering the notch', () => {
+    const payload = basePayload()
+    Object.assign(payload.parts.baseplate[0], {
+      profilesResolved: [
+        {
+          profileId: 'prof-a',
+          area: 35,
+          vertices: [
+            { x: 0, y: 0 },
+            { x: 10, y: 0 },
+            { x: 10, y: 5 },
+            { x: 5, y: 5 },
+            { x: 5, y: 2 },
+            { x: 0, y: 2 },
+          ],
+        },
+      ],
+    })
+
+    const result = executeFeatureStack(payload)
+    const { vertices, indices } = result.bodies['baseplate:body-a'].mesh
+    let bottomCapArea = 0
+    for (let index = 0; index < indices.length; index += 3) {
+      const [a, b, c] = [indices[index], indices[index + 1], indices[index + 2]].map((corner) =>
+        vertices.slice(corner * 3, corner * 3 + 3),
+      )
+      if (a[2] === 0 && b[2] === 0 && c[2] === 0) {
+        bottomCapArea -= ((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0])) / 2
+      }
+    }
+    expect(bottomCapArea).toBeCloseTo(35)
+  })
+
+  it('reports a taper that collapses the profile', () => {
+    const payload = withExtrudeParams({ taperResolved: 60 })
+
+    const result = executeFeatureStack(payload)
+    expect(result.bodies).toEqual({})
+    expect(result.diagnostics.map((item) => item.reason)).toEqual(['taper_collapsed_profile'])
+  })
+
+  it('rejects tapers at or beyond 90 degrees', () => {
+    const payload = withExtrudeParams({ taperResolved: 90 })
+
+    const result = executeFeatureStack(payload)
+    expect(result.bodies).toEqual({})
+    expect(result.diagnostics.map((item) => item.reason)).toEqual(['invalid_taper'])
+  })
+})
+
+const revolvePayload = (params: {
+  vertices: Array<{ x: number; y: number }>
+  angleResolved: number
+  axisResolved?: { origin: { x: number; y: number }; direction: { x: number; y: number } } | null
+}): FeatureStackIRPayload => ({
+  schemaVersion: 1,
+  parts: {
+    baseplate: [
+      {
+        op: 'sketch',
+        featureId: 'sketch-1',
+        profilesResolved: [{ profileId: 'prof-a', area: 0, vertices: params.vertices }],
+      },
+      {
+        op: 'revolve',
+        featureId: 'revolve-1',
+        profileRef: { sketchFeatureId: 'sketch-1', profileId: 'prof-a' },
+        axisResolved:
+          params.axisResolved === undefined
+            ? { origin: { x: 0, y: 0 }, direction: { x: 0, y: 1 } }
+            : params.axisResolved,
+        angleResolved: params.angleResolved,
+        bodyId: 'pin',
+      },
+    ],
+  },
+})
+
+const meshVolumeAndOpenEdges = (mesh: { vertices: number[]; indices: number[] }) => {
+  const edgeUses = new Map<string, number>()
+  let volume = 0
+  for (let index = 0; index < mesh.indices.length; index += 3) {
+    const corners = [mesh.indices[index], mesh.indices[index + 1], mesh.indices[index + 2]]
+    corners.forEach((corner, position) => {
+      const next = corners[(position + 1) % 3]
+      const key = `${Math.min(corner, next)}-${Math.max(corner, next)}`
+      edgeUses.set(key, (edgeUses.get(key) ?? 0) + 1)
+    })
+    const [a, b, c] = corners.map((corner) => mesh.vertices.slice(corner * 3, corner * 3 + 3))
+    volume +=
+      (a[0] * (b[1] * c[2] - b[2] * c[1]) -
+        a[1] * (b[0] * c[2] - b[2] * c[0]) +
+        a[2] * (b[0] * c[1] - b[1] * c[0])) /
+      6
+  }
+  return { volume, openEdges: [...edgeUses.values()].filter((uses) => uses !== 2).length }
+}
+
+describe('executeFeatureStack revolve', () => {
+  it('revolves a pivot pin profile into a closed outward-facing cylinder', () => {
+    const result = executeFeatureStack(
+      revolvePayload({
+        vertices: [
+          { x: 0, y: 0 },
+          { x: 2, y: 0 },
+          { x: 2, y: 10 },
+          { x: 0, y: 10 },
+        ],
+        angleResolved: 360,
+      }),
+    )
+
+    expect(result.diagnostics).toEqual([])
+    expect(result.bodyTrace.map((body) => [body.bodyKey, body.op])).toEqual([
+      ['baseplate:pin', 'revolve'],
+    ])
+    const pin = result.bodies['baseplate:pin']
+    expect(pin.kind).toBe('revolution')
+    // 64-gon cross-section of radius 2 over length 10.
+    const { volume, openEdges } = meshVolumeAndOpenEdges(pin.mesh)
+    expect(volume).toBeCloseTo(32 * 4 * Math.sin(Math.PI / 32) * 10, 6)
+    expect(openEdges).toBe(0)
+  })
+
+  it('caps partial revolves and keeps them watertight', () => {
+    const result = executeFeatureStack(
+      revolvePayload({
+        vertices: [
+          { x: 1, y: 0 },
+          { x: 3, y: 0 },
+          { x: 3, y: 2 },
+          { x: 1, y: 2 },
+        ],
+        angleResolved: 90,
+        axisResolved: { origin: { x: 0, y: 0 }, direction: { x: 0, y: -1 } },
+      }),
+    )
+
+    const { vertices } = result.bodies['baseplate:pin'].mesh
+    const { volume, openEdges } = meshVolumeAndOpenEdges(result.bodies['baseplate:pin'].mesh)
+    const zs = vertices.filter((_, index) => index % 3 === 2)
+    expect(openEdges).toBe(0)
+    expect(volume).toBeGreaterThan(0)
+    // Turning about -Y sweeps the +X profile towards +Z.
+    expect(Math.min(...zs)).toBe(0)
+    expect(Math.max(...zs)).toBeCloseTo(3)
+  })
+
+  it('reports profiles that cross the axis and unresolved axis lines', () => {
+    const crossing = executeFeatureStack(
+      revolvePayload({
+        vertices: [
+          { x: -1, y: 0 },
+          { x: 1, y: 0 },
+          { x: 1, y: 2 },
+          { x: -1, y: 2 },
+        ],
+        angleResolved: 360,
+      }),
+    )
+    const missingAxis = executeFeatureStack(
+      revolvePayload({ vertices: rectangleVertices, angleResolved: 360, axisResolved: null }),
+    )
+
+    expect(crossing.bodies).toEqual({})
+    expect(crossing.diagnostics.map((item) => item.reason)).toEqual(['revolve_failure'])
+    expect(missingAxis.diagnostics.map((item) => item.reason)).toEqual(['missing_revolve_axis'])
+  })
+})
+
+type PayloadOp = FeatureStackIRPayload['parts'][string][number]
+
+const squareSketch = (featureId: string, x0: number, y0: number, size: number): PayloadOp => ({
+  op: 'sketch',
+  featureId,
+  profilesResolved: [
+    {
+      profileId: `${featureId}-profile`,
+      area: size * size,
+      vertices: [
+        { x: x0, y: y0 },
+        { x: x0 + size, y: y0 },
+        { x: x0 + size, y: y0 + size },
+        { x: x0, y: y0 + size },
+      ],
+    },
+  ],
+})
+
+const squareExtrude = (featureId: string, sketchFeatureId: string, bodyId: string): PayloadOp => ({
+  op: 'extrude',
+  featureId,
+  profileRef: { sketchFeatureId, profileId: `${sketchFeatureId}-profile` },
+  depthResolved: 2,
+  bodyId,
+})
+
+describe('executeFeatureStack boolean', () => {
+  it('replaces consumed bodies with the boolean result', () => {
+    const result = executeFeatureStack({
+      schemaVersion: 1,
+      parts: {
+        baseplate: [
+          squareSketch('sketch-a', 0, 0, 2),
+          squareExtrude('extrude-a', 'sketch-a', 'body-a'),
+          squareSketch('sketch-b', 1, 1, 2),
+          squareExtrude('extrude-b', 'sketch-b', 'body-b'),
+          {
+            op: 'boolean',
+            featureId: 'boolean-1',
+            operation: 'subtract',
+            targetBodyId: 'body-a',
+            toolBodyIds: ['body-b'],
+            bodyId: 'body-cut',
+          },
+        ],
+      },
+    })
+
+    expect(result.diagnostics).toEqual([])
+    expect(Object.keys(result.bodies)).toEqual(['baseplate:body-cut'])
+    expect(result.bodyTrace.map((body) => [body.bodyKey, body.op, body.executionIndex])).toEqual([
+      ['baseplate:body-cut', 'boolean', 2],
+    ])
+    const { volume } = meshVolumeAndOpenEdges(result.bodies['baseplate:body-cut'].mesh)
+    expect(volume).toBeCloseTo(8 - 2, 9)
+  })
+
+  it('runs cross-part booleans after every part and keeps foreign tools', () => {
+    const result = executeFeatureStack({
+      schemaVersion: 1,
+      parts: {
+        'toeHook#1': [
+          squareSketch('sketch-t', 1, 1, 2),
+          squareExtrude('extrude-t', 'sketch-t', 'body-t'),
+        ],
+        baseplate: [
+          squareSketch('sketch-a', 0, 0, 2),
+          squareExtrude('extrude-a', 'sketch-a', 'body-a'),
+        ],
+      },
+      assembly: [
+        {
+          featureId: 'boolean-x',
+          partKey: 'baseplate',
+          operation: 'union',
+          targetBodyId: 'body-a',
+          tools: [{ partKey: 'toeHook#1', bodyId: 'body-t' }],
+          bodyId: 'body-joined',
+        },
+      ],
+    })
+
+    expect(result.diagnostics).toEqual([])
+    expect(result.bodyTrace.map((body) => [body.bodyKey, body.executionIndex])).toEqual([
+      ['baseplate:body-joined', 1],
+      ['toeHook#1:body-t', 0],
+    ])
+    const { volume } = meshVolumeAndOpenEdges(result.bodies['baseplate:body-joined'].mesh)
+    expect(volume).toBeCloseTo(8 + 8 - 2, 9)
+  })
+
+  it('keeps the inputs when a boolean is missing bodies or produces nothing', () => {
+    const payload = (
+      operation: 'union' | 'intersect',
+      targetBodyId: string | null,
+      toolBodyIds: string[],
+    ): FeatureStackIRPayload => ({
+      schemaVersion: 1,
+      parts: {
+        baseplate: [
+          squareSketch('sketch-a', 0, 0, 2),
+          squareExtrude('extrude-a', 'sketch-a', 'body-a'),
+          squareSketch('sketch-b', 5, 5, 2),
+          squareExtrude('extrude-b', 'sketch-b', 'body-b'),
+          { op: 'boolean', featureId: 'boolean-1', operation, targetBodyId, toolBodyIds },
+        ],
+      },
+    })
+
+    const reasons = [
+      payload('union', 'body-a', ['body-z']),
+      payload('union', null, ['body-b']),
+      payload('union', 'body-a', []),
+      payload('intersect', 'body-a', ['body-b']),
+    ].map((item) => {
+      const result = executeFeatureStack(item)
+      expect(Object.keys(result.bodies)).toEqual(['baseplate:body-a', 'baseplate:body-b'])
+      return result.diagnostics.map((diagnostic) => diagnostic.reason)
+    })
+    expect(reasons).toEqual([
+      ['missing_boolean_body'],
+      ['missing_boolean_target'],
+      ['missing_boolean_tool'],
+      ['empty_boolean_result'],
+    ])
+  })
+})
+
+const memoryStackCache = () => {
+  const entries = new Map<string, FeatureStackSnapshot>()
+  const lookups: string[] = []
+  const keyOf = (stage: FeatureStackCacheStage) => JSON.stringify(stage)
+  const cache: FeatureStackCache = {
+    get: (stage) => {
+      const snapshot = entries.get(keyOf(stage))
+      lookups.push(`${stage.kind === 'part' ? stage.partKey : 'assembly'}:${snapshot ? 'hit' : 'miss'}`)
+      return snapshot
+    },
+    set: (stage, snapshot) => {
+      entries.set(keyOf(stage), snapshot)
+    },
+  }
+  return { cache, lookups }
+}
+
+const cachedAssemblyPayload = (toeHookSize: number): FeatureStackIRPayload => ({
+  schemaVersion: 1,
+  parts: {
+    'toeHook#1': [
+      squareSketch('sketch-t', 1, 1, toeHookSize),
+      squareExtrude('extrude-t', 'sketch-t', 'body-t'),
+    ],
+    baseplate: [
+      squareSketch('sketch-a', 0, 0, 2),
+      squareExtrude('extrude-a', 'sketch-a', 'body-a'),
+      squareExtrude('extrude-dup', 'sketch-a', 'body-a'),
+    ],
+  },
+  assembly: [
+    {
+      featureId: 'boolean-x',
+      partKey: 'baseplate',
+      operation: 'union',
+      targetBodyId: 'body-a',
+      tools: [{ partKey: 'toeHook#1', bodyId: 'body-t' }],
+      bodyId: 'body-joined',
+    },
+  ],
+})
+
+describe('executeFeatureStack cache', () => {
+  it('replays unchanged stages with the same shapes, trace and diagnostics', () => {
+    const { cache, lookups } = memoryStackCache()
+    const first = executeFeatureStack(cachedAssemblyPayload(2), cache)
+    const repeated = executeFeatureStack(cachedAssemblyPayload(2), cache)
+
+    expect(lookups).toEqual([
+      'baseplate:miss',
+      'toeHook#1:miss',
+      'assembly:miss',
+      'baseplate:hit',
+      'toeHook#1:hit',
+      'assembly:hit',
+    ])
+    expect(first.diagnostics.map((item) => item.reason)).toEqual(['duplicate_body_id'])
+    expect(repeated.diagnostics).toEqual(first.diagnostics)
+    expect(repeated.bodyTrace).toEqual(first.bodyTrace)
+    expect(repeated.bodies['baseplate:body-joined']).toBe(first.bodies['baseplate:body-joined'])
+    expect(repeated.bodies['toeHook#1:body-t']).toBe(first.bodies['toeHook#1:body-t'])
+  })
+
+  it('re-executes only the edited part and the assembly pass', () => {
+    const { cache, lookups } = memoryStackCache()
+    const first = executeFeatureStack(cachedAssemblyPayload(2), cache)
+    lookups.length = 0
+    const edited = executeFeatureStack(cachedAssemblyPayload(3), cache)
+
+    expect(lookups).toEqual(['baseplate:hit', 'toeHook#1:miss', 'assembly:miss'])
+    expect(edited.bodies['toeHook#1:body-t']).not.toBe(first.bodies['toeHook#1:body-t'])
+    expect(edited.bodyTrace).toEqual(executeFeatureStack(cachedAssemblyPayload(3)).bodyTrace)
+    const { volume } = meshVolumeAndOpenEdges(edited.bodies['baseplate:body-joined'].mesh)
+    expect(volume).toBeCloseTo(8 + 18 - 2, 9)
+  })
+})
+
+describe('executeFeatureStackCooperatively', () => {
+  it('matches the synchronous run and reports each executed stage step by step', async () => {
+    let pauses = 0
+    const progress: string[] = []
+    const result = await executeFeatureStackCooperatively(cachedAssemblyPayload(2), {
+      pause: async () => {
+        pauses += 1
+      },
+      onStageProgress: (stageKey, progress01) => {
+        progress.push(`${stageKey}:${progress01.toFixed(2)}`)
+      },
+    })
+
+    expect(result).toEqual(executeFeatureStack(cachedAssemblyPayload(2)))
+    // Three ops and a completion step, two ops and a completion step, the boolean and its store.
+    expect(progress).toEqual([
+      'baseplate:0.00',
+      'baseplate:0.25',
+      'baseplate:0.50',
+      'baseplate:0.75',
+      'baseplate:1.00',
+      'toeHook#1:0.00',
+      'toeHook#1:0.33',
+      'toeHook#1:0.67',
+      'toeHook#1:1.00',
+      'assembled:0.00',
+      'assembled:0.50',
+      'assembled:1.00',
+    ])
+    // Nine steps, plus the pauses taken inside tessellation and booleans.
+    expect(pauses).toBeGreaterThan(9)
+  })
+
+  it('does not report stages replayed from the cache', async () => {
+    const { cache } = memoryStackCache()
+    executeFeatureStack(cachedAssemblyPayload(2), cache)
+    const progress: string[] = []
+    await executeFeatureStackCooperatively(cachedAssemblyPayload(3), {
+      cache,
+      onStageProgress: (stageKey) => {
+        progress.push(stageKey)
+      },
+    })
+
+    expect(new Set(progress)).toEqual(new Set(['toeHook#1', 'assembled']))
+  })
+
+  it('stops inside a feature op once aborted and caches only finished stages', async () => {
+    const { cache, lookups } = memoryStackCache()
+    const controller = new AbortController()
+    const progress: string[] = []
+    let extrudePauses: number | null = null
+    const run = executeFeatureStackCooperatively(cachedAssemblyPayload(2), {
+      cache,
+      signal: controller.signal,
+      pause: async () => {
+        if (extrudePauses === null) {
+          return
+        }
+        extrudePauses += 1
+        // The first two pauses precede the toe hook extrude; the third one falls inside it.
+        if (extrudePauses === 3) {
+          controller.abort()
+        }
+      },
+      onStageProgress: (stageKey, progress01) => {
+        progress.push(`${stageKey}:${progress01.toFixed(2)}`)
+        if (stageKey === 'toeHook#1' && progress01 > 0) {
+          extrudePauses = 0
+        }
+      },
+    })
+
+    await expect(run).rejects.toMatchObject({ name: 'AbortError' })
+    expect(progress.slice(-2)).toEqual(['toeHook#1:0.00', 'toeHook#1:0.33'])
+    lookups.length = 0
+    executeFeatureStack(cachedAssemblyPayload(2), cache)
+    expect(lookups).toEqual(['baseplate:hit', 'toeHook#1:miss', 'assembly:miss'])
+  })
+})
+
+const centredSquare = (size: number) => [
+  { x: -size / 2, y: -size / 2 },
+  { x: size / 2, y: -size / 2 },
+  { x: size / 2, y: size / 2 },
+  { x: -size / 2, y: size / 2 },
+]
+
+const loftPayload = (
+  sections: Array<{
+    vertices: Array<{ x: number; y: number }>
+    offset: number
+    plane?: 'XY' | 'YZ' | 'XZ'
+  }>,
+): FeatureStackIRPayload => ({
+  schemaVersion: 1,
+  parts: {
+    baseplate: [
+      ...sections.map(
+        (section, index): PayloadOp => ({
+          op: 'sketch',
+          featureId: `sketch-${String(index + 1)}`,
+          ...(section.plane === undefined ? {} : { plane: section.plane }),
+          profilesResolved: [{ profileId: `prof-${String(index + 1)}`, area: 0, vertices: section.vertices }],
+        }),
+      ),
+      {
+        op: 'loft',
+        featureId: 'loft-1',
+        sections: sections.map((section, index) => ({
+          profileRef: {
+            sketchFeatureId: `sketch-${String(index + 1)}`,
+            profileId: `prof-${String(index + 1)}`,
+          },
+          offsetResolved: section.offset,
+        })),
+        bodyId: 'hook',
+      },
+    ],
+  },
+})
+
+describe('executeFeatureStack loft', () => {
+  it('skins matching sections into a closed frustum', () => {
+    const result = executeFeatureStack(
+      loftPayload([
+        { vertices: centredSquare(10), offset: 0 },
+        { vertices: centredSquare(4), offset: 10 },
+      ]),
+    )
+
+    expect(result.diagnostics).toEqual([])
+    expect(result.bodyTrace.map((body) => [body.bodyKey, body.op])).toEqual([
+      ['baseplate:hook', 'loft'],
+    ])
+    const hook = result.bodies['baseplate:hook']
+    expect(hook.kind).toBe('loft')
+    const { volume, openEdges } = meshVolumeAndOpenEdges(hook.mesh)
+    expect(openEdges).toBe(0)
+    expect(volume).toBeCloseTo((10 / 3) * (100 + 16 + Math.sqrt(100 * 16)), 6)
+  })
+
+  it('resamples sections with different vertex counts and orders them by offset', () => {
+    const circle = Array.from({ length: 24 }, (_, index) => {
+      const angle = (Math.PI * 2 * index) / 24
+      return { x: 3 * Math.cos(angle), y: 3 * Math.sin(angle) }
+    })
+    const result = executeFeatureStack(
+      loftPayload([
+        { vertices: circle, offset: 20, plane: 'XZ' },
+        { vertices: centredSquare(8), offset: 0, plane: 'XZ' },
+        { vertices: centredSquare(6), offset: 8, plane: 'XZ' },
+      ]),
+    )
+
+    expect(result.diagnostics).toEqual([])
+    const { mesh } = result.bodies['baseplate:hook']
+    const { volume, openEdges } = meshVolumeAndOpenEdges(mesh)
+    expect(mesh.vertices).toHaveLength(3 * 24 * 3)
+    expect(openEdges).toBe(0)
+    expect(volume).toBeGreaterThan(0)
+    // XZ sketches stack along -Y.
+    const ys = mesh.vertices.filter((_, index) => index % 3 === 1)
+    expect(Math.max(...ys)).toBe(0)
+    expect(Math.min(...ys)).toBe(-20)
+  })
+
+  it('reports unusable sections without emitting a body', () => {
+    const single = executeFeatureStack(loftPayload([{ vertices: centredSquare(4), offset: 0 }]))
+    const mixedPlanes = executeFeatureStack(
+      loftPayload([
+        { vertices: centredSquare(4), offset: 0 },
+        { vertices: centredSquare(4), offset: 5, plane: 'YZ' },
+      ]),
+    )
+    const sameOffset = executeFeatureStack(
+      loftPayload([
+        { vertices: centredSquare(4), offset: 5 },
+        { vertices: centredSquare(2), offset: 5 },
+      ]),
+    )
+    const missingProfile = loftPayload([
+      { vertices: centredSquare(4), offset: 0 },
+      { vertices: centredSquare(2), offset: 5 },
+    ])
+    const loft = missingProfile.parts.baseplate[2]
+    if (loft.op === 'loft') {
+      loft.sections[1].profileRef = null
+    }
+
+    expect(single.bodies).toEqual({})
+    expect(single.diagnostics.map((item) => item.reason)).toEqual(['loft_too_few_sections'])
+    expect(mixedPlanes.diagnostics.map((item) => item.message)).toEqual([
+      'Loft skipped: Loft sections must share one sketch plane.',
+    ])
+    expect(sameOffset.diagnostics.map((item) => item.reason)).toEqual(['loft_failure'])
+    expect(executeFeatureStack(missingProfile).diagnostics).toEqual([
+      {
+        partKey: 'baseplate',
+        featureId: 'loft-1',
+        reason: 'missing_profile_ref',
+        message: 'Loft section 2 skipped because profileRef is null.',
+      },
+    ])
+  })
+})
+
+const sweepPayload = (params: {
+  vertices?: Array<{ x: number; y: number }>
+  profilePlane?: 'XY' | 'YZ' | 'XZ'
+  path: { plane: 'XY' | 'YZ' | 'XZ'; points: Array<{ x: number; y: number; z: number }>; closed: boolean } | null
+  twistResolved?: number
+  scaleResolved?: number
+}): FeatureStackIRPayload => ({
+  schemaVersion: 1,
+  parts: {
+    baseplate: [
+      {
+        op: 'sketch',
+        featureId: 'sketch-1',
+        ...(params.profilePlane === undefined ? {} : { plane: params.profilePlane }),
+        profilesResolved: [
+          { profileId: 'prof-1', area: 0, vertices: params.vertices ?? centredSquare(10) },
+        ],
+      },
+      {
+        op: 'sweep',
+        featureId: 'sweep-1',
+        profileRef: { sketchFeatureId: 'sketch-1', profileId: 'prof-1' },
+        path: params.path,
+        twistResolved: params.twistResolved ?? 0,
+        scaleResolved: params.scaleResolved ?? 1,
+        bodyId: 'rail',
+      },
+    ],
+  },
+})
+
+const straightPath = (length: number, steps: number) => ({
+  plane: 'XY' as const,
+  points: Array.from({ length: steps + 1 }, (_, index) => ({
+    x: 0,
+    y: 0,
+    z: (length * index) / steps,
+  })),
+  closed: false,
+})
+
+describe('executeFeatureStack sweep', () => {
+  it('matches an extrusion along a straight path in either direction', () => {
+    const forward = executeFeatureStack(sweepPayload({ path: straightPath(20, 4) }))
+    const backward = executeFeatureStack(sweepPayload({ path: straightPath(-20, 1) }))
+
+    expect(forward.diagnostics).toEqual([])
+    expect(forward.bodyTrace.map((body) => [body.bodyKey, body.op])).toEqual([
+      ['baseplate:rail', 'sweep'],
+    ])
+    const rail = forward.bodies['baseplate:rail']
+    expect(rail.kind).toBe('sweep')
+    const { volume, openEdges } = meshVolumeAndOpenEdges(rail.mesh)
+    expect(openEdges).toBe(0)
+    expect(volume).toBeCloseTo(2000, 6)
+    // The first cross-section is the profile where it was drawn.
+    expect(rail.mesh.vertices.slice(0, 12)).toEqual([-5, -5, 0, 5, -5, 0, 5, 5, 0, -5, 5, 0])
+    expect(meshVolumeAndOpenEdges(backward.bodies['baseplate:rail'].mesh).volume).toBeCloseTo(
+      2000,
+      6,
+    )
+  })
+
+  it('twists and scales the profile along the path', () => {
+    const twisted = executeFeatureStack(
+      sweepPayload({ path: straightPath(20, 40), twistResolved: 45 }),
+    )
+    const scaled = executeFeatureStack(
+      sweepPayload({ path: straightPath(20, 1), scaleResolved: 2 }),
+    )
+
+    const twistedMesh = twisted.bodies['baseplate:rail'].mesh
+    const lastRing = twistedMesh.vertices.slice(-12)
+    const lastXs = lastRing.filter((_, index) => index % 3 === 0)
+    expect(Math.max(...lastXs)).toBeCloseTo(5 * Math.SQRT2, 9)
+    const twistedVolume = meshVolumeAndOpenEdges(twistedMesh)
+    expect(twistedVolume.openEdges).toBe(0)
+    expect(twistedVolume.volume).toBeGreaterThan(1980)
+    expect(twistedVolume.volume).toBeLessThan(2000)
+    // A square growing from 10 to 20 over 20 mm is a frustum.
+    expect(meshVolumeAndOpenEdges(scaled.bodies['baseplate:rail'].mesh).volume).toBeCloseTo(
+      (20 / 3) * (100 + 400 + 200),
+      6,
+    )
+  })
+
+  it('closes a sweep around a closed path without caps', () => {
+    const ring = Array.from({ length: 48 }, (_, index) => {
+      const angle = (Math.PI * 2 * index) / 48
+      return { x: 20 * Math.cos(angle), y: 20 * Math.sin(angle), z: 0 }
+    })
+    const result = executeFeatureStack(
+      sweepPayload({
+        vertices: centredSquare(4).map((point) => ({ x: point.x + 20, y: point.y })),
+        profilePlane: 'XZ',
+        path: { plane: 'XY', points: ring, closed: true },
+      }),
+    )
+
+    expect(result.diagnostics).toEqual([])
+    const { volume, openEdges } = meshVolumeAndOpenEdges(result.bodies['baseplate:rail'].mesh)
+    expect(openEdges).toBe(0)
+    expect(Math.abs(volume - 2 * Math.PI * 20 * 16) / (2 * Math.PI * 20 * 16)).toBeLessThan(0.01)
+  })
+
+  it('reports missing paths and unusable parameters without emitting a body', () => {
+    const missingPath = executeFeatureStack(sweepPayload({ path: null }))
+    const zeroScale = executeFeatureStack(
+      sweepPayload({ path: straightPath(20, 1), scaleResolved: 0 }),
+    )
+    const scaledLoop = executeFeatureStack(
+      sweepPayload({
+        path: {
+          plane: 'XY',
+          points: [
+            { x: 0, y: 0, z: 0 },
+            { x: 30, y: 0, z: 0 },
+            { x: 30, y: 30, z: 0 },
+          ],
+          closed: true,
+        },
+        scaleResolved: 2,
+      }),
+    )
+
+    expect(missingPath.bodies).toEqual({})
+    expect(missingPath.diagnostics.map((item) => item.reason)).toEqual(['missing_sweep_path'])
+    expect(zeroScale.diagnostics.map((item) => item.message)).toEqual([
+      'Sweep skipped: Sweep scale must be greater than zero.',
+    ])
+    expect(scaledLoop.diagnostics.map((item) => item.message)).toEqual([
+      'Sweep skipped: Closed sweep paths cannot scale the profile.',
+    ])
+  })
 })
 
 describe('buildModel diagnostics flush', () => {
-  it('keeps cube default dimensions renderable when no cube dimension wires are present', () => {
+  it('keeps cube default dimensions renderable when no cube dimension wires are present', async () => {
     const compileResult = compileSpaghettiGraph(defaultCubeGraph())
     expect(compileResult.ok).toBe(true)
 
-    const parts = buildModel({
+    const { parts } = await buildModel({
       payload: {
         width: 1,
         length: 2,
@@ -435,10 +1256,11 @@ describe('buildModel diagnostics flush', () => {
       instances: {},
     })
 
-    expect(parts.find((part) => part.partKeyStr === 'cube')).toEqual({
+    const cube = parts.find((part) => part.partKeyStr === 'cube')
+    expect(cube).toMatchObject({
       id: 'cube',
       label: 'Cube',
-      kind: 'box',
+      kind: 'mesh',
       params: {
         length: 20,
         width: 20,
@@ -450,9 +1272,10 @@ describe('buildModel diagnostics flush', () => {
         instance: null,
       },
     })
+    expect(isPartArtifact(cube)).toBe(true)
   })
 
-  it('emits a deterministic cube PartArtifact from compiled graph Feature Stack IR', () => {
+  it('emits a deterministic cube PartArtifact from compiled graph Feature Stack IR', async () => {
     const compileResult = compileSpaghettiGraph(cubeGraph())
     expect(compileResult.ok).toBe(true)
     expect(compileResult.buildInputs).toBeDefined()
@@ -464,13 +1287,13 @@ describe('buildModel diagnostics flush', () => {
       ...(compileResult.buildInputs?.resolvedShared ?? {}),
     } as unknown as { width: number; length: number; height: number }
 
-    const parts = buildModel({
+    const { parts } = await buildModel({
       payload: {
         ...payload,
       },
       instances: {},
     })
-    const repeated = buildModel({
+    const { parts: repeated } = await buildModel({
       payload: {
         ...payload,
       },
@@ -479,10 +1302,10 @@ describe('buildModel diagnostics flush', () => {
 
     const cube = parts.find((part) => part.partKeyStr === 'cube')
     expect(repeated).toEqual(parts)
-    expect(cube).toEqual({
+    expect(cube).toMatchObject({
       id: 'cube',
       label: 'Cube',
-      kind: 'box',
+      kind: 'mesh',
       params: {
         length: 30,
         width: 15,
@@ -494,9 +1317,18 @@ describe('buildModel diagnostics flush', () => {
         instance: null,
       },
     })
+    if (cube?.kind !== 'mesh') {
+      throw new Error('expected mesh artifact')
+    }
+    // 8 prism corners, 12 triangles.
+    expect(cube.mesh.positions).toBeInstanceOf(Float32Array)
+    expect(cube.mesh.positions.length).toBe(8 * 3)
+    expect(cube.mesh.indices).toBeInstanceOf(Uint32Array)
+    expect(cube.mesh.indices.length).toBe(12 * 3)
+    expect(Math.max(...cube.mesh.positions.filter((_, index) => index % 3 === 2))).toBe(25)
   })
 
-  it('emits deterministic multi-part cube PartArtifacts from compiled graph Feature Stack IR', () => {
+  it('emits deterministic multi-part cube PartArtifacts from compiled graph Feature Stack IR', async () => {
     const graph: SpaghettiGraph = {
       schemaVersion: 1,
       nodes: [
@@ -517,7 +1349,7 @@ describe('buildModel diagnostics flush', () => {
     const compileResult = compileSpaghettiGraph(graph)
     expect(compileResult.ok).toBe(true)
 
-    const parts = buildModel({
+    const { parts } = await buildModel({
       payload: {
         width: 1,
         length: 2,
@@ -534,11 +1366,11 @@ describe('buildModel diagnostics flush', () => {
     expect(parts.find((part) => part.partKeyStr === 'cube#2')?.label).toBe('Cube #2')
   })
 
-  it('keeps cube unresolved at runtime when the extrude feature is disabled', () => {
+  it('keeps cube unresolved at runtime when the extrude feature is disabled', async () => {
     const compileResult = compileSpaghettiGraph(disabledCubeExtrudeGraph())
     expect(compileResult.ok).toBe(true)
 
-    const parts = buildModel({
+    const { parts } = await buildModel({
       payload: {
         width: 1,
         length: 2,
@@ -551,9 +1383,9 @@ describe('buildModel diagnostics flush', () => {
     expect(parts.some((part) => part.partKeyStr === 'cube')).toBe(false)
   })
 
-  it('flushes unique warnings once per build', () => {
+  it('returns unique warnings as diagnostics without logging them', async () => {
     const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
-    buildModel({
+    const { diagnostics } = await buildModel({
       payload: {
         width: 1,
         length: 2,
@@ -583,7 +1415,15 @@ describe('buildModel diagnostics flush', () => {
       instances: {},
     })
 
-    expect(warnSpy).toHaveBeenCalledTimes(1)
+    expect(warnSpy).not.toHaveBeenCalled()
+    expect(diagnostics).toEqual([
+      {
+        partKey: 'baseplate',
+        featureId: 'e1',
+        reason: 'missing_profile_ref',
+        message: 'Extrude skipped because profileRef is null.',
+      },
+    ])
     warnSpy.mockRestore()
   })
 })
@@ -1,28 +1,54 @@
-import { compareSpaghettiSourcePartKeys } from '../../shared/buildStatsKeys'
 import {
+  ASSEMBLED_BUILD_STATS_KEY,
+  compareSpaghettiSourcePartKeys,
+} from '../../shared/buildStatsKeys'
+import {
+  draftTopLoops,
   extrudeFaceAlongZ,
   faceFromWire,
+  loftFaces,
   mergeMeshPacks,
+  revolveFace,
+  sweepFace,
   wireFromLoop,
 } from './cadKernelAdapter'
 import type {
+  Face,
+  LoftSection,
   MeshPack,
   Point2,
+  Point3,
+  ProfileSegment,
+  RevolveAxis,
   RuntimeDiagnostic,
   RuntimeTraceBody,
   Shape3D,
-  Wire,
+  SketchPlane,
+  SweepPath,
 } from './cadTypes'
+import { countNonManifoldEdges, meshBoolean, type BooleanOperation } from './meshBoolean'
+import {
+  runCooperatively,
+  runToCompletion,
+  type CooperativeOptions,
+  type YieldingWork,
+} from './yieldingWork'
 
-type IRProfileResolved = {
+type IRProfileLoop = {
+  vertices: Point2[]
+  segments?: ProfileSegment[]
+}
+
+type IRProfileResolved = IRProfileLoop & {
   profileId: string
   area: number
-  vertices: Point2[]
+  holes?: IRProfileLoop[]
 }
 
 type IRSketch = {
   op: 'sketch'
   featureId: string
+  plane?: SketchPlane
   profilesResolved: IRProfileResolved[]
 }
 
@@ -37,27 +63,116 @@ type IRExtrude = {
   featureId: string
   profileRef: IRProfileRef | null
   depthResolved: number
+  taperResolved?: number
+  offsetResolved?: number
+  bodyId?: string
+}
+
+type IRRevolve = {
+  op: 'revolve'
+  featureId: string
+  profileRef: IRProfileRef | null
+  axisResolved: RevolveAxis | null
+  angleResolved: number
+  bodyId?: string
+}
+
+type IRLoftSection = {
+  profileRef: IRProfileRef | null
+  offsetResolved: number
+}
+
+type IRLoft = {
+  op: 'loft'
+  featureId: string
+  sections: IRLoftSection[]
   bodyId?: string
 }
 
-type FeatureOp = IRSketch | IRExtrude
+type IRSweep = {
+  op: 'sweep'
+  featureId: string
+  profileRef: IRProfileRef | null
+  path: SweepPath | null
+  twistResolved: number
+  scaleResolved: number
+  bodyId?: string
+}
+
+// In-part boolean; the target and tool bodies are consumed and replaced by the result body.
+type IRBoolean = {
+  op: 'boolean'
+  featureId: string
+  operation: BooleanOperation
+  targetBodyId: string | null
+  toolBodyIds: string[]
+  bodyId?: string
+}
+
+type FeatureOp = IRSketch | IRExtrude | IRRevolve | IRLoft | IRSweep | IRBoolean
+
+type IRBodyRef = {
+  partKey: string
+  bodyId: string
+}
+
+// Cross-part boolean for the assembled view, run after every part stack. Tools owned by the
+// target's part are consumed like in-part booleans; tools from other parts stay in their part.
+type IRAssemblyBoolean = {
+  featureId: string
+  partKey: string
+  operation: BooleanOperation
+  targetBodyId: string
+  tools: IRBodyRef[]
+  bodyId?: string
+}
 
 export type FeatureStackIRPayload = {
   schemaVersion: 1
   parts: Record<string, FeatureOp[]>
+  assembly?: IRAssemblyBoolean[]
 }
 
 type SketchRuntime = {
-  profiles: Map<string, Wire>
+  profiles: Map<string, Face>
 }
 
 type RuntimeContext = {
   sketches: Map<string, SketchRuntime>
-  profiles: Map<string, Wire>
+  profiles: Map<string, Face>
   bodies: Map<string, Shape3D>
   bodyTrace: RuntimeTraceBody[]
 }
 
+// A stage of executeFeatureStack whose outcome depends only on the IR it is given: one part's own
+// stack, or the assembly pass (which sees every part).
+export type FeatureStackCacheStage =
+  | { kind: 'part'; partKey: string; operations: readonly FeatureOp[] }
+  | {
+      kind: 'assembly'
+      parts: Readonly<Record<string, readonly FeatureOp[]>>
+      assembly: readonly IRAssemblyBoolean[]
+    }
+
+// Executed state a stage leaves behind. Part snapshots hold only that part's bodies; assembly
+// snapshots hold every body after the cross-part booleans. Replays copy trace and diagnostics, so
+// a snapshot can be shared across builds as long as nobody mutates its shapes.
+export type FeatureStackSnapshot = {
+  bodies: Array<[string, Shape3D]>
+  bodyTrace: RuntimeTraceBody[]
+  diagnostics: RuntimeDiagnostic[]
+  executionIndexByPartKey: Record<string, number>
+}
+
+export type FeatureStackCache = {
+  get: (stage: FeatureStackCacheStage) => FeatureStackSnapshot | undefined
+  set: (stage: FeatureStackCacheStage, snapshot: FeatureStackSnapshot) => void
+}
+
+// Build-stats row a stage reports under.
+export const featureStackCacheStageKey = (stage: FeatureStackCacheStage): string =>
+  stage.kind === 'part' ? stage.partKey : ASSEMBLED_BUILD_STATS_KEY
+
 export type ExecuteFeatureStackResult = {
   bodies: Record<string, Shape3D>
   mergedMesh: MeshPack | null
@@ -65,23 +180,50 @@ export type ExecuteFeatureStackResult = {
   bodyTrace: RuntimeTraceBody[]
 }
 
+const MAX_TAPER_DEG = 90
+
 const isRecord = (value: unknown): value is Record<string, unknown> =>
   typeof value === 'object' && value !== null && !Array.isArray(value)
 
 const isPoint2 = (value: unknown): value is Point2 =>
   isRecord(value) && typeof value.x === 'number' && typeof value.y === 'number'
 
-const isProfileResolved = (value: unknown): value is IRProfileResolved =>
+const isProfileSegment = (value: unknown): value is ProfileSegment => {
+  if (!isRecord(value)) {
+    return false
+  }
+  if (value.kind === 'line2') {
+    return isPoint2(value.a) && isPoint2(value.b)
+  }
+  if (value.kind === 'bezier2') {
+    return isPoint2(value.p0) && isPoint2(value.p1) && isPoint2(value.p2) && isPoint2(value.p3)
+  }
+  return (
+    value.kind === 'arc3pt2' && isPoint2(value.start) && isPoint2(value.mid) && isPoint2(value.end)
+  )
+}
+
+const isProfileLoop = (value: unknown): value is IRProfileLoop & Record<string, unknown> =>
   isRecord(value) &&
+  Array.isArray(value.vertices) &&
+  value.vertices.every(isPoint2) &&
+  (value.segments === undefined ||
+    (Array.isArray(value.segments) && value.segments.every(isProfileSegment)))
+
+const isProfileResolved = (value: unknown): value is IRProfileResolved =>
+  isProfileLoop(value) &&
   typeof value.profileId === 'string' &&
   typeof value.area === 'number' &&
-  Array.isArray(value.vertices) &&
-  value.vertices.every(isPoint2)
+  (value.holes === undefined || (Array.isArray(value.holes) && value.holes.every(isProfileLoop)))
+
+const isSketchPlane = (value: unknown): value is SketchPlane =>
+  value === 'XY' || value === 'YZ' || value === 'XZ'
 
 const isSketchOp = (value: unknown): value is IRSketch =>
   isRecord(value) &&
   value.op === 'sketch' &&
   typeof value.featureId === 'string' &&
+  (value.plane === undefined || isSketchPlane(value.plane)) &&
   Array.isArray(value.profilesResolved) &&
   value.profilesResolved.every(isProfileResolved)
 
@@ -96,15 +238,103 @@ const isExtrudeOp = (value: unknown): value is IRExtrude =>
   value.op === 'extrude' &&
   typeof value.featureId === 'string' &&
   typeof value.depthResolved === 'number' &&
+  (value.taperResolved === undefined || typeof value.taperResolved === 'number') &&
+  (value.offsetResolved === undefined || typeof value.offsetResolved === 'number') &&
+  (value.bodyId === undefined || typeof value.bodyId === 'string') &&
+  (value.profileRef === null || isProfileRef(value.profileRef))
+
+const isRevolveAxis = (value: unknown): value is RevolveAxis =>
+  isRecord(value) && isPoint2(value.origin) && isPoint2(value.direction)
+
+const isRevolveOp = (value: unknown): value is IRRevolve =>
+  isRecord(value) &&
+  value.op === 'revolve' &&
+  typeof value.featureId === 'string' &&
+  typeof value.angleResolved === 'number' &&
+  (value.axisResolved === null || isRevolveAxis(value.axisResolved)) &&
+  (value.bodyId === undefined || typeof value.bodyId === 'string') &&
+  (value.profileRef === null || isProfileRef(value.profileRef))
+
+const isLoftSection = (value: unknown): value is IRLoftSection =>
+  isRecord(value) &&
+  typeof value.offsetResolved === 'number' &&
+  (value.profileRef === null || isProfileRef(value.profileRef))
+
+const isLoftOp = (value: unknown): value is IRLoft =>
+  isRecord(value) &&
+  value.op === 'loft' &&
+  typeof value.featureId === 'string' &&
+  Array.isArray(value.sections) &&
+  value.sections.every(isLoftSection) &&
+  (value.bodyId === undefined || typeof value.bodyId === 'string')
+
+const isPoint3 = (value: unknown): value is Point3 =>
+  isRecord(value) &&
+  typeof value.x === 'number' &&
+  typeof value.y === 'number' &&
+  typeof value.z === 'number'
+
+const isSweepPath = (value: unknown): value is SweepPath =>
+  isRecord(value) &&
+  isSketchPlane(value.plane) &&
+  Array.isArray(value.points) &&
+  value.points.every(isPoint3) &&
+  typeof value.closed === 'boolean'
+
+const isSweepOp = (value: unknown): value is IRSweep =>
+  isRecord(value) &&
+  value.op === 'sweep' &&
+  typeof value.featureId === 'string' &&
+  typeof value.twistResolved === 'number' &&
+  typeof value.scaleResolved === 'number' &&
+  (value.path === null || isSweepPath(value.path)) &&
   (value.bodyId === undefined || typeof value.bodyId === 'string') &&
   (value.profileRef === null || isProfileRef(value.profileRef))
 
-const isFeatureOp = (value: unknown): value is FeatureOp => isSketchOp(value) || isExtrudeOp(value)
+const isBooleanOperation = (value: unknown): value is BooleanOperation =>
+  value === 'union' || value === 'subtract' || value === 'intersect'
+
+const isBooleanOp = (value: unknown): value is IRBoolean =>
+  isRecord(value) &&
+  value.op === 'boolean' &&
+  typeof value.featureId === 'string' &&
+  isBooleanOperation(value.operation) &&
+  (value.targetBodyId === null || typeof value.targetBodyId === 'string') &&
+  Array.isArray(value.toolBodyIds) &&
+  value.toolBodyIds.every((bodyId) => typeof bodyId === 'string') &&
+  (value.bodyId === undefined || typeof value.bodyId === 'string')
+
+const isFeatureOp = (value: unknown): value is FeatureOp =>
+  isSketchOp(value) ||
+  isExtrudeOp(value) ||
+  isRevolveOp(value) ||
+  isLoftOp(value) ||
+  isSweepOp(value) ||
+  isBooleanOp(value)
+
+const isBodyRef = (value: unknown): value is IRBodyRef =>
+  isRecord(value) && typeof value.partKey === 'string' && typeof value.bodyId === 'string'
+
+const isAssemblyBoolean = (value: unknown): value is IRAssemblyBoolean =>
+  isRecord(value) &&
+  typeof value.featureId === 'string' &&
+  typeof value.partKey === 'string' &&
+  isBooleanOperation(value.operation) &&
+  typeof value.targetBodyId === 'string' &&
+  Array.isArray(value.tools) &&
+  value.tools.every(isBodyRef) &&
+  (value.bodyId === undefined || typeof value.bodyId === 'string')
 
 export const isFeatureStackIRPayload = (value: unknown): value is FeatureStackIRPayload => {
   if (!isRecord(value) || value.schemaVersion !== 1 || !isRecord(value.parts)) {
     return false
   }
+  if (
+    value.assembly !== undefined &&
+    !(Array.isArray(value.assembly) && value.assembly.every(isAssemblyBoolean))
+  ) {
+    return false
+  }
   return Object.values(value.parts).every(
     (operations) => Array.isArray(operations) && operations.every(isFeatureOp),
   )
@@ -145,11 +375,15 @@ const runSketch = (
   feature: IRSketch,
   diagnostics: RuntimeDiagnostic[],
 ): void => {
-  const sketchProfiles = new Map<string, Wire>()
+  const sketchProfiles = new Map<string, Face>()
 
   for (const profile of feature.profilesResolved) {
     try {
-      const wire = wireFromLoop(profile.vertices)
+      const face = faceFromWire(
+        wireFromLoop(profile.vertices, profile.segments),
+        feature.plane,
+        (profile.holes ?? []).map((hole) => wireFromLoop(hole.vertices, hole.segments, 'cw')),
+      )
       if (sketchProfiles.has(profile.profileId)) {
         pushDiagnostic(
           diagnostics,
@@ -160,7 +394,7 @@ const runSketch = (
         )
         continue
       }
-      sketchProfiles.set(profile.profileId, wire)
+      sketchProfiles.set(profile.profileId, face)
       if (context.profiles.has(profile.profileId)) {
         pushDiagnostic(
           diagnostics,
@@ -171,7 +405,7 @@ const runSketch = (
         )
         continue
       }
-      context.profiles.set(profile.profileId, wire)
+      context.profiles.set(profile.profileId, face)
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : 'Failed to build profile wire.'
       pushDiagnostic(
@@ -189,88 +423,627 @@ const runSketch = (
   })
 }
 
-const runExtrude = (
+const resolveProfileFace = (
   context: RuntimeContext,
   partKey: string,
-  feature: IRExtrude,
+  feature: { featureId: string; profileRef: IRProfileRef | null },
+  label: string,
   diagnostics: RuntimeDiagnostic[],
-  executionIndex: number,
-): number => {
+): { face: Face; profileId: string } | null => {
   if (feature.profileRef === null) {
     pushDiagnostic(
       diagnostics,
       partKey,
       feature.featureId,
       'missing_profile_ref',
-      'Extrude skipped because profileRef is null.',
+      `${label} skipped because profileRef is null.`,
     )
-    return executionIndex
+    return null
   }
 
   const profileId = feature.profileRef.profileId
   const sketchFeatureId = feature.profileRef.sketchFeatureId ?? feature.profileRef.sourceFeatureId
-  const wireFromSketch =
+  const faceFromSketch =
     sketchFeatureId === undefined
       ? undefined
       : context.sketches.get(sketchFeatureId)?.profiles.get(profileId)
-  const wire = wireFromSketch ?? context.profiles.get(profileId)
+  const face = faceFromSketch ?? context.profiles.get(profileId)
 
-  if (wire === undefined) {
+  if (face === undefined) {
     pushDiagnostic(
       diagnostics,
       partKey,
       feature.featureId,
       'missing_profile',
-      `Extrude skipped because profileId "${profileId}" is unavailable.`,
+      `${label} skipped because profileId "${profileId}" is unavailable.`,
     )
-    return executionIndex
+    return null
   }
+  return { face, profileId }
+}
 
-  const bodyId = feature.bodyId ?? feature.featureId
+const claimBodyKey = (
+  context: RuntimeContext,
+  partKey: string,
+  featureId: string,
+  bodyId: string,
+  diagnostics: RuntimeDiagnostic[],
+): string | null => {
   const bodyKey = `${partKey}:${bodyId}`
   if (context.bodies.has(bodyKey)) {
     pushDiagnostic(
       diagnostics,
       partKey,
-      feature.featureId,
+      featureId,
       'duplicate_body_id',
       `Body "${bodyId}" already exists; keeping first and skipping duplicate.`,
     )
+    return null
+  }
+  return bodyKey
+}
+
+const registerBody = (
+  context: RuntimeContext,
+  bodyKey: string,
+  shape: Shape3D,
+  executionIndex: number,
+): number => {
+  context.bodies.set(bodyKey, shape)
+  context.bodyTrace.push({
+    bodyKey,
+    bodyId: shape.bodyId,
+    partKey: shape.partKey,
+    featureId: shape.featureId,
+    op: shape.op,
+    executionIndex,
+  })
+  return executionIndex + 1
+}
+
+const runExtrude = function* (
+  context: RuntimeContext,
+  partKey: string,
+  feature: IRExtrude,
+  diagnostics: RuntimeDiagnostic[],
+  executionIndex: number,
+): YieldingWork<number> {
+  const resolved = resolveProfileFace(context, partKey, feature, 'Extrude', diagnostics)
+  if (resolved === null) {
+    return executionIndex
+  }
+  const { face, profileId } = resolved
+
+  const bodyId = feature.bodyId ?? feature.featureId
+  const bodyKey = claimBodyKey(context, partKey, feature.featureId, bodyId, diagnostics)
+  if (bodyKey === null) {
+    return executionIndex
+  }
+
+  const taperDeg = feature.taperResolved ?? 0
+  const offset = feature.offsetResolved ?? 0
+  if (!Number.isFinite(taperDeg) || Math.abs(taperDeg) >= MAX_TAPER_DEG) {
+    pushDiagnostic(
+      diagnostics,
+      partKey,
+      feature.featureId,
+      'invalid_taper',
+      `Extrude skipped because taper ${String(taperDeg)} deg is outside (-${String(MAX_TAPER_DEG)}, ${String(MAX_TAPER_DEG)}).`,
+    )
+    return executionIndex
+  }
+  if (!Number.isFinite(offset)) {
+    pushDiagnostic(
+      diagnostics,
+      partKey,
+      feature.featureId,
+      'invalid_offset',
+      'Extrude skipped because offset is not a finite number.',
+    )
+    return executionIndex
+  }
+
+  // Invalid depths are left to the extrude itself so they keep reporting as extrude failures.
+  const topLoops =
+    taperDeg === 0 || !(feature.depthResolved > 0)
+      ? undefined
+      : draftTopLoops(face, feature.depthResolved, taperDeg)
+  if (topLoops === null) {
+    pushDiagnostic(
+      diagnostics,
+      partKey,
+      feature.featureId,
+      'taper_collapsed_profile',
+      `Extrude skipped because a ${String(taperDeg)} deg taper over depth ${String(feature.depthResolved)} collapses profile "${profileId}".`,
+    )
     return executionIndex
   }
 
   try {
-    const face = faceFromWire(wire)
-    const shape = extrudeFaceAlongZ(face, feature.depthResolved, {
+    const shape = yield* extrudeFaceAlongZ(
+      face,
+      feature.depthResolved,
+      {
+        bodyId,
+        featureId: feature.featureId,
+        op: 'extrude',
+        partKey,
+      },
+      { offset, topLoops },
+    )
+    return registerBody(context, bodyKey, shape, executionIndex)
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Extrude failed.'
+    pushDiagnostic(
+      diagnostics,
+      partKey,
+      feature.featureId,
+      'extrude_failure',
+      `Extrude skipped: ${message}`,
+    )
+    return executionIndex
+  }
+}
+
+const runRevolve = function* (
+  context: RuntimeContext,
+  partKey: string,
+  feature: IRRevolve,
+  diagnostics: RuntimeDiagnostic[],
+  executionIndex: number,
+): YieldingWork<number> {
+  const resolved = resolveProfileFace(context, partKey, feature, 'Revolve', diagnostics)
+  if (resolved === null) {
+    return executionIndex
+  }
+  if (feature.axisResolved === null) {
+    pushDiagnostic(
+      diagnostics,
+      partKey,
+      feature.featureId,
+      'missing_revolve_axis',
+      'Revolve skipped because its axis line is unavailable in the profile sketch.',
+    )
+    return executionIndex
+  }
+
+  const bodyId = feature.bodyId ?? feature.featureId
+  const bodyKey = claimBodyKey(context, partKey, feature.featureId, bodyId, diagnostics)
+  if (bodyKey === null) {
+    return executionIndex
+  }
+
+  try {
+    const shape = yield* revolveFace(resolved.face, feature.axisResolved, feature.angleResolved, {
       bodyId,
       featureId: feature.featureId,
-      op: 'extrude',
+      op: 'revolve',
       partKey,
     })
-    context.bodies.set(bodyKey, shape)
-    context.bodyTrace.push({
-      bodyKey,
-      bodyId,
+    return registerBody(context, bodyKey, shape, executionIndex)
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Revolve failed.'
+    pushDiagnostic(
+      diagnostics,
+      partKey,
+      feature.featureId,
+      'revolve_failure',
+      `Revolve skipped: ${message}`,
+    )
+    return executionIndex
+  }
+}
+
+const runLoft = function* (
+  context: RuntimeContext,
+  partKey: string,
+  feature: IRLoft,
+  diagnostics: RuntimeDiagnostic[],
+  executionIndex: number,
+): YieldingWork<number> {
+  if (feature.sections.length < 2) {
+    pushDiagnostic(
+      diagnostics,
+      partKey,
+      feature.featureId,
+      'loft_too_few_sections',
+      'Loft skipped because it needs at least two profile sections.',
+    )
+    return executionIndex
+  }
+  const sections: LoftSection[] = []
+  for (const [index, section] of feature.sections.entries()) {
+    const resolved = resolveProfileFace(
+      context,
       partKey,
+      { featureId: feature.featureId, profileRef: section.profileRef },
+      `Loft section ${String(index + 1)}`,
+      diagnostics,
+    )
+    if (resolved === null) {
+      return executionIndex
+    }
+    sections.push({ face: resolved.face, offset: section.offsetResolved })
+  }
+
+  const bodyId = feature.bodyId ?? feature.featureId
+  const bodyKey = claimBodyKey(context, partKey, feature.featureId, bodyId, diagnostics)
+  if (bodyKey === null) {
+    return executionIndex
+  }
+
+  try {
+    const shape = yield* loftFaces(sections, {
+      bodyId,
       featureId: feature.featureId,
-      op: 'extrude',
-      executionIndex,
+      op: 'loft',
+      partKey,
     })
-    return executionIndex + 1
+    return registerBody(context, bodyKey, shape, executionIndex)
   } catch (error: unknown) {
-    const message = error instanceof Error ? error.message : 'Extrude failed.'
+    const message = error instanceof Error ? error.message : 'Loft failed.'
     pushDiagnostic(
       diagnostics,
       partKey,
       feature.featureId,
-      'extrude_failure',
-      `Extrude skipped: ${message}`,
+      'loft_failure',
+      `Loft skipped: ${message}`,
     )
     return executionIndex
   }
 }
 
-export const executeFeatureStack = (partsIR: FeatureStackIRPayload): ExecuteFeatureStackResult => {
+const runSweep = function* (
+  context: RuntimeContext,
+  partKey: string,
+  feature: IRSweep,
+  diagnostics: RuntimeDiagnostic[],
+  executionIndex: number,
+): YieldingWork<number> {
+  const resolved = resolveProfileFace(context, partKey, feature, 'Sweep', diagnostics)
+  if (resolved === null) {
+    return executionIndex
+  }
+  if (feature.path === null || feature.path.points.length < 2) {
+    pushDiagnostic(
+      diagnostics,
+      partKey,
+      feature.featureId,
+      'missing_sweep_path',
+      'Sweep skipped because its path has fewer than two points.',
+    )
+    return executionIndex
+  }
+
+  const bodyId = feature.bodyId ?? feature.featureId
+  const bodyKey = claimBodyKey(context, partKey, feature.featureId, bodyId, diagnostics)
+  if (bodyKey === null) {
+    return executionIndex
+  }
+
+  try {
+    const shape = yield* sweepFace(
+      resolved.face,
+      feature.path,
+      feature.twistResolved,
+      feature.scaleResolved,
+      {
+        bodyId,
+        featureId: feature.featureId,
+        op: 'sweep',
+        partKey,
+      },
+    )
+    return registerBody(context, bodyKey, shape, executionIndex)
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Sweep failed.'
+    pushDiagnostic(
+      diagnostics,
+      partKey,
+      feature.featureId,
+      'sweep_failure',
+      `Sweep skipped: ${message}`,
+    )
+    return executionIndex
+  }
+}
+
+type BooleanRequest = {
+  partKey: string
+  featureId: string
+  operation: BooleanOperation
+  targetBodyKey: string
+  tools: Array<{ bodyKey: string; consume: boolean }>
+  bodyId: string
+}
+
+const removeBody = (context: RuntimeContext, bodyKey: string): void => {
+  context.bodies.delete(bodyKey)
+  const traceIndex = context.bodyTrace.findIndex((entry) => entry.bodyKey === bodyKey)
+  if (traceIndex !== -1) {
+    context.bodyTrace.splice(traceIndex, 1)
+  }
+}
+
+const applyBoolean = function* (
+  context: RuntimeContext,
+  request: BooleanRequest,
+  diagnostics: RuntimeDiagnostic[],
+  executionIndex: number,
+): YieldingWork<number> {
+  const { partKey, featureId } = request
+  if (request.tools.length === 0) {
+    pushDiagnostic(
+      diagnostics,
+      partKey,
+      featureId,
+      'missing_boolean_tool',
+      'Boolean skipped because no tool bodies are selected.',
+    )
+    return executionIndex
+  }
+  if (request.tools.some((tool) => tool.bodyKey === request.targetBodyKey)) {
+    pushDiagnostic(
+      diagnostics,
+      partKey,
+      featureId,
+      'invalid_boolean_tool',
+      `Boolean skipped because "${request.targetBodyKey}" is both target and tool.`,
+    )
+    return executionIndex
+  }
+
+  const inputs: Shape3D[] = []
+  for (const bodyKey of [request.targetBodyKey, ...request.tools.map((tool) => tool.bodyKey)]) {
+    const body = context.bodies.get(bodyKey)
+    if (body === undefined) {
+      pushDiagnostic(
+        diagnostics,
+        partKey,
+        featureId,
+        'missing_boolean_body',
+        `Boolean skipped because body "${bodyKey}" is unavailable.`,
+      )
+      return executionIndex
+    }
+    // BSP results carry T-junctions but stay closed, so only primitive bodies are checked.
+    const openEdges = body.kind === 'boolean' ? 0 : countNonManifoldEdges(body.mesh)
+    if (openEdges > 0) {
+      pushDiagnostic(
+        diagnostics,
+        partKey,
+        featureId,
+        'non_manifold_boolean_input',
+        `Boolean skipped because body "${bodyKey}" is not a closed manifold (${String(openEdges)} bad edges).`,
+      )
+      return executionIndex
+    }
+    inputs.push(body)
+  }
+
+  const [target, ...tools] = inputs
+  let mesh: MeshPack
+  try {
+    mesh = yield* meshBoolean(
+      request.operation,
+      target.mesh,
+      tools.map((tool) => tool.mesh),
+    )
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Boolean failed.'
+    pushDiagnostic(diagnostics, partKey, featureId, 'boolean_failure', `Boolean skipped: ${message}`)
+    return executionIndex
+  }
+  if (mesh.indices.length === 0) {
+    pushDiagnostic(
+      diagnostics,
+      partKey,
+      featureId,
+      'empty_boolean_result',
+      `Boolean ${request.operation} produced no volume; inputs are kept unchanged.`,
+    )
+    return executionIndex
+  }
+
+  removeBody(context, request.targetBodyKey)
+  for (const tool of request.tools) {
+    if (tool.consume) {
+      removeBody(context, tool.bodyKey)
+    }
+  }
+  const bodyKey = claimBodyKey(context, partKey, featureId, request.bodyId, diagnostics)
+  if (bodyKey === null) {
+    return executionIndex
+  }
+  return registerBody(
+    context,
+    bodyKey,
+    {
+      kind: 'boolean',
+      bodyId: request.bodyId,
+      featureId,
+      op: 'boolean',
+      mesh,
+      partKey,
+    },
+    executionIndex,
+  )
+}
+
+const runBoolean = function* (
+  context: RuntimeContext,
+  partKey: string,
+  feature: IRBoolean,
+  diagnostics: RuntimeDiagnostic[],
+  executionIndex: number,
+): YieldingWork<number> {
+  if (feature.targetBodyId === null) {
+    pushDiagnostic(
+      diagnostics,
+      partKey,
+      feature.featureId,
+      'missing_boolean_target',
+      'Boolean skipped because no target body is selected.',
+    )
+    return executionIndex
+  }
+  return yield* applyBoolean(
+    context,
+    {
+      partKey,
+      featureId: feature.featureId,
+      operation: feature.operation,
+      targetBodyKey: `${partKey}:${feature.targetBodyId}`,
+      tools: [...new Set(feature.toolBodyIds)].map((bodyId) => ({
+        bodyKey: `${partKey}:${bodyId}`,
+        consume: true,
+      })),
+      bodyId: feature.bodyId ?? feature.featureId,
+    },
+    diagnostics,
+    executionIndex,
+  )
+}
+
+const runAssemblyBoolean = function* (
+  context: RuntimeContext,
+  feature: IRAssemblyBoolean,
+  diagnostics: RuntimeDiagnostic[],
+  executionIndex: number,
+): YieldingWork<number> {
+  return yield* applyBoolean(
+    context,
+    {
+      partKey: feature.partKey,
+      featureId: feature.featureId,
+      operation: feature.operation,
+      targetBodyKey: `${feature.partKey}:${feature.targetBodyId}`,
+      tools: feature.tools.map((tool) => ({
+        bodyKey: `${tool.partKey}:${tool.bodyId}`,
+        consume: tool.partKey === feature.partKey,
+      })),
+      bodyId: feature.bodyId ?? feature.featureId,
+    },
+    diagnostics,
+    executionIndex,
+  )
+}
+
+const runFeatureOp = function* (
+  context: RuntimeContext,
+  partKey: string,
+  operation: FeatureOp,
+  diagnostics: RuntimeDiagnostic[],
+  executionIndex: number,
+): YieldingWork<number> {
+  try {
+    if (operation.op === 'sketch') {
+      runSketch(context, partKey, operation, diagnostics)
+      return executionIndex
+    }
+    if (operation.op === 'revolve') {
+      return yield* runRevolve(context, partKey, operation, diagnostics, executionIndex)
+    }
+    if (operation.op === 'loft') {
+      return yield* runLoft(context, partKey, operation, diagnostics, executionIndex)
+    }
+    if (operation.op === 'sweep') {
+      return yield* runSweep(context, partKey, operation, diagnostics, executionIndex)
+    }
+    if (operation.op === 'boolean') {
+      return yield* runBoolean(context, partKey, operation, diagnostics, executionIndex)
+    }
+    return yield* runExtrude(context, partKey, operation, diagnostics, executionIndex)
+  } catch (error: unknown) {
+    const message =
+      error instanceof Error ? error.message : 'Feature execution failed unexpectedly.'
+    pushDiagnostic(
+      diagnostics,
+      partKey,
+      operation.featureId,
+      'runtime_failure',
+      message,
+    )
+    return executionIndex
+  }
+}
+
+const applySnapshot = (
+  context: RuntimeContext,
+  snapshot: FeatureStackSnapshot,
+  diagnostics: RuntimeDiagnostic[],
+  executionIndexByPartKey: Map<string, number>,
+): void => {
+  for (const [bodyKey, shape] of snapshot.bodies) {
+    context.bodies.set(bodyKey, shape)
+  }
+  context.bodyTrace.push(...snapshot.bodyTrace.map((entry) => ({ ...entry })))
+  diagnostics.push(...snapshot.diagnostics.map((diagnostic) => ({ ...diagnostic })))
+  for (const [partKey, executionIndex] of Object.entries(snapshot.executionIndexByPartKey)) {
+    executionIndexByPartKey.set(partKey, executionIndex)
+  }
+}
+
+// One unit of work between cancellation checkpoints: a single feature op, or the replay or store
+// of a whole stage. Feature ops return work that also yields inside tessellation and booleans.
+// Steps that execute a stage carry its cache stage key so progress can be reported per stage.
+type FeatureStackStep = {
+  stageKey?: string
+  run: () => YieldingWork<void> | void
+}
+
+type FeatureStackPlan = {
+  steps: FeatureStackStep[]
+  finish: () => ExecuteFeatureStackResult
+}
+
+// Each part runs in its own context (its ops only reference its own bodies); the last step hands
+// the finished snapshot over, so an abandoned part never reaches the cache.
+const planPartStack = (
+  partKey: string,
+  operations: readonly FeatureOp[],
+  onComplete: (snapshot: FeatureStackSnapshot) => void,
+): FeatureStackStep[] => {
+  const partContext: RuntimeContext = {
+    sketches: new Map(),
+    profiles: new Map(),
+    bodies: new Map(),
+    bodyTrace: [],
+  }
+  const diagnostics: RuntimeDiagnostic[] = []
+  let executionIndex = 0
+  return [
+    ...operations.map((operation) => ({
+      stageKey: partKey,
+      run: function* (): YieldingWork<void> {
+        executionIndex = yield* runFeatureOp(
+          partContext,
+          partKey,
+          operation,
+          diagnostics,
+          executionIndex,
+        )
+      },
+    })),
+    {
+      stageKey: partKey,
+      run: () =>
+        onComplete({
+          bodies: [...partContext.bodies.entries()],
+          bodyTrace: partContext.bodyTrace,
+          diagnostics,
+          executionIndexByPartKey: { [partKey]: executionIndex },
+        }),
+    },
+  ]
+}
+
+// With a cache, each part stack and then the assembly pass is looked up by its own IR and only
+// executed on a miss.
+const planFeatureStack = (
+  partsIR: FeatureStackIRPayload,
+  cache: FeatureStackCache | undefined,
+): FeatureStackPlan => {
   const context: RuntimeContext = {
     sketches: new Map(),
     profiles: new Map(),
@@ -279,47 +1052,147 @@ export const executeFeatureStack = (partsIR: FeatureStackIRPayload): ExecuteFeat
   }
   const diagnostics: RuntimeDiagnostic[] = []
   const partKeys = Object.keys(partsIR.parts).sort(compareSpaghettiSourcePartKeys)
+  const executionIndexByPartKey = new Map<string, number>()
+  const steps: FeatureStackStep[] = []
 
   for (const partKey of partKeys) {
-    const partContext: RuntimeContext = {
-      sketches: new Map(),
-      profiles: new Map(),
-      bodies: context.bodies,
-      bodyTrace: context.bodyTrace,
-    }
     const operations = partsIR.parts[partKey] ?? []
-    let executionIndex = 0
-    for (const operation of operations) {
-      try {
-        if (operation.op === 'sketch') {
-          runSketch(partContext, partKey, operation, diagnostics)
-          continue
-        }
-        executionIndex = runExtrude(partContext, partKey, operation, diagnostics, executionIndex)
-      } catch (error: unknown) {
-        const message =
-          error instanceof Error ? error.message : 'Feature execution failed unexpectedly.'
-        pushDiagnostic(
-          diagnostics,
-          partKey,
-          operation.featureId,
-          'runtime_failure',
-          message,
-        )
-      }
+    const stage: FeatureStackCacheStage = { kind: 'part', partKey, operations }
+    const cached = cache?.get(stage)
+    if (cached !== undefined) {
+      steps.push({
+        run: () => applySnapshot(context, cached, diagnostics, executionIndexByPartKey),
+      })
+      continue
+    }
+    steps.push(
+      ...planPartStack(partKey, operations, (snapshot) => {
+        cache?.set(stage, snapshot)
+        applySnapshot(context, snapshot, diagnostics, executionIndexByPartKey)
+      }),
+    )
+  }
+
+  const assemblyStage: FeatureStackCacheStage = {
+    kind: 'assembly',
+    parts: partsIR.parts,
+    assembly: partsIR.assembly ?? [],
+  }
+  const cachedAssembly = cache?.get(assemblyStage)
+  if (cachedAssembly !== undefined) {
+    steps.push({
+      run: () => {
+        context.bodies.clear()
+        context.bodyTrace.length = 0
+        applySnapshot(context, cachedAssembly, diagnostics, executionIndexByPartKey)
+      },
+    })
+  } else {
+    const assemblyDiagnostics: RuntimeDiagnostic[] = []
+    const assembly = [...(partsIR.assembly ?? [])]
+      .map((feature, order) => ({ feature, order }))
+      .sort(
+        (a, b) =>
+          compareSpaghettiSourcePartKeys(a.feature.partKey, b.feature.partKey) || a.order - b.order,
+      )
+    for (const { feature } of assembly) {
+      steps.push({
+        stageKey: ASSEMBLED_BUILD_STATS_KEY,
+        run: function* (): YieldingWork<void> {
+          const executionIndex = yield* runAssemblyBoolean(
+            context,
+            feature,
+            assemblyDiagnostics,
+            executionIndexByPartKey.get(feature.partKey) ?? 0,
+          )
+          executionIndexByPartKey.set(feature.partKey, executionIndex)
+        },
+      })
     }
+    steps.push({
+      stageKey: ASSEMBLED_BUILD_STATS_KEY,
+      run: () => {
+        diagnostics.push(...assemblyDiagnostics)
+        cache?.set(assemblyStage, {
+          bodies: [...context.bodies.entries()],
+          bodyTrace: context.bodyTrace.map((entry) => ({ ...entry })),
+          diagnostics: assemblyDiagnostics,
+          executionIndexByPartKey: Object.fromEntries(executionIndexByPartKey),
+        })
+      },
+    })
   }
 
-  const sortedBodies = [...context.bodies.entries()].sort((a, b) => a[0].localeCompare(b[0]))
-  return {
-    bodies: Object.fromEntries(sortedBodies),
-    mergedMesh: mergeBodies(context.bodies),
-    diagnostics,
-    bodyTrace: [...context.bodyTrace].sort(
-      (a, b) =>
-        compareSpaghettiSourcePartKeys(a.partKey, b.partKey) ||
-        a.executionIndex - b.executionIndex ||
-        a.bodyId.localeCompare(b.bodyId),
-    ),
+  const finish = (): ExecuteFeatureStackResult => {
+    const sortedBodies = [...context.bodies.entries()].sort((a, b) => a[0].localeCompare(b[0]))
+    return {
+      bodies: Object.fromEntries(sortedBodies),
+      mergedMesh: mergeBodies(context.bodies),
+      diagnostics,
+      bodyTrace: [...context.bodyTrace].sort(
+        (a, b) =>
+          compareSpaghettiSourcePartKeys(a.partKey, b.partKey) ||
+          a.executionIndex - b.executionIndex ||
+          a.bodyId.localeCompare(b.bodyId),
+      ),
+    }
+  }
+  return { steps, finish }
+}
+
+export const executeFeatureStack = (
+  partsIR: FeatureStackIRPayload,
+  cache?: FeatureStackCache,
+): ExecuteFeatureStackResult => {
+  const plan = planFeatureStack(partsIR, cache)
+  for (const step of plan.steps) {
+    const work = step.run()
+    if (work !== undefined) {
+      runToCompletion(work)
+    }
+  }
+  return plan.finish()
+}
+
+export type FeatureStackRunOptions = CooperativeOptions & {
+  cache?: FeatureStackCache
+  // Called with 0 before a stage executes and with the fraction of its steps done after each one.
+  // Stages replayed from the cache are not reported.
+  onStageProgress?: (stageKey: string, progress01: number) => void
+}
+
+// Worker variant of executeFeatureStack: it yields through `pause` between feature ops and inside
+// tessellation and booleans, and stops with the signal's reason once aborted. Stages finished
+// before the abort stay cached.
+export const executeFeatureStackCooperatively = async (
+  partsIR: FeatureStackIRPayload,
+  options: FeatureStackRunOptions = {},
+): Promise<ExecuteFeatureStackResult> => {
+  const plan = planFeatureStack(partsIR, options.cache)
+  const totalByStageKey = new Map<string, number>()
+  for (const { stageKey } of plan.steps) {
+    if (stageKey !== undefined) {
+      totalByStageKey.set(stageKey, (totalByStageKey.get(stageKey) ?? 0) + 1)
+    }
+  }
+  const doneByStageKey = new Map<string, number>()
+  for (const step of plan.steps) {
+    await options.pause?.()
+    options.signal?.throwIfAborted()
+    const { stageKey } = step
+    if (stageKey !== undefined && !doneByStageKey.has(stageKey)) {
+      doneByStageKey.set(stageKey, 0)
+      options.onStageProgress?.(stageKey, 0)
+    }
+    const work = step.run()
+    if (work !== undefined) {
+      await runCooperatively(work, options)
+    }
+    if (stageKey !== undefined) {
+      const done = (doneByStageKey.get(stageKey) ?? 0) + 1
+      doneByStageKey.set(stageKey, done)
+      options.onStageProgress?.(stageKey, done / (totalByStageKey.get(stageKey) ?? done))
+    }
   }
+  return plan.finish()
 }
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import type { MeshPack } from './cadTypes'
+import { countNonManifoldEdges, meshBoolean as meshBooleanWork } from './meshBoolean'
+import { runToCompletion } from './yieldingWork'
+
+const meshBoolean = (...args: Parameters<typeof meshBooleanWork>): MeshPack =>
+  runToCompletion(meshBooleanWork(...args))
+
+const box = (min: [number, number, number], max: [number, number, number]): MeshPack => {
+  const [x0, y0, z0] = min
+  const [x1, y1, z1] = max
+  return {
+    vertices: [
+      x0, y0, z0, x1, y0, z0, x1, y1, z0, x0, y1, z0,
+      x0, y0, z1, x1, y0, z1, x1, y1, z1, x0, y1, z1,
+    ],
+    indices: [
+      0, 2, 1, 0, 3, 2,
+      4, 5, 6, 4, 6, 7,
+      0, 1, 5, 0, 5, 4,
+      1, 2, 6, 1, 6, 5,
+      2, 3, 7, 2, 7, 6,
+      3, 0, 4, 3, 4, 7,
+    ],
+  }
+}
+
+const meshVolume = (mesh: MeshPack): number => {
+  let volume = 0
+  for (let index = 0; index < mesh.indices.length; index += 3) {
+    const [a, b, c] = [0, 1, 2].map((corner) =>
+      mesh.vertices.slice(mesh.indices[index + corner] * 3, mesh.indices[index + corner] * 3 + 3),
+    )
+    volume +=
+      (a[0] * (b[1] * c[2] - b[2] * c[1]) -
+        a[1] * (b[0] * c[2] - b[2] * c[0]) +
+        a[2] * (b[0] * c[1] - b[1] * c[0])) /
+      6
+  }
+  return volume
+}
+
+describe('meshBoolean', () => {
+  const left = box([0, 0, 0], [2, 2, 2])
+  const right = box([1, 1, 1], [3, 3, 3])
+
+  it('combines overlapping boxes with the expected volumes', () => {
+    expect(meshVolume(meshBoolean('union', left, [right]))).toBeCloseTo(15, 9)
+    expect(meshVolume(meshBoolean('subtract', left, [right]))).toBeCloseTo(7, 9)
+    expect(meshVolume(meshBoolean('intersect', left, [right]))).toBeCloseTo(1, 9)
+  })
+
+  it('folds several tools in order', () => {
+    const slot = box([0.5, -1, 0.5], [1.5, 3, 1.5])
+    const result = meshBoolean('subtract', left, [right, slot])
+    expect(meshVolume(result)).toBeCloseTo(7 - 2 + 0.25, 9)
+  })
+
+  it('returns an empty mesh for disjoint intersections', () => {
+    const far = box([5, 5, 5], [6, 6, 6])
+    expect(meshBoolean('intersect', left, [far]).indices).toEqual([])
+  })
+
+  it('is deterministic for identical inputs', () => {
+    expect(meshBoolean('union', left, [right])).toEqual(meshBoolean('union', left, [right]))
+  })
+
+  it('yields between tree nodes so a cooperative run can stop mid-boolean', () => {
+    const work = meshBooleanWork('union', left, [right])
+    let yields = 0
+    while (work.next().done !== true) {
+      yields += 1
+    }
+    expect(yields).toBeGreaterThan(1)
+  })
+})
+
+describe('countNonManifoldEdges', () => {
+  it('accepts closed meshes and counts the edges of open ones', () => {
+    const closed = box([0, 0, 0], [1, 1, 1])
+    const open = { ...closed, indices: closed.indices.slice(0, -6) }
+    expect(countNonManifoldEdges(closed)).toBe(0)
+    expect(countNonManifoldEdges(open)).toBe(4)
+  })
+})
@@ -0,0 +1,354 @@
+import type { MeshPack } from './cadTypes'
+import type { YieldingWork } from './yieldingWork'
+
+// BSP-tree mesh CSG after csg.js (Evan Wallace). Solids are closed, outward-wound triangle meshes;
+// results are re-triangulated and welded on exact coordinates, so identical inputs always produce
+// identical meshes. Tree builds and clips yield after every node they split.
+
+export type BooleanOperation = 'union' | 'subtract' | 'intersect'
+
+type Vec3 = [number, number, number]
+
+type Plane = {
+  normal: Vec3
+  w: number
+}
+
+type CsgPolygon = {
+  vertices: Vec3[]
+  plane: Plane
+}
+
+type BspNode = {
+  plane: Plane | null
+  front: BspNode | null
+  back: BspNode | null
+  polygons: CsgPolygon[]
+}
+
+const PLANE_EPSILON = 1e-5
+
+const COPLANAR = 0
+const FRONT = 1
+const BACK = 2
+const SPANNING = 3
+
+const dot = (a: Vec3, b: Vec3): number => a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+
+const planeFromPoints = (a: Vec3, b: Vec3, c: Vec3): Plane | null => {
+  const u: Vec3 = [b[0] - a[0], b[1] - a[1], b[2] - a[2]]
+  const v: Vec3 = [c[0] - a[0], c[1] - a[1], c[2] - a[2]]
+  const n: Vec3 = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]]
+  const length = Math.hypot(n[0], n[1], n[2])
+  if (!(length > 0)) {
+    return null
+  }
+  const normal: Vec3 = [n[0] / length, n[1] / length, n[2] / length]
+  return { normal, w: dot(normal, a) }
+}
+
+const flipPlane = (plane: Plane): Plane => ({
+  normal: [-plane.normal[0], -plane.normal[1], -plane.normal[2]],
+  w: -plane.w,
+})
+
+const flipPolygon = (polygon: CsgPolygon): CsgPolygon => ({
+  vertices: [...polygon.vertices].reverse(),
+  plane: flipPlane(polygon.plane),
+})
+
+const splitPolygon = (
+  plane: Plane,
+  polygon: CsgPolygon,
+  coplanarFront: CsgPolygon[],
+  coplanarBack: CsgPolygon[],
+  front: CsgPolygon[],
+  back: CsgPolygon[],
+): void => {
+  let polygonType = 0
+  const types = polygon.vertices.map((vertex) => {
+    const t = dot(plane.normal, vertex) - plane.w
+    const type = t < -PLANE_EPSILON ? BACK : t > PLANE_EPSILON ? FRONT : COPLANAR
+    polygonType |= type
+    return type
+  })
+
+  if (polygonType === COPLANAR) {
+    const bucket = dot(plane.normal, polygon.plane.normal) > 0 ? coplanarFront : coplanarBack
+    bucket.push(polygon)
+    return
+  }
+  if (polygonType === FRONT) {
+    front.push(polygon)
+    return
+  }
+  if (polygonType === BACK) {
+    back.push(polygon)
+    return
+  }
+
+  const f: Vec3[] = []
+  const b: Vec3[] = []
+  const n = polygon.vertices.length
+  for (let i = 0; i < n; i += 1) {
+    const j = (i + 1) % n
+    const ti = types[i]
+    const tj = types[j]
+    const vi = polygon.vertices[i]
+    const vj = polygon.vertices[j]
+    if (ti !== BACK) {
+      f.push(vi)
+    }
+    if (ti !== FRONT) {
+      b.push(vi)
+    }
+    if ((ti | tj) === SPANNING) {
+      const t = (plane.w - dot(plane.normal, vi)) / dot(plane.normal, [vj[0] - vi[0], vj[1] - vi[1], vj[2] - vi[2]])
+      const split: Vec3 = [
+        vi[0] + (vj[0] - vi[0]) * t,
+        vi[1] + (vj[1] - vi[1]) * t,
+        vi[2] + (vj[2] - vi[2]) * t,
+      ]
+      f.push(split)
+      b.push(split)
+    }
+  }
+  if (f.length >= 3) {
+    front.push({ vertices: f, plane: polygon.plane })
+  }
+  if (b.length >= 3) {
+    back.push({ vertices: b, plane: polygon.plane })
+  }
+}
+
+const emptyNode = (): BspNode => ({ plane: null, front: null, back: null, polygons: [] })
+
+// Tree walks are iterative: convex solids produce one level per face plane.
+const eachNode = (root: BspNode, visit: (node: BspNode) => void): void => {
+  const stack = [root]
+  while (stack.length > 0) {
+    const node = stack.pop() as BspNode
+    visit(node)
+    if (node.back !== null) {
+      stack.push(node.back)
+    }
+    if (node.front !== null) {
+      stack.push(node.front)
+    }
+  }
+}
+
+const buildNode = function* (root: BspNode, polygons: CsgPolygon[]): YieldingWork<void> {
+  const work: Array<[BspNode, CsgPolygon[]]> = [[root, polygons]]
+  while (work.length > 0) {
+    const [node, list] = work.pop() as [BspNode, CsgPolygon[]]
+    if (list.length === 0) {
+      continue
+    }
+    if (node.plane === null) {
+      node.plane = list[0].plane
+    }
+    const front: CsgPolygon[] = []
+    const back: CsgPolygon[] = []
+    for (const polygon of list) {
+      splitPolygon(node.plane, polygon, node.polygons, node.polygons, front, back)
+    }
+    if (front.length > 0) {
+      node.front ??= emptyNode()
+      work.push([node.front, front])
+    }
+    if (back.length > 0) {
+      node.back ??= emptyNode()
+      work.push([node.back, back])
+    }
+    yield
+  }
+}
+
+const invertNode = (root: BspNode): void => {
+  eachNode(root, (node) => {
+    node.polygons = node.polygons.map(flipPolygon)
+    node.plane = node.plane === null ? null : flipPlane(node.plane)
+    const front = node.front
+    node.front = node.back
+    node.back = front
+  })
+}
+
+// Removes the parts of `polygons` that lie inside the solid described by `root`.
+const clipPolygons = function* (
+  root: BspNode,
+  polygons: CsgPolygon[],
+): YieldingWork<CsgPolygon[]> {
+  const result: CsgPolygon[] = []
+  const work: Array<[BspNode, CsgPolygon[]]> = [[root, polygons]]
+  while (work.length > 0) {
+    const [node, list] = work.pop() as [BspNode, CsgPolygon[]]
+    if (node.plane === null) {
+      result.push(...list)
+      continue
+    }
+    const front: CsgPolygon[] = []
+    const back: CsgPolygon[] = []
+    for (const polygon of list) {
+      splitPolygon(node.plane, polygon, front, back, front, back)
+    }
+    if (node.front === null) {
+      result.push(...front)
+    } else {
+      work.push([node.front, front])
+    }
+    if (node.back !== null) {
+      work.push([node.back, back])
+    }
+    yield
+  }
+  return result
+}
+
+const clipTo = function* (root: BspNode, other: BspNode): YieldingWork<void> {
+  const nodes: BspNode[] = []
+  eachNode(root, (node) => {
+    nodes.push(node)
+  })
+  for (const node of nodes) {
+    node.polygons = yield* clipPolygons(other, node.polygons)
+  }
+}
+
+const allPolygons = (root: BspNode): CsgPolygon[] => {
+  const polygons: CsgPolygon[] = []
+  eachNode(root, (node) => {
+    polygons.push(...node.polygons)
+  })
+  return polygons
+}
+
+const toPolygons = (mesh: MeshPack): CsgPolygon[] => {
+  const polygons: CsgPolygon[] = []
+  const vertexAt = (index: number): Vec3 => [
+    mesh.vertices[index * 3],
+    mesh.vertices[index * 3 + 1],
+    mesh.vertices[index * 3 + 2],
+  ]
+  for (let index = 0; index + 2 < mesh.indices.length; index += 3) {
+    const vertices = [0, 1, 2].map((corner) => vertexAt(mesh.indices[index + corner]))
+    const plane = planeFromPoints(vertices[0], vertices[1], vertices[2])
+    if (plane !== null) {
+      polygons.push({ vertices, plane })
+    }
+  }
+  return polygons
+}
+
+const toMesh = (polygons: readonly CsgPolygon[]): MeshPack => {
+  const vertices: number[] = []
+  const indices: number[] = []
+  const indexByKey = new Map<string, number>()
+  const vertexIndex = (vertex: Vec3): number => {
+    const key = vertex.join('|')
+    const existing = indexByKey.get(key)
+    if (existing !== undefined) {
+      return existing
+    }
+    const next = vertices.length / 3
+    // `+ 0` folds split points that land on -0 back to +0.
+    vertices.push(vertex[0] + 0, vertex[1] + 0, vertex[2] + 0)
+    indexByKey.set(key, next)
+    return next
+  }
+  for (const polygon of polygons) {
+    const ring = polygon.vertices.map(vertexIndex)
+    for (let index = 1; index + 1 < ring.length; index += 1) {
+      if (ring[0] !== ring[index] && ring[index] !== ring[index + 1] && ring[0] !== ring[index + 1]) {
+        indices.push(ring[0], ring[index], ring[index + 1])
+      }
+    }
+  }
+  return { vertices, indices }
+}
+
+const combine = function* (
+  operation: BooleanOperation,
+  left: MeshPack,
+  right: MeshPack,
+): YieldingWork<MeshPack> {
+  const a = emptyNode()
+  const b = emptyNode()
+  yield* buildNode(a, toPolygons(left))
+  yield* buildNode(b, toPolygons(right))
+
+  if (operation === 'union') {
+    yield* clipTo(a, b)
+    yield* clipTo(b, a)
+    invertNode(b)
+    yield* clipTo(b, a)
+    invertNode(b)
+    yield* buildNode(a, allPolygons(b))
+    return toMesh(allPolygons(a))
+  }
+  if (operation === 'subtract') {
+    invertNode(a)
+    yield* clipTo(a, b)
+    yield* clipTo(b, a)
+    invertNode(b)
+    yield* clipTo(b, a)
+    invertNode(b)
+    yield* buildNode(a, allPolygons(b))
+    invertNode(a)
+    return toMesh(allPolygons(a))
+  }
+  invertNode(a)
+  yield* clipTo(b, a)
+  invertNode(b)
+  yield* clipTo(a, b)
+  yield* clipTo(b, a)
+  yield* buildNode(a, allPolygons(b))
+  invertNode(a)
+  return toMesh(allPolygons(a))
+}
+
+// Applies `operation` with every tool in order: union and subtract fold left, intersect keeps the
+// volume shared by all of them.
+export const meshBoolean = function* (
+  operation: BooleanOperation,
+  target: MeshPack,
+  tools: readonly MeshPack[],
+): YieldingWork<MeshPack> {
+  let current = target
+  for (const tool of tools) {
+    current = yield* combine(operation, current, tool)
+  }
+  return current
+}
+
+// Counts edges that are not shared by exactly one opposite-facing pair of triangles, after welding
+// coincident vertices. Zero means a closed, consistently wound 2-manifold.
+export const countNonManifoldEdges = (mesh: MeshPack): number => {
+  const weld = new Map<string, number>()
+  const welded = (index: number): number => {
+    const key = `${String(mesh.vertices[index * 3])}|${String(mesh.vertices[index * 3 + 1])}|${String(mesh.vertices[index * 3 + 2])}`
+    const existing = weld.get(key)
+    if (existing !== undefined) {
+      return existing
+    }
+    weld.set(key, weld.size)
+    return weld.size - 1
+  }
+  const directed = new Map<string, number>()
+  for (let index = 0; index + 2 < mesh.indices.length; index += 3) {
+    const corners = [0, 1, 2].map((corner) => welded(mesh.indices[index + corner]))
+    for (let corner = 0; corner < 3; corner += 1) {
+      const key = `${String(corners[corner])}>${String(corners[(corner + 1) % 3])}`
+      directed.set(key, (directed.get(key) ?? 0) + 1)
+    }
+  }
+  let bad = 0
+  for (const [key, uses] of directed) {
+    const [from, to] = key.split('>')
+    if (uses !== 1 || directed.get(`${to}>${from}`) !== 1) {
+      bad += 1
+    }
+  }
+  return bad
+}
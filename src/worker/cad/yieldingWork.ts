@@ -0,0 +1,33 @@
+// Long kernel and export loops are generators that yield between chunks of work. Plain callers
+// drain them in one go; worker runs pause at every yield and stop once their signal is aborted,
+// so a cancel is handled mid-boolean or mid-export rather than after it.
+export type YieldingWork<T> = Generator<void, T, undefined>
+
+export type CooperativeOptions = {
+  signal?: AbortSignal
+  // Awaited at every yield so the host can handle messages (such as a cancel) mid-build.
+  pause?: () => Promise<void>
+}
+
+export const runToCompletion = <T>(work: YieldingWork<T>): T => {
+  let step = work.next()
+  while (step.done !== true) {
+    step = work.next()
+  }
+  return step.value
+}
+
+// Checks the signal before resuming the work each time, so an aborted run never starts it.
+export const runCooperatively = async <T>(
+  work: YieldingWork<T>,
+  { signal, pause }: CooperativeOptions,
+): Promise<T> => {
+  for (;;) {
+    await pause?.()
+    signal?.throwIfAborted()
+    const step = work.next()
+    if (step.done === true) {
+      return step.value
+    }
+  }
+}
@@ -1,12 +1,14 @@
-import type { BuildResult, PartArtifact } from '../../shared/buildTypes'
+import type { BuildResult, PartArtifact, RuntimeDiagnostic } from '../../shared/buildTypes'
 
 export const emitArtifacts = (
   seq: number,
   parts: PartArtifact[],
   changedParamIds?: string[],
+  diagnostics: readonly RuntimeDiagnostic[] = [],
 ): BuildResult => ({
-  type: 'build_result',
+  type: 'build/result',
   seq,
   parts,
   ...(changedParamIds !== undefined ? { changedParamIds: [...changedParamIds] } : {}),
+  ...(diagnostics.length > 0 ? { diagnostics: [...diagnostics] } : {}),
 })
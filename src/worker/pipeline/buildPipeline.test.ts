@@ -122,7 +122,7 @@ describe('buildPipeline spaghetti stats integration', () => {
 
     const result = await buildPipeline(
       {
-        type: 'build',
+        type: 'build/request',
         seq: 1,
         payload: cubePayload(),
         changedParamIds: ['sp_full'],
@@ -144,7 +144,7 @@ describe('buildPipeline spaghetti stats integration', () => {
     const { buildPipeline } = await import('./buildPipeline')
     await buildPipeline(
       {
-        type: 'build',
+        type: 'build/request',
         seq: 1,
         payload: cubePayload(),
         changedParamIds: ['sp_full'],
@@ -155,7 +155,7 @@ describe('buildPipeline spaghetti stats integration', () => {
     const repeatedProgress: Array<{ partKey: string; state: string }> = []
     await buildPipeline(
       {
-        type: 'build',
+        type: 'build/request',
         seq: 2,
         payload: cubePayload(),
         changedParamIds: [],
@@ -183,7 +183,7 @@ describe('buildPipeline spaghetti stats integration', () => {
 
     const firstResult = await buildPipeline(
       {
-        type: 'build',
+        type: 'build/request',
         seq: 10,
         payload: multiCubePayload(),
         changedParamIds: ['sp_full'],
@@ -203,7 +203,7 @@ describe('buildPipeline spaghetti stats integration', () => {
     const repeatedProgress: Array<{ partKey: string; state: string }> = []
     await buildPipeline(
       {
-        type: 'build',
+        type: 'build/request',
         seq: 11,
         payload: multiCubePayload(),
         changedParamIds: [],
@@ -224,4 +224,191 @@ describe('buildPipeline spaghetti stats integration', () => {
       ]),
     )
   })
+
+  it('reuses unchanged parts when another part stack changes and reports cache counts', async () => {
+    vi.resetModules()
+    const { buildPipeline } = await import('./buildPipeline')
+    await buildPipeline(
+      { type: 'build/request', seq: 20, payload: multiCubePayload(), changedParamIds: ['sp_full'] },
+      () => {},
+    )
+
+    const edited = multiCubePayload() as unknown as {
+      sp_featureStackIR: { parts: Record<string, Array<Record<string, unknown>>> }
+    }
+    edited.sp_featureStackIR.parts['cube#2'][1].depthResolved = 30
+    const progress: Array<{ partKey: string; state: string; cache?: unknown }> = []
+    const result = await buildPipeline(
+      {
+        type: 'build/request',
+        seq: 21,
+        payload: edited as unknown as { width: number; length: number; height: number },
+        changedParamIds: ['sp_full'],
+      },
+      (message) => {
+        progress.push({ partKey: message.partKey, state: message.state, cache: message.cache })
+      },
+    )
+
+    const states = (partKey: string) =>
+      progress.filter((message) => message.partKey === partKey).map((message) => message.state)
+    expect(states('cube#1')).toContain('cache_hit')
+    expect(states('cube#2')).not.toContain('cache_hit')
+    expect(states('assembled')).not.toContain('cache_hit')
+    expect(progress.find((message) => message.state === 'done')?.cache).toEqual({
+      hits: 1,
+      misses: 2,
+      evictions: 0,
+      entries: 5,
+    })
+    const cube2 = result.parts.find((part) => part.partKeyStr === 'cube#2')
+    expect(cube2?.params.height).toBeCloseTo(30)
+  })
+
+  it('reports building progress only for the stages that execute', async () => {
+    vi.resetModules()
+    const { buildPipeline } = await import('./buildPipeline')
+    await buildPipeline(
+      { type: 'build/request', seq: 25, payload: multiCubePayload(), changedParamIds: ['sp_full'] },
+      () => {},
+    )
+
+    const edited = multiCubePayload() as unknown as {
+      sp_featureStackIR: { parts: Record<string, Array<Record<string, unknown>>> }
+    }
+    edited.sp_featureStackIR.parts['cube#2'][1].depthResolved = 30
+    const building: Array<{ partKey: string; progress01?: number | null }> = []
+    await buildPipeline(
+      {
+        type: 'build/request',
+        seq: 26,
+        payload: edited as unknown as { width: number; length: number; height: number },
+        changedParamIds: ['sp_full'],
+      },
+      (message) => {
+        if (message.state === 'building') {
+          building.push({ partKey: message.partKey, progress01: message.progress01 })
+        }
+      },
+    )
+
+    // cube#2 runs its sketch, its extrude and a completion step; the assembly pass only stores.
+    expect(building).toEqual([
+      { partKey: 'cube#2', progress01: 0 },
+      { partKey: 'cube#2', progress01: 1 / 3 },
+      { partKey: 'cube#2', progress01: 2 / 3 },
+      { partKey: 'assembled', progress01: 0 },
+    ])
+  })
+
+  it('reports unfinished rows as cancelled when the build is aborted', async () => {
+    vi.resetModules()
+    const { buildPipeline } = await import('./buildPipeline')
+    const controller = new AbortController()
+    controller.abort()
+    const progress: Array<{ partKey: string; state: string }> = []
+
+    await expect(
+      buildPipeline(
+        { type: 'build/request', seq: 30, payload: multiCubePayload(), changedParamIds: ['sp_full'] },
+        (message) => {
+          progress.push({ partKey: message.partKey, state: message.state })
+        },
+        controller.signal,
+      ),
+    ).rejects.toMatchObject({ name: 'AbortError' })
+
+    expect(progress.filter((message) => message.state !== 'queued')).toEqual([
+      { partKey: 'cube#1', state: 'cancelled' },
+      { partKey: 'cube#2', state: 'cancelled' },
+      { partKey: 'assembled', state: 'cancelled' },
+    ])
+  })
+
+  it('builds and reports only the parts a shard owns', async () => {
+    vi.resetModules()
+    const { buildPipeline } = await import('./buildPipeline')
+    const run = async (shard: { partKeys: string[]; lead: boolean }) => {
+      const queued: string[] = []
+      const result = await buildPipeline(
+        { type: 'build/request', seq: 40, payload: multiCubePayload(), shard },
+        (message) => {
+          if (message.state === 'queued') {
+            queued.push(message.partKey)
+          }
+        },
+      )
+      return { queued, partKeys: result.parts.map((part) => part.partKeyStr) }
+    }
+
+    const lead = await run({ partKeys: ['cube#1'], lead: true })
+    const other = await run({ partKeys: ['cube#2'], lead: false })
+
+    expect(lead.queued).toEqual(['cube#1', 'assembled'])
+    expect(lead.partKeys).toContain('cube#1')
+    expect(lead.partKeys).not.toContain('cube#2')
+    expect(other.queued).toEqual(['cube#2'])
+    expect(other.partKeys).toEqual(['cube#2'])
+  })
+})
+
+describe('exportPipeline', () => {
+  const exportRequest = (
+    seq: number,
+    payload: { width: number; length: number; height: number },
+    scope: { kind: 'parts'; partKeys: string[] } | { kind: 'assembly' },
+  ) => ({
+    type: 'export/request' as const,
+    seq,
+    payload,
+    request: {
+      schemaVersion: 1,
+      requestId: `export-${seq}`,
+      format: 'stl' as const,
+      buildRequestId: String(seq),
+      scope,
+    },
+  })
+
+  it('reports export rows per part and names the file after the exported part keys', async () => {
+    vi.resetModules()
+    const { exportPipeline } = await import('./buildPipeline')
+    const progress: Array<{ phase: string; partKey: string; state: string }> = []
+
+    const result = await exportPipeline(
+      exportRequest(50, multiCubePayload(), { kind: 'parts', partKeys: ['cube#2', 'cube#1'] }),
+      (message) => {
+        progress.push({ phase: message.phase, partKey: message.partKey, state: message.state })
+      },
+    )
+
+    expect(result.type).toBe('export/result')
+    expect(result.payload.filename).toBe('parahook-cube-1+cube-2.stl')
+    expect(new Set(progress.map((message) => message.phase))).toEqual(new Set(['export']))
+    expect(progress.filter((message) => message.state === 'done')).toEqual([
+      { phase: 'export', partKey: 'cube#1', state: 'done' },
+      { phase: 'export', partKey: 'cube#2', state: 'done' },
+    ])
+  })
+
+  it('marks the export rows as failed when there is nothing to export', async () => {
+    vi.resetModules()
+    const { exportPipeline } = await import('./buildPipeline')
+    const progress: Array<{ partKey: string; state: string; message?: string }> = []
+
+    await expect(
+      exportPipeline(
+        exportRequest(51, { width: 1, length: 2, height: 3 }, { kind: 'assembly' }),
+        (message) => {
+          progress.push({ partKey: message.partKey, state: message.state, message: message.message })
+        },
+      ),
+    ).rejects.toThrow('the build has no feature stack')
+
+    expect(progress.at(-1)).toEqual({
+      partKey: 'assembled',
+      state: 'error',
+      message: 'Nothing to export: the build has no feature stack.',
+    })
+  })
 })
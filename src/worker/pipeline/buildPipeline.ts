@@ -1,38 +1,57 @@
 import type {
   AssembleRequest,
   AssembleResult,
+  BoxParams,
   BuildProgress,
   BuildRequest,
   BuildResult,
-  PartArtifact,
+  BuildShard,
+  ExportRequestMessage,
+  ExportResultMessage,
 } from '../../shared/buildTypes'
 import { getPartArtifactKey } from '../../shared/buildTypes'
 import {
+  deriveExportBuildStatsKeys,
+  deriveFeatureStackPartKeysFromProfilePatch,
   deriveSpaghettiSourcePartKeysFromProfilePatch,
   withAssembledBuildStatsKey,
 } from '../../shared/buildStatsKeys'
 import { buildModel } from '../buildModel'
+import type { FeatureStackSnapshot } from '../cad/featureStackRuntime'
+import { runFoothookFeatureStack } from '../products/foothook/buildFoothook'
 import { emitArtifacts } from './artifactEmitter'
-import { computeAffectedPartKeys } from './paramRouting'
+import { exportService } from './exportService'
+import { createLruCache, openGeometryCacheSession } from './geometryCache'
 import { deriveBuildPartKeyStrings } from './partsSpec'
-import {
-  makeBuildSignature,
-  makePartSignature,
-  type ControlMode,
-  type EngineMode,
-} from './signatures'
+import { makeBuildSignature, type ControlMode, type EngineMode } from './signatures'
 
 export type ProgressEmitter = (message: BuildProgress) => void
 
-const buildCache = new Set<string>()
-const partCache = new Set<string>()
-const assembleCache = new Set<string>()
+// Feature-stack stages (one per part plus the assembly pass) kept across builds.
+const GEOMETRY_CACHE_CAPACITY = 64
+
+const geometryCache = createLruCache<FeatureStackSnapshot>(GEOMETRY_CACHE_CAPACITY)
 
 const ENGINE_MODE: EngineMode = 'stub_box'
 const CONTROL_MODE: ControlMode = 'profile_editor'
 
 const now = (): number => Date.now()
 
+// Work slice after which a feature-stack run or an export yields to the worker's event loop, so a
+// cancel or a newer request is handled mid-feature rather than after the whole build.
+const PAUSE_SLICE_MS = 12
+
+const createPause = (): (() => Promise<void>) => {
+  let sliceStart = now()
+  return async () => {
+    if (now() - sliceStart < PAUSE_SLICE_MS) {
+      return
+    }
+    await new Promise<void>((resolve) => setTimeout(resolve, 0))
+    sliceStart = now()
+  }
+}
+
 const asRecord = (value: unknown): Record<string, unknown> | null =>
   typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : null
 
@@ -41,40 +60,78 @@ const emit = (
   message: Omit<BuildProgress, 'type'>,
 ): void => {
   emitProgress({
-    type: 'build_progress',
+    type: 'build/progress',
     ...message,
   })
 }
 
-const findPart = (parts: PartArtifact[], partKey: string): PartArtifact => {
-  const part = parts.find(
-    (candidate) => getPartArtifactKey(candidate) === partKey,
+// Without a shard the worker owns every part.
+const makeShardOwnership = (
+  shard: BuildShard | undefined,
+  payload: BoxParams,
+): ((partKey: string) => boolean) => {
+  if (shard === undefined) {
+    return () => true
+  }
+  const shardPartKeys = new Set(shard.partKeys)
+  const featureStackPartKeys = new Set(
+    deriveFeatureStackPartKeysFromProfilePatch(asRecord(payload) ?? {}),
   )
-  if (part === undefined) {
-    throw new Error(`Missing part artifact for key: ${partKey}`)
+  return (partKey) =>
+    shardPartKeys.has(partKey) || (shard.lead && !featureStackPartKeys.has(partKey))
+}
+
+// Keeps only the shard's feature-stack parts (and the assembly booleans confined to them).
+const restrictPayloadToShard = (payload: BoxParams, shard: BuildShard | undefined): BoxParams => {
+  const featureStackIR = asRecord(asRecord(payload)?.sp_featureStackIR)
+  const parts = asRecord(featureStackIR?.parts)
+  if (shard === undefined || featureStackIR === null || parts === null) {
+    return payload
   }
-  return part
+  const shardPartKeys = new Set(shard.partKeys)
+  const assembly = Array.isArray(featureStackIR.assembly) ? featureStackIR.assembly : []
+  return {
+    ...payload,
+    sp_featureStackIR: {
+      ...featureStackIR,
+      parts: Object.fromEntries(
+        Object.entries(parts).filter(([partKey]) => shardPartKeys.has(partKey)),
+      ),
+      assembly: assembly.filter((feature: unknown) => {
+        const record = asRecord(feature)
+        const tools = Array.isArray(record?.tools) ? record.tools : []
+        return (
+          typeof record?.partKey === 'string' &&
+          shardPartKeys.has(record.partKey) &&
+          tools.every((tool: unknown) => {
+            const toolPartKey = asRecord(tool)?.partKey
+            return typeof toolPartKey === 'string' && shardPartKeys.has(toolPartKey)
+          })
+        )
+      }),
+    },
+  } as BoxParams
 }
 
 export const buildPipeline = async (
   request: BuildRequest,
   emitProgress: ProgressEmitter,
+  signal?: AbortSignal,
 ): Promise<BuildResult> => {
   const { seq, payload, heelKickInstances, toeHookInstances } = request
   const instances = { heelKickInstances, toeHookInstances }
-  const buildSignature = makeBuildSignature(payload, ENGINE_MODE, CONTROL_MODE)
-  const parts = buildModel({
-    payload,
-    instances,
-  })
   const spaghettiPartKeys = deriveSpaghettiSourcePartKeysFromProfilePatch(
     asRecord(payload) ?? {},
   )
-  const orderedPartKeys =
+  const ownsPartKey = makeShardOwnership(request.shard, payload)
+  const orderedPartKeys = (
     spaghettiPartKeys.length > 0
       ? withAssembledBuildStatsKey(spaghettiPartKeys)
       : deriveBuildPartKeyStrings(instances)
-  const affectedSet = new Set(computeAffectedPartKeys(request.changedParamIds, orderedPartKeys))
+  ).filter(ownsPartKey)
+  const settledPartKeys = new Set<string>()
+  const stageStartByPartKey = new Map<string, number>()
+  const stageMsByPartKey = new Map<string, number>()
 
   for (const partKey of orderedPartKeys) {
     emit(emitProgress, {
@@ -83,105 +140,101 @@ export const buildPipeline = async (
       partKey,
       state: 'queued',
     })
+  }
 
-    const partSignature = makePartSignature(partKey, payload, ENGINE_MODE, CONTROL_MODE)
-    const isAffected = affectedSet.has(partKey)
-
-    if (!isAffected && partCache.has(partSignature)) {
-      emit(emitProgress, {
-        seq,
-        phase: 'parts',
-        partKey,
-        state: 'cache_hit',
-        progress01: 1,
-        ms: 0,
-      })
+  try {
+    const cacheSession = openGeometryCacheSession(geometryCache)
+    const ownedPartKeys = new Set(orderedPartKeys)
+    // Rows follow the feature-stack stages as they execute; a stage reports 1 once its last step
+    // ran, and its 'done' row is sent with the final cache counts after the whole build.
+    const onStageProgress = (partKey: string, progress01: number): void => {
+      if (!ownedPartKeys.has(partKey)) {
+        return
+      }
+      if (progress01 === 0) {
+        stageStartByPartKey.set(partKey, now())
+      }
+      if (progress01 >= 1) {
+        stageMsByPartKey.set(partKey, now() - (stageStartByPartKey.get(partKey) ?? now()))
+        return
+      }
       emit(emitProgress, {
         seq,
         phase: 'parts',
         partKey,
-        state: 'done',
-        progress01: 1,
-        ms: 0,
+        state: 'building',
+        progress01,
       })
-      continue
     }
+    const model = await buildModel({
+      payload: restrictPayloadToShard(payload, request.shard),
+      instances,
+      featureStack: {
+        cache: cacheSession.cache,
+        signal,
+        pause: createPause(),
+        onStageProgress,
+      },
+    })
+    const cache = cacheSession.counts()
+    const parts = model.parts.filter((part) => ownsPartKey(getPartArtifactKey(part)))
 
-    if (partCache.has(partSignature)) {
-      emit(emitProgress, {
-        seq,
-        phase: 'parts',
-        partKey,
-        state: 'cache_hit',
-        progress01: 1,
-        ms: 0,
-      })
+    for (const partKey of orderedPartKeys) {
+      if (cacheSession.hitStageKeys.has(partKey)) {
+        emit(emitProgress, {
+          seq,
+          phase: 'parts',
+          partKey,
+          state: 'cache_hit',
+          progress01: 1,
+          ms: 0,
+        })
+      }
       emit(emitProgress, {
         seq,
         phase: 'parts',
         partKey,
         state: 'done',
         progress01: 1,
-        ms: 0,
+        ms: stageMsByPartKey.get(partKey) ?? 0,
+        cache,
       })
-      continue
+      settledPartKeys.add(partKey)
     }
 
-    const start = now()
-
-    try {
-      emit(emitProgress, {
-        seq,
-        phase: 'parts',
-        partKey,
-        state: 'building',
-        progress01: 0,
-      })
-
-      await Promise.resolve()
-
-      emit(emitProgress, {
-        seq,
-        phase: 'parts',
-        partKey,
-        state: 'building',
-        progress01: 0.5,
-      })
-
-      // Stub compute point; deterministic part output is owned by partsSpec.
-      void findPart(parts, partKey)
-
-      const elapsed = now() - start
-      partCache.add(partSignature)
-
-      emit(emitProgress, {
-        seq,
-        phase: 'parts',
-        partKey,
-        state: 'done',
-        progress01: 1,
-        ms: elapsed,
-      })
-    } catch (error: unknown) {
+    return emitArtifacts(seq, parts, request.changedParamIds, model.diagnostics)
+  } catch (error: unknown) {
+    if (signal?.aborted === true) {
+      for (const partKey of orderedPartKeys.filter((key) => !settledPartKeys.has(key))) {
+        emit(emitProgress, {
+          seq,
+          phase: 'parts',
+          partKey,
+          state: 'cancelled',
+        })
+      }
+    } else {
       const message = error instanceof Error ? error.message : 'Part build failed.'
-      emit(emitProgress, {
-        seq,
-        phase: 'parts',
-        partKey,
-        state: 'error',
-        message,
-      })
-      throw error
+      for (const partKey of stageStartByPartKey.keys()) {
+        if (!stageMsByPartKey.has(partKey)) {
+          emit(emitProgress, {
+            seq,
+            phase: 'parts',
+            partKey,
+            state: 'error',
+            message,
+          })
+        }
+      }
     }
+    throw error
   }
-
-  buildCache.add(buildSignature)
-  return emitArtifacts(seq, parts, request.changedParamIds)
 }
 
 export const assemblePipeline = async (
   request: AssembleRequest,
   emitProgress: ProgressEmitter,
+  signal?: AbortSignal,
 ): Promise<AssembleResult> => {
   const { seq, payload } = request
   const signature = makeBuildSignature(payload, ENGINE_MODE, CONTROL_MODE)
@@ -194,35 +247,6 @@ export const assemblePipeline = async (
     state: 'queued',
   })
 
-  if (assembleCache.has(signature)) {
-    emit(emitProgress, {
-      seq,
-      phase: 'assemble',
-      partKey,
-      state: 'cache_hit',
-      progress01: 1,
-      ms: 0,
-    })
-    emit(emitProgress, {
-      seq,
-      phase: 'assemble',
-      partKey,
-      state: 'done',
-      progress01: 1,
-      ms: 0,
-    })
-    return {
-      type: 'assemble_result',
-      seq,
-      assembled: {
-        width: payload.width,
-        length: payload.length,
-        height: payload.height,
-      },
-      signature,
-    }
-  }
-
   const start = now()
 
   try {
@@ -235,6 +259,7 @@ export const assemblePipeline = async (
     })
 
     await Promise.resolve()
+    signal?.throwIfAborted()
 
     emit(emitProgress, {
       seq,
@@ -245,8 +270,6 @@ export const assemblePipeline = async (
     })
 
     const elapsed = now() - start
-    assembleCache.add(signature)
-    buildCache.add(signature)
 
     emit(emitProgress, {
       seq,
@@ -258,7 +281,7 @@ export const assemblePipeline = async (
     })
 
     return {
-      type: 'assemble_result',
+      type: 'assemble/result',
       seq,
       assembled: {
         width: payload.width,
@@ -268,6 +291,15 @@ export const assemblePipeline = async (
       signature,
     }
   } catch (error: unknown) {
+    if (signal?.aborted === true) {
+      emit(emitProgress, {
+        seq,
+        phase: 'assemble',
+        partKey,
+        state: 'cancelled',
+      })
+      throw error
+    }
     const message = error instanceof Error ? error.message : 'Assemble failed.'
     emit(emitProgress, {
       seq,
@@ -279,3 +311,53 @@ export const assemblePipeline = async (
     throw error
   }
 }
+
+export const exportPipeline = async (
+  request: ExportRequestMessage,
+  emitProgress: ProgressEmitter,
+  signal?: AbortSignal,
+): Promise<ExportResultMessage> => {
+  const { seq, payload } = request
+  const rowKeys = deriveExportBuildStatsKeys(request.request.scope)
+  const emitRows = (message: Omit<BuildProgress, 'type' | 'seq' | 'phase' | 'partKey'>): void => {
+    for (const partKey of rowKeys) {
+      emit(emitProgress, { seq, phase: 'export', partKey, ...message })
+    }
+  }
+
+  emitRows({ state: 'queued' })
+  const start = now()
+
+  try {
+    emitRows({ state: 'building', progress01: 0 })
+    const cacheSession = openGeometryCacheSession(geometryCache)
+    const pause = createPause()
+    const featureStackResult = await runFoothookFeatureStack(asRecord(payload) ?? {}, {
+      cache: cacheSession.cache,
+      signal,
+      pause,
+    })
+    if (featureStackResult === null) {
+      throw new Error('Nothing to export: the build has no feature stack.')
+    }
+    const cache = cacheSession.counts()
+    emitRows({ state: 'building', progress01: 0.5, cache })
+
+    const result = await exportService(request.request, featureStackResult, { signal, pause })
+
+    emitRows({ state: 'done', progress01: 1, ms: now() - start, cache })
+    return {
+      type: 'export/result',
+      seq,
+      payload: result,
+    }
+  } catch (error: unknown) {
+    if (signal?.aborted === true) {
+      emitRows({ state: 'cancelled' })
+      throw error
+    }
+    const message = error instanceof Error ? error.message : 'Export failed.'
+    emitRows({ state: 'error', message })
+    throw error
+  }
+}
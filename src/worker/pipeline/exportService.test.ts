@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import { executeFeatureStack, type FeatureStackIRPayload } from '../cad/featureStackRuntime'
+import type { ExportRequest } from '../../shared/exportTypes'
+import { exportService } from './exportService'
+
+const rectanglePart = (prefix: string, depth: number) => [
+  {
+    op: 'sketch' as const,
+    featureId: `${prefix}-sketch`,
+    profilesResolved: [
+      {
+        profileId: `${prefix}-prof`,
+        area: 50,
+        vertices: [
+          { x: 0, y: 0 },
+          { x: 10, y: 0 },
+          { x: 10, y: 5 },
+          { x: 0, y: 5 },
+        ],
+      },
+    ],
+  },
+  {
+    op: 'extrude' as const,
+    featureId: `${prefix}-extrude`,
+    profileRef: { sketchFeatureId: `${prefix}-sketch`, profileId: `${prefix}-prof` },
+    depthResolved: depth,
+    bodyId: `${prefix}-body`,
+  },
+]
+
+const source = () => {
+  const payload: FeatureStackIRPayload = {
+    schemaVersion: 1,
+    parts: {
+      'cube#1': rectanglePart('a', 3),
+      'cube#2': rectanglePart('b', 4),
+    },
+  }
+  return executeFeatureStack(payload)
+}
+
+const request = (overrides: Partial<ExportRequest> = {}): ExportRequest => ({
+  schemaVersion: 1,
+  requestId: 'export-1',
+  format: 'stl',
+  buildRequestId: '7',
+  scope: { kind: 'part', partKey: 'cube#1' },
+  ...overrides,
+})
+
+const decodeBytes = (base64: string): Uint8Array =>
+  Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+
+describe('exportService STL', () => {
+  it('writes a binary STL for one part with facet normals', async () => {
+    const result = await exportService(request(), source())
+    const bytes = decodeBytes(result.dataBase64)
+    const view = new DataView(bytes.buffer)
+
+    expect(result.filename).toBe('parahook-cube-1.stl')
+    expect(new TextDecoder().decode(bytes.subarray(0, 8))).toBe('ParaHook')
+    expect(view.getUint32(80, true)).toBe(12)
+    expect(bytes.length).toBe(84 + 12 * 50)
+    // First facet is on the bottom cap, facing -Z.
+    expect([
+      view.getFloat32(84, true),
+      view.getFloat32(88, true),
+      view.getFloat32(92, true),
+    ]).toEqual([0, 0, -1])
+  })
+
+  it('writes an ASCII STL with one facet block per triangle', async () => {
+    const result = await exportService(request({ stlEncoding: 'ascii' }), source())
+    const text = atob(result.dataBase64)
+
+    expect(text.startsWith('solid parahook_cube-1\n')).toBe(true)
+    expect(text.trimEnd().endsWith('endsolid parahook_cube-1')).toBe(true)
+    expect(text.match(/endfacet/g)).toHaveLength(12)
+    expect(text).toContain('facet normal 0.000000e+0 0.000000e+0 -1.000000e+0')
+    expect(text).toContain('vertex 1.000000e+1 5.000000e+0 3.000000e+0')
+  })
+
+  it('merges every part for assembly scope', async () => {
+    const result = await exportService(request({ scope: { kind: 'assembly' } }), source())
+    const bytes = decodeBytes(result.dataBase64)
+
+    expect(result.filename).toBe('parahook-assembly.stl')
+    expect(new DataView(bytes.buffer).getUint32(80, true)).toBe(24)
+  })
+
+  it('merges the listed parts and names the file after their sorted keys', async () => {
+    const result = await exportService(
+      request({ scope: { kind: 'parts', partKeys: ['cube#2', 'toeHook#1', 'cube#1'] } }),
+      source(),
+    )
+    const bytes = decodeBytes(result.dataBase64)
+
+    expect(result.filename).toBe('parahook-cube-1+cube-2+toeHook-1.stl')
+    expect(new DataView(bytes.buffer).getUint32(80, true)).toBe(24)
+  })
+
+  it('rejects scopes without geometry', async () => {
+    await expect(
+      exportService(request({ scope: { kind: 'part', partKey: 'toeHook#1' } }), source()),
+    ).rejects.toThrow('part "toeHook#1" has no bodies')
+  })
+})
+
+describe('exportService STEP', () => {
+  it('writes one B-rep solid per body in scope', async () => {
+    const part = atob((await exportService(request({ format: 'step' }), source())).dataBase64)
+    const assembly = await exportService(
+      request({ format: 'step', scope: { kind: 'assembly' } }),
+      source(),
+    )
+
+    expect(part).toContain("FILE_NAME('parahook-cube-1.step'")
+    expect(part.match(/=MANIFOLD_SOLID_BREP\(/g)).toHaveLength(1)
+    expect(assembly.filename).toBe('parahook-assembly.step')
+    expect(atob(assembly.dataBase64).match(/=MANIFOLD_SOLID_BREP\(/g)).toHaveLength(2)
+  })
+
+  it('stops between solids once aborted', async () => {
+    const controller = new AbortController()
+    let pauses = 0
+    const run = exportService(request({ format: 'step', scope: { kind: 'assembly' } }), source(), {
+      signal: controller.signal,
+      pause: async () => {
+        pauses += 1
+        // The first pause precedes the writer; the second follows the first solid.
+        if (pauses === 2) {
+          controller.abort()
+        }
+      },
+    })
+
+    await expect(run).rejects.toMatchObject({ name: 'AbortError' })
+  })
+})
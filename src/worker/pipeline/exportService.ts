@@ -1,15 +1,126 @@
-import type { ExportRequest, ExportResult } from '../../shared/exportTypes'
+import { orderSpaghettiSourcePartKeys } from '../../shared/buildStatsKeys'
+import type { ExportRequest, ExportResult, ExportScope } from '../../shared/exportTypes'
+import { mergeMeshPacks } from '../cad/cadKernelAdapter'
+import type { MeshPack, Shape3D } from '../cad/cadTypes'
+import type { ExecuteFeatureStackResult } from '../cad/featureStackRuntime'
+import { runCooperatively, type CooperativeOptions } from '../cad/yieldingWork'
+import { writeStepAp214 } from './stepWriter'
+import { writeAsciiStl, writeBinaryStl } from './stlWriter'
+
+export type ExportSource = Pick<ExecuteFeatureStackResult, 'bodies' | 'mergedMesh'>
 
 const toBase64 = (value: string): string => btoa(value)
 
+const BASE64_CHUNK_BYTES = 0x8000
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  for (let offset = 0; offset < bytes.length; offset += BASE64_CHUNK_BYTES) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + BASE64_CHUNK_BYTES))
+  }
+  return btoa(binary)
+}
+
+const partKeySlug = (partKey: string): string => partKey.replace(/[^A-Za-z0-9_-]+/g, '-')
+
+// Part keys are sorted first, so a scope names the same file whichever order it listed them in.
+const scopeSlug = (scope: ExportScope): string => {
+  if (scope.kind === 'assembly') {
+    return 'assembly'
+  }
+  if (scope.kind === 'part') {
+    return partKeySlug(scope.partKey)
+  }
+  return orderSpaghettiSourcePartKeys(scope.partKeys).map(partKeySlug).join('+')
+}
+
+const scopePartKeys = (scope: ExportScope): Set<string> | null => {
+  if (scope.kind === 'assembly') {
+    return null
+  }
+  return new Set(scope.kind === 'part' ? [scope.partKey] : scope.partKeys)
+}
+
+const emptyScopeMessage = (scope: ExportScope): string => {
+  if (scope.kind === 'assembly') {
+    return 'Nothing to export: the assembly has no bodies.'
+  }
+  if (scope.kind === 'part') {
+    return `Nothing to export: part "${scope.partKey}" has no bodies.`
+  }
+  return 'Nothing to export: none of the selected parts has bodies.'
+}
+
+const resolveScopeMesh = (source: ExportSource, scope: ExportScope): MeshPack => {
+  const partKeys = scopePartKeys(scope)
+  if (partKeys === null) {
+    if (source.mergedMesh === null || source.mergedMesh.indices.length === 0) {
+      throw new Error(emptyScopeMessage(scope))
+    }
+    return source.mergedMesh
+  }
+
+  // Bodies are keyed `${partKey}:${bodyId}` and already sorted, so the merge order is stable.
+  const meshes = Object.values(source.bodies)
+    .filter((body) => partKeys.has(body.partKey))
+    .map((body) => body.mesh)
+  if (meshes.length === 0) {
+    throw new Error(emptyScopeMessage(scope))
+  }
+  return mergeMeshPacks(meshes)
+}
+
+// STEP keeps bodies separate so each one can carry its exact B-rep.
+const resolveScopeBodies = (source: ExportSource, scope: ExportScope): Shape3D[] => {
+  const partKeys = scopePartKeys(scope)
+  const bodies = Object.values(source.bodies).filter(
+    (body) => partKeys === null || partKeys.has(body.partKey),
+  )
+  if (bodies.length === 0) {
+    throw new Error(emptyScopeMessage(scope))
+  }
+  return bodies
+}
+
+// The writers yield between chunks of triangles and solids, so `options` can cancel a large export.
 export const exportService = async (
   request: ExportRequest,
+  source: ExportSource,
+  options: CooperativeOptions = {},
 ): Promise<ExportResult> => {
-  const descriptor = `${request.schemaVersion}:${request.format}:${request.buildRequestId}`
+  const filename = `parahook-${scopeSlug(request.scope)}.${request.format}`
+
+  if (request.format === 'stl') {
+    const mesh = resolveScopeMesh(source, request.scope)
+    const solidName = `parahook_${scopeSlug(request.scope)}`
+    const dataBase64 =
+      request.stlEncoding === 'ascii'
+        ? toBase64(await runCooperatively(writeAsciiStl(mesh, solidName), options))
+        : bytesToBase64(
+            await runCooperatively(
+              writeBinaryStl(mesh, `ParaHook ${solidName} units=mm`),
+              options,
+            ),
+          )
+    return {
+      requestId: request.requestId,
+      format: request.format,
+      filename,
+      dataBase64,
+    }
+  }
+
+  const step = await runCooperatively(
+    writeStepAp214(resolveScopeBodies(source, request.scope), {
+      productName: `parahook_${scopeSlug(request.scope)}`,
+      filename,
+    }),
+    options,
+  )
   return {
     requestId: request.requestId,
     format: request.format,
-    filename: `parahook-${request.buildRequestId}.${request.format}`,
-    dataBase64: toBase64(descriptor),
+    filename,
+    dataBase64: toBase64(step),
   }
 }
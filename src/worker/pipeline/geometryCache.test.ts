@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import type { FeatureStackSnapshot } from '../cad/featureStackRuntime'
+import { createLruCache, openGeometryCacheSession } from './geometryCache'
+
+const emptySnapshot = (): FeatureStackSnapshot => ({
+  bodies: [],
+  bodyTrace: [],
+  diagnostics: [],
+  executionIndexByPartKey: {},
+})
+
+describe('createLruCache', () => {
+  it('evicts the least recently used key once over capacity', () => {
+    const cache = createLruCache<number>(2)
+    cache.set('a', 1)
+    cache.set('b', 2)
+    expect(cache.get('a')).toBe(1)
+    cache.set('c', 3)
+
+    expect(cache.get('b')).toBeUndefined()
+    expect(cache.get('a')).toBe(1)
+    expect(cache.get('c')).toBe(3)
+    expect(cache.size()).toBe(2)
+    expect(cache.counts()).toEqual({ hits: 3, misses: 1, evictions: 1 })
+  })
+
+  it('overwrites an existing key without evicting', () => {
+    const cache = createLruCache<number>(2)
+    cache.set('a', 1)
+    cache.set('b', 2)
+    cache.set('a', 10)
+
+    expect(cache.get('a')).toBe(10)
+    expect(cache.get('b')).toBe(2)
+    expect(cache.counts().evictions).toBe(0)
+  })
+})
+
+describe('openGeometryCacheSession', () => {
+  it('keys parts on their own ops and counts only the session activity', () => {
+    const lru = createLruCache<FeatureStackSnapshot>(8)
+    const ops = { a: [{ op: 'sketch' as const, featureId: 's1', profilesResolved: [] }] }
+    const warmup = openGeometryCacheSession(lru)
+    const snapshot = emptySnapshot()
+    warmup.cache.set({ kind: 'part', partKey: 'cube', operations: ops.a }, snapshot)
+    expect(warmup.cache.get({ kind: 'part', partKey: 'cubeProof', operations: ops.a })).toBe(
+      undefined,
+    )
+
+    const session = openGeometryCacheSession(lru)
+    // A structurally equal copy with reordered keys addresses the same entry.
+    const reordered = [{ profilesResolved: [], featureId: 's1', op: 'sketch' as const }]
+    expect(session.cache.get({ kind: 'part', partKey: 'cube', operations: reordered })).toBe(
+      snapshot,
+    )
+    expect(
+      session.cache.get({ kind: 'assembly', parts: { cube: ops.a }, assembly: [] }),
+    ).toBeUndefined()
+
+    expect([...session.hitStageKeys]).toEqual(['cube'])
+    expect(session.counts()).toEqual({ hits: 1, misses: 1, evictions: 0, entries: 1 })
+  })
+})
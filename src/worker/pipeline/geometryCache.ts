@@ -0,0 +1,103 @@
+import type { GeometryCacheCounts } from '../../shared/buildTypes'
+import {
+  featureStackCacheStageKey,
+  type FeatureStackCache,
+  type FeatureStackCacheStage,
+  type FeatureStackSnapshot,
+} from '../cad/featureStackRuntime'
+import { makeStageSignature } from './signatures'
+
+export type LruCounts = Omit<GeometryCacheCounts, 'entries'>
+
+export type LruCache<V> = {
+  get: (key: string) => V | undefined
+  set: (key: string, value: V) => void
+  size: () => number
+  // Running totals since the cache was created.
+  counts: () => LruCounts
+}
+
+// Map iteration order doubles as recency order: reads re-insert their key at the end, so the
+// first key is always the least recently used.
+export const createLruCache = <V>(capacity: number): LruCache<V> => {
+  const entries = new Map<string, V>()
+  const counts: LruCounts = { hits: 0, misses: 0, evictions: 0 }
+  return {
+    get: (key) => {
+      const value = entries.get(key)
+      if (value === undefined) {
+        counts.misses += 1
+        return undefined
+      }
+      counts.hits += 1
+      entries.delete(key)
+      entries.set(key, value)
+      return value
+    },
+    set: (key, value) => {
+      entries.delete(key)
+      entries.set(key, value)
+      while (entries.size > Math.max(0, capacity)) {
+        const oldest = entries.keys().next().value
+        if (oldest === undefined) {
+          break
+        }
+        entries.delete(oldest)
+        counts.evictions += 1
+      }
+    },
+    size: () => entries.size,
+    counts: () => ({ ...counts }),
+  }
+}
+
+export type GeometryCacheSession = {
+  cache: FeatureStackCache
+  // Build-stats keys of the stages replayed from the cache.
+  hitStageKeys: ReadonlySet<string>
+  counts: () => GeometryCacheCounts
+}
+
+// Per-build view of the shared snapshot cache: stages are addressed by their IR signature and the
+// counts cover only what happened since the session opened.
+export const openGeometryCacheSession = (
+  lru: LruCache<FeatureStackSnapshot>,
+): GeometryCacheSession => {
+  const baseline = lru.counts()
+  const hitStageKeys = new Set<string>()
+  // A miss is followed by a set for the same stage object; hash its IR once.
+  const signatures = new WeakMap<FeatureStackCacheStage, string>()
+  const signatureOf = (stage: FeatureStackCacheStage): string => {
+    const known = signatures.get(stage)
+    if (known !== undefined) {
+      return known
+    }
+    const signature = makeStageSignature(stage)
+    signatures.set(stage, signature)
+    return signature
+  }
+  return {
+    cache: {
+      get: (stage) => {
+        const snapshot = lru.get(signatureOf(stage))
+        if (snapshot !== undefined) {
+          hitStageKeys.add(featureStackCacheStageKey(stage))
+        }
+        return snapshot
+      },
+      set: (stage, snapshot) => {
+        lru.set(signatureOf(stage), snapshot)
+      },
+    },
+    hitStageKeys,
+    counts: () => {
+      const current = lru.counts()
+      return {
+        hits: current.hits - baseline.hits,
+        misses: current.misses - baseline.misses,
+        evictions: current.evictions - baseline.evictions,
+        entries: lru.size(),
+      }
+    },
+  }
+}
@@ -1,25 +1,10 @@
 import type { BoxParams } from '../../shared/buildTypes'
+import { stableStringify } from '../../shared/stableStringify'
+import type { FeatureStackCacheStage } from '../cad/featureStackRuntime'
 
 export type EngineMode = 'stub_box'
 export type ControlMode = 'profile_editor'
 
-const stableStringify = (value: unknown): string => {
-  if (value === null || typeof value !== 'object') {
-    return JSON.stringify(value)
-  }
-
-  if (Array.isArray(value)) {
-    return `[${value.map((item) => stableStringify(item)).join(',')}]`
-  }
-
-  const entries = Object.entries(value as Record<string, unknown>).sort((a, b) =>
-    a[0].localeCompare(b[0]),
-  )
-  return `{${entries
-    .map(([key, nested]) => `${JSON.stringify(key)}:${stableStringify(nested)}`)
-    .join(',')}}`
-}
-
 const serializePayload = (payload: BoxParams): string => stableStringify(payload)
 
 export const makeBuildSignature = (
@@ -29,10 +14,23 @@ export const makeBuildSignature = (
 ): string =>
   `build|engine=${engineMode}|control=${controlMode}|payload=${serializePayload(payload)}`
 
-export const makePartSignature = (
-  partKey: string,
-  payload: BoxParams,
-  engineMode: EngineMode,
-  controlMode: ControlMode,
-): string =>
-  `part|key=${partKey}|${makeBuildSignature(payload, engineMode, controlMode)}`
+// cyrb53: two 32-bit multiply-xor lanes folded into a 53-bit hash.
+const hashString = (text: string): string => {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let index = 0; index < text.length; index += 1) {
+    const code = text.charCodeAt(index)
+    h1 = Math.imul(h1 ^ code, 2654435761)
+    h2 = Math.imul(h2 ^ code, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0')
+}
+
+// Content address of a feature-stack stage: parts are keyed on their own ops only, so editing one
+// part leaves every other part's signature unchanged.
+export const makeStageSignature = (stage: FeatureStackCacheStage): string =>
+  stage.kind === 'part'
+    ? `part|key=${stage.partKey}|ops=${hashString(stableStringify(stage.operations))}`
+    : `assembly|ir=${hashString(stableStringify({ parts: stage.parts, assembly: stage.assembly }))}`
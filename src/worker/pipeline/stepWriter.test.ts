@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest'
+import { extrudeFaceAlongZ, faceFromWire, wireFromLoop } from '../cad/cadKernelAdapter'
+import type { ProfileSegment, SketchPlane } from '../cad/cadTypes'
+import { runToCompletion } from '../cad/yieldingWork'
+import { writeStepAp214 as writeStepAp214Work } from './stepWriter'
+
+const writeStepAp214 = (...args: Parameters<typeof writeStepAp214Work>): string =>
+  runToCompletion(writeStepAp214Work(...args))
+
+const extrudeSegments = (
+  segments: ProfileSegment[],
+  depth: number,
+  plane: SketchPlane = 'XY',
+) => {
+  const vertices = segments.map((segment) =>
+    segment.kind === 'line2' ? segment.a : segment.kind === 'bezier2' ? segment.p0 : segment.start,
+  )
+  const face = faceFromWire(wireFromLoop(vertices, segments), plane)
+  return runToCompletion(
+    extrudeFaceAlongZ(face, depth, {
+      bodyId: 'body-1',
+      featureId: 'extrude-1',
+      op: 'extrude',
+      partKey: 'cube#1',
+    }),
+  )
+}
+
+const countEntities = (text: string, entity: string): number =>
+  text.match(new RegExp(`=${entity}\\(`, 'g'))?.length ?? 0
+
+describe('writeStepAp214', () => {
+  it('writes an exact planar prism for line-only profiles', () => {
+    const solid = extrudeSegments(
+      [
+        { kind: 'line2', a: { x: 0, y: 0 }, b: { x: 10, y: 0 } },
+        { kind: 'line2', a: { x: 10, y: 0 }, b: { x: 10, y: 5 } },
+        { kind: 'line2', a: { x: 10, y: 5 }, b: { x: 0, y: 5 } },
+        { kind: 'line2', a: { x: 0, y: 5 }, b: { x: 0, y: 0 } },
+      ],
+      3,
+    )
+    const text = writeStepAp214([solid], { productName: 'box', filename: 'box.step' })
+
+    expect(text.startsWith('ISO-10303-21;\nHEADER;')).toBe(true)
+    expect(text).toContain("FILE_SCHEMA(('AUTOMOTIVE_DESIGN { 1 0 10303 214 1 1 1 1 }'));")
+    expect(text.trimEnd().endsWith('END-ISO-10303-21;')).toBe(true)
+    expect(countEntities(text, 'ADVANCED_FACE')).toBe(6)
+    expect(countEntities(text, 'PLANE')).toBe(6)
+    expect(countEntities(text, 'EDGE_CURVE')).toBe(12)
+    expect(countEntities(text, 'VERTEX_POINT')).toBe(8)
+    expect(countEntities(text, 'MANIFOLD_SOLID_BREP')).toBe(1)
+    expect(text).toContain("CARTESIAN_POINT('',(10.,5.,3.))")
+  })
+
+  it('places prisms on their sketch plane', () => {
+    const solid = extrudeSegments(
+      [
+        { kind: 'line2', a: { x: 0, y: 0 }, b: { x: 10, y: 0 } },
+        { kind: 'line2', a: { x: 10, y: 0 }, b: { x: 10, y: 5 } },
+        { kind: 'line2', a: { x: 10, y: 5 }, b: { x: 0, y: 5 } },
+        { kind: 'line2', a: { x: 0, y: 5 }, b: { x: 0, y: 0 } },
+      ],
+      3,
+      'YZ',
+    )
+    const text = writeStepAp214([solid], { productName: 'side', filename: 'side.step' })
+
+    expect(countEntities(text, 'ADVANCED_FACE')).toBe(6)
+    expect(text).toContain("CARTESIAN_POINT('',(3.,10.,5.))")
+    expect(text).toContain("DIRECTION('',(1.,0.,0.))")
+  })
+
+  it('writes holes as inner cap bounds with their own side walls', () => {
+    const square = (x: number, y: number, size: number) => {
+      const corners = [
+        { x, y },
+        { x: x + size, y },
+        { x: x + size, y: y + size },
+        { x, y: y + size },
+      ]
+      const segments = corners.map(
+        (a, index): ProfileSegment => ({ kind: 'line2', a, b: corners[(index + 1) % 4] }),
+      )
+      return { corners, segments }
+    }
+    const outer = square(0, 0, 10)
+    const hole = square(3, 3, 4)
+    const face = faceFromWire(wireFromLoop(outer.corners, outer.segments), 'XY', [
+      wireFromLoop(hole.corners, hole.segments, 'cw'),
+    ])
+    const solid = runToCompletion(
+      extrudeFaceAlongZ(face, 2, {
+        bodyId: 'body-1',
+        featureId: 'extrude-1',
+        op: 'extrude',
+        partKey: 'cube#1',
+      }),
+    )
+    const text = writeStepAp214([solid], { productName: 'ring', filename: 'ring.step' })
+
+    expect(countEntities(text, 'ADVANCED_FACE')).toBe(10)
+    expect(countEntities(text, 'FACE_BOUND')).toBe(2)
+    expect(countEntities(text, 'EDGE_CURVE')).toBe(24)
+  })
+
+  it('keeps bezier and arc sides as B-spline surfaces', () => {
+    const solid = extrudeSegments(
+      [
+        { kind: 'line2', a: { x: 0, y: 0 }, b: { x: 10, y: 0 } },
+        {
+          kind: 'bezier2',
+          p0: { x: 10, y: 0 },
+          p1: { x: 14, y: 3 },
+          p2: { x: 14, y: 7 },
+          p3: { x: 10, y: 10 },
+        },
+        { kind: 'arc3pt2', start: { x: 10, y: 10 }, mid: { x: 5, y: 15 }, end: { x: 0, y: 10 } },
+        { kind: 'line2', a: { x: 0, y: 10 }, b: { x: 0, y: 0 } },
+      ],
+      2,
+    )
+    const text = writeStepAp214([solid], { productName: 'mixed', filename: 'mixed.step' })
+
+    expect(countEntities(text, 'ADVANCED_FACE')).toBe(6)
+    expect(countEntities(text, 'B_SPLINE_SURFACE_WITH_KNOTS')).toBe(1)
+    expect(text).toContain('RATIONAL_B_SPLINE_SURFACE(')
+    expect(text).toContain('RATIONAL_B_SPLINE_CURVE(')
+    expect(countEntities(text, 'PLANE')).toBe(4)
+  })
+
+  it('falls back to a faceted shell and is deterministic', () => {
+    const solid = extrudeSegments(
+      [
+        { kind: 'line2', a: { x: 0, y: 0 }, b: { x: 4, y: 0 } },
+        { kind: 'line2', a: { x: 4, y: 0 }, b: { x: 0, y: 4 } },
+        { kind: 'line2', a: { x: 0, y: 4 }, b: { x: 0, y: 0 } },
+      ],
+      1,
+    )
+    delete solid.brep
+    const first = writeStepAp214([solid], { productName: 'tri', filename: 'tri.step' })
+    const second = writeStepAp214([solid], { productName: 'tri', filename: 'tri.step' })
+
+    expect(first).toBe(second)
+    expect(countEntities(first, 'ADVANCED_FACE')).toBe(solid.mesh.indices.length / 3)
+    expect(countEntities(first, 'EDGE_CURVE')).toBe(solid.mesh.indices.length / 2)
+  })
+})
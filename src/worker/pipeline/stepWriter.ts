@@ -0,0 +1,517 @@
+import { toSketchPlaneFrame } from '../cad/cadKernelAdapter'
+import type {
+  MeshPack,
+  Point2,
+  PrismBrep,
+  ProfileSegment,
+  Shape3D,
+  SketchPlane,
+} from '../cad/cadTypes'
+import type { YieldingWork } from '../cad/yieldingWork'
+
+type Vec3 = [number, number, number]
+
+type StepSolidInput = Pick<Shape3D, 'bodyId' | 'mesh' | 'brep'>
+
+// Curve pieces of one loop edge, in STEP terms: a straight line, a polynomial B-spline or a rational one.
+type EdgeCurveSpec =
+  | { kind: 'line'; start: Point2; end: Point2 }
+  | { kind: 'bspline'; degree: number; points: Point2[]; multiplicities: number[]; knots: number[] }
+  | {
+      kind: 'rational'
+      degree: number
+      points: Point2[]
+      weights: number[]
+      multiplicities: number[]
+      knots: number[]
+    }
+
+const CHAIN_TOLERANCE = 1e-6
+const ARC_COLLINEAR_EPSILON = 1e-9
+// Faceted shells yield after this many triangles so a worker export can be cancelled mid-body.
+const FACET_YIELD_TRIANGLES = 1024
+
+const formatReal = (value: number): string => {
+  const text = String(Number(value.toFixed(6)))
+  if (text.includes('e')) {
+    const [mantissa, exponent] = text.split('e')
+    return `${mantissa.includes('.') ? mantissa : `${mantissa}.`}E${exponent}`
+  }
+  return text.includes('.') ? text : `${text}.`
+}
+
+const formatString = (value: string): string => `'${value.replace(/'/g, "''")}'`
+
+const refList = (ids: readonly number[]): string => `(${ids.map((id) => `#${id}`).join(',')})`
+
+const realList = (values: readonly number[]): string => `(${values.map(formatReal).join(',')})`
+
+const intList = (values: readonly number[]): string => `(${values.join(',')})`
+
+const sub3 = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]]
+
+const cross3 = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+]
+
+const length3 = (a: Vec3): number => Math.hypot(a[0], a[1], a[2])
+
+const normalize3 = (a: Vec3): Vec3 | null => {
+  const length = length3(a)
+  return length <= 0 || !Number.isFinite(length) ? null : [a[0] / length, a[1] / length, a[2] / length]
+}
+
+const distance2 = (a: Point2, b: Point2): number => Math.hypot(b.x - a.x, b.y - a.y)
+
+const segmentStart = (segment: ProfileSegment): Point2 => {
+  if (segment.kind === 'line2') return segment.a
+  if (segment.kind === 'bezier2') return segment.p0
+  return segment.start
+}
+
+const segmentEnd = (segment: ProfileSegment): Point2 => {
+  if (segment.kind === 'line2') return segment.b
+  if (segment.kind === 'bezier2') return segment.p3
+  return segment.end
+}
+
+// Exact rational quadratic form of a three-point arc, split into spans of at most 90 degrees.
+const arcToRationalSpec = (start: Point2, mid: Point2, end: Point2): EdgeCurveSpec => {
+  const d = 2 * (start.x * (mid.y - end.y) + mid.x * (end.y - start.y) + end.x * (start.y - mid.y))
+  if (Math.abs(d) < ARC_COLLINEAR_EPSILON) {
+    return { kind: 'line', start, end }
+  }
+  const a2 = start.x * start.x + start.y * start.y
+  const b2 = mid.x * mid.x + mid.y * mid.y
+  const c2 = end.x * end.x + end.y * end.y
+  const cx = (a2 * (mid.y - end.y) + b2 * (end.y - start.y) + c2 * (start.y - mid.y)) / d
+  const cy = (a2 * (end.x - mid.x) + b2 * (start.x - end.x) + c2 * (mid.x - start.x)) / d
+  const radius = Math.hypot(start.x - cx, start.y - cy)
+  const angle = (point: Point2): number => Math.atan2(point.y - cy, point.x - cx)
+
+  const a0 = angle(start)
+  let am = angle(mid)
+  let a1 = angle(end)
+  while (am - a0 > Math.PI) am -= 2 * Math.PI
+  while (am - a0 < -Math.PI) am += 2 * Math.PI
+  while (a1 - a0 > Math.PI) a1 -= 2 * Math.PI
+  while (a1 - a0 < -Math.PI) a1 += 2 * Math.PI
+  const between = (x: number, lo: number, hi: number): boolean =>
+    lo <= hi ? x >= lo - 1e-8 && x <= hi + 1e-8 : x <= lo + 1e-8 && x >= hi - 1e-8
+  if (!between(am, a0, a1)) {
+    a1 += a1 >= a0 ? -2 * Math.PI : 2 * Math.PI
+  }
+
+  const sweep = a1 - a0
+  const spans = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9))
+  const step = sweep / spans
+  const weight = Math.cos(Math.abs(step) / 2)
+  const points: Point2[] = [start]
+  const weights: number[] = [1]
+  for (let span = 0; span < spans; span += 1) {
+    const middleAngle = a0 + step * (span + 0.5)
+    const controlRadius = radius / weight
+    points.push({
+      x: cx + Math.cos(middleAngle) * controlRadius,
+      y: cy + Math.sin(middleAngle) * controlRadius,
+    })
+    weights.push(weight)
+    const endAngle = a0 + step * (span + 1)
+    points.push(
+      span === spans - 1
+        ? end
+        : { x: cx + Math.cos(endAngle) * radius, y: cy + Math.sin(endAngle) * radius },
+    )
+    weights.push(1)
+  }
+
+  return {
+    kind: 'rational',
+    degree: 2,
+    points,
+    weights,
+    multiplicities: Array.from({ length: spans + 1 }, (_, index) =>
+      index === 0 || index === spans ? 3 : 2,
+    ),
+    knots: Array.from({ length: spans + 1 }, (_, index) => index),
+  }
+}
+
+const toEdgeCurveSpec = (segment: ProfileSegment): EdgeCurveSpec => {
+  if (segment.kind === 'line2') {
+    return { kind: 'line', start: segment.a, end: segment.b }
+  }
+  if (segment.kind === 'bezier2') {
+    return {
+      kind: 'bspline',
+      degree: 3,
+      points: [segment.p0, segment.p1, segment.p2, segment.p3],
+      multiplicities: [4, 4],
+      knots: [0, 1],
+    }
+  }
+  return arcToRationalSpec(segment.start, segment.mid, segment.end)
+}
+
+const isClosedChain = (segments: readonly ProfileSegment[]): boolean =>
+  segments.length >= 2 &&
+  segments.every(
+    (segment, index) =>
+      distance2(segmentStart(segment), segmentEnd(segment)) > CHAIN_TOLERANCE &&
+      distance2(segmentEnd(segment), segmentStart(segments[(index + 1) % segments.length])) <=
+        CHAIN_TOLERANCE,
+  )
+
+class StepDataSection {
+  private readonly lines: string[] = []
+  private readonly pointIds = new Map<string, number>()
+
+  public add(entity: string): number {
+    this.lines.push(entity)
+    return this.lines.length
+  }
+
+  public point(value: Vec3): number {
+    const key = value.map(formatReal).join(',')
+    const existing = this.pointIds.get(key)
+    if (existing !== undefined) {
+      return existing
+    }
+    const id = this.add(`CARTESIAN_POINT('',(${key}))`)
+    this.pointIds.set(key, id)
+    return id
+  }
+
+  public direction(value: Vec3): number {
+    return this.add(`DIRECTION('',${realList(value)})`)
+  }
+
+  public placement(origin: Vec3, axis: Vec3, refDirection: Vec3): number {
+    return this.add(
+      `AXIS2_PLACEMENT_3D('',#${this.point(origin)},#${this.direction(axis)},#${this.direction(refDirection)})`,
+    )
+  }
+
+  public line(start: Vec3, end: Vec3): number {
+    const delta = sub3(end, start)
+    const direction = normalize3(delta) ?? [1, 0, 0]
+    const vector = this.add(`VECTOR('',#${this.direction(direction)},${formatReal(length3(delta))})`)
+    return this.add(`LINE('',#${this.point(start)},#${vector})`)
+  }
+
+  public render(): string {
+    return this.lines.map((line, index) => `#${index + 1}=${line};`).join('\n')
+  }
+}
+
+// Maps prism-local coordinates (profile in XY, extrusion along +Z) onto the sketch plane. The map
+// is a rotation, so it applies to directions as well as points.
+type PlaneFrame = (value: Vec3) => Vec3
+
+const planeFrame =
+  (plane: SketchPlane): PlaneFrame =>
+  (value) =>
+    toSketchPlaneFrame(plane, value[0], value[1], value[2])
+
+const at = (frame: PlaneFrame, point: Point2, z: number): Vec3 => frame([point.x, point.y, z])
+
+const writeCurve = (
+  data: StepDataSection,
+  frame: PlaneFrame,
+  spec: EdgeCurveSpec,
+  z: number,
+): number => {
+  if (spec.kind === 'line') {
+    return data.line(at(frame, spec.start, z), at(frame, spec.end, z))
+  }
+  const pointIds = spec.points.map((point) => data.point(at(frame, point, z)))
+  if (spec.kind === 'bspline') {
+    return data.add(
+      `B_SPLINE_CURVE_WITH_KNOTS('',${spec.degree},${refList(pointIds)},.UNSPECIFIED.,.F.,.F.,${intList(spec.multiplicities)},${realList(spec.knots)},.UNSPECIFIED.)`,
+    )
+  }
+  return data.add(
+    `(BOUNDED_CURVE() B_SPLINE_CURVE(${spec.degree},${refList(pointIds)},.UNSPECIFIED.,.F.,.F.) B_SPLINE_CURVE_WITH_KNOTS(${intList(spec.multiplicities)},${realList(spec.knots)},.UNSPECIFIED.) CURVE() GEOMETRIC_REPRESENTATION_ITEM() RATIONAL_B_SPLINE_CURVE(${realList(spec.weights)}) REPRESENTATION_ITEM(''))`,
+  )
+}
+
+// Side wall swept from the edge curve along +Z: u follows the curve, v runs z0 -> z1.
+const writeSideSurface = (
+  data: StepDataSection,
+  frame: PlaneFrame,
+  spec: EdgeCurveSpec,
+  z0: number,
+  z1: number,
+): number => {
+  if (spec.kind === 'line') {
+    const tangent =
+      normalize3(sub3(at(frame, spec.end, 0), at(frame, spec.start, 0))) ?? frame([1, 0, 0])
+    const outward = cross3(tangent, frame([0, 0, 1]))
+    return data.add(`PLANE('',#${data.placement(at(frame, spec.start, z0), outward, tangent)})`)
+  }
+  const grid = `(${spec.points
+    .map((point) =>
+      refList([data.point(at(frame, point, z0)), data.point(at(frame, point, z1))]),
+    )
+    .join(',')})`
+  if (spec.kind === 'bspline') {
+    return data.add(
+      `B_SPLINE_SURFACE_WITH_KNOTS('',${spec.degree},1,${grid},.UNSPECIFIED.,.F.,.F.,.F.,${intList(spec.multiplicities)},(2,2),${realList(spec.knots)},(0.,1.),.UNSPECIFIED.)`,
+    )
+  }
+  const weights = `(${spec.weights.map((weight) => realList([weight, weight])).join(',')})`
+  return data.add(
+    `(BOUNDED_SURFACE() B_SPLINE_SURFACE(${spec.degree},1,${grid},.UNSPECIFIED.,.F.,.F.,.F.) B_SPLINE_SURFACE_WITH_KNOTS(${intList(spec.multiplicities)},(2,2),${realList(spec.knots)},(0.,1.),.UNSPECIFIED.) GEOMETRIC_REPRESENTATION_ITEM() RATIONAL_B_SPLINE_SURFACE(${weights}) REPRESENTATION_ITEM('') SURFACE())`,
+  )
+}
+
+const orientedEdge = (data: StepDataSection, edgeCurve: number, sameSense: boolean): number =>
+  data.add(`ORIENTED_EDGE('',*,*,#${edgeCurve},${sameSense ? '.T.' : '.F.'})`)
+
+const advancedFace = (
+  data: StepDataSection,
+  orientedEdges: readonly number[],
+  surface: number,
+  innerLoops: readonly (readonly number[])[] = [],
+): number => {
+  const loop = data.add(`EDGE_LOOP('',${refList(orientedEdges)})`)
+  const bounds = [
+    data.add(`FACE_OUTER_BOUND('',#${loop},.T.)`),
+    ...innerLoops.map((edges) =>
+      data.add(`FACE_BOUND('',#${data.add(`EDGE_LOOP('',${refList(edges)})`)},.T.)`),
+    ),
+  ]
+  return data.add(`ADVANCED_FACE('',${refList(bounds)},#${surface},.T.)`)
+}
+
+// Side faces of one loop plus the loop's bottom/top edges for the caps.
+const writePrismWalls = (
+  data: StepDataSection,
+  frame: PlaneFrame,
+  segments: readonly ProfileSegment[],
+  z0: number,
+  z1: number,
+  faces: number[],
+): { bottomEdges: number[]; topEdges: number[] } => {
+  const count = segments.length
+  const specs = segments.map(toEdgeCurveSpec)
+  const bottomVertices = segments.map((segment) =>
+    data.add(`VERTEX_POINT('',#${data.point(at(frame, segmentStart(segment), z0))})`),
+  )
+  const topVertices = segments.map((segment) =>
+    data.add(`VERTEX_POINT('',#${data.point(at(frame, segmentStart(segment), z1))})`),
+  )
+  const edge = (from: number, to: number, curve: number): number =>
+    data.add(`EDGE_CURVE('',#${from},#${to},#${curve},.T.)`)
+
+  const bottomEdges = specs.map((spec, index) =>
+    edge(
+      bottomVertices[index],
+      bottomVertices[(index + 1) % count],
+      writeCurve(data, frame, spec, z0),
+    ),
+  )
+  const topEdges = specs.map((spec, index) =>
+    edge(topVertices[index], topVertices[(index + 1) % count], writeCurve(data, frame, spec, z1)),
+  )
+  const verticalEdges = segments.map((segment, index) =>
+    edge(
+      bottomVertices[index],
+      topVertices[index],
+      data.line(at(frame, segmentStart(segment), z0), at(frame, segmentStart(segment), z1)),
+    ),
+  )
+
+  // Material sits left of every loop (outer ccw, holes cw), so (curve tangent x +Z) points out.
+  for (let index = 0; index < count; index += 1) {
+    const next = (index + 1) % count
+    faces.push(
+      advancedFace(
+        data,
+        [
+          orientedEdge(data, bottomEdges[index], true),
+          orientedEdge(data, verticalEdges[next], true),
+          orientedEdge(data, topEdges[index], false),
+          orientedEdge(data, verticalEdges[index], false),
+        ],
+        writeSideSurface(data, frame, specs[index], z0, z1),
+      ),
+    )
+  }
+
+  return { bottomEdges, topEdges }
+}
+
+const writePrismShell = (data: StepDataSection, brep: PrismBrep): number => {
+  const { z0, z1 } = brep
+  const frame = planeFrame(brep.plane)
+  const faces: number[] = []
+  const [outer, ...holes] = [brep.segments, ...brep.holes].map((segments) =>
+    writePrismWalls(data, frame, segments, z0, z1, faces),
+  )
+  const bottomLoop = (edges: readonly number[]): number[] =>
+    [...edges].reverse().map((edgeId) => orientedEdge(data, edgeId, false))
+  const topLoop = (edges: readonly number[]): number[] =>
+    edges.map((edgeId) => orientedEdge(data, edgeId, true))
+
+  const origin = segmentStart(brep.segments[0])
+  faces.push(
+    advancedFace(
+      data,
+      bottomLoop(outer.bottomEdges),
+      data.add(
+        `PLANE('',#${data.placement(at(frame, origin, z0), frame([0, 0, -1]), frame([1, 0, 0]))})`,
+      ),
+      holes.map((hole) => bottomLoop(hole.bottomEdges)),
+    ),
+  )
+  faces.push(
+    advancedFace(
+      data,
+      topLoop(outer.topEdges),
+      data.add(
+        `PLANE('',#${data.placement(at(frame, origin, z1), frame([0, 0, 1]), frame([1, 0, 0]))})`,
+      ),
+      holes.map((hole) => topLoop(hole.topEdges)),
+    ),
+  )
+
+  return data.add(`CLOSED_SHELL('',${refList(faces)})`)
+}
+
+const readMeshVertex = (mesh: MeshPack, index: number): Vec3 => [
+  mesh.vertices[index * 3],
+  mesh.vertices[index * 3 + 1],
+  mesh.vertices[index * 3 + 2],
+]
+
+// Fallback for bodies without an exact source: one planar face per triangle, edges shared by vertex pair.
+const writeFacetedShell = function* (
+  data: StepDataSection,
+  mesh: MeshPack,
+): YieldingWork<number | null> {
+  const vertexIds = new Map<string, number>()
+  const edgeIds = new Map<string, { id: number; from: string }>()
+  const vertexKey = (point: Vec3): string => point.map(formatReal).join(',')
+  const vertexId = (point: Vec3): number => {
+    const key = vertexKey(point)
+    const existing = vertexIds.get(key)
+    if (existing !== undefined) {
+      return existing
+    }
+    const id = data.add(`VERTEX_POINT('',#${data.point(point)})`)
+    vertexIds.set(key, id)
+    return id
+  }
+  const edgeRef = (from: Vec3, to: Vec3): number => {
+    const fromKey = vertexKey(from)
+    const toKey = vertexKey(to)
+    const key = fromKey < toKey ? `${fromKey}|${toKey}` : `${toKey}|${fromKey}`
+    let existing = edgeIds.get(key)
+    if (existing === undefined) {
+      const id = data.add(
+        `EDGE_CURVE('',#${vertexId(from)},#${vertexId(to)},#${data.line(from, to)},.T.)`,
+      )
+      existing = { id, from: fromKey }
+      edgeIds.set(key, existing)
+    }
+    return orientedEdge(data, existing.id, existing.from === fromKey)
+  }
+
+  const faces: number[] = []
+  for (let index = 0; index + 2 < mesh.indices.length; index += 3) {
+    if (index > 0 && (index / 3) % FACET_YIELD_TRIANGLES === 0) {
+      yield
+    }
+    const a = readMeshVertex(mesh, mesh.indices[index])
+    const b = readMeshVertex(mesh, mesh.indices[index + 1])
+    const c = readMeshVertex(mesh, mesh.indices[index + 2])
+    const normal = normalize3(cross3(sub3(b, a), sub3(c, a)))
+    const refDirection = normalize3(sub3(b, a))
+    if (normal === null || refDirection === null) {
+      continue
+    }
+    const plane = data.add(`PLANE('',#${data.placement(a, normal, refDirection)})`)
+    faces.push(advancedFace(data, [edgeRef(a, b), edgeRef(b, c), edgeRef(c, a)], plane))
+  }
+  return faces.length === 0 ? null : data.add(`CLOSED_SHELL('',${refList(faces)})`)
+}
+
+const writeShell = function* (
+  data: StepDataSection,
+  solid: StepSolidInput,
+): YieldingWork<number | null> {
+  if (
+    solid.brep !== undefined &&
+    [solid.brep.segments, ...solid.brep.holes].every(isClosedChain) &&
+    solid.brep.z1 > solid.brep.z0
+  ) {
+    return writePrismShell(data, solid.brep)
+  }
+  return yield* writeFacetedShell(data, solid.mesh)
+}
+
+// Yields after every solid (and inside large faceted ones).
+export const writeStepAp214 = function* (
+  solids: readonly StepSolidInput[],
+  options: { productName: string; filename: string },
+): YieldingWork<string> {
+  const data = new StepDataSection()
+  const applicationContext = data.add(`APPLICATION_CONTEXT('automotive design')`)
+  data.add(
+    `APPLICATION_PROTOCOL_DEFINITION('international standard','automotive_design',2000,#${applicationContext})`,
+  )
+  const productContext = data.add(`PRODUCT_CONTEXT('',#${applicationContext},'mechanical')`)
+  const definitionContext = data.add(
+    `PRODUCT_DEFINITION_CONTEXT('part definition',#${applicationContext},'design')`,
+  )
+  const name = formatString(options.productName)
+  const product = data.add(`PRODUCT(${name},${name},'',(#${productContext}))`)
+  const formation = data.add(`PRODUCT_DEFINITION_FORMATION('','',#${product})`)
+  const definition = data.add(`PRODUCT_DEFINITION('design','',#${formation},#${definitionContext})`)
+  const definitionShape = data.add(`PRODUCT_DEFINITION_SHAPE('','',#${definition})`)
+
+  const lengthUnit = data.add('(LENGTH_UNIT() NAMED_UNIT(*) SI_UNIT(.MILLI.,.METRE.))')
+  const angleUnit = data.add('(NAMED_UNIT(*) PLANE_ANGLE_UNIT() SI_UNIT($,.RADIAN.))')
+  const solidAngleUnit = data.add('(NAMED_UNIT(*) SI_UNIT($,.STERADIAN.) SOLID_ANGLE_UNIT())')
+  const uncertainty = data.add(
+    `UNCERTAINTY_MEASURE_WITH_UNIT(LENGTH_MEASURE(1.E-06),#${lengthUnit},'distance_accuracy_value','')`,
+  )
+  const geometricContext = data.add(
+    `(GEOMETRIC_REPRESENTATION_CONTEXT(3) GLOBAL_UNCERTAINTY_ASSIGNED_CONTEXT((#${uncertainty})) GLOBAL_UNIT_ASSIGNED_CONTEXT((#${lengthUnit},#${angleUnit},#${solidAngleUnit})) REPRESENTATION_CONTEXT('',''))`,
+  )
+
+  const items = [data.placement([0, 0, 0], [0, 0, 1], [1, 0, 0])]
+  for (const solid of solids) {
+    const shell = yield* writeShell(data, solid)
+    if (shell !== null) {
+      items.push(data.add(`MANIFOLD_SOLID_BREP(${formatString(solid.bodyId)},#${shell})`))
+    }
+    yield
+  }
+  if (items.length === 1) {
+    throw new Error('Nothing to export: no solid bodies could be written.')
+  }
+
+  const representation = data.add(
+    `ADVANCED_BREP_SHAPE_REPRESENTATION('',${refList(items)},#${geometricContext})`,
+  )
+  data.add(`SHAPE_DEFINITION_REPRESENTATION(#${definitionShape},#${representation})`)
+
+  return [
+    'ISO-10303-21;',
+    'HEADER;',
+    `FILE_DESCRIPTION(('ParaHook export'),'2;1');`,
+    // Empty time stamp keeps repeated exports byte-identical.
+    `FILE_NAME(${formatString(options.filename)},'',(''),(''),'ParaHook','ParaHook','');`,
+    `FILE_SCHEMA(('AUTOMOTIVE_DESIGN { 1 0 10303 214 1 1 1 1 }'));`,
+    'ENDSEC;',
+    'DATA;',
+    data.render(),
+    'ENDSEC;',
+    'END-ISO-10303-21;',
+    '',
+  ].join('\n')
+}
@@ -0,0 +1,102 @@
+import type { MeshPack } from '../cad/cadTypes'
+import type { YieldingWork } from '../cad/yieldingWork'
+
+type Vec3 = [number, number, number]
+
+const STL_HEADER_BYTES = 80
+const STL_TRIANGLE_BYTES = 50
+// Writers yield after this many triangles so a worker export can be cancelled mid-mesh.
+const STL_YIELD_TRIANGLES = 4096
+
+const readVertex = (mesh: MeshPack, index: number): Vec3 => [
+  mesh.vertices[index * 3],
+  mesh.vertices[index * 3 + 1],
+  mesh.vertices[index * 3 + 2],
+]
+
+export const facetNormal = (a: Vec3, b: Vec3, c: Vec3): Vec3 => {
+  const ux = b[0] - a[0]
+  const uy = b[1] - a[1]
+  const uz = b[2] - a[2]
+  const vx = c[0] - a[0]
+  const vy = c[1] - a[1]
+  const vz = c[2] - a[2]
+  const nx = uy * vz - uz * vy
+  const ny = uz * vx - ux * vz
+  const nz = ux * vy - uy * vx
+  const length = Math.hypot(nx, ny, nz)
+  // Degenerate facets get a zero normal; slicers recompute from winding in that case.
+  if (length <= 0 || !Number.isFinite(length)) {
+    return [0, 0, 0]
+  }
+  return [nx / length, ny / length, nz / length]
+}
+
+const forEachTriangle = function* (
+  mesh: MeshPack,
+  visit: (normal: Vec3, a: Vec3, b: Vec3, c: Vec3) => void,
+): YieldingWork<void> {
+  for (let index = 0; index + 2 < mesh.indices.length; index += 3) {
+    if (index > 0 && (index / 3) % STL_YIELD_TRIANGLES === 0) {
+      yield
+    }
+    const a = readVertex(mesh, mesh.indices[index])
+    const b = readVertex(mesh, mesh.indices[index + 1])
+    const c = readVertex(mesh, mesh.indices[index + 2])
+    visit(facetNormal(a, b, c), a, b, c)
+  }
+}
+
+export const countStlTriangles = (mesh: MeshPack): number => Math.floor(mesh.indices.length / 3)
+
+// Coordinates are written as-is; the runtime works in millimetres, which is what slicers assume for STL.
+export const writeBinaryStl = function* (
+  mesh: MeshPack,
+  headerText: string,
+): YieldingWork<Uint8Array> {
+  const triangleCount = countStlTriangles(mesh)
+  const bytes = new Uint8Array(STL_HEADER_BYTES + 4 + triangleCount * STL_TRIANGLE_BYTES)
+  const view = new DataView(bytes.buffer)
+
+  const header = new TextEncoder().encode(headerText).subarray(0, STL_HEADER_BYTES)
+  bytes.set(header, 0)
+  view.setUint32(STL_HEADER_BYTES, triangleCount, true)
+
+  let offset = STL_HEADER_BYTES + 4
+  const writeVec3 = (value: Vec3): void => {
+    view.setFloat32(offset, value[0], true)
+    view.setFloat32(offset + 4, value[1], true)
+    view.setFloat32(offset + 8, value[2], true)
+    offset += 12
+  }
+  yield* forEachTriangle(mesh, (normal, a, b, c) => {
+    writeVec3(normal)
+    writeVec3(a)
+    writeVec3(b)
+    writeVec3(c)
+    view.setUint16(offset, 0, true)
+    offset += 2
+  })
+
+  return bytes
+}
+
+const formatStlNumber = (value: number): string => (Object.is(value, -0) ? 0 : value).toExponential(6)
+
+const formatVec3 = (value: Vec3): string => value.map(formatStlNumber).join(' ')
+
+export const writeAsciiStl = function* (mesh: MeshPack, solidName: string): YieldingWork<string> {
+  const name = solidName.replace(/\s+/g, '_')
+  const lines: string[] = [`solid ${name}`]
+  yield* forEachTriangle(mesh, (normal, a, b, c) => {
+    lines.push(`  facet normal ${formatVec3(normal)}`)
+    lines.push('    outer loop')
+    lines.push(`      vertex ${formatVec3(a)}`)
+    lines.push(`      vertex ${formatVec3(b)}`)
+    lines.push(`      vertex ${formatVec3(c)}`)
+    lines.push('    endloop')
+    lines.push('  endfacet')
+  })
+  lines.push(`endsolid ${name}`)
+  return `${lines.join('\n')}\n`
+}
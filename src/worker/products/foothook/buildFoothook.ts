@@ -1,8 +1,9 @@
 import type { PartArtifact } from '../../../shared/partsTypes'
 import {
-  executeFeatureStack,
+  executeFeatureStackCooperatively,
   isFeatureStackIRPayload,
   type ExecuteFeatureStackResult,
+  type FeatureStackRunOptions,
 } from '../../cad/featureStackRuntime'
 import { createBaseplatePart } from './parts/baseplate'
 import { createHeelKickPart } from './parts/heelKick'
@@ -22,12 +23,13 @@ export const buildFoothookParts = (
   ]
 }
 
-export const runFoothookFeatureStack = (
+export const runFoothookFeatureStack = async (
   profilePatch: Record<string, unknown>,
-): ExecuteFeatureStackResult | null => {
+  options?: FeatureStackRunOptions,
+): Promise<ExecuteFeatureStackResult | null> => {
   const candidate = profilePatch.sp_featureStackIR
   if (!isFeatureStackIRPayload(candidate)) {
     return null
   }
-  return executeFeatureStack(candidate)
+  return executeFeatureStackCooperatively(candidate, options)
 }
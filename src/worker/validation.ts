@@ -1,7 +1,5 @@
-import {
-  parseWorkerInboundMessage,
-  type WorkerInboundMessage,
-} from '../app/protocol'
+import { parseWorkerInboundMessage } from '../app/protocol'
+import type { WorkerInboundMessage } from '../shared/buildTypes'
 
-export const validateWorkerMessage = (message: unknown): WorkerInboundMessage =>
+export const validateWorkerMessage = (message: unknown): WorkerInboundMessage | null =>
   parseWorkerInboundMessage(message)
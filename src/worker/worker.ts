@@ -1,79 +1,44 @@
-import type {
-  AssembleRequest,
-  AssembleResult,
-  BuildProgress,
-  BuildRequest,
-  BuildResult,
-  WorkerError,
+import { WORKER_PROTOCOL_VERSION } from '../app/protocol'
+import {
+  collectPartArtifactTransferables,
+  type WorkerError,
+  type WorkerOutboundMessage,
+  type WorkerReady,
 } from '../shared/buildTypes'
 import {
   assemblePipeline,
   buildPipeline,
+  exportPipeline,
   type ProgressEmitter,
 } from './pipeline/buildPipeline'
+import { validateWorkerMessage } from './validation'
 
 interface WorkerScope {
-  postMessage: (message: BuildResult | AssembleResult | WorkerError | BuildProgress) => void
+  postMessage: (message: WorkerOutboundMessage, transfer?: Transferable[]) => void
   addEventListener: (
     type: 'message',
     listener: (event: MessageEvent<unknown>) => void,
   ) => void
 }
 
-const workerScope = self as unknown as WorkerScope
-let currentSeq = 0
-let isWarm = false
-
-const isRecord = (value: unknown): value is Record<string, unknown> =>
-  typeof value === 'object' && value !== null
-
-const isStringArray = (value: unknown): value is string[] =>
-  Array.isArray(value) && value.every((item) => typeof item === 'string')
-
-const isNumberArray = (value: unknown): value is number[] =>
-  Array.isArray(value) && value.every((item) => typeof item === 'number')
-
-const isBuildRequest = (value: unknown): value is BuildRequest => {
-  if (!isRecord(value)) {
-    return false
-  }
-  if (value.type !== 'build' || typeof value.seq !== 'number') {
-    return false
-  }
-  if (!isRecord(value.payload)) {
-    return false
-  }
-  if (value.changedParamIds !== undefined && !isStringArray(value.changedParamIds)) {
-    return false
-  }
-  if (value.heelKickInstances !== undefined && !isNumberArray(value.heelKickInstances)) {
-    return false
-  }
-  if (value.toeHookInstances !== undefined && !isNumberArray(value.toeHookInstances)) {
-    return false
-  }
-  return (
-    typeof value.payload.width === 'number' &&
-    typeof value.payload.length === 'number' &&
-    typeof value.payload.height === 'number'
-  )
+// Requests of one lane supersede each other; `activeRun` is the one still running, aborted when
+// superseded or cancelled.
+type RequestLane = {
+  currentSeq: number
+  activeRun: { seq: number; controller: AbortController } | null
 }
 
-const isAssembleRequest = (value: unknown): value is AssembleRequest => {
-  if (!isRecord(value)) {
-    return false
-  }
-  if (value.type !== 'assemble' || typeof value.seq !== 'number') {
-    return false
-  }
-  if (!isRecord(value.payload)) {
-    return false
+const workerScope = self as unknown as WorkerScope
+let isWarm = false
+// Builds and assembles share a lane; exports get their own so neither aborts the other.
+const buildLane: RequestLane = { currentSeq: 0, activeRun: null }
+const exportLane: RequestLane = { currentSeq: 0, activeRun: null }
+
+const abortActiveRun = (lane: RequestLane, upToSeq: number): void => {
+  if (lane.activeRun !== null && lane.activeRun.seq <= upToSeq) {
+    lane.activeRun.controller.abort()
+    lane.activeRun = null
   }
-  return (
-    typeof value.payload.width === 'number' &&
-    typeof value.payload.length === 'number' &&
-    typeof value.payload.height === 'number'
-  )
 }
 
 const warmWorker = (): void => {
@@ -84,41 +49,72 @@ const warmWorker = (): void => {
 
 warmWorker()
 
+const ready: WorkerReady = {
+  type: 'worker/ready',
+  protocolVersion: WORKER_PROTOCOL_VERSION,
+}
+workerScope.postMessage(ready)
+
 workerScope.addEventListener('message', async (event: MessageEvent<unknown>) => {
   warmWorker()
 
-  if (!isBuildRequest(event.data) && !isAssembleRequest(event.data)) {
+  const request = validateWorkerMessage(event.data)
+  if (request === null) {
+    return
+  }
+
+  if (request.type === 'build/cancel') {
+    abortActiveRun(buildLane, request.seq)
     return
   }
 
-  if (event.data.seq < currentSeq) {
+  if (request.type === 'export/cancel') {
+    abortActiveRun(exportLane, request.seq)
     return
   }
 
-  const requestSeq = event.data.seq
-  currentSeq = requestSeq
+  const lane = request.type === 'export/request' ? exportLane : buildLane
+  if (request.seq < lane.currentSeq) {
+    return
+  }
+
+  const requestSeq = request.seq
+  lane.currentSeq = requestSeq
+  abortActiveRun(lane, requestSeq)
+  const run = { seq: requestSeq, controller: new AbortController() }
+  lane.activeRun = run
+  const { signal } = run.controller
+  const finishRun = (): void => {
+    if (lane.activeRun === run) {
+      lane.activeRun = null
+    }
+  }
 
   const emitProgress: ProgressEmitter = (message) => {
-    if (requestSeq !== currentSeq) {
+    if (requestSeq !== lane.currentSeq) {
       return
     }
     workerScope.postMessage(message)
   }
 
-  if (event.data.type === 'build') {
+  if (request.type === 'build/request') {
     try {
-      const result = await buildPipeline(event.data, emitProgress)
-      if (requestSeq !== currentSeq) {
+      const result = await buildPipeline(request, emitProgress, signal)
+      finishRun()
+      if (requestSeq !== lane.currentSeq) {
         return
       }
-      workerScope.postMessage(result)
+      // Mesh buffers are rebuilt per request, so they can be handed over instead of copied.
+      workerScope.postMessage(result, collectPartArtifactTransferables(result.parts))
     } catch (error: unknown) {
-      if (requestSeq !== currentSeq) {
+      finishRun()
+      // Cancelled builds already reported their unfinished rows as 'cancelled'.
+      if (requestSeq !== lane.currentSeq || signal.aborted) {
         return
       }
       const message = error instanceof Error ? error.message : 'Build failed.'
       const workerError: WorkerError = {
-        type: 'worker_error',
+        type: 'worker/error',
         seq: requestSeq,
         op: 'build',
         message,
@@ -128,20 +124,47 @@ workerScope.addEventListener('message', async (event: MessageEvent<unknown>) =>
     return
   }
 
+  if (request.type === 'export/request') {
+    try {
+      const result = await exportPipeline(request, emitProgress, signal)
+      finishRun()
+      if (requestSeq !== lane.currentSeq) {
+        return
+      }
+      workerScope.postMessage(result)
+    } catch (error: unknown) {
+      finishRun()
+      if (requestSeq !== lane.currentSeq || signal.aborted) {
+        return
+      }
+      const message = error instanceof Error ? error.message : 'Export failed.'
+      const workerError: WorkerError = {
+        type: 'worker/error',
+        seq: requestSeq,
+        op: 'export',
+        message,
+      }
+      workerScope.postMessage(workerError)
+    }
+    return
+  }
+
   try {
-    const result = await assemblePipeline(event.data, emitProgress)
-    if (requestSeq !== currentSeq) {
+    const result = await assemblePipeline(request, emitProgress, signal)
+    finishRun()
+    if (requestSeq !== lane.currentSeq) {
       return
     }
     workerScope.postMessage(result)
   } catch (error: unknown) {
-    if (requestSeq !== currentSeq) {
+    finishRun()
+    if (requestSeq !== lane.currentSeq || signal.aborted) {
       return
     }
     const message =
       error instanceof Error ? error.message : 'Failed to assemble preview.'
     const workerError: WorkerError = {
-      type: 'worker_error',
+      type: 'worker/error',
       seq: requestSeq,
       op: 'assemble',
       message,